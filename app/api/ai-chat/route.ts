@@ -1,15 +1,54 @@
 // app/api/ai-chat/route.ts
 import { NextRequest, NextResponse } from 'next/server'
-import { GoogleGenerativeAI } from '@google/generative-ai'
+import { chargeUsage } from '../../lib/metering'
+import { requireColabPermission } from '../../lib/supabase-server'
+import { GENERATION_PRESETS, getLLMProviderForColab, toLLMError, type LLMProvider } from '../../lib/llm'
 
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!)
+// canned answers when the provider is temporarily unreachable
+const FALLBACK_CODES = new Set(['unavailable', 'rate_limited', 'upstream'])
+
+function fallbackResponse(message: string) {
+  // Fallback responses for common research questions
+  const fallbackResponses = {
+    methodology: "Consider using mixed-methods research combining quantitative data collection with qualitative insights. Start with a literature review to identify gaps, then design your study methodology accordingly.",
+    collaboration: "Effective research collaboration requires clear communication, defined roles, regular progress updates, and shared documentation. Consider using version control for your research materials.",
+    analysis: "Based on your contributions, I'd recommend organizing your findings into themes, identifying patterns, and discussing implications with your team. Peer review is crucial at this stage.",
+    default: "I'm here to help with your research! Feel free to ask about methodology, data analysis, collaboration strategies, or any other research-related questions."
+  }
+
+  const message_lower = String(message).toLowerCase()
+  if (message_lower.includes('method') || message_lower.includes('approach')) return fallbackResponses.methodology
+  if (message_lower.includes('collaborat') || message_lower.includes('team')) return fallbackResponses.collaboration
+  if (message_lower.includes('analyz') || message_lower.includes('result')) return fallbackResponses.analysis
+  return fallbackResponses.default
+}
 
 export async function POST(request: NextRequest) {
+  const { message, context = {} } = await request.json().catch(() => ({}))
+  if (!message) return NextResponse.json({ error: 'Provide "message"', code: 'bad_request' }, { status: 400 })
+
+  // chats about a colab run on its quota, for roles allowed the copilot
+  if (context?.colabId) {
+    const auth = await requireColabPermission(String(context.colabId), 'copilot.use')
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error, code: auth.status === 401 ? 'unauthenticated' : 'forbidden' }, { status: auth.status })
+    }
+  }
+
+  let provider: LLMProvider
   try {
-    const { message, context } = await request.json()
+    provider = await getLLMProviderForColab(context?.colabId)
+  } catch (e) {
+    const err = toLLMError(e)
+    return NextResponse.json({ error: err.message, code: err.code }, { status: err.status })
+  }
 
-    // Create research-focused system prompt
-    const systemPrompt = `You are an AI research assistant helping with collaborative scientific research. 
+  const meter = await chargeUsage('ai_messages', 1, { colabId: context?.colabId })
+  if (!meter.ok) return meter.response
+  const { charge } = meter
+
+  // Create research-focused system prompt
+  const systemPrompt = `You are an AI research assistant helping with collaborative scientific research. 
     
 Context about the current collaboration:
 - Project: ${context.colab || 'Research Collaboration'}
@@ -26,57 +65,23 @@ You should:
 
 Remember: You're supporting collaborative research, so emphasize teamwork, peer review, and scientific rigor.`
 
-    const model = genAI.getGenerativeModel({ 
-      model: 'gemini-2.0-flash:generateContent',
-      generationConfig: {
-        temperature: 0.7,
-        topK: 40,
-        topP: 0.95,
-        maxOutputTokens: 1024,
-      },
-    })
-
-    const chat = model.startChat({
-      history: [
-        {
-          role: 'user',
-          parts: [{ text: systemPrompt }],
-        },
-        {
-          role: 'model',
-          parts: [{ text: 'I understand. I\'m here to help with your research collaboration. I\'ll provide thoughtful, research-focused guidance to support your team\'s scientific work.' }],
-        },
+  try {
+    const { text } = await provider.generate({
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: String(message) },
       ],
+      params: GENERATION_PRESETS.chat,
     })
-
-    const result = await chat.sendMessage(message)
-    const response = await result.response
-    const text = response.text()
-
-    return NextResponse.json({ response: text })
-
-  } catch (error) {
-    console.error('Gemini AI Error:', error)
-    
-    // Fallback responses for common research questions
-    const fallbackResponses = {
-      methodology: "Consider using mixed-methods research combining quantitative data collection with qualitative insights. Start with a literature review to identify gaps, then design your study methodology accordingly.",
-      collaboration: "Effective research collaboration requires clear communication, defined roles, regular progress updates, and shared documentation. Consider using version control for your research materials.",
-      analysis: "Based on your contributions, I'd recommend organizing your findings into themes, identifying patterns, and discussing implications with your team. Peer review is crucial at this stage.",
-      default: "I'm here to help with your research! Feel free to ask about methodology, data analysis, collaboration strategies, or any other research-related questions."
+    return NextResponse.json({ response: text, usage: charge.usage })
+  } catch (e) {
+    const err = toLLMError(e)
+    console.error(`${provider.name} AI Error:`, err)
+    await charge.refund()
+    if (!FALLBACK_CODES.has(err.code)) {
+      return NextResponse.json({ error: err.message, code: err.code, usage: charge.usage }, { status: err.status })
     }
-
-    const message_lower = (await request.json()).message?.toLowerCase() || ''
-    let fallback = fallbackResponses.default
-
-    if (message_lower.includes('method') || message_lower.includes('approach')) {
-      fallback = fallbackResponses.methodology
-    } else if (message_lower.includes('collaborat') || message_lower.includes('team')) {
-      fallback = fallbackResponses.collaboration
-    } else if (message_lower.includes('analyz') || message_lower.includes('result')) {
-      fallback = fallbackResponses.analysis
-    }
-
-    return NextResponse.json({ response: fallback })
+    // canned fallbacks are free
+    return NextResponse.json({ response: fallbackResponse(message), fallback: true, code: err.code, usage: charge.usage })
   }
-}
\ No newline at end of file
+}
@@ -1,5 +1,19 @@
 // app/api/ai/route.ts
 import { NextRequest, NextResponse } from 'next/server'
+import { chargeUsage, type UsageCharge } from '../../lib/metering'
+import type { UsageKind } from '../../lib/plans'
+import { sseEvent, SSE_HEADERS } from '../../lib/sse'
+import { requireColabPermission } from '../../lib/supabase-server'
+import { retrieveContext } from '../../lib/search/context'
+import type { ContextSource } from '../../types/search-types'
+import {
+  GENERATION_PRESETS, getLLMProviderForColab, toLLMError,
+  type ChatMessage, type LLMError, type LLMProvider,
+} from '../../lib/llm'
+import {
+  groundingMessages, parseCitations, readGroundingPapers, MAX_GROUNDING_SOURCES,
+  type GroundedSource,
+} from '../../lib/llm/grounding'
 
 export const runtime = 'nodejs'
 export const dynamic = 'force-dynamic'
@@ -14,40 +28,161 @@ function cleanNoAsterisk(s: string) {
     .trim()
 }
 
-export async function POST(req: NextRequest) {
+// copilot literature analyses draw from the analyses quota, everything else from ai_messages
+const AI_USAGE_KINDS: UsageKind[] = ['ai_messages', 'analyses']
+
+const errorResponse = (e: LLMError) =>
+  NextResponse.json({ error: e.message, code: e.code }, { status: e.status })
+
+/** The final answer, with the colab sources it was given; grounded answers also carry their validated citations */
+function answer(raw: string, sources: GroundedSource[] | null, context: ContextSource[] | null) {
+  const text = cleanNoAsterisk(raw)
+  const base = context ? { text, context } : { text }
+  if (!sources) return base
+  const { segments, report } = parseCitations(text, sources.length)
+  return { ...base, segments, sources, grounding: report }
+}
+
+/**
+ * Stream the provider's answer as SSE:
+ *   event: delta  { text }                raw text as it arrives
+ *   event: done   { text, usage }         full cleaned answer (plus the grounded fields, see POST)
+ *   event: error  { error, code, usage }  failure (partial text stays charged)
+ * Closing the request aborts the upstream call. The charge is refunded
+ * unless at least some text reached the client.
+ */
+async function streamAnswer(
+  req: NextRequest, provider: LLMProvider, messages: ChatMessage[], charge: UsageCharge,
+  sources: GroundedSource[] | null, context: ContextSource[] | null
+) {
+  const upstream = new AbortController()
+  req.signal.addEventListener('abort', () => upstream.abort())
+
+  const deltas = provider.stream({ messages, params: GENERATION_PRESETS.copilot, signal: upstream.signal })
+  // pull the first chunk here so connection/auth failures still get a JSON status
+  let first: IteratorResult<string>
   try {
-    const { prompt, readme = '', recent = [] } = await req.json()
-    const key = process.env.GEMINI_API_KEY
-    if (!key) return NextResponse.json({ error: 'Missing GEMINI_API_KEY' }, { status: 500 })
-
-    const contents = [
-      { role: 'user', parts: [{ text: `README:\n${readme.slice(0,6000)}` }] },
-      { role: 'user', parts: [{ text: recent.length ? `Recent contributions:\n${recent.map((r: any)=>`- ${r}`).join('\n')}` : '' }] },
-      { role: 'user', parts: [{ text: prompt }] }
-    ]
-
-    const resp = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${key}`,
-      {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          contents,
-          generationConfig: { temperature: 0.3, maxOutputTokens: 2048 }
-        })
+    first = await deltas.next()
+  } catch (e) {
+    await charge.refund()
+    return errorResponse(toLLMError(e))
+  }
+
+  let delivered = ''
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        try { controller.enqueue(sseEvent(event, data)) } catch { /* client went away */ }
+      }
+      try {
+        for (let step = first; !step.done; step = await deltas.next()) {
+          delivered += step.value
+          send('delta', { text: step.value })
+        }
+        if (!delivered) {
+          await charge.refund()
+          send('error', { error: 'Empty response', code: 'upstream', usage: charge.usage })
+        } else {
+          send('done', { ...answer(delivered, sources, context), usage: charge.usage })
+        }
+      } catch (e) {
+        // cancelled or failed mid-stream: only a partially delivered answer is billed
+        if (!delivered) await charge.refund()
+        const err = toLLMError(e)
+        if (!upstream.signal.aborted) send('error', { error: err.message, code: err.code, usage: charge.usage })
+      } finally {
+        try { controller.close() } catch { /* already closed */ }
       }
-    )
+    },
+    cancel() {
+      upstream.abort()
+    },
+  })
+
+  return new Response(stream, { headers: SSE_HEADERS })
+}
+
+/**
+ * POST { prompt, readme?, recent?, usageKind?, colabId?, stream?, mode?, papers? }
+ * → { text, context?, usage }, or an SSE stream when `stream: true` (see streamAnswer).
+ * With a `colabId` (the caller's role needs `copilot.use` there) the context is retrieved from the
+ * colab's README, notes, files, bibliography and the caller's memories within
+ * COPILOT_CONTEXT_TOKENS; `context` lists the documents used. `readme` and
+ * `recent` are the fallback when there is no colab or retrieval fails.
+ * `mode: 'grounded'` answers from `papers` (LitItem-shaped, up to
+ * MAX_GROUNDING_SOURCES), numbered in order and cited as [n]; the answer then
+ * also has { segments, sources, grounding: { cited, invalid, ungrounded } } with
+ * citations of unknown numbers removed from `segments`.
+ * The model comes from the colab's `ai_provider` or LLM_PROVIDER.
+ * Errors: { error, code } (see LLMError).
+ */
+export async function POST(req: NextRequest) {
+  const body = await req.json().catch(() => ({}))
+  const { prompt, readme = '', recent = [] } = body
+  const kind: UsageKind = AI_USAGE_KINDS.includes(body?.usageKind) ? body.usageKind : 'ai_messages'
+  if (!String(prompt || '').trim()) return NextResponse.json({ error: 'Provide "prompt"', code: 'bad_request' }, { status: 400 })
 
-    const data = await resp.json()
-    if (!resp.ok) {
-      return NextResponse.json({ error: data?.error?.message || 'Gemini error', extra: data }, { status: resp.status })
+  let sources: GroundedSource[] | null = null
+  let grounding: ChatMessage[] = []
+  if (body?.mode === 'grounded') {
+    if (!Array.isArray(body.papers) || body.papers.length > MAX_GROUNDING_SOURCES) {
+      return NextResponse.json({ error: `Provide "papers" (up to ${MAX_GROUNDING_SOURCES}) for a grounded answer`, code: 'bad_request' }, { status: 400 })
     }
+    const read = readGroundingPapers(body.papers)
+    if (!read.sources.length) return NextResponse.json({ error: 'No paper in "papers" has a title', code: 'bad_request' }, { status: 400 })
+    sources = read.sources
+    grounding = groundingMessages(read.sources, read.abstracts)
+  } else if (body?.mode !== undefined && body.mode !== 'default') {
+    return NextResponse.json({ error: `Unknown mode "${body.mode}"`, code: 'bad_request' }, { status: 400 })
+  }
+
+  // a colab's copilot (and its quota) is for roles with copilot.use; its content is retrieved for them
+  let userId: string | null = null
+  if (body?.colabId) {
+    const auth = await requireColabPermission(String(body.colabId), 'copilot.use')
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error, code: auth.status === 401 ? 'unauthenticated' : 'forbidden' }, { status: auth.status })
+    }
+    if (!sources) userId = auth.user.id
+  }
+
+  let provider: LLMProvider
+  try {
+    provider = await getLLMProviderForColab(body?.colabId)
+  } catch (e) {
+    return errorResponse(toLLMError(e))
+  }
 
-    const raw = data?.candidates?.[0]?.content?.parts?.map((p: any) => p.text).join('') || ''
-    const text = cleanNoAsterisk(raw)
+  const meter = await chargeUsage(kind, 1, { colabId: body?.colabId })
+  if (!meter.ok) return meter.response
+  const { charge } = meter
 
-    return NextResponse.json({ text })
-  } catch (e: any) {
-    return NextResponse.json({ error: e.message }, { status: 500 })
+  let retrieved: Awaited<ReturnType<typeof retrieveContext>> | null = null
+  if (userId) {
+    try {
+      retrieved = await retrieveContext(body.colabId, userId, String(prompt))
+    } catch (e) {
+      console.error('copilot retrieval failed', e)
+    }
+  }
+  const context = retrieved ? retrieved.sources : null
+
+  const messages: ChatMessage[] = [
+    ...grounding,
+    ...(retrieved?.messages.length ? retrieved.messages : [
+      { role: 'user' as const, content: `README:\n${String(readme).slice(0,6000)}` },
+      { role: 'user' as const, content: recent.length ? `Recent contributions:\n${recent.map((r: any)=>`- ${r}`).join('\n')}` : '' },
+    ]),
+    { role: 'user', content: prompt },
+  ]
+
+  if (body?.stream === true) return streamAnswer(req, provider, messages, charge, sources, context)
+
+  try {
+    const { text } = await provider.generate({ messages, params: GENERATION_PRESETS.copilot })
+    return NextResponse.json({ ...answer(text, sources, context), usage: charge.usage })
+  } catch (e) {
+    await charge.refund()
+    return errorResponse(toLLMError(e))
   }
 }
@@ -1,18 +1,39 @@
 import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
 import { cookies } from 'next/headers'
 import { NextRequest, NextResponse } from 'next/server'
+import { createAdminSupabase } from '../../../lib/supabase-admin'
+import { acceptInvitation, invitePath } from '../../../lib/invitations'
+
+// only same-site paths: "//host" and "/\host" would leave the site, so the
+// path must resolve to our own origin and may not contain a backslash
+const safePath = (p: string | null, origin: string) => {
+  if (!p || !p.startsWith('/') || p.startsWith('//') || p.includes('\\')) return null
+  const url = new URL(p, origin)
+  return url.origin === origin ? `${url.pathname}${url.search}${url.hash}` : null
+}
 
 export async function GET(request: NextRequest) {
   const requestUrl = new URL(request.url)
   const code = requestUrl.searchParams.get('code')
+  const invite = requestUrl.searchParams.get('invite')
 
   if (code) {
     const cookieStore = cookies()
     const supabase = createRouteHandlerClient({ cookies: () => cookieStore })
-    await supabase.auth.exchangeCodeForSession(code)
+    const { data } = await supabase.auth.exchangeCodeForSession(code)
+
+    // signed up from an invitation: join the colab and land in it; on failure the invite page explains why
+    if (invite && data?.user) {
+      try {
+        const { slug } = await acceptInvitation(createAdminSupabase(), invite, data.user)
+        return NextResponse.redirect(new URL(`/colab/${slug}`, request.url))
+      } catch {
+        return NextResponse.redirect(new URL(invitePath(invite), request.url))
+      }
+    }
   }
 
   // Redirect to dashboard or the originally requested page
-  const redirectTo = requestUrl.searchParams.get('redirectTo') || '/dashboard'
+  const redirectTo = safePath(requestUrl.searchParams.get('redirectTo'), requestUrl.origin) || (invite ? invitePath(invite) : '/dashboard')
   return NextResponse.redirect(new URL(redirectTo, request.url))
-}
\ No newline at end of file
+}
@@ -0,0 +1,35 @@
+// app/api/billing/cancel/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabase, getRequestUser } from '../../../lib/supabase-server'
+import { BillingError, getActiveSubscription, getBillingProvider, getOrgSubscription } from '../../../lib/billing'
+import { requireOrgAccess } from '../../../lib/orgs'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST { immediately?: boolean, orgId? } — cancels at period end unless told
+ * otherwise. With orgId (org admins only) cancels the org's team seats.
+ */
+export async function POST(req: NextRequest) {
+  const supabase = createServerSupabase()
+  const user = await getRequestUser(supabase)
+  if (!user) return NextResponse.json({ error: 'Sign in required' }, { status: 401 })
+
+  const body = await req.json().catch(() => ({}))
+  try {
+    let current
+    if (body?.orgId) {
+      const auth = await requireOrgAccess(body.orgId, 'admin')
+      if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+      current = await getOrgSubscription(auth.admin, body.orgId)
+    } else {
+      current = await getActiveSubscription(supabase, user.id)
+    }
+    if (!current) return NextResponse.json({ error: 'No active subscription' }, { status: 404 })
+    await getBillingProvider().cancelSubscription(current.id, { immediately: !!body?.immediately })
+    return NextResponse.json({ cancelled: true })
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof BillingError ? e.status : 500 })
+  }
+}
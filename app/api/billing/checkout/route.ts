@@ -0,0 +1,71 @@
+// app/api/billing/checkout/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabase, getRequestUser } from '../../../lib/supabase-server'
+import {
+  BillingError, getActiveSubscription, getBillingProvider, getOrgSubscription,
+  type PaidTier, type SubscriptionRow,
+} from '../../../lib/billing'
+import { requireOrgAccess, seatsInUse } from '../../../lib/orgs'
+import { PLAN_PRICES } from '../../../lib/plans'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST { tier: 'pro' | 'team', quantity?, orgId? }
+ *  - no subscription yet → { url } of a hosted checkout to redirect to
+ *  - existing subscription → prorated plan change, { changed: true }
+ * With orgId (org admins only) this buys/changes the org's team seats.
+ * The plan itself only changes once the provider's webhook arrives.
+ */
+export async function POST(req: NextRequest) {
+  const supabase = createServerSupabase()
+  const user = await getRequestUser(supabase)
+  if (!user) return NextResponse.json({ error: 'Sign in required' }, { status: 401 })
+
+  const body = await req.json().catch(() => ({}))
+  const tier = body?.tier as PaidTier
+  if (!(tier in PLAN_PRICES)) return NextResponse.json({ error: 'Unknown plan' }, { status: 400 })
+  const quantity = Math.max(1, Math.floor(Number(body?.quantity) || 1))
+  const orgId: string | undefined = body?.orgId || undefined
+
+  try {
+    let current: SubscriptionRow | null
+    if (orgId) {
+      if (tier !== 'team') return NextResponse.json({ error: 'Organizations subscribe to the team plan' }, { status: 400 })
+      const auth = await requireOrgAccess(orgId, 'admin')
+      if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+      const taken = await seatsInUse(auth.admin, orgId)
+      if (quantity < taken) {
+        return NextResponse.json({ error: `${taken} seats are in use; remove members or invitations first` }, { status: 409 })
+      }
+      current = await getOrgSubscription(auth.admin, orgId)
+    } else {
+      current = await getActiveSubscription(supabase, user.id)
+    }
+
+    const provider = getBillingProvider()
+    if (current) {
+      if (current.tier === tier && current.quantity === quantity && !current.cancel_at_period_end) {
+        return NextResponse.json({ error: 'You are already on this plan' }, { status: 409 })
+      }
+      await provider.changePlan({ subscriptionId: current.id, tier, quantity })
+      return NextResponse.json({ changed: true })
+    }
+
+    const origin = req.nextUrl.origin
+    const returnTo = orgId ? `/orgs/${orgId}` : '/pricing'
+    const session = await provider.createCheckoutSession({
+      userId: user.id,
+      email: user.email,
+      tier,
+      quantity,
+      orgId,
+      successUrl: `${origin}${returnTo}?checkout=success`,
+      cancelUrl: `${origin}${returnTo}?checkout=cancelled`,
+    })
+    return NextResponse.json({ url: session.url })
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof BillingError ? e.status : 500 })
+  }
+}
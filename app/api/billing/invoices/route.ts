@@ -0,0 +1,26 @@
+// app/api/billing/invoices/route.ts
+import { NextResponse } from 'next/server'
+import { createServerSupabase, getRequestUser } from '../../../lib/supabase-server'
+import { getActiveSubscription } from '../../../lib/billing'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/** GET → { subscription, invoices } for the signed-in user */
+export async function GET() {
+  const supabase = createServerSupabase()
+  const user = await getRequestUser(supabase)
+  if (!user) return NextResponse.json({ error: 'Sign in required' }, { status: 401 })
+
+  const [subscription, { data: invoices, error }] = await Promise.all([
+    getActiveSubscription(supabase, user.id),
+    supabase
+      .from('billing_invoices')
+      .select('id, amount, currency, status, description, hosted_url, period_start, period_end, created_at')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .limit(50),
+  ])
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+  return NextResponse.json({ subscription, invoices: invoices || [] })
+}
@@ -0,0 +1,24 @@
+// app/api/billing/mock/checkout/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabase, getRequestUser } from '../../../../lib/supabase-server'
+import { BillingError, getMockBillingProvider } from '../../../../lib/billing'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/** Stand-in for a hosted checkout page: "pays" the caller's session and returns to the app */
+export async function GET(req: NextRequest) {
+  try {
+    const provider = getMockBillingProvider()
+    if (!provider) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+
+    const user = await getRequestUser(createServerSupabase())
+    if (!user) return NextResponse.json({ error: 'Sign in required' }, { status: 401 })
+
+    const sessionId = req.nextUrl.searchParams.get('session') || ''
+    const session = await provider.completeCheckout(sessionId, user.id)
+    return NextResponse.redirect(session.successUrl)
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof BillingError ? e.status : 500 })
+  }
+}
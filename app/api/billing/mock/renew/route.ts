@@ -0,0 +1,26 @@
+// app/api/billing/mock/renew/route.ts
+import { NextResponse } from 'next/server'
+import { createServerSupabase, getRequestUser } from '../../../../lib/supabase-server'
+import { BillingError, getActiveSubscription, getMockBillingProvider } from '../../../../lib/billing'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/** Mock-only clock: end the caller's current period (renews, or completes a pending cancel) */
+export async function POST() {
+  try {
+    const provider = getMockBillingProvider()
+    if (!provider) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+
+    const supabase = createServerSupabase()
+    const user = await getRequestUser(supabase)
+    if (!user) return NextResponse.json({ error: 'Sign in required' }, { status: 401 })
+
+    const current = await getActiveSubscription(supabase, user.id)
+    if (!current) return NextResponse.json({ error: 'No active subscription' }, { status: 404 })
+    await provider.advancePeriod(current.id)
+    return NextResponse.json({ advanced: true })
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof BillingError ? e.status : 500 })
+  }
+}
@@ -0,0 +1,28 @@
+// app/api/billing/webhook/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminSupabase } from '../../../lib/supabase-admin'
+import { applyBillingEvent, BillingError, getBillingProvider } from '../../../lib/billing'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/** Signed provider events → billing_subscriptions / billing_invoices / user_plans */
+export async function POST(req: NextRequest) {
+  const raw = await req.text()
+
+  let provider, event
+  try {
+    provider = getBillingProvider()
+    event = await provider.parseWebhook(raw, req.headers)
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof BillingError ? e.status : 400 })
+  }
+
+  try {
+    const { duplicate } = await applyBillingEvent(createAdminSupabase(), provider.name, event)
+    return NextResponse.json({ received: true, duplicate })
+  } catch (e: any) {
+    console.error('Billing webhook failed:', e)
+    return NextResponse.json({ error: e.message }, { status: 500 })
+  }
+}
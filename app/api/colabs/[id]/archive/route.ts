@@ -0,0 +1,35 @@
+// app/api/colabs/[id]/archive/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabase, getRequestUser } from '../../../../lib/supabase-server'
+import { createAdminSupabase } from '../../../../lib/supabase-admin'
+import { ColabLifecycleError, archiveColab, unarchiveColab } from '../../../../lib/colab-lifecycle'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/** POST — owner only: make the colab read-only → { archived_at } */
+export async function POST(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const user = await getRequestUser(createServerSupabase())
+  if (!user) return NextResponse.json({ error: 'Sign in required' }, { status: 401 })
+
+  try {
+    return NextResponse.json(await archiveColab(createAdminSupabase(), id, user.id))
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof ColabLifecycleError ? e.status : 500 })
+  }
+}
+
+/** DELETE — owner only: unarchive → { archived_at: null } */
+export async function DELETE(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const user = await getRequestUser(createServerSupabase())
+  if (!user) return NextResponse.json({ error: 'Sign in required' }, { status: 401 })
+
+  try {
+    await unarchiveColab(createAdminSupabase(), id, user.id)
+    return NextResponse.json({ archived_at: null })
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof ColabLifecycleError ? e.status : 500 })
+  }
+}
@@ -0,0 +1,21 @@
+// app/api/colabs/[id]/commits/[commitId]/restore/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { requireColabPermission } from '../../../../../../lib/supabase-server'
+import { restoreCommit, RepoError } from '../../../../../../lib/files/repository'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/** Roll the file tree back to an earlier commit by recording a new commit */
+export async function POST(_req: NextRequest, { params }: { params: Promise<{ id: string; commitId: string }> }) {
+  const { id, commitId } = await params
+  const auth = await requireColabPermission(id, 'files.upload')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  try {
+    const commit = await restoreCommit(auth.supabase, id, auth.user.id, commitId)
+    return NextResponse.json({ commit }, { status: 201 })
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof RepoError ? e.status : 500 })
+  }
+}
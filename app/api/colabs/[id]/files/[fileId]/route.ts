@@ -0,0 +1,36 @@
+// app/api/colabs/[id]/files/[fileId]/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { requireColabAccess } from '../../../../../lib/supabase-server'
+import { getStorageAdapter } from '../../../../../lib/files/storage'
+import { getFileVersion, RepoError } from '../../../../../lib/files/repository'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/** ASCII fallback for old clients plus the exact UTF-8 name (RFC 6266) */
+function contentDisposition(name: string) {
+  const ascii = name.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_')
+  const utf8 = encodeURIComponent(name).replace(/['()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)
+  return `attachment; filename="${ascii}"; filename*=UTF-8''${utf8}`
+}
+
+/** Download the stored bytes of one file version */
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string; fileId: string }> }) {
+  const { id, fileId } = await params
+  const auth = await requireColabAccess(id, 'read')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  try {
+    const file = await getFileVersion(auth.supabase, id, fileId)
+    const data = await getStorageAdapter(auth.supabase).get(file.storage_key)
+    return new NextResponse(data, {
+      headers: {
+        'content-type': file.type || 'application/octet-stream',
+        'content-length': String(data.byteLength),
+        'content-disposition': contentDisposition(file.name),
+      },
+    })
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof RepoError ? e.status : 500 })
+  }
+}
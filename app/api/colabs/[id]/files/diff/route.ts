@@ -0,0 +1,26 @@
+// app/api/colabs/[id]/files/diff/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { requireColabAccess } from '../../../../../lib/supabase-server'
+import { getStorageAdapter } from '../../../../../lib/files/storage'
+import { diffVersions, RepoError } from '../../../../../lib/files/repository'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/** GET ?to=<fileId>&from=<fileId?> → line diff for text files */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const auth = await requireColabAccess(id, 'read')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  const to = req.nextUrl.searchParams.get('to')
+  const from = req.nextUrl.searchParams.get('from')
+  if (!to) return NextResponse.json({ error: 'Provide "to"' }, { status: 400 })
+
+  try {
+    const diff = await diffVersions(auth.supabase, getStorageAdapter(auth.supabase), id, to, from)
+    return NextResponse.json({ diff })
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof RepoError ? e.status : 500 })
+  }
+}
@@ -0,0 +1,24 @@
+// app/api/colabs/[id]/files/history/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { requireColabAccess } from '../../../../../lib/supabase-server'
+import { fileHistory, RepoError } from '../../../../../lib/files/repository'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/** GET ?path=<file path> → { versions } newest first */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const auth = await requireColabAccess(id, 'read')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  const path = req.nextUrl.searchParams.get('path')
+  if (!path) return NextResponse.json({ error: 'Provide "path"' }, { status: 400 })
+
+  try {
+    const versions = await fileHistory(auth.supabase, id, path)
+    return NextResponse.json({ versions })
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof RepoError ? e.status : 500 })
+  }
+}
@@ -0,0 +1,74 @@
+// app/api/colabs/[id]/files/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { requireColabAccess, requireColabPermission } from '../../../../lib/supabase-server'
+import { getStorageAdapter } from '../../../../lib/files/storage'
+import { commitUploads, listCommits, resolveTree, RepoError, type UploadInput } from '../../../../lib/files/repository'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const MAX_UPLOAD_BYTES = 50 * 1024 * 1024
+
+/**
+ * GET ?commit=<id>  → { tree, commits } (tree at HEAD when commit omitted)
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const auth = await requireColabAccess(id, 'read')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  try {
+    const commitId = req.nextUrl.searchParams.get('commit')
+    const [tree, commits] = await Promise.all([
+      resolveTree(auth.supabase, id, commitId),
+      listCommits(auth.supabase, id),
+    ])
+    return NextResponse.json({ tree, commits })
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof RepoError ? e.status : 500 })
+  }
+}
+
+/**
+ * POST multipart/form-data:
+ *  - message: commit message (required)
+ *  - files: one or more File entries
+ *  - folder: optional directory prefix for every uploaded file
+ *  - delete: optional repeated paths to remove in the same commit
+ */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const auth = await requireColabPermission(id, 'files.upload')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  try {
+    const form = await req.formData()
+    const message = String(form.get('message') || '')
+    const folder = String(form.get('folder') || '').trim().replace(/^\/+|\/+$/g, '')
+    const deletions = form.getAll('delete').map(String).filter(Boolean)
+
+    const files: UploadInput[] = []
+    for (const entry of form.getAll('files')) {
+      if (typeof entry === 'string') continue
+      if (entry.size > MAX_UPLOAD_BYTES) {
+        return NextResponse.json({ error: `${entry.name} exceeds the 50 MB upload limit` }, { status: 413 })
+      }
+      files.push({
+        path: folder ? `${folder}/${entry.name}` : entry.name,
+        type: entry.type,
+        data: new Uint8Array(await entry.arrayBuffer()),
+      })
+    }
+
+    const commit = await commitUploads(auth.supabase, getStorageAdapter(auth.supabase), {
+      labId: id,
+      userId: auth.user.id,
+      message,
+      files,
+      deletions,
+    })
+    return NextResponse.json({ commit }, { status: 201 })
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof RepoError ? e.status : 500 })
+  }
+}
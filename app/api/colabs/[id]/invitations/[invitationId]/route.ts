@@ -0,0 +1,23 @@
+// app/api/colabs/[id]/invitations/[invitationId]/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { requireColabAccess } from '../../../../../lib/supabase-server'
+import { createAdminSupabase } from '../../../../../lib/supabase-admin'
+import { canModerate } from '../../../../../lib/join-requests'
+import { InvitationError, revokeInvitation } from '../../../../../lib/invitations'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/** DELETE — revoke an unused invitation → { invitation } */
+export async function DELETE(_req: NextRequest, { params }: { params: Promise<{ id: string; invitationId: string }> }) {
+  const { id, invitationId } = await params
+  const auth = await requireColabAccess(id, 'read')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+  if (!canModerate(auth.access)) return NextResponse.json({ error: 'Your role in this colab cannot revoke invitations' }, { status: 403 })
+
+  try {
+    return NextResponse.json({ invitation: await revokeInvitation(createAdminSupabase(), id, invitationId, auth.user.id) })
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof InvitationError ? e.status : 500 })
+  }
+}
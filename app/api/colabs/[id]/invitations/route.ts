@@ -0,0 +1,44 @@
+// app/api/colabs/[id]/invitations/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { requireColabAccess } from '../../../../lib/supabase-server'
+import { createAdminSupabase } from '../../../../lib/supabase-admin'
+import { canModerate } from '../../../../lib/join-requests'
+import { emailConfigured } from '../../../../lib/email'
+import { InvitationError, createInvitation, listInvitations } from '../../../../lib/invitations'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/** GET → { invitations, emailEnabled } — owners and moderators only */
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const auth = await requireColabAccess(id, 'read')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+  if (!canModerate(auth.access)) return NextResponse.json({ error: 'Your role in this colab cannot manage invitations' }, { status: 403 })
+
+  try {
+    return NextResponse.json({ invitations: await listInvitations(createAdminSupabase(), id), emailEnabled: emailConfigured() })
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof InvitationError ? e.status : 500 })
+  }
+}
+
+/**
+ * POST { email?, role, expiresInDays? } → { invitation, link }
+ * Without an email the invitation is a shareable link. `link` is only ever
+ * returned here; `invitation.emailed` says whether it was mailed.
+ */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const auth = await requireColabAccess(id, 'read')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+  if (!canModerate(auth.access)) return NextResponse.json({ error: 'Your role in this colab cannot invite people' }, { status: 403 })
+
+  try {
+    const body = await req.json().catch(() => ({}))
+    const result = await createInvitation(createAdminSupabase(), id, auth.user, body || {}, req.nextUrl.origin)
+    return NextResponse.json(result, { status: 201 })
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof InvitationError ? e.status : 500 })
+  }
+}
@@ -0,0 +1,29 @@
+// app/api/colabs/[id]/join-requests/[userId]/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { requireColabAccess } from '../../../../../lib/supabase-server'
+import { createAdminSupabase } from '../../../../../lib/supabase-admin'
+import { JoinRequestError, canModerate, decideRequest } from '../../../../../lib/join-requests'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * PATCH { decision: 'approve' | 'decline', message? } → { request }
+ * Owners and moderators settle a pending request; the applicant is notified.
+ */
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string; userId: string }> }) {
+  const { id, userId } = await params
+  const auth = await requireColabAccess(id, 'read')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+  if (!canModerate(auth.access)) {
+    return NextResponse.json({ error: 'Your role in this colab cannot review join requests' }, { status: 403 })
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}))
+    const request = await decideRequest(createAdminSupabase(), id, userId, auth.user.id, body?.decision, body?.message)
+    return NextResponse.json({ request })
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof JoinRequestError ? e.status : 500 })
+  }
+}
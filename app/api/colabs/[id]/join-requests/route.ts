@@ -0,0 +1,63 @@
+// app/api/colabs/[id]/join-requests/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { requireColabAccess } from '../../../../lib/supabase-server'
+import { createAdminSupabase } from '../../../../lib/supabase-admin'
+import {
+  JoinRequestError, canModerate, getOwnRequest, listPendingRequests, requestToJoin, withdrawRequest
+} from '../../../../lib/join-requests'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET → { own, requests, canModerate }
+ * `own` is the caller's membership row (null when none). Members see who is
+ * waiting; only owners and moderators see the applicants' messages.
+ */
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const auth = await requireColabAccess(id, 'read')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  try {
+    const admin = createAdminSupabase()
+    const moderator = canModerate(auth.access)
+    const [own, pending] = await Promise.all([
+      getOwnRequest(admin, id, auth.user.id),
+      auth.access.isMember ? listPendingRequests(admin, id) : Promise.resolve([]),
+    ])
+    const requests = moderator ? pending : pending.map(r => ({ ...r, request_message: null }))
+    return NextResponse.json({ own, requests, canModerate: moderator })
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof JoinRequestError ? e.status : 500 })
+  }
+}
+
+/** POST { message? } — ask to join a public colab that takes requests → { request } */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const auth = await requireColabAccess(id, 'read')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  try {
+    const body = await req.json().catch(() => ({}))
+    const request = await requestToJoin(createAdminSupabase(), id, auth.user.id, body?.message)
+    return NextResponse.json({ request }, { status: 201 })
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof JoinRequestError ? e.status : 500 })
+  }
+}
+
+/** DELETE — withdraw the caller's pending request */
+export async function DELETE(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const auth = await requireColabAccess(id, 'read')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  try {
+    await withdrawRequest(createAdminSupabase(), id, auth.user.id)
+    return NextResponse.json({ ok: true })
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof JoinRequestError ? e.status : 500 })
+  }
+}
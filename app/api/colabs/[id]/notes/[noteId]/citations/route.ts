@@ -0,0 +1,55 @@
+// app/api/colabs/[id]/notes/[noteId]/citations/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { requireColabAccess } from '../../../../../../lib/supabase-server'
+import {
+  addReference, CitationError, citeNote, getCitableNote, getReference, requireIdentifier, uncite,
+} from '../../../../../../lib/citations/repository'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+type Params = { params: Promise<{ id: string; noteId: string }> }
+
+// the note's author may always cite on it; anyone else needs notes.create
+async function authorize(id: string, noteId: string) {
+  const auth = await requireColabAccess(id, 'read')
+  if (!auth.ok) return auth
+  const canWrite = auth.access.permissions.includes('notes.create')
+  const note = await getCitableNote(auth.supabase, id, noteId, auth.user.id, canWrite)
+  return { ...auth, note }
+}
+
+/**
+ * POST { referenceId } | { identifier, metadata? } → { reference }
+ * Cites a work already in the bibliography, or adds it there first.
+ */
+export async function POST(req: NextRequest, { params }: Params) {
+  const { id, noteId } = await params
+  try {
+    const auth = await authorize(id, noteId)
+    if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+    const body = await req.json().catch(() => ({}))
+    const reference = body?.referenceId
+      ? await getReference(auth.supabase, id, String(body.referenceId))
+      : await addReference(auth.supabase, id, auth.user.id, requireIdentifier(body?.identifier), body?.metadata)
+    await citeNote(auth.supabase, id, auth.note.id, reference.id, auth.user.id)
+    return NextResponse.json({ reference })
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof CitationError ? e.status : 500 })
+  }
+}
+
+/** DELETE ?referenceId= → removes the citation; the work stays in the bibliography */
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const { id, noteId } = await params
+  try {
+    const auth = await authorize(id, noteId)
+    if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+    await uncite(auth.supabase, auth.note.id, req.nextUrl.searchParams.get('referenceId') || '')
+    return NextResponse.json({ removed: true })
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof CitationError ? e.status : 500 })
+  }
+}
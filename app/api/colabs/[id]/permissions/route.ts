@@ -0,0 +1,40 @@
+// app/api/colabs/[id]/permissions/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { requireColabAccess } from '../../../../lib/supabase-server'
+import { createAdminSupabase } from '../../../../lib/supabase-admin'
+import { sanitizeOverrides } from '../../../../lib/permissions'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/** GET → { role, permissions, overrides } — the caller's role and what it may do here */
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const auth = await requireColabAccess(id, 'read')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  const { data } = await auth.supabase.from('colabs').select('permission_overrides').eq('id', id).maybeSingle()
+  return NextResponse.json({
+    role: auth.access.role,
+    permissions: auth.access.permissions,
+    overrides: sanitizeOverrides(data?.permission_overrides),
+  })
+}
+
+/**
+ * PUT { overrides } → { overrides } — owner only. Entries that are unknown,
+ * not overridable or equal to the role's default are dropped.
+ */
+export async function PUT(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const auth = await requireColabAccess(id, 'read')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+  if (auth.access.role !== 'owner') return NextResponse.json({ error: 'Only the owner can change permissions' }, { status: 403 })
+  if (auth.access.colab.archived_at) return NextResponse.json({ error: 'This colab is archived and read-only' }, { status: 403 })
+
+  const body = await req.json().catch(() => ({}))
+  const overrides = sanitizeOverrides(body?.overrides)
+  const { error } = await createAdminSupabase().from('colabs').update({ permission_overrides: overrides }).eq('id', id)
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+  return NextResponse.json({ overrides })
+}
@@ -0,0 +1,20 @@
+// app/api/colabs/[id]/readme/revisions/[revisionId]/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { requireColabAccess } from '../../../../../../lib/supabase-server'
+import { ReadmeError, getRevision } from '../../../../../../lib/readme/repository'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/** GET → { revision } including its content */
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string; revisionId: string }> }) {
+  const { id, revisionId } = await params
+  const auth = await requireColabAccess(id, 'read')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  try {
+    return NextResponse.json({ revision: await getRevision(id, revisionId) })
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof ReadmeError ? e.status : 500 })
+  }
+}
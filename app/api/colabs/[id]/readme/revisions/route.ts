@@ -0,0 +1,38 @@
+// app/api/colabs/[id]/readme/revisions/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { requireColabAccess, requireColabPermission } from '../../../../../lib/supabase-server'
+import { ReadmeError, createRevision, listRevisions } from '../../../../../lib/readme/repository'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/** GET → { revisions } newest first, without their content */
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const auth = await requireColabAccess(id, 'read')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  try {
+    return NextResponse.json({ revisions: await listRevisions(id) })
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof ReadmeError ? e.status : 500 })
+  }
+}
+
+/**
+ * POST { message?, restoredFrom? } → { revision }
+ * Snapshots the saved README; 400 when it has not changed since the last revision.
+ */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const auth = await requireColabPermission(id, 'readme.edit')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  try {
+    const body = await req.json().catch(() => ({}))
+    const revision = await createRevision(id, auth.user.id, { message: body?.message, restoredFrom: body?.restoredFrom })
+    return NextResponse.json({ revision }, { status: 201 })
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof ReadmeError ? e.status : 500 })
+  }
+}
@@ -0,0 +1,40 @@
+// app/api/colabs/[id]/readme/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { requireColabAccess, requireColabPermission } from '../../../../lib/supabase-server'
+import { ReadmeError, loadReadme, saveReadme } from '../../../../lib/readme/repository'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET → { text, state, updated_at } (see ReadmeDocument)
+ * `state` is the merged Yjs document the editor starts from.
+ */
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const auth = await requireColabAccess(id, 'read')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  try {
+    return NextResponse.json(await loadReadme(id))
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof ReadmeError ? e.status : 500 })
+  }
+}
+
+/**
+ * PUT { state } — a base64 Yjs update from the editor, merged into the stored
+ * document; colabs.readme becomes the merged text. → { text, state, updated_at }
+ */
+export async function PUT(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const auth = await requireColabPermission(id, 'readme.edit')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  try {
+    const body = await req.json().catch(() => ({}))
+    return NextResponse.json(await saveReadme(id, auth.user.id, body?.state))
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof ReadmeError ? e.status : 500 })
+  }
+}
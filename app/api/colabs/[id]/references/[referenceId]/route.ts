@@ -0,0 +1,21 @@
+// app/api/colabs/[id]/references/[referenceId]/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { requireColabPermission } from '../../../../../lib/supabase-server'
+import { CitationError, removeReference } from '../../../../../lib/citations/repository'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/** DELETE → removes the work from the bibliography along with every note citation of it */
+export async function DELETE(_req: NextRequest, { params }: { params: Promise<{ id: string; referenceId: string }> }) {
+  const { id, referenceId } = await params
+  const auth = await requireColabPermission(id, 'notes.create')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  try {
+    await removeReference(auth.supabase, id, referenceId)
+    return NextResponse.json({ removed: true })
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof CitationError ? e.status : 500 })
+  }
+}
@@ -0,0 +1,35 @@
+// app/api/colabs/[id]/references/export/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { requireColabAccess } from '../../../../../lib/supabase-server'
+import { CitationError, listBibliography } from '../../../../../lib/citations/repository'
+import { FORMAT_FILES, isReferenceFormat, serializeReferences } from '../../../../../lib/citations/formats'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET ?format=bibtex|ris|csl-json → the colab bibliography as a downloadable file
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const auth = await requireColabAccess(id, 'read')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  const format = req.nextUrl.searchParams.get('format') || 'bibtex'
+  if (!isReferenceFormat(format)) {
+    return NextResponse.json({ error: 'format must be bibtex, ris or csl-json' }, { status: 400 })
+  }
+
+  try {
+    const references = await listBibliography(auth.supabase, id)
+    const { ext, mime } = FORMAT_FILES[format]
+    return new NextResponse(serializeReferences(references, format), {
+      headers: {
+        'Content-Type': `${mime}; charset=utf-8`,
+        'Content-Disposition': `attachment; filename="${auth.access.colab.slug}-references.${ext}"`,
+      },
+    })
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof CitationError ? e.status : 500 })
+  }
+}
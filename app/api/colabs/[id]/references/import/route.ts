@@ -0,0 +1,52 @@
+// app/api/colabs/[id]/references/import/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { requireColabPermission } from '../../../../../lib/supabase-server'
+import { CitationError, importReferences } from '../../../../../lib/citations/repository'
+import { FormatError, isReferenceFormat, parseReferences } from '../../../../../lib/citations/formats'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const MAX_IMPORT_BYTES = 5 * 1024 * 1024
+const MAX_IMPORT_ENTRIES = 5000
+
+/**
+ * POST multipart/form-data { file, format? } or JSON { content, format? }
+ * → { added, existing, skipped } where skipped lists entries with no PMID,
+ * DOI or arXiv id. The format is detected from the content when omitted.
+ */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const auth = await requireColabPermission(id, 'notes.create')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  try {
+    let content = ''
+    let format: unknown
+    if ((req.headers.get('content-type') || '').includes('multipart/form-data')) {
+      const form = await req.formData()
+      const file = form.get('file')
+      if (!(file instanceof File)) throw new FormatError('Attach a file')
+      if (file.size > MAX_IMPORT_BYTES) throw new FormatError('File exceeds the 5 MB import limit', 413)
+      content = await file.text()
+      format = form.get('format')
+    } else {
+      const body = await req.json().catch(() => ({}))
+      content = typeof body?.content === 'string' ? body.content : ''
+      format = body?.format
+      if (content.length > MAX_IMPORT_BYTES) throw new FormatError('Content exceeds the 5 MB import limit', 413)
+    }
+    if (!content.trim()) throw new FormatError('Nothing to import')
+    if (format && !isReferenceFormat(format)) throw new FormatError('format must be bibtex, ris or csl-json')
+
+    const parsed = parseReferences(content, isReferenceFormat(format) ? format : null)
+    if (parsed.entries.length > MAX_IMPORT_ENTRIES) {
+      throw new FormatError(`Import at most ${MAX_IMPORT_ENTRIES} references at a time`, 413)
+    }
+    const summary = await importReferences(auth.supabase, id, auth.user.id, parsed)
+    return NextResponse.json(summary)
+  } catch (e: any) {
+    const status = e instanceof CitationError || e instanceof FormatError ? e.status : 500
+    return NextResponse.json({ error: e.message }, { status })
+  }
+}
@@ -0,0 +1,43 @@
+// app/api/colabs/[id]/references/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { requireColabAccess, requireColabPermission } from '../../../../lib/supabase-server'
+import { addReference, CitationError, listBibliography, requireIdentifier } from '../../../../lib/citations/repository'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET → { references } the colab bibliography, each with `cited_by` note ids
+ */
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const auth = await requireColabAccess(id, 'read')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  try {
+    const references = await listBibliography(auth.supabase, id)
+    return NextResponse.json({ references })
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof CitationError ? e.status : 500 })
+  }
+}
+
+/**
+ * POST { identifier, metadata? } → { reference }
+ * identifier: PMID, DOI or arXiv id (bare, prefixed or as a URL). Metadata is
+ * looked up from PubMed/Crossref/arXiv; `metadata` ({ title, authors, journal,
+ * year, doi, abstract }) is only used when that lookup fails.
+ */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const auth = await requireColabPermission(id, 'notes.create')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  try {
+    const body = await req.json().catch(() => ({}))
+    const reference = await addReference(auth.supabase, id, auth.user.id, requireIdentifier(body?.identifier), body?.metadata)
+    return NextResponse.json({ reference })
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof CitationError ? e.status : 500 })
+  }
+}
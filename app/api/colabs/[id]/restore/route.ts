@@ -0,0 +1,21 @@
+// app/api/colabs/[id]/restore/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabase, getRequestUser } from '../../../../lib/supabase-server'
+import { createAdminSupabase } from '../../../../lib/supabase-admin'
+import { ColabLifecycleError, restoreColab } from '../../../../lib/colab-lifecycle'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/** POST — owner only: take the colab out of the trash within the restore window → { slug } */
+export async function POST(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const user = await getRequestUser(createServerSupabase())
+  if (!user) return NextResponse.json({ error: 'Sign in required' }, { status: 401 })
+
+  try {
+    return NextResponse.json(await restoreColab(createAdminSupabase(), id, user.id))
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof ColabLifecycleError ? e.status : 500 })
+  }
+}
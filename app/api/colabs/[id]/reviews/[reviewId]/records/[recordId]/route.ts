@@ -0,0 +1,26 @@
+// app/api/colabs/[id]/reviews/[reviewId]/records/[recordId]/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { requireColabPermission } from '../../../../../../../lib/supabase-server'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * DELETE → { removed } drops a record (e.g. a retracted or off-topic import)
+ * with its votes; the flow diagram counts it as removed before screening.
+ */
+export async function DELETE(_req: NextRequest, { params }: { params: Promise<{ id: string; reviewId: string; recordId: string }> }) {
+  const { id, reviewId, recordId } = await params
+  const auth = await requireColabPermission(id, 'notes.create')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  const { error, count } = await auth.supabase
+    .from('review_records')
+    .delete({ count: 'exact' })
+    .eq('id', recordId)
+    .eq('review_id', reviewId)
+    .eq('colab_id', id)
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+  if (!count) return NextResponse.json({ error: 'Record not found' }, { status: 404 })
+  return NextResponse.json({ removed: true })
+}
@@ -0,0 +1,29 @@
+// app/api/colabs/[id]/reviews/[reviewId]/records/[recordId]/vote/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { requireColabPermission } from '../../../../../../../../lib/supabase-server'
+import { createAdminSupabase } from '../../../../../../../../lib/supabase-admin'
+import { castVote, getReview, ReviewError } from '../../../../../../../../lib/reviews/repository'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST { stage: 'screening'|'eligibility', decision: 'include'|'exclude'|'maybe', reason? } → { ok }
+ * Records or changes the caller's own vote. Excluding at full text needs a reason.
+ * Once enough members voted, an unanimous include/exclude settles the stage;
+ * anything else becomes a conflict.
+ */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string; reviewId: string; recordId: string }> }) {
+  const { id, reviewId, recordId } = await params
+  const auth = await requireColabPermission(id, 'notes.create')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  try {
+    const body = await req.json().catch(() => ({}))
+    const review = await getReview(auth.supabase, id, reviewId)
+    await castVote(auth.supabase, createAdminSupabase(), review, recordId, auth.user.id, body)
+    return NextResponse.json({ ok: true })
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof ReviewError ? e.status : 500 })
+  }
+}
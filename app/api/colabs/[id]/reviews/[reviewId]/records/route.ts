@@ -0,0 +1,46 @@
+// app/api/colabs/[id]/reviews/[reviewId]/records/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { requireColabPermission } from '../../../../../../lib/supabase-server'
+import { createAdminSupabase } from '../../../../../../lib/supabase-admin'
+import { chargeUsage, type UsageCharge } from '../../../../../../lib/metering'
+import { getReview, importRecords, readIdentifyRequest, ReviewError } from '../../../../../../lib/reviews/repository'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST → { search, usage? } adds records to the review:
+ *   { source: 'pubmed', query, limit? }                    up to 200 PubMed records
+ *   { source: 'multisearch', query, limit?, litSources? }  up to 50 per source
+ *   { source: 'bibliography' }                             every work in the colab bibliography
+ * Records already in the review count as duplicates. Database searches always
+ * go upstream and are charged as one literature search, so they also need
+ * copilot.use; the bibliography is free.
+ */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string; reviewId: string }> }) {
+  const { id, reviewId } = await params
+  const auth = await requireColabPermission(id, 'notes.create')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  let charge: UsageCharge | null = null
+  try {
+    const body = await req.json().catch(() => ({}))
+    const request = readIdentifyRequest(body)
+    const review = await getReview(auth.supabase, id, reviewId)
+
+    if (request.source !== 'bibliography') {
+      if (!auth.access.permissions.includes('copilot.use')) {
+        return NextResponse.json({ error: 'Your role in this colab does not allow that' }, { status: 403 })
+      }
+      const meter = await chargeUsage('lit_searches', 1, { colabId: id })
+      if (!meter.ok) return meter.response
+      charge = meter.charge
+    }
+
+    const search = await importRecords(createAdminSupabase(), review, auth.user.id, request)
+    return NextResponse.json({ search, usage: charge?.usage })
+  } catch (e: any) {
+    await charge?.refund()
+    return NextResponse.json({ error: e.message, usage: charge?.usage }, { status: e instanceof ReviewError ? e.status : 500 })
+  }
+}
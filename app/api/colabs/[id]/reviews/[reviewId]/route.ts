@@ -0,0 +1,81 @@
+// app/api/colabs/[id]/reviews/[reviewId]/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { requireColabAccess, requireColabPermission } from '../../../../../lib/supabase-server'
+import { createAdminSupabase } from '../../../../../lib/supabase-admin'
+import { loadReviewDetail, readProtocol, ReviewError, settle, type ReviewDetail } from '../../../../../lib/reviews/repository'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+type Params = { params: Promise<{ id: string; reviewId: string }> }
+
+/**
+ * GET → { review, searches, records, votes, decisions }
+ * Votes are blind: other members' votes on a record only appear once the
+ * caller voted on it, or once it has all its votes.
+ */
+export async function GET(_req: NextRequest, { params }: Params) {
+  const { id, reviewId } = await params
+  const auth = await requireColabAccess(id, 'read')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  try {
+    const detail: ReviewDetail = await loadReviewDetail(auth.supabase, id, reviewId)
+    return NextResponse.json(detail)
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof ReviewError ? e.status : 500 })
+  }
+}
+
+/**
+ * PATCH { title?, question?, inclusionCriteria?, exclusionCriteria?, screenersRequired? } → { review }
+ * Changing screenersRequired re-derives every consensus decision; resolved conflicts stay.
+ */
+export async function PATCH(req: NextRequest, { params }: Params) {
+  const { id, reviewId } = await params
+  const auth = await requireColabPermission(id, 'notes.create')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  try {
+    const body = await req.json().catch(() => ({}))
+    const patch = readProtocol(body, true)
+    if (!Object.keys(patch).length) throw new ReviewError('Nothing to update')
+
+    const { data: before } = await auth.supabase
+      .from('systematic_reviews')
+      .select('screeners_required')
+      .eq('id', reviewId)
+      .eq('colab_id', id)
+      .maybeSingle()
+    const { data, error } = await auth.supabase
+      .from('systematic_reviews')
+      .update({ ...patch, updated_at: new Date().toISOString() })
+      .eq('id', reviewId)
+      .eq('colab_id', id)
+      .select('*')
+      .maybeSingle()
+    if (error) throw new ReviewError(error.message, 500)
+    if (!data) throw new ReviewError('Review not found', 404)
+
+    if (before && before.screeners_required !== data.screeners_required) await settle(createAdminSupabase(), data)
+    return NextResponse.json({ review: data })
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof ReviewError ? e.status : 500 })
+  }
+}
+
+/** DELETE → { removed } the review with its searches, records, votes and decisions */
+export async function DELETE(_req: NextRequest, { params }: Params) {
+  const { id, reviewId } = await params
+  const auth = await requireColabPermission(id, 'notes.create')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  const { error, count } = await auth.supabase
+    .from('systematic_reviews')
+    .delete({ count: 'exact' })
+    .eq('id', reviewId)
+    .eq('colab_id', id)
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+  if (!count) return NextResponse.json({ error: 'Review not found' }, { status: 404 })
+  return NextResponse.json({ removed: true })
+}
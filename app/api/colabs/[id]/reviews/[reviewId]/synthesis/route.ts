@@ -0,0 +1,63 @@
+// app/api/colabs/[id]/reviews/[reviewId]/synthesis/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { requireColabPermission } from '../../../../../../lib/supabase-server'
+import { createAdminSupabase } from '../../../../../../lib/supabase-admin'
+import { chargeUsage } from '../../../../../../lib/metering'
+import { GENERATION_PRESETS, getLLMProviderForColab, LLMError, toLLMError } from '../../../../../../lib/llm'
+import { loadReviewDetail, ReviewError } from '../../../../../../lib/reviews/repository'
+import { indexReview, prismaCounts, stageStatus } from '../../../../../../lib/reviews/prisma'
+import { synthesisMessages } from '../../../../../../lib/reviews/synthesis'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST → { review, usage } writes a structured report of the included studies
+ * (PRISMA-style sections, citing studies as [n]) and stores it on the review.
+ * Charged as one analysis; refunded when generation fails.
+ */
+export async function POST(_req: NextRequest, { params }: { params: Promise<{ id: string; reviewId: string }> }) {
+  const { id, reviewId } = await params
+  const auth = await requireColabPermission(id, 'copilot.use')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  const admin = createAdminSupabase()
+  let detail
+  try {
+    // every vote counts here, not just the ones the caller may see
+    detail = await loadReviewDetail(admin, id, reviewId)
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof ReviewError ? e.status : 500 })
+  }
+  const { review, searches, records, votes, decisions } = detail
+  const index = indexReview(votes, decisions)
+  const included = records.filter(r => stageStatus(index, r.id, 'eligibility', review.screeners_required) === 'included')
+  if (!included.length) {
+    return NextResponse.json({ error: 'No studies have been included at full-text review yet' }, { status: 409 })
+  }
+
+  const meter = await chargeUsage('analyses', 1, { colabId: id })
+  if (!meter.ok) return meter.response
+  const { charge } = meter
+
+  try {
+    const provider = await getLLMProviderForColab(id)
+    const counts = prismaCounts(searches, records, index, review.screeners_required)
+    const { text } = await provider.generate({ messages: synthesisMessages(review, counts, included), params: GENERATION_PRESETS.review })
+    if (!text.trim()) throw new LLMError('Empty response')
+
+    const { data, error } = await admin
+      .from('systematic_reviews')
+      .update({ synthesis: text.trim(), synthesized_at: new Date().toISOString() })
+      .eq('id', reviewId)
+      .select('*')
+      .single()
+    if (error) throw new ReviewError(error.message, 500)
+    return NextResponse.json({ review: data, usage: charge.usage })
+  } catch (e: any) {
+    await charge.refund()
+    if (e instanceof ReviewError) return NextResponse.json({ error: e.message, usage: charge.usage }, { status: e.status })
+    const err = toLLMError(e)
+    return NextResponse.json({ error: err.message, code: err.code, usage: charge.usage }, { status: err.status })
+  }
+}
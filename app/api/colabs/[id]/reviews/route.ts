@@ -0,0 +1,56 @@
+// app/api/colabs/[id]/reviews/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { requireColabAccess, requireColabPermission } from '../../../../lib/supabase-server'
+import { MAX_REVIEWS_PER_COLAB, readProtocol, ReviewError } from '../../../../lib/reviews/repository'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/** GET → { reviews } the colab's systematic reviews, oldest first */
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const auth = await requireColabAccess(id, 'read')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  const { data, error } = await auth.supabase
+    .from('systematic_reviews')
+    .select('*')
+    .eq('colab_id', id)
+    .order('created_at', { ascending: true })
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+  return NextResponse.json({ reviews: data || [] })
+}
+
+/**
+ * POST { title, question?, inclusionCriteria?, exclusionCriteria?, screenersRequired? } → { review }
+ * Criteria are lists (or newline-separated text); screenersRequired (1–5, default 2)
+ * is how many members must screen each record independently.
+ */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const auth = await requireColabPermission(id, 'notes.create')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  try {
+    const body = await req.json().catch(() => ({}))
+    const protocol = readProtocol(body)
+
+    const { count } = await auth.supabase
+      .from('systematic_reviews')
+      .select('id', { count: 'exact', head: true })
+      .eq('colab_id', id)
+    if ((count || 0) >= MAX_REVIEWS_PER_COLAB) {
+      throw new ReviewError(`A colab can keep at most ${MAX_REVIEWS_PER_COLAB} systematic reviews`, 409)
+    }
+
+    const { data, error } = await auth.supabase
+      .from('systematic_reviews')
+      .insert({ ...protocol, colab_id: id, created_by: auth.user.id })
+      .select('*')
+      .single()
+    if (error) throw new ReviewError(error.message, 500)
+    return NextResponse.json({ review: data })
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof ReviewError ? e.status : 500 })
+  }
+}
@@ -0,0 +1,30 @@
+// app/api/colabs/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabase, getRequestUser } from '../../../lib/supabase-server'
+import { createAdminSupabase } from '../../../lib/supabase-admin'
+import { getStorageAdapter } from '../../../lib/files/storage'
+import { ColabLifecycleError, purgeColab, trashColab } from '../../../lib/colab-lifecycle'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * DELETE — owner only. Moves the colab to the trash → { deleted_at, purge_after };
+ * with `?permanent=1` a colab already in the trash is deleted for good → { purged: true }.
+ */
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const user = await getRequestUser(createServerSupabase())
+  if (!user) return NextResponse.json({ error: 'Sign in required' }, { status: 401 })
+
+  try {
+    const admin = createAdminSupabase()
+    if (req.nextUrl.searchParams.get('permanent') === '1') {
+      await purgeColab(admin, getStorageAdapter(admin), id, user.id)
+      return NextResponse.json({ purged: true })
+    }
+    return NextResponse.json(await trashColab(admin, id, user.id))
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof ColabLifecycleError ? e.status : 500 })
+  }
+}
@@ -0,0 +1,62 @@
+// app/api/colabs/[id]/saved-searches/[searchId]/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { requireColabPermission } from '../../../../../lib/supabase-server'
+import {
+  SEARCH_COLUMNS, SEARCH_SCHEDULES, SavedSearchError, nextRunAt, type SearchSchedule,
+} from '../../../../../lib/saved-searches'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+type Params = { params: Promise<{ id: string; searchId: string }> }
+
+/** PATCH { name?, schedule? } → { search }; changing the schedule restarts its clock */
+export async function PATCH(req: NextRequest, { params }: Params) {
+  const { id, searchId } = await params
+  const auth = await requireColabPermission(id, 'copilot.use')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  try {
+    const body = await req.json().catch(() => ({}))
+    const patch: Record<string, unknown> = {}
+    if (body?.name !== undefined) {
+      const name = String(body.name).trim().slice(0, 120)
+      if (!name) throw new SavedSearchError('Name cannot be empty')
+      patch.name = name
+    }
+    if (body?.schedule !== undefined) {
+      if (!SEARCH_SCHEDULES.includes(body.schedule)) throw new SavedSearchError('schedule must be off, daily or weekly')
+      patch.schedule = body.schedule
+      patch.next_run_at = nextRunAt(body.schedule as SearchSchedule)
+    }
+    if (!Object.keys(patch).length) throw new SavedSearchError('Nothing to update')
+
+    const { data, error } = await auth.supabase
+      .from('saved_searches')
+      .update(patch)
+      .eq('id', searchId)
+      .eq('colab_id', id)
+      .select(SEARCH_COLUMNS)
+      .maybeSingle()
+    if (error) throw new SavedSearchError(error.message, 500)
+    if (!data) throw new SavedSearchError('Saved search not found', 404)
+    return NextResponse.json({ search: data })
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof SavedSearchError ? e.status : 500 })
+  }
+}
+
+export async function DELETE(_req: NextRequest, { params }: Params) {
+  const { id, searchId } = await params
+  const auth = await requireColabPermission(id, 'copilot.use')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  const { error, count } = await auth.supabase
+    .from('saved_searches')
+    .delete({ count: 'exact' })
+    .eq('id', searchId)
+    .eq('colab_id', id)
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+  if (!count) return NextResponse.json({ error: 'Saved search not found' }, { status: 404 })
+  return NextResponse.json({ removed: true })
+}
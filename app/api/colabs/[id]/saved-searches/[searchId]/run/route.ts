@@ -0,0 +1,37 @@
+// app/api/colabs/[id]/saved-searches/[searchId]/run/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { requireColabPermission } from '../../../../../../lib/supabase-server'
+import { createAdminSupabase } from '../../../../../../lib/supabase-admin'
+import { chargeUsage } from '../../../../../../lib/metering'
+import { runSavedSearch, SavedSearchError, type SavedSearch } from '../../../../../../lib/saved-searches'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/** POST → { run, usage } reruns the search now; charged as one literature search */
+export async function POST(_req: NextRequest, { params }: { params: Promise<{ id: string; searchId: string }> }) {
+  const { id, searchId } = await params
+  const auth = await requireColabPermission(id, 'copilot.use')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  const admin = createAdminSupabase()
+  const { data: search } = await admin
+    .from('saved_searches')
+    .select('*')
+    .eq('id', searchId)
+    .eq('colab_id', id)
+    .maybeSingle()
+  if (!search) return NextResponse.json({ error: 'Saved search not found' }, { status: 404 })
+
+  const meter = await chargeUsage('lit_searches', 1, { colabId: id })
+  if (!meter.ok) return meter.response
+  const { charge } = meter
+
+  try {
+    const run = await runSavedSearch(admin, search as SavedSearch, 'manual')
+    return NextResponse.json({ run, usage: charge.usage })
+  } catch (e: any) {
+    await charge.refund()
+    return NextResponse.json({ error: e.message }, { status: e instanceof SavedSearchError ? e.status : 500 })
+  }
+}
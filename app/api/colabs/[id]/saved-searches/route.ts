@@ -0,0 +1,86 @@
+// app/api/colabs/[id]/saved-searches/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { requireColabAccess, requireColabPermission } from '../../../../lib/supabase-server'
+import {
+  SEARCH_COLUMNS, SEARCH_SCHEDULES, SEARCH_SOURCES, SavedSearchError, nextRunAt,
+  type SearchSchedule, type SearchSource,
+} from '../../../../lib/saved-searches'
+import { isLitSource } from '../../../../lib/literature/sources'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const MAX_SEARCHES_PER_COLAB = 25
+const DIGEST_DAYS = 14
+
+/**
+ * GET → { searches, runs } where runs are the last 14 days of non-baseline
+ * runs that found new works (the overview digest).
+ */
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const auth = await requireColabAccess(id, 'read')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  const since = new Date(Date.now() - DIGEST_DAYS * 24 * 60 * 60 * 1000).toISOString()
+  const [searches, runs] = await Promise.all([
+    auth.supabase.from('saved_searches').select(SEARCH_COLUMNS).eq('colab_id', id).order('created_at', { ascending: true }),
+    auth.supabase
+      .from('saved_search_runs')
+      .select('*')
+      .eq('colab_id', id)
+      .eq('baseline', false)
+      .gt('ran_at', since)
+      .neq('new_hits', '[]')
+      .order('ran_at', { ascending: false })
+      .limit(50),
+  ])
+  const error = searches.error || runs.error
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+  return NextResponse.json({ searches: searches.data || [], runs: runs.data || [] })
+}
+
+/**
+ * POST { source: 'multisearch'|'pubmed', query, name?, schedule?, litSources? } → { search }
+ * `litSources` limits a multisearch to some sources (default: all).
+ * The first run (manual or scheduled) records a baseline; later runs report new works.
+ */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const auth = await requireColabPermission(id, 'copilot.use')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  try {
+    const body = await req.json().catch(() => ({}))
+    const query = String(body?.query || '').trim()
+    if (!query) throw new SavedSearchError('Provide "query"')
+    if (query.length > 500) throw new SavedSearchError('Query is too long (500 characters max)')
+    const source = body?.source as SearchSource
+    if (!SEARCH_SOURCES.includes(source)) throw new SavedSearchError('source must be multisearch or pubmed')
+    const schedule = (body?.schedule ?? 'weekly') as SearchSchedule
+    if (!SEARCH_SCHEDULES.includes(schedule)) throw new SavedSearchError('schedule must be off, daily or weekly')
+    const name = String(body?.name || '').trim().slice(0, 120) || query.slice(0, 120)
+    const litSources = source === 'multisearch' && Array.isArray(body?.litSources)
+      ? Array.from(new Set(body.litSources.filter(isLitSource)))
+      : null
+    if (litSources && !litSources.length) throw new SavedSearchError('Select at least one source')
+
+    const { count } = await auth.supabase
+      .from('saved_searches')
+      .select('id', { count: 'exact', head: true })
+      .eq('colab_id', id)
+    if ((count || 0) >= MAX_SEARCHES_PER_COLAB) {
+      throw new SavedSearchError(`A colab can keep at most ${MAX_SEARCHES_PER_COLAB} saved searches`, 409)
+    }
+
+    const { data, error } = await auth.supabase
+      .from('saved_searches')
+      .insert({ colab_id: id, created_by: auth.user.id, name, source, query, lit_sources: litSources, schedule, next_run_at: nextRunAt(schedule) })
+      .select(SEARCH_COLUMNS)
+      .single()
+    if (error) throw new SavedSearchError(error.message, 500)
+    return NextResponse.json({ search: data })
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof SavedSearchError ? e.status : 500 })
+  }
+}
@@ -0,0 +1,35 @@
+// app/api/colabs/[id]/search/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { requireColabAccess } from '../../../../lib/supabase-server'
+import { SEARCH_KINDS, SearchError, searchColab } from '../../../../lib/search'
+import type { SearchKind } from '../../../../types/search-types'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET ?q=…&kinds=note,readme,file,reference,memory&limit=10
+ * → { results, mode, model, stale } (see SearchResponse)
+ * Hybrid keyword + vector search over the colab's notes, README, text files,
+ * bibliography and the caller's own copilot memories. A dirty index is synced
+ * first; embeddings from a paid provider count against the caller's AI quota.
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const auth = await requireColabAccess(id, 'read')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  try {
+    const sp = req.nextUrl.searchParams
+    const kinds = (sp.get('kinds') || '').split(',').map(k => k.trim()).filter(Boolean)
+    const unknown = kinds.find(k => !SEARCH_KINDS.includes(k as SearchKind))
+    if (unknown) throw new SearchError(`Unknown kind "${unknown}"`)
+    const result = await searchColab(id, auth.user.id, sp.get('q') || '', {
+      kinds: kinds as SearchKind[],
+      limit: Number(sp.get('limit')) || undefined,
+    })
+    return NextResponse.json(result)
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof SearchError ? e.status : 500 })
+  }
+}
@@ -0,0 +1,25 @@
+// app/api/colabs/[id]/slug/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabase, getRequestUser } from '../../../../lib/supabase-server'
+import { createAdminSupabase } from '../../../../lib/supabase-admin'
+import { SlugError, setColabSlug } from '../../../../lib/slugs'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * PUT { slug?, pinned? } — owner only → { slug, slug_pinned }. A new slug is
+ * pinned unless `pinned: false` is sent; the old one keeps redirecting.
+ */
+export async function PUT(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const user = await getRequestUser(createServerSupabase())
+  if (!user) return NextResponse.json({ error: 'Sign in required' }, { status: 401 })
+
+  const body = await req.json().catch(() => ({}))
+  try {
+    return NextResponse.json(await setColabSlug(createAdminSupabase(), id, user.id, { slug: body?.slug, pinned: body?.pinned }))
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof SlugError ? e.status : 500 })
+  }
+}
@@ -0,0 +1,26 @@
+// app/api/colabs/[id]/transfer/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabase, getRequestUser } from '../../../../lib/supabase-server'
+import { createAdminSupabase } from '../../../../lib/supabase-admin'
+import { ColabLifecycleError, transferOwnership } from '../../../../lib/colab-lifecycle'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST { userId } — owner only: make an accepted member the owner. The caller
+ * stays on as a maintainer; the new owner is notified. → { owner_id }
+ */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const user = await getRequestUser(createServerSupabase())
+  if (!user) return NextResponse.json({ error: 'Sign in required' }, { status: 401 })
+
+  try {
+    const body = await req.json().catch(() => ({}))
+    await transferOwnership(createAdminSupabase(), id, user, body?.userId)
+    return NextResponse.json({ owner_id: body.userId })
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof ColabLifecycleError ? e.status : 500 })
+  }
+}
@@ -0,0 +1,20 @@
+// app/api/colabs/trash/route.ts
+import { NextResponse } from 'next/server'
+import { createServerSupabase, getRequestUser } from '../../../lib/supabase-server'
+import { createAdminSupabase } from '../../../lib/supabase-admin'
+import { ColabLifecycleError, listTrash } from '../../../lib/colab-lifecycle'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/** GET → { colabs } — the caller's colabs in the trash, each with its `purge_after` */
+export async function GET() {
+  const user = await getRequestUser(createServerSupabase())
+  if (!user) return NextResponse.json({ error: 'Sign in required' }, { status: 401 })
+
+  try {
+    return NextResponse.json({ colabs: await listTrash(createAdminSupabase(), user.id) })
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof ColabLifecycleError ? e.status : 500 })
+  }
+}
@@ -0,0 +1,29 @@
+// app/api/cron/colab-purge/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminSupabase } from '../../../lib/supabase-admin'
+import { getStorageAdapter } from '../../../lib/files/storage'
+import { ColabLifecycleError, purgeExpiredColabs } from '../../../lib/colab-lifecycle'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300
+
+/**
+ * GET with `Authorization: Bearer $CRON_SECRET` → { purged, failed }
+ * Invoked daily by the scheduler (see vercel.json) to delete colabs whose
+ * restore window has passed.
+ */
+export async function GET(req: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (!secret) return NextResponse.json({ error: 'CRON_SECRET is not configured' }, { status: 500 })
+  if (req.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const admin = createAdminSupabase()
+    return NextResponse.json(await purgeExpiredColabs(admin, getStorageAdapter(admin)))
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof ColabLifecycleError ? e.status : 500 })
+  }
+}
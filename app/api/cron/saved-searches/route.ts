@@ -0,0 +1,27 @@
+// app/api/cron/saved-searches/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminSupabase } from '../../../lib/supabase-admin'
+import { runDueSearches, SavedSearchError } from '../../../lib/saved-searches'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300
+
+/**
+ * GET with `Authorization: Bearer $CRON_SECRET` → { ran, newHits, skipped, failed }
+ * Invoked hourly by the scheduler (see vercel.json) to rerun due saved searches.
+ */
+export async function GET(req: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (!secret) return NextResponse.json({ error: 'CRON_SECRET is not configured' }, { status: 500 })
+  if (req.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const summary = await runDueSearches(createAdminSupabase())
+    return NextResponse.json(summary)
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof SavedSearchError ? e.status : 500 })
+  }
+}
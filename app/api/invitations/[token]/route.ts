@@ -0,0 +1,31 @@
+// app/api/invitations/[token]/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabase, getRequestUser } from '../../../lib/supabase-server'
+import { createAdminSupabase } from '../../../lib/supabase-admin'
+import { InvitationError, acceptInvitation, previewInvitation } from '../../../lib/invitations'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/** GET → { invitation } (see InvitationPreview); the token is the credential, no session needed */
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params
+  try {
+    return NextResponse.json({ invitation: await previewInvitation(createAdminSupabase(), token) })
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof InvitationError ? e.status : 500 })
+  }
+}
+
+/** POST — accept as the signed-in user → { slug } */
+export async function POST(_req: NextRequest, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params
+  const user = await getRequestUser(createServerSupabase())
+  if (!user) return NextResponse.json({ error: 'Sign in required' }, { status: 401 })
+
+  try {
+    return NextResponse.json(await acceptInvitation(createAdminSupabase(), token, user))
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof InvitationError ? e.status : 500 })
+  }
+}
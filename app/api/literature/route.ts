@@ -1,5 +1,7 @@
 // app/api/litreview/route.ts
 import { NextRequest, NextResponse } from 'next/server'
+import { chargeUsage, type UsageCharge } from '../../lib/metering'
+import { cached, type Cached, type CacheStatus } from '../../lib/literature/cache'
 
 export const runtime = 'nodejs'
 export const dynamic = 'force-dynamic'
@@ -49,7 +51,7 @@ async function searchCrossRef(query: string, limit: number = 10): Promise<Paper[
     }))
   } catch (error) {
     console.error('CrossRef search failed:', error)
-    return []
+    throw error
   }
 }
 
@@ -88,7 +90,7 @@ async function searchArxiv(query: string, limit: number = 10): Promise<Paper[]>
     })
   } catch (error) {
     console.error('arXiv search failed:', error)
-    return []
+    throw error
   }
 }
 
@@ -119,7 +121,7 @@ async function searchSemanticScholar(query: string, limit: number = 10): Promise
     }))
   } catch (error) {
     console.error('Semantic Scholar search failed:', error)
-    return []
+    throw error
   }
 }
 
@@ -198,7 +200,8 @@ Format with clear headers. When referencing specific findings, cite as [Paper #]
 /** -------------------- Main Route -------------------- */
 export async function POST(req: NextRequest) {
   console.log('🔥 Multi-Source Literature Review API Hit')
-  
+  let charge: UsageCharge | null = null
+
   try {
     const body = await req.json().catch(() => ({}))
     console.log('📝 Request body:', body)
@@ -218,18 +221,28 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'Missing GEMINI_API_KEY' }, { status: 500 })
     }
 
+    // a full review counts against the analyses quota
+    const meter = await chargeUsage('analyses', 1, { colabId: body?.colabId })
+    if (!meter.ok) return meter.response
+    charge = meter.charge
+
     // Search all sources in parallel
+    // results go through the literature cache; keyed apart from multisearch since the shape differs
     const resultsPerSource = Math.ceil(maxResults / sources.length)
+    const request = { query, limit: resultsPerSource, shape: 'review' }
+    const cache: Record<string, CacheStatus> = {}
+    const track = (source: string, p: Promise<Cached<Paper[]>>) =>
+      p.then(r => { cache[source] = r.status; return r.value })
     const searchPromises: Promise<Paper[]>[] = []
     
     if (sources.includes('crossref')) {
-      searchPromises.push(searchCrossRef(query, resultsPerSource))
+      searchPromises.push(track('crossref', cached('crossref', request, () => searchCrossRef(query, resultsPerSource))))
     }
     if (sources.includes('arxiv')) {
-      searchPromises.push(searchArxiv(query, resultsPerSource))
+      searchPromises.push(track('arxiv', cached('arxiv', request, () => searchArxiv(query, resultsPerSource))))
     }
     if (sources.includes('semantic')) {
-      searchPromises.push(searchSemanticScholar(query, resultsPerSource))
+      searchPromises.push(track('semantic', cached('s2', request, () => searchSemanticScholar(query, resultsPerSource))))
     }
 
     console.log(`🚀 Starting ${searchPromises.length} parallel searches...`)
@@ -251,10 +264,13 @@ export async function POST(req: NextRequest) {
       .slice(0, maxResults)
 
     if (sortedPapers.length === 0) {
+      await charge.refund()
       return NextResponse.json({ 
         review: `No papers found for query: "${query}". Try different keywords or check spelling.`,
         papers: [],
-        stats: { totalFound: 0, sources: sources.join(', ') }
+        stats: { totalFound: 0, sources: sources.join(', ') },
+        cache,
+        usage: charge.usage
       })
     }
 
@@ -272,11 +288,14 @@ export async function POST(req: NextRequest) {
         totalFound: sortedPapers.length,
         sources: sources.join(', '),
         searchTime: new Date().toISOString()
-      }
+      },
+      cache,
+      usage: charge.usage
     })
 
   } catch (error: any) {
     console.error('🚨 Literature Review Error:', error)
+    await charge?.refund()
     return NextResponse.json({ 
       error: error.message || 'Server error during literature review' 
     }, { status: 500 })
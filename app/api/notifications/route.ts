@@ -0,0 +1,38 @@
+// app/api/notifications/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabase, getRequestUser } from '../../lib/supabase-server'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/** GET → { notifications, unread } the caller's 30 most recent notifications */
+export async function GET() {
+  const supabase = createServerSupabase()
+  const user = await getRequestUser(supabase)
+  if (!user) return NextResponse.json({ error: 'Sign in required' }, { status: 401 })
+
+  const [list, unread] = await Promise.all([
+    supabase.from('notifications').select('*').eq('user_id', user.id).order('created_at', { ascending: false }).limit(30),
+    supabase.from('notifications').select('id', { count: 'exact', head: true }).eq('user_id', user.id).is('read_at', null),
+  ])
+  const error = list.error || unread.error
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+  return NextResponse.json({ notifications: list.data || [], unread: unread.count || 0 })
+}
+
+/** PATCH { ids: string[] } | { all: true } → marks notifications read */
+export async function PATCH(req: NextRequest) {
+  const supabase = createServerSupabase()
+  const user = await getRequestUser(supabase)
+  if (!user) return NextResponse.json({ error: 'Sign in required' }, { status: 401 })
+
+  const body = await req.json().catch(() => ({}))
+  const ids: string[] = Array.isArray(body?.ids) ? body.ids.map(String).slice(0, 100) : []
+  if (!ids.length && body?.all !== true) return NextResponse.json({ error: 'Provide "ids" or "all"' }, { status: 400 })
+
+  let q = supabase.from('notifications').update({ read_at: new Date().toISOString() }).eq('user_id', user.id).is('read_at', null)
+  if (body?.all !== true) q = q.in('id', ids)
+  const { error } = await q
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+  return NextResponse.json({ ok: true })
+}
@@ -0,0 +1,44 @@
+// app/api/orgs/[orgId]/accept/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabase, getRequestUser } from '../../../../lib/supabase-server'
+import { createAdminSupabase } from '../../../../lib/supabase-admin'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/** POST { decline?: boolean } — take (or turn down) the seat invited for the caller's email */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ orgId: string }> }) {
+  const { orgId } = await params
+  const user = await getRequestUser(createServerSupabase())
+  if (!user) return NextResponse.json({ error: 'Sign in required' }, { status: 401 })
+  if (!user.email) return NextResponse.json({ error: 'Your account has no email address' }, { status: 400 })
+
+  const admin = createAdminSupabase()
+  const { data: invite } = await admin
+    .from('organization_members')
+    .select('id')
+    .eq('org_id', orgId)
+    .eq('email', user.email.toLowerCase())
+    .eq('status', 'invited')
+    .maybeSingle()
+  if (!invite) return NextResponse.json({ error: 'No pending invitation for this organization' }, { status: 404 })
+
+  const body = await req.json().catch(() => ({}))
+  if (body?.decline) {
+    const { error } = await admin.from('organization_members').delete().eq('id', invite.id)
+    if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+    return NextResponse.json({ declined: true })
+  }
+
+  const { data, error } = await admin
+    .from('organization_members')
+    .update({ user_id: user.id, status: 'active', joined_at: new Date().toISOString() })
+    .eq('id', invite.id)
+    .select('*')
+    .single()
+  if (error) {
+    const status = error.code === '23505' ? 409 : 500
+    return NextResponse.json({ error: status === 409 ? 'You are already a member' : error.message }, { status })
+  }
+  return NextResponse.json({ member: data })
+}
@@ -0,0 +1,53 @@
+// app/api/orgs/[orgId]/colabs/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { requireOrgAccess } from '../../../../lib/orgs'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST { colabId }   — colab owners who are org members move their colab into the org
+ * DELETE ?colabId=   — the colab owner or an org admin takes it back out
+ * AI and literature calls made from an org colab draw on the org's pool.
+ */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ orgId: string }> }) {
+  const { orgId } = await params
+  const auth = await requireOrgAccess(orgId, 'member')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  const body = await req.json().catch(() => ({}))
+  const { data: colab } = await auth.admin
+    .from('colabs')
+    .select('id, owner_id')
+    .eq('id', String(body?.colabId || ''))
+    .maybeSingle()
+  if (!colab) return NextResponse.json({ error: 'Colab not found' }, { status: 404 })
+  if (colab.owner_id !== auth.user.id) {
+    return NextResponse.json({ error: 'Only the colab owner can assign it to an organization' }, { status: 403 })
+  }
+
+  const { error } = await auth.admin.from('colabs').update({ org_id: orgId }).eq('id', colab.id)
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+  return NextResponse.json({ assigned: true })
+}
+
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ orgId: string }> }) {
+  const { orgId } = await params
+  const auth = await requireOrgAccess(orgId, 'member')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  const { data: colab } = await auth.admin
+    .from('colabs')
+    .select('id, owner_id')
+    .eq('id', req.nextUrl.searchParams.get('colabId') || '')
+    .eq('org_id', orgId)
+    .maybeSingle()
+  if (!colab) return NextResponse.json({ error: 'Colab not found in this organization' }, { status: 404 })
+  if (colab.owner_id !== auth.user.id && auth.membership.role !== 'admin') {
+    return NextResponse.json({ error: 'Only the colab owner or an org admin can do this' }, { status: 403 })
+  }
+
+  const { error } = await auth.admin.from('colabs').update({ org_id: null }).eq('id', colab.id)
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+  return NextResponse.json({ assigned: false })
+}
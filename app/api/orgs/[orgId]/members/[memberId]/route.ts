@@ -0,0 +1,81 @@
+// app/api/orgs/[orgId]/members/[memberId]/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { OrgError, requireOrgAccess, sanitizeCaps, type Organization, type OrgMember } from '../../../../../lib/orgs'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+type Params = { params: Promise<{ orgId: string; memberId: string }> }
+
+async function loadMember(admin: SupabaseClient, orgId: string, memberId: string) {
+  const { data } = await admin
+    .from('organization_members')
+    .select('*')
+    .eq('id', memberId)
+    .eq('org_id', orgId)
+    .maybeSingle()
+  if (!data) throw new OrgError('Member not found', 404)
+  return data as OrgMember
+}
+
+// An org must keep its owner and at least one active admin
+async function assertAdminsRemain(admin: SupabaseClient, org: Organization, target: OrgMember) {
+  if (target.user_id === org.owner_id) throw new OrgError('The organization owner keeps their admin seat', 409)
+  if (target.role !== 'admin' || target.status !== 'active') return
+  const { count } = await admin
+    .from('organization_members')
+    .select('id', { count: 'exact', head: true })
+    .eq('org_id', org.id)
+    .eq('role', 'admin')
+    .eq('status', 'active')
+  if ((count ?? 0) <= 1) throw new OrgError('An organization needs at least one admin', 409)
+}
+
+/** PATCH { role?, caps? } — admins change a seat's role or monthly caps */
+export async function PATCH(req: NextRequest, { params }: Params) {
+  const { orgId, memberId } = await params
+  const auth = await requireOrgAccess(orgId, 'admin')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+  const { admin, org } = auth
+
+  const body = await req.json().catch(() => ({}))
+  try {
+    const target = await loadMember(admin, orgId, memberId)
+    const patch: Partial<OrgMember> = {}
+    if ('caps' in body) patch.caps = sanitizeCaps(body.caps)
+    if (body?.role === 'admin' || body?.role === 'member') {
+      if (body.role === 'member' && target.role === 'admin') await assertAdminsRemain(admin, org, target)
+      patch.role = body.role
+    }
+    if (!Object.keys(patch).length) return NextResponse.json({ error: 'Nothing to update' }, { status: 400 })
+
+    const { data, error } = await admin.from('organization_members').update(patch).eq('id', memberId).select('*').single()
+    if (error) throw new OrgError(error.message, 500)
+    return NextResponse.json({ member: data })
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof OrgError ? e.status : 500 })
+  }
+}
+
+/** DELETE — admins remove a seat or revoke an invitation; members may leave */
+export async function DELETE(_req: NextRequest, { params }: Params) {
+  const { orgId, memberId } = await params
+  const auth = await requireOrgAccess(orgId, 'member')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+  const { admin, org, user, membership } = auth
+
+  try {
+    const target = await loadMember(admin, orgId, memberId)
+    if (target.user_id !== user.id && membership.role !== 'admin') {
+      return NextResponse.json({ error: 'Only organization admins can do this' }, { status: 403 })
+    }
+    await assertAdminsRemain(admin, org, target)
+
+    const { error } = await admin.from('organization_members').delete().eq('id', memberId)
+    if (error) throw new OrgError(error.message, 500)
+    return NextResponse.json({ removed: true })
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof OrgError ? e.status : 500 })
+  }
+}
@@ -0,0 +1,41 @@
+// app/api/orgs/[orgId]/members/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { OrgError, requireOrgAccess, sanitizeCaps, seatsInUse } from '../../../../lib/orgs'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+/** POST { email, role?, caps? } — admins invite someone into a free seat */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ orgId: string }> }) {
+  const { orgId } = await params
+  const auth = await requireOrgAccess(orgId, 'admin')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+  const { admin, org, user } = auth
+
+  const body = await req.json().catch(() => ({}))
+  const email = String(body?.email || '').trim().toLowerCase()
+  if (!EMAIL_RE.test(email)) return NextResponse.json({ error: 'Provide a valid email' }, { status: 400 })
+  const role = body?.role === 'admin' ? 'admin' : 'member'
+
+  try {
+    const caps = sanitizeCaps(body?.caps)
+    if ((await seatsInUse(admin, orgId)) >= org.seats) {
+      return NextResponse.json({ error: `All ${org.seats} seats are taken. Add seats to invite more people.` }, { status: 409 })
+    }
+
+    const { data, error } = await admin
+      .from('organization_members')
+      .insert({ org_id: orgId, email, role, caps, status: 'invited', invited_by: user.id })
+      .select('*')
+      .single()
+    if (error) {
+      if (error.code === '23505') return NextResponse.json({ error: 'That email already has a seat' }, { status: 409 })
+      throw new OrgError(error.message, 500)
+    }
+    return NextResponse.json({ member: data }, { status: 201 })
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: e instanceof OrgError ? e.status : 500 })
+  }
+}
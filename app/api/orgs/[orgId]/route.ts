@@ -0,0 +1,85 @@
+// app/api/orgs/[orgId]/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { requireOrgAccess } from '../../../lib/orgs'
+import { getOrgSubscription } from '../../../lib/billing'
+import { USAGE_COLUMNS, USAGE_KINDS, periodKey, pooledLimits, type UsageKind } from '../../../lib/plans'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const USAGE_SELECT = USAGE_KINDS.map(k => USAGE_COLUMNS[k]).join(', ')
+
+const readUsage = (row: any) =>
+  Object.fromEntries(USAGE_KINDS.map(k => [k, row?.[USAGE_COLUMNS[k]] ?? 0])) as Record<UsageKind, number>
+
+/**
+ * GET → org dashboard: { org, role, seatsUsed, members, usage, colabs, subscription }
+ * Admins see every member's usage and caps; members see their own.
+ */
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ orgId: string }> }) {
+  const { orgId } = await params
+  const auth = await requireOrgAccess(orgId, 'member')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+  const { admin, org, membership, user } = auth
+  const isAdmin = membership.role === 'admin'
+  const period = periodKey()
+
+  const [{ data: members, error }, { data: poolRow }, { data: memberRows }, { data: colabs }, subscription] = await Promise.all([
+    admin.from('organization_members').select('*').eq('org_id', orgId).order('created_at', { ascending: true }),
+    admin.from('org_usage_monthly').select(USAGE_SELECT).eq('org_id', orgId).eq('period', period).maybeSingle(),
+    admin.from('org_member_usage_monthly').select(`user_id, ${USAGE_SELECT}`).eq('org_id', orgId).eq('period', period),
+    admin.from('colabs').select('id, name, slug, owner_id').eq('org_id', orgId).order('name'),
+    isAdmin ? getOrgSubscription(admin, orgId) : Promise.resolve(null),
+  ])
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+
+  const userIds = (members || []).map((m: any) => m.user_id).filter(Boolean)
+  const { data: profiles } = userIds.length
+    ? await admin.from('profiles').select('id, full_name, username, avatar_url').in('id', userIds)
+    : { data: [] as any[] }
+  const profileById = new Map((profiles || []).map((p: any) => [p.id, p]))
+  const usageByUser = new Map((memberRows || []).map((r: any) => [r.user_id, readUsage(r)]))
+
+  return NextResponse.json({
+    org,
+    role: membership.role,
+    seatsUsed: members?.length ?? 0,
+    members: (members || []).map((m: any) => {
+      const visible = isAdmin || m.user_id === user.id
+      return {
+        id: m.id,
+        user_id: m.user_id,
+        email: isAdmin ? m.email : undefined,
+        role: m.role,
+        status: m.status,
+        joined_at: m.joined_at,
+        profile: m.user_id ? profileById.get(m.user_id) || null : null,
+        caps: visible ? m.caps || {} : undefined,
+        used: visible ? usageByUser.get(m.user_id) || readUsage(null) : undefined,
+      }
+    }),
+    usage: {
+      period,
+      // only team orgs pool; members of a free org use their personal plans
+      limits: org.tier === 'team' ? pooledLimits(org.seats) : null,
+      used: readUsage(poolRow),
+    },
+    colabs: colabs || [],
+    subscription,
+  })
+}
+
+/** PATCH { name } — admins only */
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ orgId: string }> }) {
+  const { orgId } = await params
+  const auth = await requireOrgAccess(orgId, 'admin')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  const body = await req.json().catch(() => ({}))
+  const name = String(body?.name || '').trim()
+  if (!name || name.length > 120) return NextResponse.json({ error: 'Provide a name (max 120 characters)' }, { status: 400 })
+
+  const { data, error } = await auth.admin.from('organizations').update({ name }).eq('id', orgId).select('*').single()
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+  return NextResponse.json({ org: data })
+}
@@ -0,0 +1,69 @@
+// app/api/orgs/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabase, getRequestUser } from '../../lib/supabase-server'
+import { createAdminSupabase } from '../../lib/supabase-admin'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/** GET → { orgs, invites }: active memberships plus invitations for the caller's email */
+export async function GET() {
+  const user = await getRequestUser(createServerSupabase())
+  if (!user) return NextResponse.json({ error: 'Sign in required' }, { status: 401 })
+
+  const admin = createAdminSupabase()
+  const [{ data: active, error }, { data: invites }] = await Promise.all([
+    admin
+      .from('organization_members')
+      .select('role, joined_at, organizations!inner(*)')
+      .eq('user_id', user.id)
+      .eq('status', 'active')
+      .order('joined_at', { ascending: true }),
+    user.email
+      ? admin
+          .from('organization_members')
+          .select('id, role, created_at, organizations!inner(id, name)')
+          .eq('email', user.email.toLowerCase())
+          .eq('status', 'invited')
+      : Promise.resolve({ data: [] as any[] }),
+  ])
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+
+  return NextResponse.json({
+    orgs: (active || []).map((m: any) => ({ ...m.organizations, role: m.role })),
+    invites: (invites || []).map((i: any) => ({ id: i.id, role: i.role, created_at: i.created_at, org: i.organizations })),
+  })
+}
+
+/** POST { name } → creates a free org with the caller as its first admin seat */
+export async function POST(req: NextRequest) {
+  const user = await getRequestUser(createServerSupabase())
+  if (!user) return NextResponse.json({ error: 'Sign in required' }, { status: 401 })
+
+  const body = await req.json().catch(() => ({}))
+  const name = String(body?.name || '').trim()
+  if (!name || name.length > 120) return NextResponse.json({ error: 'Provide a name (max 120 characters)' }, { status: 400 })
+
+  const admin = createAdminSupabase()
+  const { data: org, error } = await admin
+    .from('organizations')
+    .insert({ name, owner_id: user.id })
+    .select('*')
+    .single()
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+
+  const { error: memberErr } = await admin.from('organization_members').insert({
+    org_id: org.id,
+    user_id: user.id,
+    email: (user.email || '').toLowerCase(),
+    role: 'admin',
+    status: 'active',
+    invited_by: user.id,
+    joined_at: new Date().toISOString(),
+  })
+  if (memberErr) {
+    await admin.from('organizations').delete().eq('id', org.id)
+    return NextResponse.json({ error: memberErr.message }, { status: 500 })
+  }
+  return NextResponse.json({ org }, { status: 201 })
+}
@@ -0,0 +1,20 @@
+// app/api/usage/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabase, getRequestUser } from '../../lib/supabase-server'
+import { getUsageSnapshot } from '../../lib/metering'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/** GET ?colabId= → the UsageSnapshot metered routes would charge against */
+export async function GET(req: NextRequest) {
+  const user = await getRequestUser(createServerSupabase())
+  if (!user) return NextResponse.json({ error: 'Sign in required' }, { status: 401 })
+
+  try {
+    const usage = await getUsageSnapshot(user.id, { colabId: req.nextUrl.searchParams.get('colabId') })
+    return NextResponse.json({ usage })
+  } catch (e: any) {
+    return NextResponse.json({ error: e.message }, { status: 500 })
+  }
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import { useEffect, useMemo, useRef, useState, type FormEvent } from 'react'
+import { useEffect, useMemo, useRef, useState, type FormEvent, type ReactNode } from 'react'
 import { useRouter, useParams } from 'next/navigation'
 import { supabase } from '../../lib/supabase'
 import Link from 'next/link'
@@ -8,11 +8,43 @@ import {
   FiHome, FiCpu, FiUsers, FiPlus, FiX, FiCalendar,
   FiLock, FiGlobe, FiArrowLeft, FiEdit2, FiTrash2, FiCheck, FiCornerUpRight,
   FiZap, FiShield, FiBarChart2, FiArrowUp, FiDownload, FiCopy,
-  FiMapPin, FiBriefcase, FiTwitter, FiLinkedin, FiGithub, FiUser
+  FiMapPin, FiBriefcase, FiTwitter, FiLinkedin, FiGithub, FiUser, FiFolder, FiSquare, FiBookOpen, FiBookmark, FiClipboard, FiArchive
 } from 'react-icons/fi'
+import FilesSection from '@/components/colab/FilesSection'
+import SystematicReviewsSection from '@/components/colab/SystematicReviews'
+import ColabSearch, { SEARCH_KIND_ICONS, SEARCH_KIND_LABELS } from '@/components/colab/ColabSearch'
+import { PresenceBar, TypingIndicator, useColabRealtime } from '@/components/colab/Realtime'
+import ReadmeEditor, { ReadmeMarkdown } from '@/components/colab/ReadmeEditor'
+import { JoinRequestButton, PendingRequests, useJoinRequests, type JoinRequestsState } from '@/components/colab/JoinRequests'
+import InvitationsPanel from '@/components/colab/Invitations'
+import PermissionsPanel from '@/components/colab/Permissions'
+import ColabSettings from '@/components/colab/ColabSettings'
+import {
+  BibliographySection, CitationChip, CitationPicker, useBibliography,
+  type BibliographyEntry, type CiteInput
+} from '@/components/colab/Citations'
+import {
+  LiteratureDigest, SavedSearchesPanel, useSavedSearches, type SavedSearchesState
+} from '@/components/colab/SavedSearches'
+import NotificationBell from '@/components/ui/NotificationBell'
+import PubMedBrowser, { PaperIndexing, type PubMedSearchRequest } from '@/components/colab/PubMedBrowser'
+import { readSSE } from '../../lib/sse'
+import type { Paper } from '../../lib/literature/pubmed'
+import { LIT_SOURCES, LIT_SOURCE_LABELS, type LitItem, type LitSource } from '../../lib/literature/sources'
+import { PROFILE_WEIGHTS, rankItems, type RankingProfile, type RankingWeights } from '../../lib/literature/ranking'
+import { RankingControls, ScoreBadge } from '@/components/colab/RankingControls'
+import { LLM_PROVIDER_LABELS, SELECTABLE_LLM_PROVIDERS } from '../../lib/llm/types'
+import { memberRole, normalizeRole, permissionsFor, type Permission, type PermissionOverrides } from '../../lib/permissions'
+import { resolveColabSlug } from '../../lib/slugs'
+import type { ContextSource, SearchResult } from '../../types/search-types'
+import { parseCitations, type AnswerSegment, type GroundedSource, type GroundingReport } from '../../lib/llm/grounding'
+import {
+  PLAN_LIMITS,
+  type PlanTier, type UsageKind, type UsageSnapshot, type QuotaExceeded
+} from '../../lib/plans'
 
 /** ---------- Types ---------- */
-interface Colab { id: string; name: string; slug: string; description: string; readme: string; is_public: boolean; owner_id: string }
+interface Colab { id: string; name: string; slug: string; description: string; readme: string; is_public: boolean; owner_id: string; ai_provider?: string | null; allow_join_requests?: boolean; permission_overrides?: PermissionOverrides; archived_at?: string | null; slug_pinned?: boolean }
 interface Profile {
   id: string
   username: string
@@ -30,73 +62,49 @@ interface Profile {
 }
 interface NoteRow { id: string; colab_id: string; user_id: string; content: string; created_at: string; parent_id: string | null }
 interface ResearchNote extends NoteRow { user: Profile }
+const NOTE_SELECT = '*, user:profiles(id, username, full_name, avatar_url)'
 
-type PlanTier = 'free' | 'pro' | 'team'
-type UsageKind = 'ai_messages' | 'lit_searches' | 'analyses'
-
-type RoleLabel = 'Owner' | 'Moderator' | 'Member' | 'Contributor'
+/** Guests wrote notes without being (or after being) members */
+type RoleLabel = 'Owner' | 'Maintainer' | 'Contributor' | 'Viewer' | 'Guest'
 interface Contributor { profile: Profile; roleLabel: RoleLabel }
-
-/** ---------- Limits by plan (client view; enforce on server too) ---------- */
-const PLAN_LIMITS: Record<PlanTier, Record<UsageKind, number>> = {
-  free: { ai_messages: 150,  lit_searches: 50,   analyses: 10 },
-  pro:  { ai_messages: 2000, lit_searches: 500,  analyses: 200 },
-  team: { ai_messages: 10000, lit_searches: 2500, analyses: 1000 },
+const ROLE_LABEL: Record<NonNullable<ReturnType<typeof normalizeRole>>, RoleLabel> = {
+  owner: 'Owner', maintainer: 'Maintainer', contributor: 'Contributor', viewer: 'Viewer',
+}
+const roleLabelOf = (role: string | null | undefined): RoleLabel => {
+  const r = normalizeRole(role)
+  return r ? ROLE_LABEL[r] : 'Guest'
 }
 
 /** ---------- Helpers ---------- */
-const periodKey = () => {
-  const d = new Date()
-  return `${d.getUTCFullYear()}-${String(d.getUTCMonth()+1).padStart(2,'0')}`
-}
 const titleCase = (s?: string | null): string =>
   (s || '').replace(/(^|[_\-\s])([a-z])/gi, (_, p1, p2) => (p1 ? ' ' : '') + p2.toUpperCase()) || ''
 
-/** ---------- Usage hook (Supabase-backed per user) ---------- */
-function useUsage(userId: string | null) {
+/** ---------- Usage hook (read-only; metered routes charge on the server) ---------- */
+function useUsage(userId: string | null, colabId?: string) {
   const [tier, setTier] = useState<PlanTier>('free')
+  const [limits, setLimits] = useState<Record<UsageKind, number>>(PLAN_LIMITS.free)
   const [used, setUsed] = useState<Record<UsageKind, number>>({ ai_messages: 0, lit_searches: 0, analyses: 0 })
+  const [org, setOrg] = useState<UsageSnapshot['org'] | null>(null)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const pKey = periodKey()
+  const [quota, setQuota] = useState<QuotaExceeded | null>(null)
 
-  const limits = PLAN_LIMITS[tier]
-  const remaining = (k: UsageKind) => Math.max(0, (limits[k] ?? 0) - (used[k] ?? 0))
+  const remaining = (k: UsageKind) => {
+    const pool = Math.max(0, (limits[k] ?? 0) - (used[k] ?? 0))
+    const cap = org?.memberCaps[k]
+    return cap === undefined ? pool : Math.min(pool, Math.max(0, cap - (org?.memberUsed[k] ?? 0)))
+  }
   const exceeded  = (k: UsageKind) => remaining(k) <= 0
 
+  // the server resolves personal plan vs. organization pool for this colab
   const refresh = async () => {
     if (!userId) return
     setLoading(true); setError(null)
     try {
-      const { data: planRow, error: planErr } = await supabase
-        .from('user_plans')
-        .select('tier')
-        .eq('user_id', userId)
-        .maybeSingle()
-      if (planErr) throw planErr
-      setTier((planRow?.tier as PlanTier) || 'free')
-
-      const { data: usageRow, error: usageSelErr } = await supabase
-        .from('user_usage_monthly')
-        .select('ai_messages_used, lit_searches_used, analyses_used')
-        .eq('user_id', userId)
-        .eq('period', pKey)
-        .maybeSingle()
-
-      if (usageSelErr) throw usageSelErr
-      if (!usageRow) {
-        const { error: insErr } = await supabase
-          .from('user_usage_monthly')
-          .insert({ user_id: userId, period: pKey, ai_messages_used: 0, lit_searches_used: 0, analyses_used: 0 })
-        if (insErr) throw insErr
-        setUsed({ ai_messages: 0, lit_searches: 0, analyses: 0 })
-      } else {
-        setUsed({
-          ai_messages: usageRow.ai_messages_used ?? 0,
-          lit_searches: usageRow.lit_searches_used ?? 0,
-          analyses: usageRow.analyses_used ?? 0,
-        })
-      }
+      const res = await fetch(`/api/usage${colabId ? `?colabId=${encodeURIComponent(colabId)}` : ''}`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data?.error || 'Failed to load usage')
+      sync(data.usage)
     } catch (e:any) {
       setError(e.message || 'Failed to load usage')
     } finally {
@@ -104,37 +112,34 @@ function useUsage(userId: string | null) {
     }
   }
 
-  const increment = async (kind: UsageKind, amount = 1) => {
-    if (!userId) return
-    try {
-      const col =
-        kind === 'ai_messages' ? 'ai_messages_used' :
-        kind === 'lit_searches' ? 'lit_searches_used' : 'analyses_used'
-
-      // ensure row then atomic increment via RPC
-      try {
-        await supabase
-          .from('user_usage_monthly')
-          .insert({ user_id: userId, period: pKey })
-          .select('id')
-          .maybeSingle()
-      } catch {}
-
-      const { error: updErr } = await supabase
-        .rpc('increment_usage', { p_user_id: userId, p_period: pKey, p_column: col, p_amount: amount })
-      if (updErr) throw updErr
+  // adopt the server's view after a metered call
+  const sync = (usage?: UsageSnapshot | null) => {
+    if (!usage) return
+    setTier(usage.tier)
+    setLimits(usage.limits)
+    setUsed(usage.used)
+    setOrg(usage.org || null)
+  }
 
-      setUsed(prev => ({ ...prev, [kind]: (prev[kind] ?? 0) + amount }))
-    } catch {
-      setUsed(prev => ({ ...prev, [kind]: (prev[kind] ?? 0) + amount }))
-    }
+  // 402/429 from a metered route: sync meters and keep the details for UpgradeModal
+  const applyQuota = (body: QuotaExceeded) => {
+    sync(body)
+    setQuota(body)
   }
 
-  useEffect(() => { refresh() }, [userId])
+  useEffect(() => { refresh() }, [userId, colabId])
 
-  return { tier, limits, used, loading, error, remaining, exceeded, increment, periodLabel: 'this month' }
+  return { tier, limits, used, org, loading, error, quota, remaining, exceeded, refresh, sync, applyQuota, periodLabel: 'this month' }
 }
 
+/** True when a metered route refused the call for quota reasons */
+const LIT_TOP_N = 12
+
+const CACHED_NOTE = 'Recent results from the shared cache — this search was not counted against your quota.'
+
+const isQuotaResponse = (status: number, data: any): data is QuotaExceeded =>
+  (status === 402 || status === 429) && data?.code === 'quota_exceeded'
+
 /** ---------- Page ---------- */
 export default function ColabPage() {
   const [colab, setColab] = useState<Colab | null>(null)
@@ -149,19 +154,39 @@ export default function ColabPage() {
   const [error, setError] = useState<string | null>(null)
   const [showNoteModal, setShowNoteModal] = useState(false)
   const [editing, setEditing] = useState<{ id: string; value: string } | null>(null)
+  const bibliography = useBibliography(colab?.id || null)
+  const savedSearches = useSavedSearches(colab?.id || null)
+  const joinRequests = useJoinRequests(colab?.id || null)
 
   const router = useRouter()
   const { slug } = useParams() as { slug?: string }
-  const [currentSection, setCurrentSection] = useState<'overview'|'peer-review'|'contributors'|'ai-copilot'>('overview')
+  const [currentSection, setCurrentSection] = useState<'overview'|'peer-review'|'files'|'bibliography'|'reviews'|'contributors'|'ai-copilot'>('overview')
 
   const sessionUserId = sessionUser?.id || null
 
-  const canCreate = useMemo(() => {
-    if (!colab || !sessionUser) return false
-    if (userRole === 'owner' || userRole === 'moderator' || userRole === 'member') return true
-    // allow any signed-in user to contribute if colab is public
-    return !!colab.is_public
+  // search hit or copilot source → its section; a note is scrolled into view and highlighted in its thread
+  const [focusNoteId, setFocusNoteId] = useState<string | null>(null)
+  const openSearchResult = (r: Pick<SearchResult, 'kind' | 'source_id'>) => {
+    const section = ({ note: 'peer-review', readme: 'overview', file: 'files', reference: 'bibliography', memory: 'ai-copilot' } as const)[r.kind]
+    setCurrentSection(section)
+    setFocusNoteId(r.kind === 'note' ? r.source_id : null)
+  }
+  useEffect(() => {
+    if (!focusNoteId || currentSection !== 'peer-review') return
+    const scroll = setTimeout(() => document.getElementById(`note-${focusNoteId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' }), 50)
+    const clear = setTimeout(() => setFocusNoteId(null), 4000)
+    return () => { clearTimeout(scroll); clearTimeout(clear) }
+  }, [focusNoteId, currentSection])
+
+  // what the caller's role may do here; the routes and policies check the same matrix
+  const permissions = useMemo(() => {
+    if (!colab || !sessionUser) return new Set<Permission>()
+    const role = colab.owner_id === sessionUser.id ? 'owner' : userRole
+    return new Set(permissionsFor(role, colab.permission_overrides, !!colab.archived_at))
   }, [colab, sessionUser, userRole])
+  const allowed = (p: Permission) => permissions.has(p)
+  // notes, citations, the bibliography and reviews all count as contributions
+  const canCreate = allowed('notes.create')
 
   useEffect(() => {
     const fetchData = async () => {
@@ -172,8 +197,14 @@ export default function ColabPage() {
         if (!user) { router.push('/signin'); return }
         setSessionUser({ id: user.id })
 
-        const { data: colabData, error: colabError } = await supabase.from('colabs').select('*').eq('slug', slug).single()
-        if (colabError || !colabData) throw new Error(colabError?.message || 'Colab not found')
+        const { data: colabData, error: colabError } = await supabase.from('colabs').select('*').eq('slug', slug).maybeSingle()
+        if (colabError) throw new Error(colabError.message)
+        if (!colabData) {
+          // an old link: send it to the colab's current slug
+          const current = await resolveColabSlug(supabase, slug)
+          if (current && current !== slug) { router.replace(`/colab/${current}`); return }
+          throw new Error('Colab not found')
+        }
         setColab(colabData as Colab)
 
         // Fetch creator with extended profile fields so we can show rich info
@@ -184,21 +215,22 @@ export default function ColabPage() {
           .single()
         setCreator(creatorData as Profile)
 
-        // Current user's role in this colab
+        // Current user's role in this colab (pending or declined requests carry none)
         const { data: memberRow, error: memberError } = await supabase
-          .from('colab_members').select('role').eq('colab_id', colabData.id).eq('user_id', user.id).maybeSingle()
-        if (!memberError) setUserRole(memberRow?.role || null)
+          .from('colab_members').select('role, status').eq('colab_id', colabData.id).eq('user_id', user.id).maybeSingle()
+        if (!memberError) setUserRole(memberRow?.status === 'accepted' ? memberRole(memberRow.role) : null)
 
-        // All members (for contributors list)
+        // Accepted members (for contributors list); pending requests are listed separately
         const { data: memberList } = await supabase
           .from('colab_members')
           .select('user_id, role, user:profiles(id, username, full_name, avatar_url, bio, institution, location, twitter_url, linkedin_url, github_url, website_url, interests)')
           .eq('colab_id', colabData.id)
+          .eq('status', 'accepted')
 
         // Peer-review notes (and their authors)
         const { data: notesData } = await supabase
           .from('research_notes')
-          .select('*, user:profiles(id, username, full_name, avatar_url)')
+          .select(NOTE_SELECT)
           .eq('colab_id', colabData.id)
           .order('created_at', { ascending: true })
 
@@ -212,10 +244,7 @@ export default function ColabPage() {
         ;(memberList || []).forEach((m: any) => {
           const p: Profile = m.user
           if (!p) return
-          const roleLabel: RoleLabel =
-            p.id === colabData.owner_id ? 'Owner' :
-            (m.role === 'moderator' ? 'Moderator' :
-              (m.role === 'member' ? 'Member' : 'Contributor'))
+          const roleLabel = roleLabelOf(p.id === colabData.owner_id ? 'owner' : memberRole(m.role))
           byId.set(p.id, { profile: p, roleLabel })
           memberRoleById.set(p.id, m.role)
         })
@@ -239,19 +268,19 @@ export default function ColabPage() {
             .select('id, username, full_name, avatar_url, bio, institution, location, twitter_url, linkedin_url, github_url, website_url, interests')
             .in('id', extraIds)
           ;(extraProfiles || []).forEach((p: any) => {
-            const roleLabel: RoleLabel = p.id === colabData.owner_id ? 'Owner' : 'Contributor'
+            const roleLabel: RoleLabel = p.id === colabData.owner_id ? 'Owner' : 'Guest'
             byId.set(p.id, { profile: p as Profile, roleLabel })
           })
         }
 
-        // Normalize roles (ensure owner labeled Owner even if member says 'moderator' etc.)
+        // Normalize roles (ensure owner labeled Owner even if a member row says otherwise)
         if (colabData.owner_id && byId.has(colabData.owner_id)) {
           const ownerC = byId.get(colabData.owner_id)!
           byId.set(colabData.owner_id, { ...ownerC, roleLabel: 'Owner' })
         }
 
-        // Sort: Owner → Moderator → Member → Contributor → name
-        const order: Record<RoleLabel, number> = { Owner: 0, Moderator: 1, Member: 2, Contributor: 3 }
+        // Sort: Owner → Maintainer → Contributor → Viewer → Guest → name
+        const order: Record<RoleLabel, number> = { Owner: 0, Maintainer: 1, Contributor: 2, Viewer: 3, Guest: 4 }
         const list = Array.from(byId.values())
           .sort((a, b) => (order[a.roleLabel] - order[b.roleLabel]) || (a.profile.full_name || a.profile.username).localeCompare(b.profile.full_name || b.profile.username))
 
@@ -263,15 +292,47 @@ export default function ColabPage() {
     fetchData()
   }, [slug, router])
 
+  /** ---------- Live threads: other members' notes arrive over realtime ---------- */
+  const upsertNote = (note: ResearchNote) =>
+    setResearchNotes(prev => prev.some(n => n.id === note.id) ? prev.map(n => n.id === note.id ? note : n) : [...prev, note])
+
+  const realtime = useColabRealtime({
+    colabId: colab?.id || null,
+    userId: sessionUser?.id || null,
+    onNoteUpsert: async (noteId) => {
+      const { data } = await supabase.from('research_notes').select(NOTE_SELECT).eq('id', noteId).maybeSingle()
+      if (data) upsertNote(data as ResearchNote)
+    },
+    onNoteDelete: (noteId) => setResearchNotes(prev => prev.filter(n => n.id !== noteId)),
+    onResync: async () => {
+      if (!colab) return
+      const { data, error } = await supabase
+        .from('research_notes')
+        .select(NOTE_SELECT)
+        .eq('colab_id', colab.id)
+        .order('created_at', { ascending: true })
+      if (!error && data) setResearchNotes(data as ResearchNote[])
+    },
+  })
+
+  const updateAIProvider = async (ai_provider: string | null) => {
+    if (!colab) return
+    const { error } = await supabase.from('colabs').update({ ai_provider }).eq('id', colab.id)
+    if (error) { console.error('Failed to update AI provider:', error); return }
+    setColab({ ...colab, ai_provider })
+  }
+
   const handleCreateNote = async (content: string, parentId: string | null = null) => {
     if (!colab || !sessionUser) return
     const { data, error } = await supabase
       .from('research_notes')
       .insert({ colab_id: colab.id, user_id: sessionUser.id, content, parent_id: parentId })
-      .select('*, user:profiles(id, username, full_name, avatar_url)')
+      .select(NOTE_SELECT)
       .single()
+    realtime.setTypingIn(parentId, false)
     if (!error && data) {
-      setResearchNotes(prev => [...prev, data as ResearchNote])
+      // the realtime echo of this insert is merged by id
+      upsertNote(data as ResearchNote)
 
       // ensure the posting user shows as contributor
       if (!contributors.find(c => c.profile.id === sessionUser.id)) {
@@ -282,10 +343,7 @@ export default function ColabPage() {
           .eq('id', sessionUser.id)
           .single()
         if (prof) {
-          const roleLabel: RoleLabel =
-            sessionUser.id === colab.owner_id ? 'Owner' :
-            (userRole === 'moderator' ? 'Moderator' :
-              (userRole === 'member' ? 'Member' : 'Contributor'))
+          const roleLabel = roleLabelOf(sessionUser.id === colab.owner_id ? 'owner' : userRole)
           setContributors(prev => [...prev, { profile: prof as Profile, roleLabel }])
         }
       }
@@ -300,7 +358,7 @@ export default function ColabPage() {
       .from('research_notes')
       .update({ content: editing.value })
       .eq('id', editing.id)
-      .select('*, user:profiles(id, username, full_name, avatar_url)')
+      .select(NOTE_SELECT)
       .single()
     if (data) setResearchNotes(prev => prev.map(n => n.id === editing.id ? (data as ResearchNote) : n))
     setEditing(null)
@@ -330,6 +388,8 @@ export default function ColabPage() {
       await supabase.from('research_notes').delete().eq('id', id)
     }
     setResearchNotes(prev => prev.filter(n => !toDelete.has(n.id)))
+    // their citations went with them
+    bibliography.reload()
   }
 
   /** --- Build threaded tree --- */
@@ -371,6 +431,9 @@ export default function ColabPage() {
   const sections = [
     { id: 'overview', label: 'Overview', icon: FiHome, count: null },
     { id: 'peer-review', label: 'Peer Review', icon: FiUsers, count: researchNotes.length },
+    { id: 'files', label: 'Files', icon: FiFolder, count: null },
+    { id: 'bibliography', label: 'Bibliography', icon: FiBookOpen, count: bibliography.references.length },
+    { id: 'reviews', label: 'Systematic Review', icon: FiClipboard, count: null },
     { id: 'contributors', label: 'Contributors', icon: FiUser, count: contributors.length },
     { id: 'ai-copilot', label: 'AI Co-Pilot', icon: FiCpu, count: null },
   ] as const
@@ -395,7 +458,13 @@ export default function ColabPage() {
               </div>
             </div>
           </div>
-          <div className="w-10" />
+          <div className="flex items-center gap-3">
+            {sessionUserId && !userRole && colab.owner_id !== sessionUserId && colab.is_public && (colab.allow_join_requests !== false || joinRequests.own) && (
+              <JoinRequestButton state={joinRequests} />
+            )}
+            <PresenceBar viewers={realtime.viewers} status={realtime.status} selfId={sessionUserId} />
+            <NotificationBell />
+          </div>
         </div>
         <div className="border-t">
           <nav className="max-w-7xl mx-auto px-2 sm:px-6 overflow-x-auto no-scrollbar">
@@ -420,8 +489,25 @@ export default function ColabPage() {
 
       {/* Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 py-6">
+        {colab.archived_at && (
+          <div className="mb-6 rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-900 inline-flex items-center gap-2 w-full">
+            <FiArchive className="shrink-0" /> Archived on {new Date(colab.archived_at).toLocaleDateString()}. Everything stays readable; nothing can be changed until the owner unarchives it.
+          </div>
+        )}
+        <div className="mb-6">
+          <ColabSearch colabId={colab.id} onOpen={openSearchResult} />
+        </div>
+
         {currentSection === 'overview' && (
-          <Overview colab={colab} creator={creator} role={userRole} />
+          <Overview
+            colab={colab}
+            creator={creator}
+            role={userRole ? roleLabelOf(userRole) : null}
+            savedSearches={savedSearches}
+            userId={sessionUserId}
+            canWrite={allowed('readme.edit')}
+            onReadmeSaved={readme => setColab(c => (c ? { ...c, readme } : c))}
+          />
         )}
 
         {currentSection === 'peer-review' && (
@@ -437,6 +523,8 @@ export default function ColabPage() {
               )}
             </div>
 
+            <TypingIndicator names={realtime.typingIn(null)} what="writing a new thread" />
+
             {rootNotes.length ? (
               <ul className="space-y-3">
                 {rootNotes.map((n) => (
@@ -446,6 +534,8 @@ export default function ColabPage() {
                     childrenMap={childrenMap}
                     depth={0}
                     sessionUserId={sessionUserId}
+                    canReply={canCreate}
+                    canModerate={allowed('notes.moderate')}
                     onReply={(parentId, text)=>handleCreateNote(text, parentId)}
                     onRequestEdit={startEdit}
                     onRequestDelete={removeNote}
@@ -453,6 +543,14 @@ export default function ColabPage() {
                     editingValue={editing?.value || ''}
                     onEditingChange={(v)=>setEditing(p=>p?{...p, value:v}:p)}
                     onSaveEdit={saveEdit}
+                    references={bibliography.references}
+                    citationsByNote={bibliography.citationsByNote}
+                    canCite={canCreate}
+                    onCite={bibliography.cite}
+                    onUncite={bibliography.uncite}
+                    highlightId={focusNoteId}
+                    typingIn={realtime.typingIn}
+                    onTyping={realtime.setTypingIn}
                   />
                 ))}
               </ul>
@@ -462,9 +560,64 @@ export default function ColabPage() {
           </section>
         )}
 
+        {currentSection === 'files' && (
+          <FilesSection colabId={colab.id} canWrite={allowed('files.upload')} />
+        )}
+
+        {currentSection === 'bibliography' && (
+          <BibliographySection
+            colabId={colab.id}
+            references={bibliography.references}
+            error={bibliography.error}
+            canWrite={canCreate}
+            onAdd={bibliography.add}
+            onRemove={bibliography.remove}
+            onImport={bibliography.importFile}
+          />
+        )}
+
+        {currentSection === 'reviews' && (
+          <SystematicReviewsSection
+            colabId={colab.id}
+            canWrite={canCreate}
+            userId={sessionUserId}
+            people={Object.fromEntries(contributors.map(c => [c.profile.id, c.profile.full_name || c.profile.username || 'A member']))}
+          />
+        )}
+
         {currentSection === 'contributors' && (
           <ContributorsSection
+            colabId={colab.id}
             contributors={contributors}
+            joinRequests={joinRequests}
+            overrides={colab.owner_id === sessionUserId && !colab.archived_at ? colab.permission_overrides || {} : null}
+            onOverridesSaved={permission_overrides => setColab(c => (c ? { ...c, permission_overrides } : c))}
+            settings={colab.owner_id === sessionUserId ? (
+              <ColabSettings
+                colab={colab}
+                members={contributors.filter(c => c.roleLabel !== 'Owner' && c.roleLabel !== 'Guest').map(c => c.profile)}
+                onArchivedChange={archived_at => setColab(c => (c ? { ...c, archived_at } : c))}
+                onSlugChange={(newSlug, slug_pinned) => {
+                  setColab(c => (c ? { ...c, slug: newSlug, slug_pinned } : c))
+                  if (newSlug !== slug) router.replace(`/colab/${newSlug}`)
+                }}
+                onTransferred={newOwnerId => {
+                  setColab(c => (c ? { ...c, owner_id: newOwnerId } : c))
+                  setUserRole('maintainer')
+                  setContributors(prev => prev.map(c =>
+                    c.profile.id === newOwnerId ? { ...c, roleLabel: 'Owner' } :
+                    c.profile.id === sessionUserId ? { ...c, roleLabel: 'Maintainer' } : c))
+                }}
+              />
+            ) : null}
+            onApproved={async (r) => {
+              const { data: prof } = await supabase
+                .from('profiles')
+                .select('id, username, full_name, avatar_url, bio, institution, location, twitter_url, linkedin_url, github_url, website_url, interests')
+                .eq('id', r.user_id)
+                .maybeSingle()
+              if (prof) setContributors(prev => [...prev.filter(c => c.profile.id !== prof.id), { profile: prof as Profile, roleLabel: 'Contributor' }])
+            }}
             onPreview={(p)=>setPreviewProfile(p)}
           />
         )}
@@ -474,6 +627,13 @@ export default function ColabPage() {
             readme={colab.readme}
             colabId={colab.id}
             userId={sessionUserId}
+            provider={colab.ai_provider || null}
+            onProviderChange={colab.owner_id === sessionUserId && !colab.archived_at ? updateAIProvider : undefined}
+            onAddReference={canCreate ? bibliography.add : undefined}
+            onOpenSource={openSearchResult}
+            savedSearches={savedSearches}
+            canWrite={allowed('copilot.use')}
+            canAsk={allowed('copilot.use')}
           />
         )}
       </main>
@@ -493,8 +653,9 @@ export default function ColabPage() {
         <CreateModal
           title="Start a new thread"
           placeholder="Write your review or question…"
-          onClose={()=>setShowNoteModal(false)}
+          onClose={()=>{ setShowNoteModal(false); realtime.setTypingIn(null, false) }}
           onSubmit={(v)=>handleCreateNote(v, null)}
+          onTyping={()=>realtime.setTypingIn(null, true)}
         />
       )}
 
@@ -507,7 +668,16 @@ export default function ColabPage() {
 
 /** ---------- Sections / Components ---------- */
 
-function Overview({ colab, creator, role }: { colab: Colab; creator: Profile | null; role: string | null }) {
+function Overview({ colab, creator, role, savedSearches, userId, canWrite, onReadmeSaved }: {
+  colab: Colab
+  creator: Profile | null
+  role: string | null
+  savedSearches: SavedSearchesState
+  userId: string | null
+  canWrite: boolean
+  onReadmeSaved: (readme: string) => void
+}) {
+  const [editingReadme, setEditingReadme] = useState(false)
   return (
     <div className="space-y-6">
       <div className="bg-white border rounded-lg p-6">
@@ -520,6 +690,8 @@ function Overview({ colab, creator, role }: { colab: Colab; creator: Profile | n
         <p className="text-slate-700 whitespace-pre-wrap break-words">{colab.description || 'A collaborative research project.'}</p>
       </div>
 
+      <LiteratureDigest state={savedSearches} />
+
       <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
         <div className="bg-white border rounded-lg p-6">
           <h3 className="font-semibold mb-4">Project Creator</h3>
@@ -534,26 +706,56 @@ function Overview({ colab, creator, role }: { colab: Colab; creator: Profile | n
           </div>
         </div>
         <div className="lg:col-span-3 bg-white border rounded-lg p-6">
-          <h3 className="font-semibold mb-3">README</h3>
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="font-semibold">README</h3>
+            <button
+              onClick={() => setEditingReadme(true)}
+              className="inline-flex items-center gap-1 px-3 py-1.5 rounded border text-sm text-slate-700 hover:bg-slate-50"
+            >
+              <FiEdit2 className="w-4 h-4" /> {canWrite ? 'Edit README' : 'History'}
+            </button>
+          </div>
           {colab.readme ? (
-            <div className="prose prose-slate max-w-none">
-              <div className="whitespace-pre-wrap break-words">{colab.readme}</div>
-            </div>
+            <ReadmeMarkdown text={colab.readme} />
           ) : (
             <div className="text-slate-500">No README yet.</div>
           )}
         </div>
       </div>
+
+      {editingReadme && (
+        <ReadmeEditor
+          colabId={colab.id}
+          userId={userId}
+          canWrite={canWrite}
+          onSaved={onReadmeSaved}
+          onClose={() => setEditingReadme(false)}
+        />
+      )}
     </div>
   )
 }
 
 /* ---------- Contributors ---------- */
 function ContributorsSection({
+  colabId,
   contributors,
+  joinRequests,
+  overrides,
+  onOverridesSaved,
+  settings,
+  onApproved,
   onPreview
 }: {
+  colabId: string,
   contributors: Contributor[],
+  joinRequests: JoinRequestsState,
+  /** the colab's permission overrides; null unless the viewer owns the colab */
+  overrides: PermissionOverrides | null,
+  onOverridesSaved: (overrides: PermissionOverrides) => void,
+  /** owner-only lifecycle controls */
+  settings: ReactNode,
+  onApproved: (request: JoinRequestsState['requests'][number]) => void,
   onPreview: (p: Profile) => void
 }) {
   return (
@@ -563,6 +765,11 @@ function ContributorsSection({
         <div className="text-sm text-slate-600">{contributors.length} people</div>
       </div>
 
+      {joinRequests.canModerate && <InvitationsPanel colabId={colabId} />}
+      {overrides && <PermissionsPanel colabId={colabId} overrides={overrides} onSaved={onOverridesSaved} />}
+      {settings}
+      <PendingRequests state={joinRequests} onApproved={onApproved} />
+
       {contributors.length === 0 ? (
         <div className="bg-white border rounded-lg p-10 text-center">
           <p className="font-medium mb-2">No contributors yet</p>
@@ -582,8 +789,8 @@ function ContributorsSection({
                   <div className="flex items-center gap-2">
                     <h3 className="font-semibold truncate">{profile.full_name || 'Anonymous'}</h3>
                     <span className={`text-[11px] px-2 py-0.5 rounded-full border ${roleLabel==='Owner' ? 'bg-yellow-50 border-yellow-200 text-yellow-800' :
-                      roleLabel==='Moderator' ? 'bg-purple-50 border-purple-200 text-purple-800' :
-                      roleLabel==='Member' ? 'bg-blue-50 border-blue-200 text-blue-800' :
+                      roleLabel==='Maintainer' ? 'bg-purple-50 border-purple-200 text-purple-800' :
+                      roleLabel==='Contributor' ? 'bg-blue-50 border-blue-200 text-blue-800' :
                       'bg-slate-50 border-slate-200 text-slate-700'}`}>
                       {roleLabel}
                     </span>
@@ -696,14 +903,19 @@ function ProfilePreviewModal({ profile, onClose }: { profile: Profile, onClose:
 /* ---------- Threaded Review UI ---------- */
 function ThreadNode({
   node, childrenMap, depth,
-  sessionUserId,
+  sessionUserId, canReply, canModerate,
   onReply, onRequestEdit, onRequestDelete,
-  editingId, editingValue, onEditingChange, onSaveEdit
+  editingId, editingValue, onEditingChange, onSaveEdit,
+  references, citationsByNote, canCite, onCite, onUncite, highlightId, typingIn, onTyping
 }: {
   node: ResearchNote
   childrenMap: Record<string, ResearchNote[]>
   depth: number
   sessionUserId: string | null
+  /** notes.create: replying posts a note */
+  canReply: boolean
+  /** notes.moderate: edit and delete anyone's notes */
+  canModerate: boolean
   onReply: (parentId: string, text: string) => Promise<void>
   onRequestEdit: (id: string, currentValue: string) => void
   onRequestDelete: (id: string) => void
@@ -711,17 +923,31 @@ function ThreadNode({
   editingValue: string
   onEditingChange: (v: string) => void
   onSaveEdit: () => Promise<void>
+  references: BibliographyEntry[]
+  citationsByNote: Record<string, BibliographyEntry[]>
+  /** write access to the colab; a note's author can always cite on it */
+  canCite: boolean
+  onCite: (noteId: string, input: CiteInput) => Promise<void>
+  onUncite: (noteId: string, referenceId: string) => Promise<void>
+  /** note opened from search */
+  highlightId?: string | null
+  /** other members writing a reply to a note */
+  typingIn: (noteId: string) => string[]
+  onTyping: (noteId: string, active: boolean) => void
 }) {
   const [replying, setReplying] = useState(false)
   const [reply, setReply] = useState('')
+  const [citing, setCiting] = useState(false)
 
   const kids = childrenMap[node.id] || []
   const isMine = sessionUserId === node.user_id
-  const canEditDelete = isMine
+  const canEditDelete = isMine || canModerate
   const isEditing = editingId === node.id
+  const citations = citationsByNote[node.id] || []
+  const mayCite = canCite || isMine
 
   return (
-    <li className="bg-white border rounded-lg p-4">
+    <li id={`note-${node.id}`} className={`bg-white border rounded-lg p-4 transition-shadow ${highlightId === node.id ? 'ring-2 ring-indigo-400' : ''}`}>
       <div className="flex items-start gap-3">
         <div className="w-10 h-10 rounded-full bg-gradient-to-br from-blue-500 to-purple-600 grid place-items-center overflow-hidden shrink-0">
           {node.user?.avatar_url
@@ -754,10 +980,29 @@ function ThreadNode({
             <p className="text-slate-700 whitespace-pre-wrap break-words">{node.content}</p>
           )}
 
+          {citations.length > 0 && (
+            <div className="mt-2 flex flex-wrap items-center gap-2">
+              {citations.map(r => (
+                <CitationChip
+                  key={r.id}
+                  reference={r}
+                  onRemove={mayCite ? () => { onUncite(node.id, r.id).catch(e => console.error('uncite failed', e)) } : undefined}
+                />
+              ))}
+            </div>
+          )}
+
           <div className="mt-3 flex flex-wrap items-center gap-3 text-sm">
-            <button onClick={()=>setReplying(v=>!v)} className="inline-flex items-center gap-2 px-2 py-1 rounded hover:bg-slate-50">
-              <FiCornerUpRight/> Reply
-            </button>
+            {canReply && (
+              <button onClick={()=>setReplying(v=>!v)} className="inline-flex items-center gap-2 px-2 py-1 rounded hover:bg-slate-50">
+                <FiCornerUpRight/> Reply
+              </button>
+            )}
+            {mayCite && (
+              <button onClick={()=>setCiting(v=>!v)} className="inline-flex items-center gap-2 px-2 py-1 rounded hover:bg-slate-50">
+                <FiBookmark/> Cite
+              </button>
+            )}
             {canEditDelete && !isEditing && (
               <>
                 <button
@@ -774,11 +1019,20 @@ function ThreadNode({
             )}
           </div>
 
+          {citing && (
+            <CitationPicker
+              references={references}
+              exclude={citations.map(r => r.id)}
+              onCite={(input)=>onCite(node.id, input)}
+              onClose={()=>setCiting(false)}
+            />
+          )}
+
           {replying && (
             <div className="mt-3">
               <textarea
                 value={reply}
-                onChange={e=>setReply(e.target.value)}
+                onChange={e=>{ setReply(e.target.value); onTyping(node.id, true) }}
                 placeholder="Write a reply…"
                 className="w-full border rounded-lg p-3 focus:ring-2 focus:ring-indigo-500 whitespace-pre-wrap break-words"
               />
@@ -789,11 +1043,13 @@ function ThreadNode({
                 >
                   <FiPlus/> Post reply
                 </button>
-                <button onClick={()=>setReplying(false)} className="px-3 py-2 rounded-lg border">Cancel</button>
+                <button onClick={()=>{ setReplying(false); onTyping(node.id, false) }} className="px-3 py-2 rounded-lg border">Cancel</button>
               </div>
             </div>
           )}
 
+          <TypingIndicator names={typingIn(node.id)} />
+
           {kids.length > 0 && (
             <ul className="mt-4 space-y-3 border-l pl-4">
               {kids.map(child => (
@@ -803,6 +1059,8 @@ function ThreadNode({
                   childrenMap={childrenMap}
                   depth={depth+1}
                   sessionUserId={sessionUserId}
+                  canReply={canReply}
+                  canModerate={canModerate}
                   onReply={onReply}
                   onRequestEdit={onRequestEdit}
                   onRequestDelete={onRequestDelete}
@@ -810,6 +1068,14 @@ function ThreadNode({
                   editingValue={editingValue}
                   onEditingChange={onEditingChange}
                   onSaveEdit={onSaveEdit}
+                  references={references}
+                  citationsByNote={citationsByNote}
+                  canCite={canCite}
+                  onCite={onCite}
+                  onUncite={onUncite}
+                  highlightId={highlightId}
+                  typingIn={typingIn}
+                  onTyping={onTyping}
                 />
               ))}
             </ul>
@@ -821,36 +1087,116 @@ function ThreadNode({
 }
 
 /* ---------- Helper: nicely format AI text ---------- */
-function FormattedText({ text }: { text: string }) {
-  const blocks = text.trim().split(/\n\s*\n+/)
-  const isBullet = (line: string) => /^(?:\d+[\.)]|[-*•])\s+/.test(line.trim())
+type Piece = string | number[]
+
+/** Answer text as lines of text and citation pieces; plain text is one piece per line */
+function toLines(text: string, segments?: AnswerSegment[]): Piece[][] {
+  const lines: Piece[][] = [[]]
+  for (const seg of segments || [{ type: 'text', text } as AnswerSegment]) {
+    if (seg.type === 'cite') { lines[lines.length - 1].push(seg.ids); continue }
+    seg.text.split('\n').forEach((part, i) => {
+      if (i > 0) lines.push([])
+      if (part) lines[lines.length - 1].push(part)
+    })
+  }
+  return lines
+}
+
+function Citation({ ids, sources }: { ids: number[]; sources: GroundedSource[] }) {
+  return (
+    <sup className="ml-0.5 whitespace-nowrap">
+      {ids.map((n, i) => {
+        const src = sources.find(s => s.n === n)
+        const href = src?.url || (src?.doi ? `https://doi.org/${src.doi}` : undefined)
+        const label = `[${n}]`
+        return (
+          <span key={n}>
+            {i > 0 && ' '}
+            {href
+              ? <a href={href} target="_blank" rel="noreferrer" title={src?.title} className="text-blue-700 hover:underline">{label}</a>
+              : <span title={src?.title} className="text-blue-700">{label}</span>}
+          </span>
+        )
+      })}
+    </sup>
+  )
+}
+
+/** Grounded answers pass `segments` and `sources`; each citation links to its paper */
+function FormattedText({ text, segments, sources = [] }: { text: string; segments?: AnswerSegment[]; sources?: GroundedSource[] }) {
+  const lines = toLines(text.trim(), segments)
+  const lineText = (line: Piece[]) => line.map(p => typeof p === 'string' ? p : '').join('')
+  const blocks: Piece[][][] = [[]]
+  for (const line of lines) {
+    if (!lineText(line).trim() && line.every(p => typeof p === 'string')) { if (blocks[blocks.length - 1].length) blocks.push([]) }
+    else blocks[blocks.length - 1].push(line)
+  }
+  const bullet = /^\s*(?:\d+[\.)]|[-*•])\s+/
+  const isBullet = (line: Piece[]) => bullet.test(lineText(line))
+  const render = (line: Piece[], stripBullet = false) => line.map((p, i) => {
+    if (typeof p !== 'string') return <Citation key={i} ids={p} sources={sources} />
+    return <span key={i}>{stripBullet && i === 0 ? p.replace(bullet, '') : p}</span>
+  })
   return (
     <div className="prose prose-sm max-w-none break-words">
-      {blocks.map((block, idx) => {
-        const lines = block.split(/\n/)
-        const bulletLines = lines.every(l => l.trim() === '' || isBullet(l))
-        if (bulletLines) {
+      {blocks.filter(b => b.length).map((block, idx) => {
+        if (block.every(isBullet)) {
           return (
             <ul key={idx} className="space-y-2">
-              {lines.filter(l => l.trim()).map((l, i) => (
-                <li key={i}>{l.replace(/^(\d+[\.)]|[-*•])\s+/, '')}</li>
-              ))}
+              {block.map((l, i) => <li key={i}>{render(l, true)}</li>)}
             </ul>
           )
         }
-        return <p key={idx} className="mb-4 whitespace-pre-wrap break-words">{block}</p>
+        return (
+          <p key={idx} className="mb-4 whitespace-pre-wrap break-words">
+            {block.map((l, i) => <span key={i}>{i > 0 && '\n'}{render(l)}</span>)}
+          </p>
+        )
       })}
     </div>
   )
 }
 
+/** A copilot message; grounded answers keep the papers they cite */
+type ChatEntry = {
+  role: 'user'|'assistant'
+  content: string
+  sources?: GroundedSource[]
+  segments?: AnswerSegment[]
+  grounding?: GroundingReport
+  /** colab documents retrieved as context for the answer */
+  context?: ContextSource[]
+}
+
+/** Re-derive citation segments for an answer loaded from ai_messages */
+const withCitations = (entry: ChatEntry): ChatEntry => {
+  if (!entry.sources?.length) return entry
+  const { segments, report } = parseCitations(entry.content, entry.sources.length)
+  return { ...entry, segments, grounding: report }
+}
+
 /* ---------- AI Co-Pilot (README-only) + Supabase Chat+Memory (per user) + Usage gating ---------- */
-function AICopilot({ readme, colabId, userId }: { readme: string; colabId: string; userId: string | null }) {
+function AICopilot({ readme, colabId, userId, provider, onProviderChange, onAddReference, onOpenSource, savedSearches, canWrite, canAsk }: {
+  readme: string
+  colabId: string
+  userId: string | null
+  provider: string | null
+  /** Owner only: pick the model provider for this colab (null = server default) */
+  onProviderChange?: (provider: string | null) => void
+  /** Writers only: add a search result to the colab bibliography */
+  onAddReference?: (identifier: string, metadata: Record<string, unknown>) => Promise<unknown>
+  /** jump to a colab document an answer drew on */
+  onOpenSource: (source: ContextSource) => void
+  savedSearches: SavedSearchesState
+  canWrite: boolean
+  /** copilot.use: asking runs on the colab's quota */
+  canAsk: boolean
+}) {
   const [input, setInput] = useState('Summarize the README and suggest next steps.')
-  const [messages, setMessages] = useState<{ role: 'user'|'assistant'; content: string }[]>([])
+  const [messages, setMessages] = useState<ChatEntry[]>([])
   const [litMemory, setLitMemory] = useState<string>('') // per user+colab
   const [loading, setLoading] = useState(false)
-  const { tier, limits, used, remaining, exceeded, increment, periodLabel } = useUsage(userId)
+  const { tier, limits, used, org, quota, remaining, exceeded, refresh: refreshUsage, sync, applyQuota, periodLabel } = useUsage(userId, colabId)
   const [showUpgrade, setShowUpgrade] = useState(false)
 
   const [chatId, setChatId] = useState<string | null>(null)
@@ -886,12 +1232,12 @@ function AICopilot({ readme, colabId, userId }: { readme: string; colabId: strin
 
         const { data: msgs } = await supabase
           .from('ai_messages')
-          .select('role, content, created_at')
+          .select('role, content, sources, context, created_at')
           .eq('chat_id', cid)
           .order('created_at', { ascending: true })
           .limit(200)
         if (Array.isArray(msgs)) {
-          setMessages(msgs.map(m => ({ role: m.role as 'user'|'assistant', content: m.content })))
+          setMessages(msgs.map(m => withCitations({ role: m.role as 'user'|'assistant', content: m.content, sources: m.sources || undefined, context: m.context || undefined })))
         }
 
         const { data: mem } = await supabase
@@ -912,10 +1258,78 @@ function AICopilot({ readme, colabId, userId }: { readme: string; colabId: strin
 
   async function appendMessage(role: 'user'|'assistant', content: string) {
     setMessages(m => [...m, { role, content }])
+    await persistMessage(role, content)
+  }
+  async function persistMessage(role: 'user'|'assistant', content: string, extra: Pick<ChatEntry, 'sources' | 'context'> = {}) {
     if (persistReady && chatId) {
-      try { await supabase.from('ai_messages').insert({ chat_id: chatId, role, content }) } catch {}
+      try {
+        await supabase.from('ai_messages').insert({ chat_id: chatId, role, content, sources: extra.sources || null, context: extra.context || null })
+      } catch {}
+    }
+  }
+
+  // Streaming /api/ai: the answer grows in a live bubble; Stop aborts the upstream call.
+  const abortRef = useRef<AbortController | null>(null)
+  const [streaming, setStreaming] = useState(false)
+  const stopStreaming = () => abortRef.current?.abort()
+
+  /** Resolves to the answer text ('' when nothing arrived or the quota refused the call) */
+  async function streamAI(payload: ReturnType<typeof makeAIPayload>): Promise<string> {
+    const controller = new AbortController()
+    abortRef.current = controller
+    setStreaming(true)
+    setMessages(m => [...m, { role: 'assistant', content: '' }])
+    const setLive = (content: string, extra?: Pick<ChatEntry, 'sources' | 'segments' | 'grounding' | 'context'>) =>
+      setMessages(m => [...m.slice(0, -1), { role: 'assistant', content, ...extra }])
+    const dropLive = () => setMessages(m => m.slice(0, -1))
+
+    let text = ''
+    let sources: GroundedSource[] | undefined
+    let context: ContextSource[] | undefined
+    try {
+      const res = await fetch('/api/ai', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+        body: JSON.stringify({ ...payload, stream: true }),
+        signal: controller.signal,
+      })
+      if (!res.ok || !res.body) {
+        const data = await res.json().catch(() => ({}))
+        dropLive()
+        if (isQuotaResponse(res.status, data)) { applyQuota(data); setShowUpgrade(true); return '' }
+        throw new Error(data?.error || 'AI request failed')
+      }
+      for await (const { event, data } of readSSE(res.body)) {
+        const msg = JSON.parse(data)
+        if (event === 'delta') { text += msg.text; setLive(text) }
+        else if (event === 'done') {
+          text = msg.text
+          sources = msg.sources
+          context = msg.context
+          setLive(text, { sources, segments: msg.segments, grounding: msg.grounding, context })
+          sync(msg.usage)
+        }
+        else if (event === 'error') { sync(msg.usage); if (!text) throw new Error(msg.error) }
+      }
+    } catch (e: any) {
+      if (!controller.signal.aborted) {
+        if (!text) { dropLive(); throw e }
+      }
+    } finally {
+      abortRef.current = null
+      setStreaming(false)
     }
+
+    if (controller.signal.aborted) {
+      // partial answers are billed; nothing delivered is refunded server-side
+      if (text) { text += ' …[stopped]'; setLive(text) } else dropLive()
+      setTimeout(refreshUsage, 500)
+    }
+    if (text) await persistMessage('assistant', text, { sources, context })
+    return text
   }
+
+  useEffect(() => () => abortRef.current?.abort(), [])
   async function saveMemory(content: string) {
     setLitMemory(content)
     if (persistReady && userId) {
@@ -945,15 +1359,17 @@ function AICopilot({ readme, colabId, userId }: { readme: string; colabId: strin
   }
 
   // Always include README + memory in context
-  function makeAIPayload(userPrompt: string) {
+  function makeAIPayload(userPrompt: string, usageKind: UsageKind = 'ai_messages', papers?: LitItem[]) {
     const contextBits: string[] = []
     if (readme?.trim()) contextBits.push(`README:\n${readme.trim()}`)
     if (litMemory?.trim()) contextBits.push(`LATEST_LIT_ANALYSIS:\n${litMemory.trim()}`)
     return {
       prompt: userPrompt,
+      usageKind,
       colabId,
       readme: contextBits.join('\n\n'),
-      history: messages.slice(-12),
+      history: messages.slice(-12).map(({ role, content }) => ({ role, content })),
+      ...(papers ? { mode: 'grounded', papers } : {}),
     }
   }
 
@@ -963,80 +1379,130 @@ function AICopilot({ readme, colabId, userId }: { readme: string; colabId: strin
     setLoading(true)
     try {
       await appendMessage('user', input)
-      const res = await fetch('/api/ai', {
-        method:'POST',
-        headers:{ 'Content-Type':'application/json' },
-        body: JSON.stringify(makeAIPayload(input))
-      })
-      const data = await res.json()
-      const bot = data?.text || 'No response'
-      await appendMessage('assistant', bot)
-      increment('ai_messages', 1)
-      setInput('')
       setTimeout(scrollToChat, 150)
+      const bot = await streamAI(makeAIPayload(input))
+      if (bot) setInput('')
+    } catch (e: any) {
+      await appendMessage('assistant', e?.message || 'No response')
     } finally { setLoading(false) }
   }
 
   // PubMed + Literature Agent
-  type QuickPaper = { pmid: string; title: string; journal?: string; year?: string; authors?: string[]; doi?: string; url: string; abstract?: string }
+  type QuickPaper = Paper
   const [q, setQ] = useState('cancer immunotherapy')
   const [pmid, setPmid] = useState('')
   const [fetching, setFetching] = useState(false)
   const [paper, setPaper] = useState<QuickPaper | null>(null)
+  const [paperCached, setPaperCached] = useState(false)
   const [err, setErr] = useState<string | null>(null)
 
-  type LitItem = { id: string; source: 'crossref'|'arxiv'|'s2'; title: string; year?: number; authors?: string[]; abstract?: string; doi?: string; url?: string; citationCount?: number; externalIds?: Record<string, string> }
   const [litQ, setLitQ] = useState('large language models retrieval augmentation')
   const [litLoading, setLitLoading] = useState(false)
   const [litErr, setLitErr] = useState<string|null>(null)
-  const [litTop, setLitTop] = useState<LitItem[]>([])
+  const [litResults, setLitResults] = useState<{ query: string; items: LitItem[] } | null>(null)
+  const [rankProfile, setRankProfile] = useState<RankingProfile>('balanced')
+  const [rankWeights, setRankWeights] = useState<RankingWeights>(PROFILE_WEIGHTS.balanced)
+  // ranked here as well as on the server, so switching profiles costs no search
+  const litTop = useMemo(
+    () => litResults ? rankItems(litResults.items, { profile: rankProfile, weights: rankWeights, query: litResults.query }).slice(0, LIT_TOP_N) : [],
+    [litResults, rankProfile, rankWeights]
+  )
+  const [litCached, setLitCached] = useState(false)
+  const [litSources, setLitSources] = useState<LitSource[]>([...LIT_SOURCES])
+  const toggleLitSource = (src: LitSource) =>
+    setLitSources(prev => prev.includes(src) ? prev.filter(x => x !== src) : LIT_SOURCES.filter(x => x === src || prev.includes(x)))
+  const [bibAdded, setBibAdded] = useState<Record<string, 'adding' | 'added' | { error: string }>>({})
   const [analyzing, setAnalyzing] = useState(false)
 
-  const compactAuthors = (a?: string[]) => !a?.length ? '' : (a.length <= 3 ? a.join(', ') : `${a.slice(0,3).join(', ')} et al.`)
-  const mkCiteLine = (x: LitItem, idx:number) => {
-    const yr = x.year ? ` (${x.year})` : ''; const src = x.source.toUpperCase(); const doi = x.doi ? ` — doi:${x.doi}` : ''; const url = x.url ? ` ${x.url}` : ''
-    return `#${idx+1} ${x.title}${yr} — ${compactAuthors(x.authors)} [${src}]${doi}${url ? ` — ${url}` : ''}`
+  const [savedNote, setSavedNote] = useState<string | null>(null)
+  const saveSearch = async (source: 'pubmed' | 'multisearch', query: string) => {
+    const setError = source === 'pubmed' ? setErr : setLitErr
+    setError(null); setSavedNote(null)
+    try {
+      const search = await savedSearches.create({
+        source,
+        query: query.trim(),
+        litSources: source === 'multisearch' && litSources.length < LIT_SOURCES.length ? litSources : undefined,
+      })
+      setSavedNote(`Saved "${search.name}" — it reruns weekly and notifies members about new papers.`)
+    } catch (e: any) {
+      setError(e.message || 'Could not save search')
+    }
   }
-  function mkGeminiContext(items: LitItem[], maxChars = 12000) {
-    const blocks: string[] = []
-    for (let i=0;i<items.length;i++){
-      const x = items[i]
-      const header = mkCiteLine(x, i)
-      let abs = (x.abstract || '').trim()
-      if (abs.length > 1500) abs = abs.slice(0, 1500) + '…'
-      blocks.push(`${header}\nAbstract: ${abs || 'N/A'}`)
+
+  const litIdentifier = (x: LitItem) =>
+    x.doi || (x.externalIds?.arXiv ? `arXiv:${x.externalIds.arXiv}` : x.externalIds?.PMID ? `PMID:${x.externalIds.PMID}` : null)
+
+  const addToBibliography = async (identifier: string, metadata: Record<string, unknown>) => {
+    if (!onAddReference) return
+    setBibAdded(p => ({ ...p, [identifier]: 'adding' }))
+    try {
+      await onAddReference(identifier, metadata)
+      setBibAdded(p => ({ ...p, [identifier]: 'added' }))
+    } catch (e: any) {
+      setBibAdded(p => ({ ...p, [identifier]: { error: e.message || 'Could not add to bibliography' } }))
     }
-    let out = ''
-    for (const b of blocks) { if ((out + '\n\n' + b).length > maxChars) break; out += (out ? '\n\n' : '') + b }
-    return out
+  }
+
+  const bibButton = (identifier: string | null, metadata: Record<string, unknown>) => {
+    if (!onAddReference || !identifier) return null
+    const state = bibAdded[identifier]
+    return (
+      <>
+        <button
+          onClick={() => addToBibliography(identifier, metadata)}
+          disabled={state === 'adding' || state === 'added'}
+          className="inline-flex items-center gap-1 text-sm px-2 py-1 rounded border hover:bg-white disabled:opacity-60"
+        >
+          {state === 'added' ? <><FiCheck /> In bibliography</> : <><FiBookOpen /> {state === 'adding' ? 'Adding…' : 'Add to bibliography'}</>}
+        </button>
+        {typeof state === 'object' && <span className="text-sm text-red-600 break-words">{state.error}</span>}
+      </>
+    )
   }
 
   const fetchPubMed = async (mode: 'query'|'pmid') => {
     if (exceeded('lit_searches')) { setShowUpgrade(true); return }
     setFetching(true); setErr(null)
     try {
-      const body = mode === 'pmid' && pmid.trim() ? { pmid: pmid.trim() } : { query: q.trim() || 'cancer' }
+      const body = mode === 'pmid' && pmid.trim() ? { pmid: pmid.trim(), colabId } : { query: q.trim() || 'cancer', colabId }
       const resp = await fetch('/api/pubmed', { method: 'POST', headers: { 'Content-Type': 'application/json', 'Accept':'application/json' }, body: JSON.stringify(body) })
       const ct = resp.headers.get('content-type') || ''; const raw = await resp.text()
       if (!/application\/json/i.test(ct)) throw new Error('Non-JSON response')
-      const data = JSON.parse(raw); if (!resp.ok) throw new Error(data?.error || 'Failed to fetch')
+      const data = JSON.parse(raw)
+      if (isQuotaResponse(resp.status, data)) { applyQuota(data); setShowUpgrade(true); return }
+      if (!resp.ok) throw new Error(data?.error || 'Failed to fetch')
       setPaper(data.paper || null)
-      increment('lit_searches', 1)
+      setPaperCached(!!data.cache && data.cache !== 'miss')
+      sync(data.usage)
     } catch (e:any) { setErr(e.message || 'Failed to fetch'); setPaper(null) }
     finally { setFetching(false) }
   }
 
+  const runPubMedPage = async (req: PubMedSearchRequest) => {
+    if (exceeded('lit_searches')) { setShowUpgrade(true); return null }
+    const resp = await fetch('/api/pubmed', { method: 'POST', headers: { 'Content-Type': 'application/json', 'Accept':'application/json' }, body: JSON.stringify({ mode: 'search', ...req, colabId }) })
+    const data = await resp.json().catch(() => ({}))
+    if (isQuotaResponse(resp.status, data)) { applyQuota(data); setShowUpgrade(true); return null }
+    if (!resp.ok) throw new Error(data?.error || 'Search failed')
+    sync(data.usage)
+    return data
+  }
+
   async function runMultiSearch() {
     if (exceeded('lit_searches')) { setShowUpgrade(true); return }
     setLitLoading(true); setLitErr(null)
     try {
-      const resp = await fetch('/api/lit/multisearch', { method:'POST', headers:{'Content-Type':'application/json','Accept':'application/json'}, body: JSON.stringify({ query: litQ, limit: 20 }) })
+      const resp = await fetch('/api/lit/multisearch', { method:'POST', headers:{'Content-Type':'application/json','Accept':'application/json'}, body: JSON.stringify({ query: litQ, limit: 20, topN: LIT_TOP_N, sources: litSources, ranking: { profile: rankProfile, weights: rankWeights }, colabId }) })
       const text = await resp.text()
       if (!/application\/json/i.test(resp.headers.get('content-type')||'')) throw new Error('Non-JSON response')
-      const data = JSON.parse(text); if (!resp.ok) throw new Error(data?.error || 'Failed search')
-      setLitTop(data.top || [])
-      increment('lit_searches', 1)
-    } catch (e:any) { setLitErr(e.message || 'Failed search'); setLitTop([]) }
+      const data = JSON.parse(text)
+      if (isQuotaResponse(resp.status, data)) { applyQuota(data); setShowUpgrade(true); return }
+      if (!resp.ok) throw new Error(data?.error || 'Failed search')
+      setLitResults({ query: litQ, items: data.items || [] })
+      setLitCached(!!data.fromCache)
+      sync(data.usage)
+    } catch (e:any) { setLitErr(e.message || 'Failed search'); setLitResults(null) }
     finally { setLitLoading(false) }
   }
 
@@ -1045,13 +1511,8 @@ function AICopilot({ readme, colabId, userId }: { readme: string; colabId: strin
     if (exceeded('analyses')) { setShowUpgrade(true); return }
     setAnalyzing(true)
     try {
-      const literature_context = mkGeminiContext(litTop.slice(0, 10))
       const prompt = `
-You are a research scientist conducting a literature review.
-
-Here are top papers (Crossref, arXiv, Semantic Scholar). Papers are numbered and include abstracts when available:
-
-${literature_context}
+You are a research scientist conducting a literature review of the numbered sources for: "${litQ}".
 
 Please provide:
 1) Key breakthrough findings (cite paper numbers)
@@ -1060,18 +1521,16 @@ Please provide:
 4) Recommended next experiments (cite)
 5) Shortlist of 5 must-read papers with rationale
 
-Respond as bullet points with #numbers.
+Respond as bullet points, citing sources as [n].
 `.trim()
 
       await appendMessage('user', `Analyze multi-source literature for: "${litQ}"`)
-      const res = await fetch('/api/ai', { method:'POST', headers:{'Content-Type':'application/json'}, body: JSON.stringify(makeAIPayload(prompt)) })
-      const data = await res.json()
-      const text = data?.text || 'No response'
-      await appendMessage('assistant', text)
+      setTimeout(scrollToChat, 150)
+      const text = await streamAI(makeAIPayload(prompt, 'analyses', litTop.slice(0, 10)))
+      setAnalyzing(false)
+      if (!text) return
       await saveMemory(text)
-      increment('analyses', 1)
       setAnalysisReady(true)
-      setAnalyzing(false)
       setTimeout(scrollToChat, 250)
     } catch (e:any) {
       setAnalyzing(false); setAnalysisReady(false)
@@ -1115,7 +1574,20 @@ Respond as bullet points with #numbers.
           <span className="inline-flex items-center gap-1 px-2 py-1 rounded-full border bg-slate-50">
             <FiShield className="w-3.5 h-3.5" /> {tier.toUpperCase()}
           </span>
-          <span className="hidden sm:inline">Generous free tier · Fair usage applies ({periodLabel}).</span>
+          {org
+            ? <Link href={`/orgs/${org.id}`} className="hidden sm:inline hover:underline">{org.name} pool · {org.seats} seats ({periodLabel}).</Link>
+            : <span className="hidden sm:inline">Generous free tier · Fair usage applies ({periodLabel}).</span>}
+          {onProviderChange && (
+            <select
+              value={provider || ''}
+              onChange={e => onProviderChange(e.target.value || null)}
+              className="border rounded-lg px-2 py-1 text-xs"
+              title="AI provider for this colab"
+            >
+              <option value="">Default model</option>
+              {SELECTABLE_LLM_PROVIDERS.map(p => <option key={p} value={p}>{LLM_PROVIDER_LABELS[p]}</option>)}
+            </select>
+          )}
         </div>
         <div className="flex items-center gap-2">
           <button onClick={exportChat} className="inline-flex items-center gap-2 px-3 py-2 rounded-lg border hover:bg-slate-50" title="Export chat">
@@ -1170,7 +1642,34 @@ Respond as bullet points with #numbers.
                 <div className="flex items-center gap-1 text-[11px] text-slate-600 mb-1">
                   <FiCpu className="w-3 h-3" /><span>AI</span>
                 </div>
-                <FormattedText text={m.content} />
+                <FormattedText text={m.content || '…'} segments={m.segments} sources={m.sources} />
+                {m.grounding && m.grounding.invalid.length > 0 && (
+                  <div className="mt-1 text-[11px] text-amber-700">
+                    Removed citations to unknown sources: {m.grounding.invalid.map(n => `[${n}]`).join(' ')}
+                  </div>
+                )}
+                {m.grounding?.ungrounded && (
+                  <div className="mt-1 text-[11px] text-amber-700">This answer cites none of the supplied papers.</div>
+                )}
+                {!!m.context?.length && (
+                  <div className="mt-2 flex flex-wrap items-center gap-1.5 text-[11px] text-slate-600">
+                    <span>Sources used:</span>
+                    {m.context.map(c => {
+                      const Icon = SEARCH_KIND_ICONS[c.kind]
+                      return (
+                        <button
+                          key={`${c.kind}:${c.source_id}`}
+                          onClick={() => onOpenSource(c)}
+                          title={`${SEARCH_KIND_LABELS[c.kind]} · ${c.chunks} excerpt${c.chunks === 1 ? '' : 's'}`}
+                          className="inline-flex items-center gap-1 max-w-[16rem] px-2 py-0.5 rounded-full bg-white border hover:bg-slate-50"
+                        >
+                          <Icon className="w-3 h-3 shrink-0" />
+                          <span className="truncate">{c.title}</span>
+                        </button>
+                      )
+                    })}
+                  </div>
+                )}
               </>
             ) : (
               <div className="whitespace-pre-wrap break-words">{m.content}</div>
@@ -1182,17 +1681,27 @@ Respond as bullet points with #numbers.
         <input
           value={input}
           onChange={e=>setInput(e.target.value)}
-          placeholder={exceeded('ai_messages') ? 'Limit reached — upgrade to continue' : 'Ask anything…'}
-          disabled={exceeded('ai_messages')}
+          placeholder={!canAsk ? 'Your role in this colab cannot use the copilot' : exceeded('ai_messages') ? 'Limit reached — upgrade to continue' : 'Ask anything…'}
+          disabled={!canAsk || exceeded('ai_messages')}
           className="flex-1 border rounded-lg px-3 py-2 min-w-0 disabled:opacity-60"
         />
-        <button
-          onClick={send}
-          disabled={loading || !input.trim() || exceeded('ai_messages')}
-          className="px-4 py-2 rounded-lg bg-blue-600 text-white disabled:opacity-50"
-        >
-          {loading? 'Thinking…':'Send'}
-        </button>
+        {streaming ? (
+          <button
+            onClick={stopStreaming}
+            className="inline-flex items-center gap-2 px-4 py-2 rounded-lg border border-red-200 text-red-700 hover:bg-red-50"
+            title="Stop generating"
+          >
+            <FiSquare className="w-3.5 h-3.5" /> Stop
+          </button>
+        ) : (
+          <button
+            onClick={send}
+            disabled={!canAsk || loading || analyzing || !input.trim() || exceeded('ai_messages')}
+            className="px-4 py-2 rounded-lg bg-blue-600 text-white disabled:opacity-50"
+          >
+            {loading? 'Thinking…':'Send'}
+          </button>
+        )}
       </div>
       <p className="text-xs text-slate-500">We pass README + your latest literature analysis into the AI for context. Avoid sharing secrets.</p>
 
@@ -1203,7 +1712,14 @@ Respond as bullet points with #numbers.
             <span className="inline-flex items-center justify-center w-6 h-6 rounded bg-slate-900 text-white text-xs">NCBI</span>
             Quick PubMed Lookup
           </h3>
-          <button onClick={() => { setQ(''); setPmid(''); setPaper(null); setErr(null) }} className="text-xs border px-2 py-1 rounded hover:bg-slate-50">Reset</button>
+          <div className="flex items-center gap-2">
+            {canWrite && (
+              <button onClick={() => saveSearch('pubmed', q)} disabled={!q.trim()} className="text-xs border px-2 py-1 rounded hover:bg-slate-50 disabled:opacity-50" title="Rerun this query on a schedule">
+                Save search
+              </button>
+            )}
+            <button onClick={() => { setQ(''); setPmid(''); setPaper(null); setErr(null) }} className="text-xs border px-2 py-1 rounded hover:bg-slate-50">Reset</button>
+          </div>
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
@@ -1249,19 +1765,34 @@ Respond as bullet points with #numbers.
             <h4 className="font-semibold">{paper.title}</h4>
             {paper.authors?.length ? <div className="text-sm text-slate-700 mt-1 break-words">{paper.authors.join(', ')}</div> : null}
             {paper.abstract ? <p className="text-sm text-slate-700 mt-3 whitespace-pre-wrap break-words">{paper.abstract}</p> : <p className="text-sm text-slate-500 mt-3">No abstract available.</p>}
-            <div className="mt-3">
+            <PaperIndexing paper={paper} />
+            {paperCached && <div className="mt-2 text-xs text-slate-500">{CACHED_NOTE}</div>}
+            <div className="mt-3 flex flex-wrap items-center gap-3">
               <a href={paper.url} target="_blank" rel="noreferrer" className="text-sm text-blue-700 underline break-words">View on PubMed</a>
+              {bibButton(paper.pmid ? `PMID:${paper.pmid}` : null, paper)}
             </div>
           </article>
         )}
+
+        <PubMedBrowser
+          query={q}
+          disabled={exceeded('lit_searches')}
+          runSearch={runPubMedPage}
+          renderActions={p => bibButton(`PMID:${p.pmid}`, p)}
+        />
       </div>
 
       {/* Literature Agent */}
       <div className="border-t pt-6">
         <div className="flex items-center justify-between mb-3">
-          <h3 className="font-semibold flex items-center gap-2"><FiBarChart2 className="w-4 h-4" /> Literature Agent (Crossref + arXiv + S2)</h3>
+          <h3 className="font-semibold flex items-center gap-2"><FiBarChart2 className="w-4 h-4" /> Literature Agent</h3>
           <div className="flex items-center gap-2">
-            <button onClick={() => { setLitQ(''); setLitTop([]); setLitErr(null); setAnalysisReady(false) }} className="text-xs border px-2 py-1 rounded hover:bg-slate-50">Reset</button>
+            {canWrite && (
+              <button onClick={() => saveSearch('multisearch', litQ)} disabled={!litQ.trim()} className="text-xs border px-2 py-1 rounded hover:bg-slate-50 disabled:opacity-50" title="Rerun this query on a schedule">
+                Save search
+              </button>
+            )}
+            <button onClick={() => { setLitQ(''); setLitResults(null); setLitErr(null); setAnalysisReady(false) }} className="text-xs border px-2 py-1 rounded hover:bg-slate-50">Reset</button>
           </div>
         </div>
 
@@ -1276,7 +1807,7 @@ Respond as bullet points with #numbers.
             />
             <button
               onClick={runMultiSearch}
-              disabled={litLoading || !litQ.trim() || exceeded('lit_searches')}
+              disabled={litLoading || !litQ.trim() || !litSources.length || exceeded('lit_searches')}
               className="inline-flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-900 text-white disabled:opacity-50"
               title="Search multiple sources"
             >
@@ -1286,7 +1817,7 @@ Respond as bullet points with #numbers.
           <div className="flex items-center gap-2">
             <button
               onClick={analysisReady ? scrollToChat : analyzeWithGemini}
-              disabled={(!litTop.length && !analysisReady) || analyzing || exceeded('analyses')}
+              disabled={(!litTop.length && !analysisReady) || analyzing || exceeded('analyses') || (!canAsk && !analysisReady)}
               className={`inline-flex items-center gap-2 px-3 py-2 rounded-lg border disabled:opacity-50 ${analysisReady ? 'bg-blue-600 text-white border-blue-600' : ''}`}
               title={analysisReady ? 'Jump to chat' : 'Send top results to AI'}
             >
@@ -1295,25 +1826,52 @@ Respond as bullet points with #numbers.
           </div>
         </div>
 
+        <div className="mt-3 flex flex-wrap items-center gap-1.5 text-xs" role="group" aria-label="Sources">
+          <span className="text-slate-500 mr-1">Sources:</span>
+          {LIT_SOURCES.map(src => {
+            const on = litSources.includes(src)
+            return (
+              <button
+                key={src}
+                onClick={() => toggleLitSource(src)}
+                aria-pressed={on}
+                className={`px-2 py-1 rounded-full border ${on ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-600 hover:bg-slate-50'}`}
+              >
+                {LIT_SOURCE_LABELS[src]}
+              </button>
+            )
+          })}
+        </div>
+
         {litErr && <div className="mt-3 text-sm text-red-600 break-words">{litErr}</div>}
+        {litCached && litTop.length > 0 && <div className="mt-3 text-xs text-slate-500">{CACHED_NOTE}</div>}
 
         {Boolean(litTop.length) && (
           <div className="mt-4">
-            <h4 className="text-sm font-semibold mb-2">Top Results</h4>
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+              <h4 className="text-sm font-semibold">Top Results</h4>
+              <RankingControls profile={rankProfile} weights={rankWeights} onChange={(p, w) => { setRankProfile(p); setRankWeights(w) }} />
+            </div>
             <ul className="space-y-3">
               {litTop.map((x, i) => (
                 <li key={`${x.source}:${x.id}`} className="bg-slate-50 border rounded-lg p-3">
                   <div className="flex flex-wrap items-center gap-2 text-xs text-slate-600 mb-1">
                     <span className="px-2 py-0.5 rounded bg-white border">#{i+1}</span>
+                    <ScoreBadge ranking={x.ranking} />
                     {x.year && <span className="px-2 py-0.5 rounded bg-white border">{x.year}</span>}
-                    <span className="px-2 py-0.5 rounded bg-white border">{x.source.toUpperCase()}</span>
+                    <span className="px-2 py-0.5 rounded bg-white border">{LIT_SOURCE_LABELS[x.source]}</span>
+                    {x.venue && x.venue !== LIT_SOURCE_LABELS[x.source] && <span className="px-2 py-0.5 rounded bg-white border break-words">{x.venue}</span>}
                     {typeof x.citationCount === 'number' && <span className="px-2 py-0.5 rounded bg-white border">Citations: {x.citationCount}</span>}
                     {x.doi && <span className="px-2 py-0.5 rounded bg-white border break-words">doi:{x.doi}</span>}
                   </div>
                   <div className="font-medium break-words">{x.title}</div>
                   {x.authors?.length ? <div className="text-sm text-slate-700 mt-0.5 break-words">{x.authors.length <= 3 ? x.authors.join(', ') : `${x.authors.slice(0,3).join(', ')} et al.`}</div> : null}
                   {x.abstract ? <p className="text-sm text-slate-700 mt-2 line-clamp-3 break-words">{x.abstract}</p> : <p className="text-sm text-slate-500 mt-2">No abstract available.</p>}
-                  <div className="mt-2">{x.url ? <a href={x.url} target="_blank" rel="noreferrer" className="text-sm text-blue-700 underline break-words">Open</a> : null}</div>
+                  <div className="mt-2 flex flex-wrap items-center gap-3">
+                    {x.url ? <a href={x.url} target="_blank" rel="noreferrer" className="text-sm text-blue-700 underline break-words">Open</a> : null}
+                    {x.oaUrl ? <a href={x.oaUrl} target="_blank" rel="noreferrer" className="text-sm text-green-700 underline break-words">Free full text</a> : null}
+                    {bibButton(litIdentifier(x), x)}
+                  </div>
                 </li>
               ))}
             </ul>
@@ -1338,10 +1896,17 @@ Respond as bullet points with #numbers.
         )}
       </div>
 
+      {/* Saved searches */}
+      <div className="border-t pt-6 space-y-3">
+        {savedNote && <div className="text-sm text-green-700 break-words" role="status">{savedNote}</div>}
+        <SavedSearchesPanel state={savedSearches} canWrite={canWrite} onRan={refreshUsage} />
+      </div>
+
       {/* Upgrade modal */}
       {showUpgrade && (
         <UpgradeModal
           tier={tier}
+          reason={quota?.error}
           remaining={{
             ai: remaining('ai_messages'),
             search: remaining('lit_searches'),
@@ -1370,7 +1935,7 @@ function Empty({ state, onAdd }: { state: 'notes'; onAdd?: ()=>void }) {
   )
 }
 
-function CreateModal({ title, placeholder, onClose, onSubmit }: { title:string; placeholder:string; onClose:()=>void; onSubmit:(v:string)=>Promise<void> }) {
+function CreateModal({ title, placeholder, onClose, onSubmit, onTyping }: { title:string; placeholder:string; onClose:()=>void; onSubmit:(v:string)=>Promise<void>; onTyping?:()=>void }) {
   const [value,setValue]=useState(''); const [busy,setBusy]=useState(false)
   const submit=async(e:FormEvent)=>{ e.preventDefault(); if(!value.trim()) return; setBusy(true); await onSubmit(value.trim()); setBusy(false) }
   return (
@@ -1380,7 +1945,7 @@ function CreateModal({ title, placeholder, onClose, onSubmit }: { title:string;
           <h3 className="text-lg font-semibold">{title}</h3>
           <button type="button" onClick={onClose} className="p-2 rounded-lg hover:bg-slate-100"><FiX/></button>
         </div>
-        <textarea className="w-full border rounded-lg p-3 min-h-[120px] focus:ring-2 focus:ring-indigo-500 whitespace-pre-wrap break-words" placeholder={placeholder} value={value} onChange={e=>setValue(e.target.value)} />
+        <textarea className="w-full border rounded-lg p-3 min-h-[120px] focus:ring-2 focus:ring-indigo-500 whitespace-pre-wrap break-words" placeholder={placeholder} value={value} onChange={e=>{ setValue(e.target.value); onTyping?.() }} />
         <div className="flex justify-end gap-2">
           <button type="button" onClick={onClose} className="px-4 py-2 rounded-lg border">Cancel</button>
           <button type="submit" disabled={busy || !value.trim()} className="px-4 py-2 rounded-lg bg-indigo-600 text-white disabled:opacity-50">{busy? 'Posting…':'Post'}</button>
@@ -1392,9 +1957,10 @@ function CreateModal({ title, placeholder, onClose, onSubmit }: { title:string;
 
 /* ---------- Upgrade Modal ---------- */
 function UpgradeModal({
-  tier, remaining, onClose
+  tier, reason, remaining, onClose
 }: {
   tier: PlanTier,
+  reason?: string,
   remaining: { ai:number; search:number; analyses:number },
   onClose: () => void
 }) {
@@ -1412,7 +1978,7 @@ function UpgradeModal({
         </div>
         <div className="p-5 space-y-4">
           <p className="text-slate-700">
-            You're on the <strong>{tier.toUpperCase()}</strong> plan. You've reached a limit for one of the features.
+            You're on the <strong>{tier.toUpperCase()}</strong> plan. {reason ? `${reason}.` : `You've reached a limit for one of the features.`}
           </p>
           <ul className="text-sm text-slate-700 space-y-2">
             <li>• AI messages remaining: <strong>{remaining.ai}</strong></li>
@@ -1431,7 +1997,7 @@ function UpgradeModal({
             <Link href="/pricing" className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-indigo-600 text-white hover:bg-indigo-700">
               Explore plans
             </Link>
-            <Link href="/billing" className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-2 rounded-lg border hover:bg-slate-50">
+            <Link href="/pricing#invoices" className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-2 rounded-lg border hover:bg-slate-50">
               Manage billing
             </Link>
           </div>
@@ -9,7 +9,11 @@ import Header from '@/components/ui/header'
 import ColabCard from '@/components/dashboard/ColabCard'
 import ChallengeCard from '@/components/dashboard/ChallengeCard'
 import CreateColabModal from '@/components/dashboard/CreateColabModal'
+import ColabTrash from '@/components/dashboard/ColabTrash'
+import NotificationBell from '@/components/ui/NotificationBell'
 import { useRouter } from 'next/navigation'
+import { RESTORE_WINDOW_DAYS } from '../lib/colab-lifecycle'
+import { slugify } from '../lib/slugs'
 
 export default function DashboardPage() {
   const [userColabs, setUserColabs] = useState<any[]>([])
@@ -20,6 +24,8 @@ export default function DashboardPage() {
   const [editingColab, setEditingColab] = useState<any>(null)
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
   const [deletingColab, setDeletingColab] = useState<any>(null)
+  const [deleteError, setDeleteError] = useState<string | null>(null)
+  const [trashKey, setTrashKey] = useState(0)
   const [sidebarOpen, setSidebarOpen] = useState(false)
   const [loading, setLoading] = useState(true)
   const [profile, setProfile] = useState<any>(null)
@@ -27,6 +33,7 @@ export default function DashboardPage() {
   // open colabs contributor (member) counts + membership flags
   const [openColabMemberCounts, setOpenColabMemberCounts] = useState<Record<string, number>>({})
   const [joinedIds, setJoinedIds] = useState<Record<string, boolean>>({})
+  const [requestedIds, setRequestedIds] = useState<Record<string, boolean>>({})
   const [joiningIds, setJoiningIds] = useState<Record<string, boolean>>({})
 
   // NEW: actual contributions (peer-review notes) per colab
@@ -57,7 +64,8 @@ export default function DashboardPage() {
         .select('colabs(*)')
         .eq('user_id', user.id)
         .eq('status', 'accepted')
-      const myColabs = colabData?.map((item: any) => item.colabs) || []
+      // trashed colabs come back as null (hidden by RLS); they are listed under Trash
+      const myColabs = colabData?.map((item: any) => item.colabs).filter(Boolean) || []
       setUserColabs(myColabs)
 
       // Public colabs (with owner mini-profile)
@@ -136,21 +144,26 @@ export default function DashboardPage() {
         )
         setOpenColabContributionCounts(contribCounts)
 
-        // did current user join?
+        // did current user join, or ask to?
         const { data: myMemberships } = await supabase
           .from('colab_members')
-          .select('colab_id')
+          .select('colab_id, status')
           .in('colab_id', openIds)
           .eq('user_id', user.id)
-          .eq('status', 'accepted')
 
         const joined: Record<string, boolean> = {}
-        myMemberships?.forEach((m: any) => { joined[m.colab_id] = true })
+        const requested: Record<string, boolean> = {}
+        myMemberships?.forEach((m: any) => {
+          if (m.status === 'accepted') joined[m.colab_id] = true
+          if (m.status === 'pending') requested[m.colab_id] = true
+        })
         setJoinedIds(joined)
+        setRequestedIds(requested)
       } else {
         setOpenColabMemberCounts({})
         setOpenColabContributionCounts({})
         setJoinedIds({})
+        setRequestedIds({})
       }
       // ----------------------------------------------------
 
@@ -191,21 +204,21 @@ export default function DashboardPage() {
     router.push('/')
   }
 
-  const handleCreateColab = async (name: string, description: string, readme: string) => {
+  const handleCreateColab = async (name: string, description: string, readme: string, isPublic: boolean, allowJoinRequests: boolean) => {
     const { data: { user } } = await supabase.auth.getUser()
     if (!user) return
 
-    const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/(^-|-$)/g, '')
-    
+    // the database suffixes the slug if another colab already has it
     const { data, error } = await supabase
       .from('colabs')
       .insert([{
         name,
-        slug,
+        slug: slugify(name),
         description,
         readme,
         owner_id: user.id,
-        is_public: true // sensible default for visibility on dashboard; tweak if needed
+        is_public: isPublic,
+        allow_join_requests: allowJoinRequests
       }])
       .select()
       .single()
@@ -215,13 +228,13 @@ export default function DashboardPage() {
       return
     }
 
-    // Add creator as owner
+    // Add creator as a member; ownership itself is colabs.owner_id
     await supabase
       .from('colab_members')
       .insert([{
         colab_id: data.id,
         user_id: user.id,
-        role: 'owner',
+        role: 'maintainer',
         status: 'accepted'
       }])
 
@@ -229,18 +242,19 @@ export default function DashboardPage() {
     setShowCreateModal(false)
   }
 
-  const handleEditColab = async (name: string, description: string, readme: string) => {
+  // the README is left alone here: it is edited (and merged) through the colab page's editor
+  const handleEditColab = async (name: string, description: string, _readme: string, isPublic: boolean, allowJoinRequests: boolean) => {
     if (!editingColab) return
 
-    const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/(^-|-$)/g, '')
-    
+    // a renamed colab gets a new slug unless its owner pinned one; the old slug keeps redirecting
     const { data, error } = await supabase
       .from('colabs')
       .update({
         name,
-        slug,
+        ...(name !== editingColab.name && !editingColab.slug_pinned ? { slug: slugify(name) } : {}),
         description,
-        readme
+        is_public: isPublic,
+        allow_join_requests: allowJoinRequests
       })
       .eq('id', editingColab.id)
       .select()
@@ -258,61 +272,57 @@ export default function DashboardPage() {
     setEditingColab(null)
   }
 
+  // moves the colab to the trash; it is purged server-side once the restore window passes
   const handleDeleteColab = async () => {
     if (!deletingColab) return
 
-    const { error: membersError } = await supabase
-      .from('colab_members')
-      .delete()
-      .eq('colab_id', deletingColab.id)
-
-    if (membersError) {
-      console.error('Error deleting colab members:', membersError)
-      return
-    }
-
-    const { error } = await supabase
-      .from('colabs')
-      .delete()
-      .eq('id', deletingColab.id)
-
-    if (error) {
-      console.error('Error deleting colab:', error)
+    setDeleteError(null)
+    const res = await fetch(`/api/colabs/${deletingColab.id}`, { method: 'DELETE' })
+    const data = await res.json().catch(() => ({}))
+    if (!res.ok) {
+      setDeleteError(data?.error || `Request failed (${res.status})`)
       return
     }
 
     setUserColabs(userColabs.filter(colab => colab.id !== deletingColab.id))
+    setTrashKey(k => k + 1)
     setShowDeleteConfirm(false)
     setDeletingColab(null)
   }
 
+  const handleRestoredColab = async (colabId: string) => {
+    const { data } = await supabase.from('colabs').select('*').eq('id', colabId).maybeSingle()
+    if (data) setUserColabs(prev => [data, ...prev.filter(c => c.id !== colabId)])
+  }
+
   const openEditModal = (colab: any) => {
     setEditingColab(colab)
     setShowEditModal(true)
   }
 
   const openDeleteConfirm = (colab: any) => {
+    setDeleteError(null)
     setDeletingColab(colab)
     setShowDeleteConfirm(true)
   }
 
-  // join a public colab
+  // ask to join a public colab; an owner or moderator approves it
   const handleJoinColab = async (colabId: string) => {
     const { data: { user } } = await supabase.auth.getUser()
     if (!user) { router.push('/signin'); return }
 
     setJoiningIds(prev => ({ ...prev, [colabId]: true }))
     try {
-      await supabase
-        .from('colab_members')
-        .upsert(
-          { colab_id: colabId, user_id: user.id, role: 'member', status: 'accepted' },
-          { onConflict: 'colab_id,user_id' }
-        )
-      setJoinedIds(prev => ({ ...prev, [colabId]: true }))
-      setOpenColabMemberCounts(prev => ({ ...prev, [colabId]: (prev[colabId] || 0) + 1 }))
+      const res = await fetch(`/api/colabs/${colabId}/join-requests`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({})
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(data?.error || `Request failed (${res.status})`)
+      setRequestedIds(prev => ({ ...prev, [colabId]: true }))
     } catch (e) {
-      console.error('Join failed:', e)
+      console.error('Join request failed:', e)
     } finally {
       setJoiningIds(prev => ({ ...prev, [colabId]: false }))
     }
@@ -405,6 +415,14 @@ export default function DashboardPage() {
             <FiHome className="mr-2 w-4 h-4" />
             Dashboard
           </Link>
+          <Link
+            href="/orgs"
+            className="flex items-center px-3 py-2 rounded-lg text-gray-700 hover:bg-gray-50 text-sm"
+            onClick={() => setSidebarOpen(false)}
+          >
+            <FiUsers className="mr-2 w-4 h-4" />
+            Organizations
+          </Link>
           <Link
             href="/profile"
             className="flex items-center px-3 py-2 rounded-lg text-gray-700 hover:bg-gray-50 text-sm"
@@ -432,11 +450,14 @@ export default function DashboardPage() {
         <div className="flex-1 overflow-auto p-4 md:p-6">
           <div className="max-w-7xl mx-auto space-y-6">
             {/* Welcome */}
-            <div className="bg-white p-6 rounded-xl shadow-sm">
-              <h1 className="text-2xl md:text-3xl font-bold text-gray-900 mb-2">
-                Welcome back, {profile?.full_name?.split(' ')[0] || 'Researcher'}!
-              </h1>
-              <p className="text-gray-600">Ready to tackle some challenges and collaborate?</p>
+            <div className="bg-white p-6 rounded-xl shadow-sm flex items-start justify-between gap-4">
+              <div>
+                <h1 className="text-2xl md:text-3xl font-bold text-gray-900 mb-2">
+                  Welcome back, {profile?.full_name?.split(' ')[0] || 'Researcher'}!
+                </h1>
+                <p className="text-gray-600">Ready to tackle some challenges and collaborate?</p>
+              </div>
+              <NotificationBell />
             </div>
             
             {/* Featured Challenges */}
@@ -538,6 +559,9 @@ export default function DashboardPage() {
                                 <span className="bg-blue-100 text-blue-700 px-2 py-1 rounded-full">
                                   {colab.is_public ? 'Public' : 'Private'}
                                 </span>
+                                {colab.archived_at && (
+                                  <span className="bg-amber-100 text-amber-800 px-2 py-1 rounded-full">Archived</span>
+                                )}
                                 <span className="text-gray-500">
                                   Created {new Date(colab.created_at).toLocaleDateString()}
                                 </span>
@@ -557,13 +581,15 @@ export default function DashboardPage() {
                               >
                                 <FiEdit className="w-4 h-4" />
                               </button>
-                              <button
-                                onClick={() => openDeleteConfirm(colab)}
-                                className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
-                                title="Delete colab"
-                              >
-                                <FiTrash2 className="w-4 h-4" />
-                              </button>
+                              {colab.owner_id === profile?.id && (
+                                <button
+                                  onClick={() => openDeleteConfirm(colab)}
+                                  className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                                  title="Delete colab"
+                                >
+                                  <FiTrash2 className="w-4 h-4" />
+                                </button>
+                              )}
                             </div>
                           </div>
                         </div>
@@ -620,6 +646,7 @@ export default function DashboardPage() {
                       const memberCount = openColabMemberCounts[colab.id] ?? 0
                       const contributions = openColabContributionCounts[colab.id] ?? 0
                       const alreadyMember = !!joinedIds[colab.id]
+                      const requested = !!requestedIds[colab.id]
                       const joining = !!joiningIds[colab.id]
 
                       return (
@@ -660,12 +687,27 @@ export default function DashboardPage() {
                            
                           </div>
 
-                           <Link
-                                  href={`/colab/${colab.slug}`}
-                                  className="inline-flex items-center justify-center px-3 py-2 rounded-lg border text-sm font-medium hover:bg-gray-50"
-                                >
-                                  View
-                                </Link>
+                          <div className="flex items-center gap-2">
+                            <Link
+                              href={`/colab/${colab.slug}`}
+                              className="inline-flex items-center justify-center px-3 py-2 rounded-lg border text-sm font-medium hover:bg-gray-50"
+                            >
+                              View
+                            </Link>
+                            {!alreadyMember && colab.owner_id !== profile?.id && (requested ? (
+                              <span className="inline-flex items-center px-3 py-2 rounded-lg text-sm text-amber-800 bg-amber-50 border border-amber-200">
+                                Request pending
+                              </span>
+                            ) : colab.allow_join_requests !== false && (
+                              <button
+                                onClick={() => handleJoinColab(colab.id)}
+                                disabled={joining}
+                                className="inline-flex items-center justify-center px-3 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium disabled:opacity-50"
+                              >
+                                {joining ? 'Sending…' : 'Request to join'}
+                              </button>
+                            ))}
+                          </div>
                         </div>
                       )
                     })}
@@ -689,6 +731,8 @@ export default function DashboardPage() {
                 )}
               </div>
             </div>
+
+            <ColabTrash refreshKey={trashKey} onRestored={handleRestoredColab} />
           </div>
         </div>
       </div>
@@ -712,7 +756,9 @@ export default function DashboardPage() {
           initialData={{
             name: editingColab.name,
             description: editingColab.description,
-            readme: editingColab.readme
+            readme: editingColab.readme,
+            is_public: editingColab.is_public,
+            allow_join_requests: editingColab.allow_join_requests
           }}
           isEditing={true}
         />
@@ -728,14 +774,15 @@ export default function DashboardPage() {
               </div>
               <div>
                 <h3 className="text-lg font-semibold text-gray-900">Delete Colab</h3>
-                <p className="text-sm text-gray-500">This action cannot be undone</p>
+                <p className="text-sm text-gray-500">You can restore it from the trash for {RESTORE_WINDOW_DAYS} days</p>
               </div>
             </div>
             
             <p className="text-gray-700 mb-6">
               Are you sure you want to delete <strong>"{deletingColab.name}"</strong>? 
-              This will permanently remove the colab and all its data.
+              Members lose access right away. After {RESTORE_WINDOW_DAYS} days the colab and all its data are removed for good.
             </p>
+            {deleteError && <p className="text-sm text-red-600 -mt-3 mb-4">{deleteError}</p>}
             
             <div className="flex gap-3 justify-end">
               <button
@@ -0,0 +1,118 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { FiMail, FiUsers } from 'react-icons/fi'
+import Header from '@/components/ui/header'
+import Footer from '@/components/ui/footer'
+import { supabase } from '../../lib/supabase'
+import type { InvitationPreview } from '../../lib/invitations'
+
+async function readJson(res: Response) {
+  const data = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(data?.error || `Request failed (${res.status})`)
+  return data
+}
+
+const STATUS_TEXT: Record<Exclude<InvitationPreview['status'], 'pending'>, string> = {
+  accepted: 'This invitation has already been used.',
+  expired: 'This invitation has expired. Ask the person who invited you for a new one.',
+  revoked: 'This invitation was revoked.',
+}
+
+export default function InvitePage() {
+  const { token } = useParams() as { token: string }
+  const router = useRouter()
+  const [invite, setInvite] = useState<InvitationPreview | null>(null)
+  const [signedIn, setSignedIn] = useState<string | null | undefined>(undefined)
+  const [error, setError] = useState<string | null>(null)
+  const [accepting, setAccepting] = useState(false)
+
+  useEffect(() => {
+    fetch(`/api/invitations/${encodeURIComponent(token)}`).then(readJson)
+      .then(data => setInvite(data.invitation))
+      .catch(e => setError(e.message))
+    supabase.auth.getUser().then(({ data }) => setSignedIn(data.user?.email || (data.user ? '' : null)))
+  }, [token])
+
+  const accept = async () => {
+    setAccepting(true); setError(null)
+    try {
+      const { slug } = await readJson(await fetch(`/api/invitations/${encodeURIComponent(token)}`, { method: 'POST' }))
+      router.push(`/colab/${slug}`)
+    } catch (e: any) {
+      setError(e.message)
+      setAccepting(false)
+    }
+  }
+
+  const here = `/invite/${encodeURIComponent(token)}`
+
+  return (
+    <>
+    <Header />
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4 mt-10">
+      <div className="w-full max-w-md bg-white rounded-xl shadow-lg overflow-hidden">
+        <div className="bg-gradient-to-r from-blue-600 to-indigo-600 p-6 text-white">
+          <div className="flex items-center space-x-3">
+            <FiUsers className="text-2xl" />
+            <h1 className="text-2xl font-bold">Colab invitation</h1>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {!invite && !error && <p className="text-gray-500">Loading…</p>}
+
+          {invite && (
+            <>
+              <p className="text-gray-800">
+                {invite.inviter ? <><span className="font-semibold">{invite.inviter}</span> invited you</> : 'You are invited'} to join{' '}
+                <span className="font-semibold">{invite.colab.name}</span> as <span className="font-semibold">{invite.role}</span>.
+              </p>
+              {invite.colab.description && <p className="text-sm text-gray-600">{invite.colab.description}</p>}
+              {invite.email && (
+                <p className="text-sm text-gray-600 inline-flex items-center gap-2"><FiMail /> For {invite.email}</p>
+              )}
+
+              {invite.status !== 'pending' ? (
+                <p className="text-sm text-gray-700 bg-gray-50 rounded p-3">{STATUS_TEXT[invite.status]}</p>
+              ) : signedIn === undefined ? null : signedIn === null ? (
+                <div className="space-y-2">
+                  <p className="text-sm text-gray-600">
+                    Valid until {new Date(invite.expires_at).toLocaleString()}. Sign in or create an account to accept.
+                  </p>
+                  <div className="flex gap-2">
+                    <Link href={`/signin?redirectTo=${encodeURIComponent(here)}`} className="flex-1 text-center px-4 py-2 rounded-lg border font-medium hover:bg-gray-50">
+                      Sign in
+                    </Link>
+                    <Link href={`/signup?invite=${encodeURIComponent(token)}`} className="flex-1 text-center px-4 py-2 rounded-lg bg-blue-600 text-white font-medium hover:bg-blue-700">
+                      Create account
+                    </Link>
+                  </div>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {invite.email && signedIn && signedIn.toLowerCase() !== invite.email && (
+                    <p className="text-sm text-amber-700">You are signed in as {signedIn}; this invitation is for {invite.email}.</p>
+                  )}
+                  <button
+                    onClick={accept}
+                    disabled={accepting}
+                    className="w-full py-3 px-4 rounded-lg text-white bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 disabled:opacity-70"
+                  >
+                    {accepting ? 'Joining…' : 'Accept invitation'}
+                  </button>
+                </div>
+              )}
+            </>
+          )}
+
+          {error && <div className="bg-red-50 border-l-4 border-red-500 text-red-700 p-4 rounded">{error}</div>}
+        </div>
+      </div>
+    </div>
+    <Footer/>
+    </>
+  )
+}
@@ -0,0 +1,193 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createAdminSupabase } from '../supabase-admin'
+import { MockBillingProvider, supabaseSubscriptionStore } from './mock'
+import { StripeBillingProvider } from './stripe'
+import { BillingError, type BillingEvent, type BillingProvider } from './types'
+
+export * from './types'
+export { MockBillingProvider } from './mock'
+
+/**
+ * BILLING_PROVIDER=stripe|mock, or stripe whenever STRIPE_SECRET_KEY is set.
+ * Without either, billing is off. The mock provider has to be asked for, is
+ * refused in production and needs its own MOCK_BILLING_SECRET.
+ */
+export function getBillingProvider(): BillingProvider {
+  const name = process.env.BILLING_PROVIDER || (process.env.STRIPE_SECRET_KEY ? 'stripe' : '')
+  if (name === 'stripe') return new StripeBillingProvider()
+  if (name === 'mock') return createMockProvider()
+  throw new BillingError('Billing is not configured', 503)
+}
+
+/** The mock provider when it is the configured one (outside production), else null */
+export function getMockBillingProvider(): MockBillingProvider | null {
+  if (process.env.BILLING_PROVIDER !== 'mock' || process.env.NODE_ENV === 'production') return null
+  return createMockProvider()
+}
+
+function createMockProvider() {
+  if (process.env.NODE_ENV === 'production') throw new BillingError('Mock billing is disabled in production', 503)
+  const secret = process.env.MOCK_BILLING_SECRET
+  if (!secret) throw new BillingError('Set MOCK_BILLING_SECRET to use mock billing', 503)
+  return new MockBillingProvider(secret, supabaseSubscriptionStore(createAdminSupabase()))
+}
+
+export interface SubscriptionRow {
+  id: string
+  user_id: string
+  org_id: string | null
+  provider: string
+  customer_id: string
+  tier: 'pro' | 'team'
+  quantity: number
+  status: string
+  current_period_end: string
+  cancel_at_period_end: boolean
+}
+
+/** Current non-canceled personal subscription for a user, if any */
+export async function getActiveSubscription(supabase: SupabaseClient, userId: string): Promise<SubscriptionRow | null> {
+  const { data } = await supabase
+    .from('billing_subscriptions')
+    .select('*')
+    .eq('user_id', userId)
+    .is('org_id', null)
+    .neq('status', 'canceled')
+    .order('updated_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+  return (data as SubscriptionRow) || null
+}
+
+/** Current non-canceled team subscription paying for an organization's seats */
+export async function getOrgSubscription(supabase: SupabaseClient, orgId: string): Promise<SubscriptionRow | null> {
+  const { data } = await supabase
+    .from('billing_subscriptions')
+    .select('*')
+    .eq('org_id', orgId)
+    .neq('status', 'canceled')
+    .order('updated_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+  return (data as SubscriptionRow) || null
+}
+
+/**
+ * Apply a verified webhook event with the service-role client.
+ * This is the only writer of `user_plans` and of organization tier/seats.
+ * Events are recorded in `billing_events` first so provider retries are
+ * processed once.
+ */
+export async function applyBillingEvent(admin: SupabaseClient, provider: string, event: BillingEvent) {
+  if (event.type === 'ignored') return { duplicate: false }
+
+  const { error: dupErr } = await admin
+    .from('billing_events')
+    .insert({ id: event.id, provider, type: event.type })
+  if (dupErr) {
+    if (dupErr.code === '23505') return { duplicate: true }
+    throw new Error(dupErr.message)
+  }
+
+  try {
+    await applyEvent(admin, provider, event)
+  } catch (e) {
+    // let the provider's retry reprocess it
+    await admin.from('billing_events').delete().eq('id', event.id)
+    throw e
+  }
+  return { duplicate: false }
+}
+
+async function applyEvent(admin: SupabaseClient, provider: string, event: Exclude<BillingEvent, { type: 'ignored' }>) {
+  // invoices and deletions may only carry the customer id
+  let userId = event.userId
+  if (!userId) {
+    const { data } = await admin
+      .from('billing_subscriptions')
+      .select('user_id')
+      .eq('customer_id', event.customerId)
+      .limit(1)
+      .maybeSingle()
+    userId = data?.user_id
+  }
+  if (!userId) throw new Error(`Cannot resolve user for ${event.type} ${event.id}`)
+
+  // org subscriptions set the org's tier and seats instead of the buyer's plan
+  let orgId = event.type === 'subscription.updated' ? event.orgId : undefined
+  if (!orgId && event.type !== 'invoice.paid' && event.type !== 'invoice.payment_failed') {
+    const { data } = await admin
+      .from('billing_subscriptions')
+      .select('org_id')
+      .eq('id', event.subscriptionId)
+      .maybeSingle()
+    orgId = data?.org_id || undefined
+  }
+
+  const now = new Date().toISOString()
+  switch (event.type) {
+    case 'subscription.updated': {
+      const { error } = await admin.from('billing_subscriptions').upsert({
+        id: event.subscriptionId,
+        user_id: userId,
+        org_id: orgId || null,
+        provider,
+        customer_id: event.customerId,
+        tier: event.tier,
+        quantity: event.quantity,
+        status: event.status,
+        current_period_end: event.currentPeriodEnd,
+        cancel_at_period_end: event.cancelAtPeriodEnd,
+        updated_at: now,
+      }, { onConflict: 'id' })
+      if (error) throw new Error(error.message)
+      const active = event.status === 'active' || event.status === 'trialing'
+      if (orgId) await setOrgPlan(admin, orgId, active && event.tier === 'team' ? 'team' : 'free', event.quantity)
+      else await setTier(admin, userId, active ? event.tier : 'free')
+      break
+    }
+    case 'subscription.deleted': {
+      const { error } = await admin
+        .from('billing_subscriptions')
+        .update({ status: 'canceled', cancel_at_period_end: false, updated_at: now })
+        .eq('id', event.subscriptionId)
+      if (error) throw new Error(error.message)
+      if (orgId) await setOrgPlan(admin, orgId, 'free')
+      else await setTier(admin, userId, 'free')
+      break
+    }
+    case 'invoice.paid':
+    case 'invoice.payment_failed': {
+      const { error } = await admin.from('billing_invoices').upsert({
+        id: event.invoiceId,
+        user_id: userId,
+        provider,
+        subscription_id: event.subscriptionId || null,
+        amount: event.amount,
+        currency: event.currency,
+        status: event.type === 'invoice.paid' ? 'paid' : 'failed',
+        description: event.description,
+        hosted_url: event.hostedUrl || null,
+        period_start: event.periodStart,
+        period_end: event.periodEnd,
+      }, { onConflict: 'id' })
+      if (error) throw new Error(error.message)
+      break
+    }
+  }
+}
+
+async function setOrgPlan(admin: SupabaseClient, orgId: string, tier: 'free' | 'team', seats?: number) {
+  const { error } = await admin
+    .from('organizations')
+    .update(seats ? { tier, seats } : { tier })
+    .eq('id', orgId)
+  if (error) throw new Error(error.message)
+}
+
+async function setTier(admin: SupabaseClient, userId: string, tier: string) {
+  const { error } = await admin
+    .from('user_plans')
+    .upsert({ user_id: userId, tier }, { onConflict: 'user_id' })
+  if (error) throw new Error(error.message)
+}
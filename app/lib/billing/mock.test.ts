@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { MockBillingProvider, MOCK_SIGNATURE_HEADER, type MockSubscription } from './mock'
+import { signPayload } from './signature'
+import { BillingError, type BillingEvent } from './types'
+import { getBillingProvider, getMockBillingProvider } from './index'
+
+const SECRET = 'test_secret'
+const PERIOD_MS = 30 * 24 * 60 * 60 * 1000
+const checkout = (userId: string, extra = {}) => ({
+  userId, tier: 'pro' as const, successUrl: 'http://app/pricing?checkout=success', cancelUrl: 'http://app/pricing', ...extra,
+})
+
+/**
+ * The whole loop offline: the provider posts signed events to a stubbed
+ * webhook, which verifies them, drops duplicates (as billing_events does)
+ * and writes the subscriptions the provider reads back.
+ */
+function offlineBilling() {
+  const subscriptions = new Map<string, MockSubscription>()
+  const events: BillingEvent[] = []
+  const seen = new Set<string>()
+  const provider = new MockBillingProvider(SECRET, { get: async id => subscriptions.get(id) ?? null })
+
+  vi.stubGlobal('fetch', async (_url: string, init: RequestInit) => {
+    const event = await provider.parseWebhook(init.body as string, new Headers(init.headers))
+    if (seen.has(event.id)) return new Response('{"duplicate":true}')
+    seen.add(event.id)
+    events.push(event)
+    if (event.type === 'subscription.updated') {
+      const end = new Date(event.currentPeriodEnd).getTime()
+      subscriptions.set(event.subscriptionId, {
+        id: event.subscriptionId, userId: event.userId!, orgId: event.orgId, customerId: event.customerId,
+        tier: event.tier, quantity: event.quantity, periodStart: end - PERIOD_MS, periodEnd: end,
+        cancelAtPeriodEnd: event.cancelAtPeriodEnd,
+      })
+    }
+    if (event.type === 'subscription.deleted') subscriptions.delete(event.subscriptionId)
+    return new Response('{"received":true}')
+  })
+  return { provider, subscriptions, events }
+}
+
+describe('MockBillingProvider', () => {
+  afterEach(() => { vi.unstubAllGlobals() })
+
+  it('runs checkout → webhook → renewal → cancellation', async () => {
+    const { provider, subscriptions, events } = offlineBilling()
+    const session = await provider.createCheckoutSession(checkout('user-1'))
+    expect(session.url).toContain('/api/billing/mock/checkout?session=')
+
+    await provider.completeCheckout(session.id, 'user-1')
+    expect(events.map(e => e.type)).toEqual(['subscription.updated', 'invoice.paid'])
+    const [sub] = Array.from(subscriptions.values())
+    expect(sub).toMatchObject({ userId: 'user-1', tier: 'pro', quantity: 1, cancelAtPeriodEnd: false })
+
+    await provider.changePlan({ subscriptionId: sub.id, tier: 'team', quantity: 3 })
+    const proration = events[events.length - 1]
+    expect(proration.type === 'invoice.paid' && proration.amount).toBeGreaterThan(0)
+    expect(subscriptions.get(sub.id)).toMatchObject({ tier: 'team', quantity: 3 })
+
+    await provider.advancePeriod(sub.id)
+    expect(subscriptions.get(sub.id)!.periodEnd).toBeGreaterThan(sub.periodEnd)
+
+    await provider.cancelSubscription(sub.id)
+    expect(subscriptions.get(sub.id)!.cancelAtPeriodEnd).toBe(true)
+    await provider.advancePeriod(sub.id)
+    expect(subscriptions.has(sub.id)).toBe(false)
+    expect(events[events.length - 1].type).toBe('subscription.deleted')
+  })
+
+  it('pays a session once, and only for the user it was made for', async () => {
+    const { provider, subscriptions, events } = offlineBilling()
+    const session = await provider.createCheckoutSession(checkout('user-1'))
+
+    await expect(provider.completeCheckout(session.id, 'user-2')).rejects.toMatchObject({ status: 403 })
+    await provider.completeCheckout(session.id, 'user-1')
+    await provider.completeCheckout(session.id, 'user-1')
+    expect(subscriptions.size).toBe(1)
+    expect(events).toHaveLength(2)
+  })
+
+  it('rejects forged and expired sessions', async () => {
+    const { provider } = offlineBilling()
+    const session = await provider.createCheckoutSession(checkout('user-1'))
+    const [payload, sig] = session.id.replace('cs_mock_', '').split('.')
+    const forged = Buffer.from(JSON.stringify({ req: checkout('user-1', { tier: 'team', quantity: 50 }), exp: Date.now() + 60_000 })).toString('base64url')
+
+    await expect(provider.completeCheckout(`cs_mock_${forged}.${sig}`, 'user-1')).rejects.toMatchObject({ status: 404 })
+    await expect(provider.completeCheckout(`cs_mock_${payload}.`, 'user-1')).rejects.toMatchObject({ status: 404 })
+
+    vi.useFakeTimers({ now: Date.now() + 2 * 60 * 60 * 1000 })
+    try {
+      await expect(provider.completeCheckout(session.id, 'user-1')).rejects.toMatchObject({ status: 410 })
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('rejects webhooks not signed with its secret', async () => {
+    const provider = new MockBillingProvider(SECRET, { get: async () => null })
+    const body = JSON.stringify({ id: 'evt_1', type: 'ignored' })
+    const headers = (secret: string) => new Headers({ [MOCK_SIGNATURE_HEADER]: signPayload(body, secret) })
+
+    await expect(provider.parseWebhook(body, headers('mock_whsec_local'))).rejects.toBeInstanceOf(BillingError)
+    await expect(provider.parseWebhook(body, new Headers())).rejects.toMatchObject({ status: 401 })
+    await expect(provider.parseWebhook(body, headers(SECRET))).resolves.toEqual({ id: 'evt_1', type: 'ignored' })
+  })
+})
+
+describe('getBillingProvider', () => {
+  beforeEach(() => {
+    vi.stubEnv('NEXT_PUBLIC_SUPABASE_URL', 'http://localhost:54321')
+    vi.stubEnv('SUPABASE_SERVICE_ROLE_KEY', 'service-role')
+    vi.stubEnv('STRIPE_SECRET_KEY', '')
+    vi.stubEnv('BILLING_PROVIDER', '')
+    vi.stubEnv('MOCK_BILLING_SECRET', '')
+  })
+  afterEach(() => { vi.unstubAllEnvs() })
+
+  it('is off unless a provider is configured', () => {
+    expect(() => getBillingProvider()).toThrow('Billing is not configured')
+    expect(getMockBillingProvider()).toBeNull()
+  })
+
+  it('uses Stripe when its key is set', () => {
+    vi.stubEnv('STRIPE_SECRET_KEY', 'sk_test_1')
+    expect(getBillingProvider().name).toBe('stripe')
+  })
+
+  it('only runs the mock when asked for, with a secret, outside production', () => {
+    vi.stubEnv('BILLING_PROVIDER', 'mock')
+    expect(() => getBillingProvider()).toThrow('MOCK_BILLING_SECRET')
+
+    vi.stubEnv('MOCK_BILLING_SECRET', SECRET)
+    expect(getBillingProvider().name).toBe('mock')
+    expect(getMockBillingProvider()).toBeInstanceOf(MockBillingProvider)
+
+    vi.stubEnv('NODE_ENV', 'production')
+    expect(() => getBillingProvider()).toThrow('disabled in production')
+    expect(getMockBillingProvider()).toBeNull()
+  })
+})
@@ -0,0 +1,224 @@
+import { createHash, createHmac, randomUUID, timingSafeEqual } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { PLAN_PRICES } from '../plans'
+import { signPayload, verifySignature } from './signature'
+import {
+  BillingError,
+  type BillingEvent, type BillingProvider, type CheckoutRequest, type PaidTier, type PlanChangeRequest,
+} from './types'
+
+/**
+ * Offline billing provider for development and tests. It delivers signed
+ * events to our own webhook route, so checkout → webhook → user_plans can be
+ * exercised end to end without a payment processor. It keeps no state of its
+ * own: checkout sessions are signed tokens, and subscriptions are read back
+ * from the rows its webhooks wrote, so any server instance can serve any step.
+ */
+
+const PERIOD_MS = 30 * 24 * 60 * 60 * 1000
+const SESSION_TTL_MS = 60 * 60 * 1000
+export const MOCK_SIGNATURE_HEADER = 'x-mock-signature'
+
+export interface MockSubscription {
+  id: string
+  userId: string
+  orgId?: string
+  customerId: string
+  tier: PaidTier
+  quantity: number
+  periodStart: number
+  periodEnd: number
+  cancelAtPeriodEnd: boolean
+}
+
+/** Where the mock reads its subscriptions back from */
+export interface MockSubscriptionStore {
+  /** null when unknown or canceled */
+  get(id: string): Promise<MockSubscription | null>
+}
+
+/** The `billing_subscriptions` rows written by the webhook */
+export function supabaseSubscriptionStore(admin: SupabaseClient): MockSubscriptionStore {
+  return {
+    async get(id) {
+      const { data, error } = await admin
+        .from('billing_subscriptions')
+        .select('id, user_id, org_id, customer_id, tier, quantity, status, current_period_end, cancel_at_period_end')
+        .eq('id', id)
+        .eq('provider', 'mock')
+        .maybeSingle()
+      if (error) throw new BillingError(error.message, 500)
+      if (!data || data.status === 'canceled') return null
+      const periodEnd = new Date(data.current_period_end).getTime()
+      return {
+        id: data.id,
+        userId: data.user_id,
+        orgId: data.org_id || undefined,
+        customerId: data.customer_id,
+        tier: data.tier,
+        quantity: data.quantity,
+        periodStart: periodEnd - PERIOD_MS,
+        periodEnd,
+        cancelAtPeriodEnd: data.cancel_at_period_end,
+      }
+    },
+  }
+}
+
+const webhookUrl = () =>
+  process.env.BILLING_WEBHOOK_URL ||
+  `${process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'}/api/billing/webhook`
+
+const iso = (ms: number) => new Date(ms).toISOString()
+const eventId = () => `evt_mock_${randomUUID()}`
+const price = (tier: PaidTier, quantity: number) => PLAN_PRICES[tier].amount * quantity
+
+export class MockBillingProvider implements BillingProvider {
+  readonly name = 'mock'
+
+  constructor(private secret: string, private store: MockSubscriptionStore) {}
+
+  private async deliver(event: BillingEvent) {
+    const body = JSON.stringify(event)
+    const res = await fetch(webhookUrl(), {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', [MOCK_SIGNATURE_HEADER]: signPayload(body, this.secret) },
+      body,
+    })
+    if (!res.ok) throw new BillingError(`Mock webhook delivery failed (${res.status}): ${(await res.text()).slice(0, 200)}`, 502)
+  }
+
+  private subscriptionEvent(sub: MockSubscription, id = eventId()): BillingEvent {
+    return {
+      id,
+      type: 'subscription.updated',
+      userId: sub.userId,
+      orgId: sub.orgId,
+      customerId: sub.customerId,
+      subscriptionId: sub.id,
+      tier: sub.tier,
+      quantity: sub.quantity,
+      status: 'active',
+      currentPeriodEnd: iso(sub.periodEnd),
+      cancelAtPeriodEnd: sub.cancelAtPeriodEnd,
+    }
+  }
+
+  private invoiceEvent(
+    sub: MockSubscription, amount: number, description: string, from: number, to: number,
+    ids = { event: eventId(), invoice: `in_mock_${randomUUID()}` }
+  ): BillingEvent {
+    return {
+      id: ids.event,
+      type: 'invoice.paid',
+      userId: sub.userId,
+      customerId: sub.customerId,
+      subscriptionId: sub.id,
+      invoiceId: ids.invoice,
+      amount,
+      currency: PLAN_PRICES[sub.tier].currency,
+      description,
+      periodStart: iso(from),
+      periodEnd: iso(to),
+    }
+  }
+
+  private async getSubscription(id: string) {
+    const sub = await this.store.get(id)
+    if (!sub) throw new BillingError('Unknown mock subscription', 404)
+    return sub
+  }
+
+  private sign(payload: string) {
+    return createHmac('sha256', this.secret).update(`session.${payload}`).digest('base64url')
+  }
+
+  /** The checkout request a session id was signed for; throws when forged or expired */
+  private readSession(sessionId: string): CheckoutRequest {
+    const [payload, sig] = sessionId.replace(/^cs_mock_/, '').split('.')
+    const expected = payload && Buffer.from(this.sign(payload))
+    const given = Buffer.from(sig || '')
+    if (!expected || given.length !== expected.length || !timingSafeEqual(given, expected)) {
+      throw new BillingError('Unknown checkout session', 404)
+    }
+    const { req, exp } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'))
+    if (Date.now() > exp) throw new BillingError('Checkout session expired', 410)
+    return req
+  }
+
+  async createCheckoutSession(req: CheckoutRequest) {
+    const payload = Buffer.from(JSON.stringify({ req, exp: Date.now() + SESSION_TTL_MS })).toString('base64url')
+    const id = `cs_mock_${payload}.${this.sign(payload)}`
+    return { id, url: `/api/billing/mock/checkout?session=${encodeURIComponent(id)}` }
+  }
+
+  /**
+   * Mock-only: the "customer paid" step of the hosted checkout page, for the
+   * user the session was created for. Paying the same session twice is a no-op.
+   */
+  async completeCheckout(sessionId: string, userId: string) {
+    const req = this.readSession(sessionId)
+    if (req.userId !== userId) throw new BillingError('This checkout belongs to another user', 403)
+
+    const subId = `sub_mock_${createHash('sha256').update(sessionId).digest('hex').slice(0, 24)}`
+    if (await this.store.get(subId)) return req
+
+    const now = Date.now()
+    const { orgId, tier, quantity = 1 } = req
+    const sub: MockSubscription = {
+      id: subId,
+      userId,
+      orgId,
+      customerId: `cus_mock_${userId}`,
+      tier,
+      quantity,
+      periodStart: now,
+      periodEnd: now + PERIOD_MS,
+      cancelAtPeriodEnd: false,
+    }
+    // fixed ids, so a retried checkout is deduplicated by the webhook
+    await this.deliver(this.subscriptionEvent(sub, `evt_mock_${subId}_created`))
+    await this.deliver(this.invoiceEvent(sub, price(tier, quantity), `${tier} plan × ${quantity}`, sub.periodStart, sub.periodEnd, {
+      event: `evt_mock_${subId}_invoice`,
+      invoice: `in_mock_${subId}_first`,
+    }))
+    return req
+  }
+
+  async changePlan({ subscriptionId, tier, quantity }: PlanChangeRequest) {
+    const sub = await this.getSubscription(subscriptionId)
+    const nextQty = quantity ?? sub.quantity
+    const now = Date.now()
+    const remaining = Math.max(0, (sub.periodEnd - now) / (sub.periodEnd - sub.periodStart))
+    const delta = Math.round((price(tier, nextQty) - price(sub.tier, sub.quantity)) * remaining)
+    const label = `Proration: ${sub.tier} × ${sub.quantity} → ${tier} × ${nextQty}`
+
+    const next = { ...sub, tier, quantity: nextQty, cancelAtPeriodEnd: false }
+    await this.deliver(this.subscriptionEvent(next))
+    // negative amounts are credits for unused time
+    if (delta !== 0) await this.deliver(this.invoiceEvent(next, delta, label, now, next.periodEnd))
+  }
+
+  async cancelSubscription(subscriptionId: string, opts: { immediately?: boolean } = {}) {
+    const sub = await this.getSubscription(subscriptionId)
+    if (opts.immediately) {
+      await this.deliver({ id: eventId(), type: 'subscription.deleted', userId: sub.userId, customerId: sub.customerId, subscriptionId: sub.id })
+      return
+    }
+    await this.deliver(this.subscriptionEvent({ ...sub, cancelAtPeriodEnd: true }))
+  }
+
+  /** Mock-only: jump to the end of the current period (renew, or finish a pending cancellation) */
+  async advancePeriod(subscriptionId: string) {
+    const sub = await this.getSubscription(subscriptionId)
+    if (sub.cancelAtPeriodEnd) return this.cancelSubscription(sub.id, { immediately: true })
+    const next = { ...sub, periodStart: sub.periodEnd, periodEnd: sub.periodEnd + PERIOD_MS }
+    await this.deliver(this.subscriptionEvent(next))
+    await this.deliver(this.invoiceEvent(next, price(next.tier, next.quantity), `${next.tier} plan × ${next.quantity}`, next.periodStart, next.periodEnd))
+  }
+
+  async parseWebhook(rawBody: string, headers: Headers) {
+    verifySignature(rawBody, headers.get(MOCK_SIGNATURE_HEADER), this.secret)
+    return JSON.parse(rawBody) as BillingEvent
+  }
+}
@@ -0,0 +1,26 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import { BillingError } from './types'
+
+const TOLERANCE_SECONDS = 300
+
+/** `t=<unix>,v1=<hex hmac>` — same scheme as Stripe-Signature, reused by the mock provider */
+export function signPayload(payload: string, secret: string, timestamp = Math.floor(Date.now() / 1000)) {
+  const sig = createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex')
+  return `t=${timestamp},v1=${sig}`
+}
+
+export function verifySignature(payload: string, header: string | null, secret: string) {
+  if (!header) throw new BillingError('Missing webhook signature', 401)
+  const parts = Object.fromEntries(
+    header.split(',').map(kv => kv.split('=') as [string, string]).filter(([k, v]) => k && v)
+  )
+  const t = Number(parts.t)
+  if (!t || !parts.v1) throw new BillingError('Malformed webhook signature', 401)
+  if (Math.abs(Date.now() / 1000 - t) > TOLERANCE_SECONDS) throw new BillingError('Webhook signature expired', 401)
+
+  const expected = createHmac('sha256', secret).update(`${t}.${payload}`).digest()
+  const given = Buffer.from(parts.v1, 'hex')
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    throw new BillingError('Invalid webhook signature', 401)
+  }
+}
@@ -0,0 +1,151 @@
+import { verifySignature } from './signature'
+import {
+  BillingError,
+  type BillingEvent, type BillingProvider, type CheckoutRequest, type PaidTier, type PlanChangeRequest,
+  type SubscriptionStatus,
+} from './types'
+
+/**
+ * Stripe over its REST API (no SDK dependency).
+ * Env: STRIPE_SECRET_KEY, STRIPE_WEBHOOK_SECRET, STRIPE_PRICE_PRO, STRIPE_PRICE_TEAM
+ */
+
+const API = 'https://api.stripe.com/v1'
+
+const PRICE_IDS: Record<PaidTier, string | undefined> = {
+  pro: process.env.STRIPE_PRICE_PRO,
+  team: process.env.STRIPE_PRICE_TEAM,
+}
+
+const tierForPrice = (priceId?: string): PaidTier | undefined =>
+  (Object.keys(PRICE_IDS) as PaidTier[]).find(t => PRICE_IDS[t] && PRICE_IDS[t] === priceId)
+
+/** Flatten nested params into Stripe's bracketed form encoding */
+function formEncode(params: Record<string, any>, prefix = '', out = new URLSearchParams()) {
+  for (const [k, v] of Object.entries(params)) {
+    if (v === undefined || v === null) continue
+    const key = prefix ? `${prefix}[${k}]` : k
+    if (typeof v === 'object') formEncode(v, key, out)
+    else out.append(key, String(v))
+  }
+  return out
+}
+
+const iso = (unix?: number) => new Date((unix || 0) * 1000).toISOString()
+
+const normalizeStatus = (s: string): SubscriptionStatus =>
+  (['active', 'trialing', 'past_due', 'canceled', 'incomplete'] as const).find(x => x === s) || 'incomplete'
+
+export class StripeBillingProvider implements BillingProvider {
+  readonly name = 'stripe'
+
+  constructor(
+    private secretKey = process.env.STRIPE_SECRET_KEY || '',
+    private webhookSecret = process.env.STRIPE_WEBHOOK_SECRET || ''
+  ) {
+    if (!this.secretKey) throw new BillingError('Missing STRIPE_SECRET_KEY', 500)
+  }
+
+  private async call(method: 'GET' | 'POST' | 'DELETE', path: string, params?: Record<string, any>) {
+    const body = params && method !== 'GET' ? formEncode(params).toString() : undefined
+    const qs = params && method === 'GET' ? `?${formEncode(params)}` : ''
+    const res = await fetch(`${API}${path}${qs}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${this.secretKey}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body,
+    })
+    const data = await res.json().catch(() => ({}))
+    if (!res.ok) throw new BillingError(data?.error?.message || `Stripe error (${res.status})`, 502)
+    return data
+  }
+
+  private priceFor(tier: PaidTier) {
+    const id = PRICE_IDS[tier]
+    if (!id) throw new BillingError(`No Stripe price configured for ${tier}`, 500)
+    return id
+  }
+
+  async createCheckoutSession({ userId, email, tier, quantity = 1, orgId, successUrl, cancelUrl }: CheckoutRequest) {
+    const metadata = { user_id: userId, tier, org_id: orgId }
+    const session = await this.call('POST', '/checkout/sessions', {
+      mode: 'subscription',
+      success_url: successUrl,
+      cancel_url: cancelUrl,
+      client_reference_id: userId,
+      customer_email: email || undefined,
+      line_items: { 0: { price: this.priceFor(tier), quantity } },
+      subscription_data: { metadata },
+      metadata,
+    })
+    return { id: session.id as string, url: session.url as string }
+  }
+
+  async changePlan({ subscriptionId, tier, quantity }: PlanChangeRequest) {
+    const sub = await this.call('GET', `/subscriptions/${subscriptionId}`)
+    const item = sub?.items?.data?.[0]
+    if (!item) throw new BillingError('Subscription has no items', 409)
+    await this.call('POST', `/subscriptions/${subscriptionId}`, {
+      items: { 0: { id: item.id, price: this.priceFor(tier), quantity: quantity ?? item.quantity } },
+      proration_behavior: 'always_invoice',
+      cancel_at_period_end: false,
+      metadata: { tier },
+    })
+  }
+
+  async cancelSubscription(subscriptionId: string, opts: { immediately?: boolean } = {}) {
+    if (opts.immediately) await this.call('DELETE', `/subscriptions/${subscriptionId}`)
+    else await this.call('POST', `/subscriptions/${subscriptionId}`, { cancel_at_period_end: true })
+  }
+
+  async parseWebhook(rawBody: string, headers: Headers): Promise<BillingEvent> {
+    if (!this.webhookSecret) throw new BillingError('Missing STRIPE_WEBHOOK_SECRET', 500)
+    verifySignature(rawBody, headers.get('stripe-signature'), this.webhookSecret)
+
+    const evt = JSON.parse(rawBody)
+    const obj = evt?.data?.object || {}
+    switch (evt.type) {
+      case 'customer.subscription.created':
+      case 'customer.subscription.updated': {
+        const item = obj.items?.data?.[0]
+        const tier = tierForPrice(item?.price?.id) || (obj.metadata?.tier as PaidTier)
+        if (!tier) return { id: evt.id, type: 'ignored' }
+        return {
+          id: evt.id,
+          type: 'subscription.updated',
+          userId: obj.metadata?.user_id,
+          orgId: obj.metadata?.org_id || undefined,
+          customerId: obj.customer,
+          subscriptionId: obj.id,
+          tier,
+          quantity: item?.quantity || 1,
+          status: normalizeStatus(obj.status),
+          currentPeriodEnd: iso(item?.current_period_end ?? obj.current_period_end),
+          cancelAtPeriodEnd: !!obj.cancel_at_period_end,
+        }
+      }
+      case 'customer.subscription.deleted':
+        return { id: evt.id, type: 'subscription.deleted', userId: obj.metadata?.user_id, customerId: obj.customer, subscriptionId: obj.id }
+      case 'invoice.paid':
+      case 'invoice.payment_failed':
+        return {
+          id: evt.id,
+          type: evt.type,
+          userId: obj.subscription_details?.metadata?.user_id,
+          customerId: obj.customer,
+          subscriptionId: obj.subscription || undefined,
+          invoiceId: obj.id,
+          amount: obj.amount_paid ?? obj.amount_due ?? 0,
+          currency: obj.currency || 'usd',
+          description: obj.lines?.data?.[0]?.description || 'Subscription',
+          hostedUrl: obj.hosted_invoice_url || undefined,
+          periodStart: iso(obj.period_start),
+          periodEnd: iso(obj.period_end),
+        }
+      default:
+        return { id: evt.id, type: 'ignored' }
+    }
+  }
+}
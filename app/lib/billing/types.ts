@@ -0,0 +1,78 @@
+import type { PlanTier } from '../plans'
+
+export type PaidTier = Exclude<PlanTier, 'free'>
+export type SubscriptionStatus = 'active' | 'trialing' | 'past_due' | 'canceled' | 'incomplete'
+
+export interface CheckoutRequest {
+  userId: string
+  email?: string | null
+  tier: PaidTier
+  quantity?: number
+  /** Team subscription bought for an organization; quantity is its seat count */
+  orgId?: string
+  successUrl: string
+  cancelUrl: string
+}
+
+export interface PlanChangeRequest {
+  subscriptionId: string
+  tier: PaidTier
+  quantity?: number
+}
+
+/**
+ * Provider-neutral webhook events. The webhook route is the only code that
+ * turns these into `user_plans` / `billing_*` rows.
+ */
+export type BillingEvent =
+  | {
+      id: string
+      type: 'subscription.updated'
+      userId?: string
+      orgId?: string
+      customerId: string
+      subscriptionId: string
+      tier: PaidTier
+      quantity: number
+      status: SubscriptionStatus
+      currentPeriodEnd: string
+      cancelAtPeriodEnd: boolean
+    }
+  | {
+      id: string
+      type: 'subscription.deleted'
+      userId?: string
+      customerId: string
+      subscriptionId: string
+    }
+  | {
+      id: string
+      type: 'invoice.paid' | 'invoice.payment_failed'
+      userId?: string
+      customerId: string
+      subscriptionId?: string
+      invoiceId: string
+      amount: number
+      currency: string
+      description: string
+      hostedUrl?: string
+      periodStart: string
+      periodEnd: string
+    }
+  | { id: string; type: 'ignored' }
+
+export interface BillingProvider {
+  readonly name: string
+  /** Returns the hosted checkout URL to redirect the browser to */
+  createCheckoutSession(req: CheckoutRequest): Promise<{ id: string; url: string }>
+  /** Switch tier/seats on an existing subscription, prorating the remainder of the period */
+  changePlan(req: PlanChangeRequest): Promise<void>
+  /** Cancel at period end (default) or immediately */
+  cancelSubscription(subscriptionId: string, opts?: { immediately?: boolean }): Promise<void>
+  /** Verify the signature and normalize the payload; throws BillingError on a bad signature */
+  parseWebhook(rawBody: string, headers: Headers): Promise<BillingEvent>
+}
+
+export class BillingError extends Error {
+  constructor(message: string, public status = 400) { super(message) }
+}
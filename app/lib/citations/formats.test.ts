@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest'
+import type { ColabReference } from '../../types/citation-types'
+import { detectFormat, FormatError, parseReferences, REFERENCE_FORMATS, serializeReferences } from './formats'
+
+const ref = (over: Partial<ColabReference>): ColabReference => ({
+  id: 'r', colab_id: 'c', kind: 'doi', identifier: '', title: '', authors: [], journal: null, year: null,
+  doi: null, url: null, abstract: null, mesh_terms: [], keywords: [], publication_types: [],
+  added_by: 'u', created_at: '2026-01-01T00:00:00Z', ...over,
+})
+
+const library = [
+  ref({
+    kind: 'pmid', identifier: '31234567', title: 'Gut microbiome & host metabolism: a 50% review',
+    authors: ['Smith J', 'Müller, Anna-Lena', 'van der Berg, Pieter'], journal: 'Nature', year: 2019,
+    doi: '10.1038/s41586-019-1234-5', url: 'https://pubmed.ncbi.nlm.nih.gov/31234567/',
+    abstract: 'We review how the gut microbiome shapes host metabolism.',
+  }),
+  ref({
+    kind: 'doi', identifier: '10.1101/2020.01.01.123456', title: 'Protein folding at scale',
+    authors: ['Jane Doe'], journal: 'bioRxiv', year: 2020,
+  }),
+  ref({
+    kind: 'arxiv', identifier: '2101.00001', title: 'Attention over sequences', authors: ['Li, Wei'], year: 2021,
+  }),
+]
+
+describe.each(REFERENCE_FORMATS)('%s round trip', format => {
+  const once = parseReferences(serializeReferences(library, format))
+
+  it('detects its own output', () => {
+    expect(detectFormat(serializeReferences(library, format))).toBe(format)
+  })
+
+  it('keeps every identifier and field', () => {
+    expect(once.skipped).toEqual([])
+    expect(once.entries.map(e => e.ids)).toEqual([
+      { pmid: '31234567', doi: '10.1038/s41586-019-1234-5', arxiv: undefined },
+      { pmid: undefined, doi: '10.1101/2020.01.01.123456', arxiv: undefined },
+      { pmid: undefined, doi: undefined, arxiv: '2101.00001' },
+    ])
+    expect(once.entries[0].metadata).toMatchObject({
+      title: library[0].title, journal: 'Nature', year: 2019, url: library[0].url, abstract: library[0].abstract,
+    })
+    expect(once.entries[1].metadata).toMatchObject({ title: 'Protein folding at scale', journal: 'bioRxiv', year: 2020 })
+  })
+
+  it('stores names family first', () => {
+    expect(once.entries.map(e => e.metadata.authors)).toEqual([
+      ['Smith, J', 'Müller, Anna-Lena', 'van der Berg, Pieter'],
+      ['Doe, Jane'],
+      ['Li, Wei'],
+    ])
+  })
+
+  it('is stable across repeated export and import', () => {
+    const reimported = once.entries.map((e, i) => ref({ ...library[i], authors: e.metadata.authors }))
+    const twice = parseReferences(serializeReferences(reimported, format))
+    expect(twice.entries).toEqual(once.entries)
+  })
+})
+
+describe('BibTeX import', () => {
+  it('decodes LaTeX accent macros', () => {
+    const src = String.raw`@article{x,
+      author = {M{\"u}ller, J{\"o}rg and Garc{\'\i}a, Jos{\'e} and {\v S}koda, Ji\v{r}{\'\i} and Stra{\ss}er, Fran\c{c}ois and {\O}rsted, S{\o}ren},
+      title = {Na{\"\i}ve {\`a} la carte \& more},
+      doi = {10.1000/xyz}
+    }`
+    const [e] = parseReferences(src).entries
+    expect(e.metadata.authors).toEqual(['Müller, Jörg', 'García, José', 'Škoda, Jiří', 'Straßer, François', 'Ørsted, Søren'])
+    expect(e.metadata.title).toBe('Naïve à la carte & more')
+  })
+
+  it('skips entries without a PMID, DOI or arXiv id', () => {
+    const res = parseReferences('@book{b, title = {A textbook}, year = 2001}')
+    expect(res).toEqual({ entries: [], skipped: ['A textbook'] })
+  })
+})
+
+describe('parseReferences', () => {
+  it('rejects unrecognised input', () => {
+    expect(() => parseReferences('plain text')).toThrow(FormatError)
+    expect(() => parseReferences('[not json', 'csl-json')).toThrow('CSL-JSON is not valid JSON')
+  })
+})
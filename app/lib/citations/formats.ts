@@ -0,0 +1,392 @@
+import type { ColabReference } from '../../types/citation-types'
+import { citationLabel, parseIdentifier } from './identifiers'
+import type { ReferenceMetadata } from './resolve'
+
+/**
+ * Reference library interchange: BibTeX, RIS and CSL-JSON, the formats
+ * Zotero, EndNote and Mendeley read and write. Exports carry every field the
+ * bibliography stores; imports keep entries that have a PMID, DOI or arXiv
+ * id (the bibliography is keyed on those) and report the rest as skipped.
+ */
+
+export const REFERENCE_FORMATS = ['bibtex', 'ris', 'csl-json'] as const
+export type ReferenceFormat = typeof REFERENCE_FORMATS[number]
+
+export const FORMAT_FILES: Record<ReferenceFormat, { ext: string; mime: string }> = {
+  bibtex: { ext: 'bib', mime: 'application/x-bibtex' },
+  ris: { ext: 'ris', mime: 'application/x-research-info-systems' },
+  'csl-json': { ext: 'json', mime: 'application/vnd.citationstyles.csl+json' },
+}
+
+export interface ImportedEntry {
+  ids: { pmid?: string; doi?: string; arxiv?: string }
+  metadata: ReferenceMetadata
+}
+
+export interface ParseResult { entries: ImportedEntry[]; skipped: string[] }
+
+export class FormatError extends Error {
+  constructor(message: string, public status = 400) { super(message) }
+}
+
+/** ---------------- names ---------------- */
+type Name = { family: string; given: string }
+
+// stored names are display strings: "Smith J" (PubMed), "Jane Smith"
+// (Crossref/arXiv) or "Smith, Jane" (imported libraries)
+function splitName(name: string): Name {
+  const n = name.trim().replace(/\s+/g, ' ')
+  if (n.includes(',')) {
+    const [family, ...rest] = n.split(',')
+    return { family: family.trim(), given: rest.join(',').trim() }
+  }
+  const parts = n.split(' ')
+  if (parts.length > 1 && /^[A-Z]{1,3}$/.test(parts[parts.length - 1])) {
+    return { family: parts.slice(0, -1).join(' '), given: parts[parts.length - 1] }
+  }
+  return { family: parts.pop() || n, given: parts.join(' ') }
+}
+
+// imports store "Family, Given": it splits back unambiguously, so a name
+// survives any number of export / import round trips unchanged
+const invertedName = ({ family, given }: Name) => (given ? `${family}, ${given}` : family)
+
+/** ---------------- shared ---------------- */
+const idsOf = (r: ColabReference) => ({
+  pmid: r.kind === 'pmid' ? r.identifier : undefined,
+  doi: r.kind === 'doi' ? r.identifier : r.doi || undefined,
+  arxiv: r.kind === 'arxiv' ? r.identifier : undefined,
+})
+
+const yearOf = (v: unknown) => {
+  const m = String(v ?? '').match(/\b(1[5-9]|20)\d{2}\b/)
+  return m ? Number(m[0]) : null
+}
+
+function entry(ids: ImportedEntry['ids'], m: Partial<ReferenceMetadata>): ImportedEntry {
+  const doi = ids.doi ? parseIdentifier(`doi:${ids.doi}`)?.identifier : undefined
+  const pmid = ids.pmid && /^\d{1,9}$/.test(ids.pmid.trim()) ? ids.pmid.trim() : undefined
+  const arxiv = ids.arxiv ? parseIdentifier(`arXiv:${ids.arxiv}`)?.identifier : undefined
+  return {
+    ids: { pmid, doi, arxiv },
+    metadata: {
+      title: (m.title || '').trim().slice(0, 1000),
+      authors: (m.authors || []).map(a => a.trim().slice(0, 200)).filter(Boolean).slice(0, 50),
+      journal: m.journal?.trim().slice(0, 300) || null,
+      year: m.year ?? null,
+      doi: doi || null,
+      url: m.url?.trim().slice(0, 1000) || null,
+      abstract: m.abstract?.trim().slice(0, 10000) || null,
+    },
+  }
+}
+
+const describe = (m: Partial<ReferenceMetadata>) => m.title?.trim() || '(untitled entry)'
+
+/** PMID / arXiv ids mentioned in free text such as a URL or a note field */
+function idsFromText(...texts: (string | undefined)[]) {
+  const out: ImportedEntry['ids'] = {}
+  for (const t of texts) {
+    if (!t) continue
+    out.pmid ||= (t.match(/pubmed\.ncbi\.nlm\.nih\.gov\/(\d{1,9})/i) || t.match(/\bPMID:?\s*(\d{1,9})\b/i))?.[1]
+    out.arxiv ||= (t.match(/arxiv\.org\/(?:abs|pdf)\/([\w.\/-]+?)(?:v\d+)?(?:\.pdf)?$/i) || t.match(/\barXiv:\s*([\w.\/-]+)/i))?.[1]
+    out.doi ||= (t.match(/doi\.org\/(10\.\d{4,9}\/\S+)/i))?.[1]
+  }
+  return out
+}
+
+/** ---------------- BibTeX ---------------- */
+const bibEscape = (s: string) => s.replace(/[\\{}]/g, '').replace(/([&%$#_])/g, '\\$1')
+
+// combining marks for the LaTeX accent macros: \"u, \'{e}, \c{c}, \v s ...
+const ACCENTS: Record<string, string> = {
+  '`': '\u0300', "'": '\u0301', '^': '\u0302', '~': '\u0303', '=': '\u0304', '.': '\u0307', '"': '\u0308',
+  u: '\u0306', r: '\u030a', H: '\u030b', v: '\u030c', d: '\u0323', c: '\u0327', k: '\u0328',
+}
+const LETTERS: Record<string, string> = {
+  ss: 'ß', ae: 'æ', AE: 'Æ', oe: 'œ', OE: 'Œ', aa: 'å', AA: 'Å', o: 'ø', O: 'Ø', l: 'ł', L: 'Ł', i: 'ı', j: 'ȷ',
+}
+
+// the accented letter may itself be a dotless \i or \j
+const accented = (_: string, acc: string, braced?: string, bare?: string) =>
+  (braced || bare || '').replace('\\', '') + ACCENTS[acc]
+
+const bibUnescape = (s: string) =>
+  s.replace(/\\([`'^~=."])\s*(?:\{\s*(\\?[A-Za-z])\s*\}|(\\?[A-Za-z]))/g, accented)
+    .replace(/\\([urHvdck])(?:\s*\{\s*(\\?[A-Za-z])\s*\}|\s+([A-Za-z]))/g, accented)
+    .replace(/\\(ss|ae|AE|oe|OE|aa|AA|o|O|l|L|i|j)(?![A-Za-z])\s*(\{\})?/g, (_, l: string) => LETTERS[l])
+    .normalize('NFC')
+    .replace(/\\([&%$#_{}])/g, '$1')
+    .replace(/[{}]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+
+function bibKey(r: ColabReference, used: Set<string>) {
+  const first = r.authors[0] ? splitName(r.authors[0]).family : 'ref'
+  const word = (r.title.match(/[A-Za-z]{4,}/) || [''])[0]
+  const base = `${first}${r.year || ''}${word}`.toLowerCase().normalize('NFKD').replace(/[^a-z0-9]/g, '') || 'ref'
+  let key = base
+  for (let i = 0; used.has(key); i++) key = `${base}${String.fromCharCode(97 + (i % 26))}${i >= 26 ? i : ''}`
+  used.add(key)
+  return key
+}
+
+function toBibTeX(refs: ColabReference[]) {
+  const used = new Set<string>()
+  return refs.map(r => {
+    const ids = idsOf(r)
+    const fields: [string, string | number | null | undefined][] = [
+      ['title', r.title],
+      ['author', r.authors.map(a => invertedName(splitName(a))).join(' and ')],
+      ['journal', ids.arxiv && /^arxiv$/i.test(r.journal || '') ? undefined : r.journal],
+      ['year', r.year],
+      ['doi', ids.doi],
+      ['pmid', ids.pmid],
+      ['eprint', ids.arxiv],
+      ['archiveprefix', ids.arxiv ? 'arXiv' : undefined],
+      ['url', r.url],
+      ['abstract', r.abstract],
+    ]
+    const body = fields
+      .filter(([, v]) => v !== undefined && v !== null && v !== '')
+      .map(([k, v]) => `  ${k} = {${typeof v === 'number' ? v : bibEscape(String(v))}}`)
+      .join(',\n')
+    return `@${ids.arxiv && !ids.doi ? 'misc' : 'article'}{${bibKey(r, used)},\n${body}\n}`
+  }).join('\n\n') + '\n'
+}
+
+/** Read one `{...}` / `"..."` / bare value starting at `i`; returns [value, next index] */
+function readBibValue(src: string, i: number): [string, number] {
+  let out = ''
+  while (i < src.length) {
+    while (/\s/.test(src[i])) i++
+    if (src[i] === '{') {
+      let depth = 0
+      const start = i
+      for (; i < src.length; i++) {
+        if (src[i] === '\\') { i++; continue }
+        if (src[i] === '{') depth++
+        else if (src[i] === '}' && --depth === 0) break
+      }
+      out += src.slice(start + 1, i)
+      i++
+    } else if (src[i] === '"') {
+      const start = ++i
+      let depth = 0
+      for (; i < src.length; i++) {
+        if (src[i] === '\\') { i++; continue }
+        if (src[i] === '{') depth++
+        else if (src[i] === '}') depth--
+        else if (src[i] === '"' && depth === 0) break
+      }
+      out += src.slice(start, i)
+      i++
+    } else {
+      const m = src.slice(i).match(/^[\w.:-]+/)
+      out += m ? m[0] : ''
+      i += m ? m[0].length : 1
+    }
+    while (/\s/.test(src[i])) i++
+    if (src[i] !== '#') break // string concatenation
+    i++
+  }
+  return [out, i]
+}
+
+function parseBibTeX(src: string): ParseResult {
+  const entries: ImportedEntry[] = []
+  const skipped: string[] = []
+  const re = /@(\w+)\s*[{(]/g
+  let m: RegExpExecArray | null
+  while ((m = re.exec(src))) {
+    const type = m[1].toLowerCase()
+    if (type === 'comment' || type === 'string' || type === 'preamble') continue
+    let i = m.index + m[0].length
+    const keyEnd = src.indexOf(',', i)
+    if (keyEnd < 0) break
+    i = keyEnd + 1
+
+    const fields: Record<string, string> = {}
+    while (i < src.length) {
+      while (/[\s,]/.test(src[i])) i++
+      if (src[i] === '}' || src[i] === ')' || i >= src.length) { i++; break }
+      const f = src.slice(i).match(/^([\w-]+)\s*=\s*/)
+      if (!f) { i++; continue }
+      i += f[0].length
+      const [value, next] = readBibValue(src, i)
+      fields[f[1].toLowerCase()] = bibUnescape(value)
+      i = next
+    }
+    re.lastIndex = i
+
+    const meta: Partial<ReferenceMetadata> = {
+      title: fields.title,
+      authors: (fields.author || '').split(/\s+and\s+/i).filter(Boolean).map(a => invertedName(splitName(a))),
+      journal: fields.journal || fields.journaltitle || fields.booktitle,
+      year: yearOf(fields.year || fields.date),
+      url: fields.url,
+      abstract: fields.abstract,
+    }
+    const fromText = idsFromText(fields.url, fields.note)
+    const ids = {
+      pmid: fields.pmid || fromText.pmid,
+      doi: fields.doi || fromText.doi,
+      arxiv: (fields.eprint && /arxiv/i.test(fields.archiveprefix || fields.eprinttype || 'arxiv') ? fields.eprint : undefined) || fromText.arxiv,
+    }
+    if (ids.pmid || ids.doi || ids.arxiv) entries.push(entry(ids, meta))
+    else skipped.push(describe(meta))
+  }
+  return { entries, skipped }
+}
+
+/** ---------------- RIS ---------------- */
+function toRIS(refs: ColabReference[]) {
+  return refs.map(r => {
+    const ids = idsOf(r)
+    const lines: [string, string | number | null | undefined][] = [
+      ['TY', ids.arxiv && !ids.doi ? 'UNPB' : 'JOUR'],
+      ['TI', r.title],
+      ...r.authors.map((a): [string, string] => ['AU', invertedName(splitName(a))]),
+      ['T2', r.journal],
+      ['PY', r.year],
+      ['DO', ids.doi],
+      ['AN', ids.pmid ? `PMID:${ids.pmid}` : ids.arxiv ? `arXiv:${ids.arxiv}` : undefined],
+      ['UR', r.url],
+      ['AB', r.abstract?.replace(/\s+/g, ' ')],
+    ]
+    return [
+      ...lines.filter(([, v]) => v !== undefined && v !== null && v !== '').map(([k, v]) => `${k}  - ${v}`),
+      'ER  - ',
+    ].join('\r\n')
+  }).join('\r\n\r\n') + '\r\n'
+}
+
+function parseRIS(src: string): ParseResult {
+  const entries: ImportedEntry[] = []
+  const skipped: string[] = []
+  let rec: Record<string, string[]> | null = null
+  let last = ''
+
+  const finish = () => {
+    if (!rec) return
+    const one = (...tags: string[]) => tags.map(t => rec![t]?.[0]).find(Boolean)
+    const meta: Partial<ReferenceMetadata> = {
+      title: one('TI', 'T1', 'CT'),
+      authors: [...(rec.AU || []), ...(rec.A1 || [])].map(a => invertedName(splitName(a))),
+      journal: one('T2', 'JO', 'JF', 'JA', 'J2'),
+      year: yearOf(one('PY', 'Y1', 'DA')),
+      url: one('UR', 'L2'),
+      abstract: one('AB', 'N2'),
+    }
+    const fromText = idsFromText(...(rec.AN || []), ...(rec.UR || []), ...(rec.N1 || []), ...(rec.M3 || []))
+    const ids = { pmid: fromText.pmid, doi: one('DO') || fromText.doi, arxiv: fromText.arxiv }
+    if (ids.pmid || ids.doi || ids.arxiv) entries.push(entry(ids, meta))
+    else skipped.push(describe(meta))
+    rec = null
+  }
+
+  for (const raw of src.replace(/^﻿/, '').split(/\r?\n/)) {
+    const m = raw.match(/^([A-Z][A-Z0-9])  -( (.*))?$/)
+    if (!m) {
+      // wrapped continuation of the previous field
+      if (rec && last && raw.trim()) {
+        const vals = rec[last]
+        vals[vals.length - 1] += ` ${raw.trim()}`
+      }
+      continue
+    }
+    const [, tag, , value = ''] = m
+    if (tag === 'TY') { finish(); rec = {}; last = ''; continue }
+    if (tag === 'ER') { finish(); continue }
+    if (!rec) continue
+    ;(rec[tag] ||= []).push(value.trim())
+    last = tag
+  }
+  finish()
+  return { entries, skipped }
+}
+
+/** ---------------- CSL-JSON ---------------- */
+function toCSL(refs: ColabReference[]) {
+  const used = new Set<string>()
+  const items = refs.map(r => {
+    const ids = idsOf(r)
+    return {
+      id: bibKey(r, used),
+      type: ids.arxiv && !ids.doi ? 'article' : 'article-journal',
+      title: r.title,
+      author: r.authors.map(a => splitName(a)),
+      'container-title': r.journal || undefined,
+      issued: r.year ? { 'date-parts': [[r.year]] } : undefined,
+      DOI: ids.doi,
+      PMID: ids.pmid,
+      URL: r.url || undefined,
+      abstract: r.abstract || undefined,
+      // Zotero reads "arXiv: <id>" lines in the note field
+      note: ids.arxiv ? `arXiv: ${ids.arxiv}` : undefined,
+      'citation-label': citationLabel(r),
+    }
+  })
+  return JSON.stringify(items, null, 2) + '\n'
+}
+
+function parseCSL(src: string): ParseResult {
+  let data: unknown
+  try { data = JSON.parse(src) } catch { throw new FormatError('CSL-JSON is not valid JSON') }
+  const items: any[] = Array.isArray(data) ? data : data && typeof data === 'object' ? [data] : []
+
+  const entries: ImportedEntry[] = []
+  const skipped: string[] = []
+  for (const it of items) {
+    const meta: Partial<ReferenceMetadata> = {
+      title: typeof it?.title === 'string' ? it.title : '',
+      authors: (Array.isArray(it?.author) ? it.author : [])
+        .map((a: any) => a?.literal || invertedName({ family: String(a?.family || ''), given: String(a?.given || '') }))
+        .filter(Boolean),
+      journal: typeof it?.['container-title'] === 'string' ? it['container-title'] : undefined,
+      year: yearOf(it?.issued?.['date-parts']?.[0]?.[0] ?? it?.issued?.raw),
+      url: typeof it?.URL === 'string' ? it.URL : undefined,
+      abstract: typeof it?.abstract === 'string' ? it.abstract : undefined,
+    }
+    const fromText = idsFromText(it?.note, it?.URL, it?.number)
+    const ids = {
+      pmid: it?.PMID ? String(it.PMID) : fromText.pmid,
+      doi: typeof it?.DOI === 'string' ? it.DOI : fromText.doi,
+      arxiv: fromText.arxiv,
+    }
+    if (ids.pmid || ids.doi || ids.arxiv) entries.push(entry(ids, meta))
+    else skipped.push(describe(meta))
+  }
+  return { entries, skipped }
+}
+
+/** ---------------- entry points ---------------- */
+export function serializeReferences(refs: ColabReference[], format: ReferenceFormat) {
+  switch (format) {
+    case 'bibtex': return toBibTeX(refs)
+    case 'ris': return toRIS(refs)
+    case 'csl-json': return toCSL(refs)
+  }
+}
+
+/** Guess the format of an uploaded library from its first non-blank characters */
+export function detectFormat(src: string): ReferenceFormat | null {
+  const head = src.replace(/^﻿/, '').trimStart()
+  if (head.startsWith('[') || head.startsWith('{')) return 'csl-json'
+  if (/^TY {2}-/m.test(head)) return 'ris'
+  if (/@\w+\s*[{(]/.test(head)) return 'bibtex'
+  return null
+}
+
+export function parseReferences(src: string, format?: ReferenceFormat | null): ParseResult {
+  const fmt = format || detectFormat(src)
+  switch (fmt) {
+    case 'bibtex': return parseBibTeX(src)
+    case 'ris': return parseRIS(src)
+    case 'csl-json': return parseCSL(src)
+    default: throw new FormatError('Unrecognized format; expected BibTeX, RIS or CSL-JSON')
+  }
+}
+
+export const isReferenceFormat = (v: unknown): v is ReferenceFormat =>
+  REFERENCE_FORMATS.includes(v as ReferenceFormat)
@@ -0,0 +1,75 @@
+import type { ColabReference, ReferenceKind } from '../../types/citation-types'
+
+/**
+ * Paper identifiers accepted as citations. Safe to import from client code.
+ * Identifiers are stored normalized so the same work cited twice maps to one
+ * bibliography row: PMIDs as digits, DOIs lowercased without resolver
+ * prefix, arXiv ids without `arXiv:` prefix or version suffix.
+ */
+
+export interface PaperIdentifier { kind: ReferenceKind; identifier: string }
+
+const normDOI = (s: string) =>
+  s.trim().toLowerCase().replace(/^doi:\s*/, '').replace(/^https?:\/\/(dx\.)?doi\.org\//, '')
+
+const normArxivId = (s: string) =>
+  s.trim().toLowerCase()
+    .replace(/^https?:\/\/(www\.)?arxiv\.org\/(abs|pdf)\//, '')
+    .replace(/^arxiv:\s*/, '')
+    .replace(/\.pdf$/, '')
+    .replace(/v\d+$/, '')
+
+/** Parse free text (bare id, prefixed id or URL) into a normalized identifier */
+export function parseIdentifier(input: string): PaperIdentifier | null {
+  const s = input.trim()
+  if (!s) return null
+
+  const pmid = s.match(/^(?:pmid:?\s*)?(\d{1,9})$/i) || s.match(/pubmed\.ncbi\.nlm\.nih\.gov\/(\d{1,9})/i)
+  if (pmid) return { kind: 'pmid', identifier: pmid[1] }
+
+  if (/^(doi:|https?:\/\/(dx\.)?doi\.org\/)/i.test(s) || /^10\.\d{4,9}\//.test(s)) {
+    const doi = normDOI(s)
+    return /^10\.\d{4,9}\/\S+$/.test(doi) ? { kind: 'doi', identifier: doi } : null
+  }
+
+  if (/^arxiv:/i.test(s) || /arxiv\.org\/(abs|pdf)\//i.test(s) || /^\d{4}\.\d{4,5}(v\d+)?$/.test(s) || /^[a-z-]+(\.[a-z]{2})?\/\d{7}(v\d+)?$/i.test(s)) {
+    const id = normArxivId(s)
+    return id ? { kind: 'arxiv', identifier: id } : null
+  }
+
+  return null
+}
+
+export function referenceUrl({ kind, identifier }: PaperIdentifier) {
+  switch (kind) {
+    case 'pmid': return `https://pubmed.ncbi.nlm.nih.gov/${identifier}/`
+    case 'doi': return `https://doi.org/${identifier}`
+    case 'arxiv': return `https://arxiv.org/abs/${identifier}`
+  }
+}
+
+export function formatIdentifier({ kind, identifier }: PaperIdentifier) {
+  switch (kind) {
+    case 'pmid': return `PMID:${identifier}`
+    case 'doi': return `doi:${identifier}`
+    case 'arxiv': return `arXiv:${identifier}`
+  }
+}
+
+const surname = (name: string) => {
+  const n = name.trim()
+  // "Smith J" (PubMed) vs "Jane Smith" (Crossref/arXiv) vs "Smith, Jane" (imported)
+  if (n.includes(',')) return n.split(',')[0].trim()
+  if (/^\S+\s+[A-Z]{1,3}$/.test(n)) return n.split(/\s+/)[0]
+  return n.split(/\s+/).pop() || n
+}
+
+/** Short in-text label, e.g. "Smith et al. 2021", falling back to the identifier */
+export function citationLabel(ref: Pick<ColabReference, 'kind' | 'identifier' | 'authors' | 'year'>) {
+  const first = ref.authors?.[0]
+  if (!first) return formatIdentifier(ref)
+  const who = ref.authors.length > 2
+    ? `${surname(first)} et al.`
+    : ref.authors.map(surname).join(' & ')
+  return ref.year ? `${who} ${ref.year}` : who
+}
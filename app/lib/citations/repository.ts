@@ -0,0 +1,222 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { ColabReference } from '../../types/citation-types'
+import { parseIdentifier, referenceUrl, type PaperIdentifier } from './identifiers'
+import { resolveReference, type ReferenceMetadata } from './resolve'
+import type { ParseResult } from './formats'
+
+/**
+ * Per-colab bibliography (`colab_references`) and the note → work links
+ * (`note_citations`). A work is stored once per colab; citing it again from
+ * another note only adds a link. Removing a citation keeps the work in the
+ * bibliography; removing the work drops every citation of it.
+ */
+
+export interface BibliographyEntry extends ColabReference { cited_by: string[] }
+export interface ImportSummary { added: number; existing: number; skipped: string[] }
+
+export class CitationError extends Error {
+  constructor(message: string, public status = 400) { super(message) }
+}
+
+/** Parse a request's `identifier`, or fail with a 400 */
+export function requireIdentifier(input: unknown): PaperIdentifier {
+  const id = parseIdentifier(String(input || ''))
+  if (!id) throw new CitationError('Enter a PMID, DOI or arXiv id')
+  return id
+}
+
+const str = (v: unknown, max: number) => (typeof v === 'string' && v.trim() ? v.trim().slice(0, max) : null)
+
+const strList = (v: unknown) =>
+  (Array.isArray(v) ? v : []).map(x => str(x, 200)).filter(Boolean).slice(0, 100) as string[]
+
+/** Metadata the client already has (e.g. a copilot search result), used when the lookup fails */
+function fallbackMetadata(id: PaperIdentifier, m: any): ReferenceMetadata | null {
+  const title = str(m?.title, 1000)
+  if (!title) return null
+  const year = Number(m?.year)
+  return {
+    title,
+    authors: (Array.isArray(m?.authors) ? m.authors : []).map((a: unknown) => str(a, 200)).filter(Boolean).slice(0, 50) as string[],
+    journal: str(m?.journal, 300),
+    year: Number.isInteger(year) && year > 1000 && year < 3000 ? year : null,
+    doi: id.kind === 'doi' ? id.identifier : str(m?.doi, 300)?.toLowerCase() || null,
+    url: referenceUrl(id),
+    abstract: str(m?.abstract, 10000),
+    mesh_terms: strList(m?.mesh_terms ?? m?.mesh),
+    keywords: strList(m?.keywords),
+    publication_types: strList(m?.publication_types ?? m?.publicationTypes),
+  }
+}
+
+export async function listBibliography(supabase: SupabaseClient, colabId: string): Promise<BibliographyEntry[]> {
+  const [refs, cites] = await Promise.all([
+    supabase.from('colab_references').select('*').eq('colab_id', colabId).order('created_at', { ascending: true }),
+    supabase.from('note_citations').select('note_id, reference_id').eq('colab_id', colabId),
+  ])
+  if (refs.error) throw new CitationError(refs.error.message, 500)
+  if (cites.error) throw new CitationError(cites.error.message, 500)
+
+  const citedBy = new Map<string, string[]>()
+  for (const c of cites.data || []) citedBy.set(c.reference_id, [...(citedBy.get(c.reference_id) || []), c.note_id])
+  return ((refs.data || []) as ColabReference[]).map(r => ({ ...r, cited_by: citedBy.get(r.id) || [] }))
+}
+
+async function findReference(supabase: SupabaseClient, colabId: string, id: PaperIdentifier) {
+  const { data, error } = await supabase
+    .from('colab_references')
+    .select('*')
+    .eq('colab_id', colabId)
+    .eq('kind', id.kind)
+    .eq('identifier', id.identifier)
+    .maybeSingle()
+  if (error) throw new CitationError(error.message, 500)
+  return (data as ColabReference) || null
+}
+
+/** Add a work to the colab bibliography (no-op when it is already there) */
+export async function addReference(
+  supabase: SupabaseClient,
+  colabId: string,
+  userId: string,
+  id: PaperIdentifier,
+  clientMetadata?: unknown
+): Promise<ColabReference> {
+  const existing = await findReference(supabase, colabId, id)
+  if (existing) return existing
+
+  let meta: ReferenceMetadata | null = null
+  try {
+    meta = await resolveReference(id)
+  } catch (e) {
+    console.error('citation lookup failed', id, e)
+  }
+  meta = meta || fallbackMetadata(id, clientMetadata)
+  if (!meta) throw new CitationError(`Could not find ${id.kind.toUpperCase()} ${id.identifier}`, 422)
+
+  const { data, error } = await supabase
+    .from('colab_references')
+    .insert({ colab_id: colabId, kind: id.kind, identifier: id.identifier, ...meta, added_by: userId })
+    .select('*')
+    .single()
+  if (error) {
+    // another request added the same work meanwhile
+    if (error.code === '23505') {
+      const row = await findReference(supabase, colabId, id)
+      if (row) return row
+    }
+    throw new CitationError(error.message, 500)
+  }
+  return data as ColabReference
+}
+
+/**
+ * Add parsed library entries using the metadata in the file (no lookups).
+ * An entry matching a work already in the bibliography by PMID, DOI or arXiv
+ * id is counted as existing; new works are keyed by PMID, else DOI, else arXiv.
+ */
+export async function importReferences(
+  supabase: SupabaseClient,
+  colabId: string,
+  userId: string,
+  { entries, skipped }: ParseResult
+): Promise<ImportSummary> {
+  const { data, error } = await supabase
+    .from('colab_references')
+    .select('kind, identifier, doi')
+    .eq('colab_id', colabId)
+  if (error) throw new CitationError(error.message, 500)
+
+  const known = new Set<string>()
+  for (const r of data || []) {
+    known.add(`${r.kind}:${r.identifier}`)
+    if (r.doi) known.add(`doi:${r.doi}`)
+  }
+
+  let existing = 0
+  const rows: Record<string, unknown>[] = []
+  for (const { ids, metadata } of entries) {
+    const keys = [ids.pmid && `pmid:${ids.pmid}`, ids.doi && `doi:${ids.doi}`, ids.arxiv && `arxiv:${ids.arxiv}`]
+      .filter(Boolean) as string[]
+    if (keys.some(k => known.has(k))) { existing++; continue }
+    keys.forEach(k => known.add(k))
+
+    const id: PaperIdentifier = ids.pmid ? { kind: 'pmid', identifier: ids.pmid }
+      : ids.doi ? { kind: 'doi', identifier: ids.doi }
+      : { kind: 'arxiv', identifier: ids.arxiv! }
+    rows.push({
+      colab_id: colabId,
+      kind: id.kind,
+      identifier: id.identifier,
+      ...metadata,
+      url: metadata.url || referenceUrl(id),
+      added_by: userId,
+    })
+  }
+
+  let added = 0
+  for (let i = 0; i < rows.length; i += 500) {
+    const { data: inserted, error: insErr } = await supabase
+      .from('colab_references')
+      .upsert(rows.slice(i, i + 500), { onConflict: 'colab_id,kind,identifier', ignoreDuplicates: true })
+      .select('id')
+    if (insErr) throw new CitationError(insErr.message, 500)
+    added += inserted?.length || 0
+  }
+  return { added, existing: existing + rows.length - added, skipped }
+}
+
+export async function getReference(supabase: SupabaseClient, colabId: string, referenceId: string) {
+  const { data, error } = await supabase
+    .from('colab_references')
+    .select('*')
+    .eq('colab_id', colabId)
+    .eq('id', referenceId)
+    .maybeSingle()
+  if (error) throw new CitationError(error.message, 500)
+  if (!data) throw new CitationError('Reference not found', 404)
+  return data as ColabReference
+}
+
+export async function removeReference(supabase: SupabaseClient, colabId: string, referenceId: string) {
+  const { error, count } = await supabase
+    .from('colab_references')
+    .delete({ count: 'exact' })
+    .eq('colab_id', colabId)
+    .eq('id', referenceId)
+  if (error) throw new CitationError(error.message, 500)
+  if (!count) throw new CitationError('Reference not found', 404)
+}
+
+/** Load a note of this colab, checking the caller may edit its citations */
+export async function getCitableNote(supabase: SupabaseClient, colabId: string, noteId: string, userId: string, canWrite: boolean) {
+  const { data: note, error } = await supabase
+    .from('research_notes')
+    .select('id, colab_id, user_id')
+    .eq('id', noteId)
+    .eq('colab_id', colabId)
+    .maybeSingle()
+  if (error) throw new CitationError(error.message, 500)
+  if (!note) throw new CitationError('Note not found', 404)
+  if (note.user_id !== userId && !canWrite) throw new CitationError('Only the note author or colab members can cite on this note', 403)
+  return note as { id: string; colab_id: string; user_id: string }
+}
+
+export async function citeNote(supabase: SupabaseClient, colabId: string, noteId: string, referenceId: string, userId: string) {
+  const { error } = await supabase
+    .from('note_citations')
+    .upsert(
+      { note_id: noteId, reference_id: referenceId, colab_id: colabId, created_by: userId },
+      { onConflict: 'note_id,reference_id', ignoreDuplicates: true }
+    )
+  if (error) throw new CitationError(error.message, 500)
+}
+
+export async function uncite(supabase: SupabaseClient, noteId: string, referenceId: string) {
+  const { error } = await supabase
+    .from('note_citations')
+    .delete()
+    .eq('note_id', noteId)
+    .eq('reference_id', referenceId)
+  if (error) throw new CitationError(error.message, 500)
+}
@@ -0,0 +1,130 @@
+import type { ColabReference } from '../../types/citation-types'
+import { referenceUrl, type PaperIdentifier } from './identifiers'
+import { medlineByPMID, meshDescriptors } from '../literature/medline'
+
+/**
+ * Look up bibliographic metadata for a cited identifier:
+ * PubMed E-utilities for PMIDs, Crossref for DOIs, the arXiv API for arXiv ids.
+ * Returns null when the source has no record of it.
+ */
+
+export type ReferenceMetadata = Pick<ColabReference, 'title' | 'authors' | 'journal' | 'year' | 'doi' | 'url' | 'abstract'>
+  & Partial<Pick<ColabReference, 'mesh_terms' | 'keywords' | 'publication_types'>>
+
+const NCBI_API = process.env.NCBI_API
+const NCBI_EMAIL = process.env.NCBI_EMAIL || ''
+const NCBI_TOOL = process.env.NCBI_TOOL || 'colab-app'
+const MAILTO = process.env.CROSSREF_MAILTO || ''
+
+const TIMEOUT_MS = 8000
+
+async function fetchText(url: string, accept: string) {
+  const res = await fetch(url, { headers: { Accept: accept }, signal: AbortSignal.timeout(TIMEOUT_MS), next: { revalidate: 0 } })
+  const text = await res.text()
+  if (res.status === 404) return null
+  if (!res.ok) throw new Error(`[${res.status}] ${text.slice(0, 300)}`)
+  return text
+}
+
+async function fetchJSON(url: string) {
+  const text = await fetchText(url, 'application/json')
+  if (text === null) return null
+  try { return JSON.parse(text) } catch { throw new Error('Invalid JSON') }
+}
+
+const yearOf = (s?: string | number | null) => {
+  const m = String(s ?? '').match(/\b(19|20)\d{2}\b/)
+  return m ? Number(m[0]) : null
+}
+
+const clean = (s?: string | null) => (s || '').replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim()
+
+/** ---------------- PubMed ---------------- */
+function ncbiUrl(path: string, params: Record<string, string>) {
+  const url = new URL(`https://eutils.ncbi.nlm.nih.gov/entrez/eutils/${path}`)
+  for (const [k, v] of Object.entries(params)) url.searchParams.set(k, v)
+  if (NCBI_API) url.searchParams.set('api_key', NCBI_API)
+  if (NCBI_EMAIL) url.searchParams.set('email', NCBI_EMAIL)
+  if (NCBI_TOOL) url.searchParams.set('tool', NCBI_TOOL)
+  return url.toString()
+}
+
+async function resolvePMID(pmid: string): Promise<ReferenceMetadata | null> {
+  const data = await fetchJSON(ncbiUrl('esummary.fcgi', { db: 'pubmed', retmode: 'json', id: pmid }))
+  const s = data?.result?.[pmid]
+  if (!s || s.error || !s.title) return null
+
+  const medline = await fetchText(ncbiUrl('efetch.fcgi', { db: 'pubmed', rettype: 'medline', retmode: 'text', id: pmid }), 'text/plain')
+    .catch(() => null)
+  const rec = medline ? medlineByPMID(medline)[pmid] : undefined
+  const doi = (Array.isArray(s.articleids) ? s.articleids : [])
+    .find((x: any) => (x?.idtype || '').toLowerCase() === 'doi')?.value
+
+  return {
+    title: clean(s.title),
+    authors: (Array.isArray(s.authors) ? s.authors : []).map((a: any) => a?.name).filter(Boolean),
+    journal: s.fulljournalname || s.source || null,
+    year: yearOf(s.pubdate),
+    doi: doi ? String(doi).toLowerCase() : null,
+    url: referenceUrl({ kind: 'pmid', identifier: pmid }),
+    abstract: rec?.abstract || null,
+    mesh_terms: rec ? meshDescriptors(rec.mesh) : [],
+    keywords: rec?.keywords || [],
+    publication_types: rec?.publicationTypes || [],
+  }
+}
+
+/** ---------------- Crossref ---------------- */
+async function resolveDOI(doi: string): Promise<ReferenceMetadata | null> {
+  const u = new URL(`https://api.crossref.org/works/${encodeURIComponent(doi)}`)
+  if (MAILTO) u.searchParams.set('mailto', MAILTO)
+  const data = await fetchJSON(u.toString())
+  const it = data?.message
+  if (!it) return null
+
+  return {
+    title: clean(Array.isArray(it.title) ? it.title[0] : it.title),
+    authors: (Array.isArray(it.author) ? it.author : [])
+      .map((a: any) => [a?.given, a?.family].filter(Boolean).join(' ') || a?.name)
+      .filter(Boolean),
+    journal: (Array.isArray(it['container-title']) ? it['container-title'][0] : it['container-title']) || null,
+    year: yearOf(it?.issued?.['date-parts']?.[0]?.[0]),
+    doi,
+    url: referenceUrl({ kind: 'doi', identifier: doi }),
+    abstract: clean(it.abstract) || null,
+  }
+}
+
+/** ---------------- arXiv ---------------- */
+async function resolveArxiv(id: string): Promise<ReferenceMetadata | null> {
+  const u = new URL('http://export.arxiv.org/api/query')
+  u.searchParams.set('id_list', id)
+  const atom = await fetchText(u.toString(), 'application/atom+xml')
+  const entry = atom?.split(/<entry>/g)[1]
+  if (!entry) return null
+
+  const tag = (name: string) => clean((entry.match(new RegExp(`<${name}>([\\s\\S]*?)</${name}>`)) || [])[1])
+  const title = tag('title')
+  if (!title || /^error$/i.test(title)) return null
+  const doi = (entry.match(/<arxiv:doi[^>]*>([\s\S]*?)<\/arxiv:doi>/) || [])[1]
+
+  return {
+    title,
+    authors: (entry.match(/<author>[\s\S]*?<\/author>/g) || [])
+      .map(a => clean((a.match(/<name>([\s\S]*?)<\/name>/) || [])[1]))
+      .filter(Boolean),
+    journal: 'arXiv',
+    year: yearOf(tag('published')),
+    doi: doi ? doi.trim().toLowerCase() : null,
+    url: referenceUrl({ kind: 'arxiv', identifier: id }),
+    abstract: tag('summary') || null,
+  }
+}
+
+export async function resolveReference(id: PaperIdentifier): Promise<ReferenceMetadata | null> {
+  switch (id.kind) {
+    case 'pmid': return resolvePMID(id.identifier)
+    case 'doi': return resolveDOI(id.identifier)
+    case 'arxiv': return resolveArxiv(id.identifier)
+  }
+}
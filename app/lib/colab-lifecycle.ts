@@ -0,0 +1,170 @@
+import type { SupabaseClient, User } from '@supabase/supabase-js'
+import type { StorageAdapter } from './files/storage'
+import { notifyUsers } from './notifications'
+
+/**
+ * What an owner can do to a colab as a whole: hand it to another member,
+ * archive it (everything stays readable, nothing can change), and delete it.
+ * Deleting moves it to the trash for RESTORE_WINDOW_DAYS, after which the
+ * purge cron (or the owner, from the trash) removes it for good through the
+ * `purge_colab` function, in one transaction, and then its stored files.
+ * All writes use the service-role client; trashed colabs are hidden by RLS.
+ */
+
+export const RESTORE_WINDOW_DAYS = 30
+const DAY_MS = 86_400_000
+
+export interface TrashedColab {
+  id: string
+  name: string
+  slug: string
+  description: string | null
+  deleted_at: string
+  /** when the purge cron removes it */
+  purge_after: string
+}
+
+export class ColabLifecycleError extends Error {
+  constructor(message: string, public status = 400) { super(message) }
+}
+
+const purgeAfter = (deletedAt: string) => new Date(new Date(deletedAt).getTime() + RESTORE_WINDOW_DAYS * DAY_MS).toISOString()
+
+async function loadOwned(admin: SupabaseClient, colabId: string, userId: string) {
+  const { data, error } = await admin
+    .from('colabs')
+    .select('id, name, slug, description, owner_id, archived_at, deleted_at')
+    .eq('id', colabId)
+    .maybeSingle()
+  if (error) throw new ColabLifecycleError(error.message, 500)
+  if (!data) throw new ColabLifecycleError('Colab not found', 404)
+  if (data.owner_id !== userId) throw new ColabLifecycleError('Only the owner can do this', 403)
+  return data
+}
+
+async function loadLive(admin: SupabaseClient, colabId: string, userId: string) {
+  const colab = await loadOwned(admin, colabId, userId)
+  if (colab.deleted_at) throw new ColabLifecycleError('This colab is in the trash; restore it first', 409)
+  return colab
+}
+
+export async function archiveColab(admin: SupabaseClient, colabId: string, userId: string) {
+  const colab = await loadLive(admin, colabId, userId)
+  if (colab.archived_at) return { archived_at: colab.archived_at as string }
+  const archived_at = new Date().toISOString()
+  const { error } = await admin.from('colabs').update({ archived_at, archived_by: userId }).eq('id', colabId)
+  if (error) throw new ColabLifecycleError(error.message, 500)
+  return { archived_at }
+}
+
+export async function unarchiveColab(admin: SupabaseClient, colabId: string, userId: string) {
+  await loadLive(admin, colabId, userId)
+  const { error } = await admin.from('colabs').update({ archived_at: null, archived_by: null }).eq('id', colabId)
+  if (error) throw new ColabLifecycleError(error.message, 500)
+}
+
+/** Move to the trash → when it will be purged */
+export async function trashColab(admin: SupabaseClient, colabId: string, userId: string) {
+  await loadLive(admin, colabId, userId)
+  const deleted_at = new Date().toISOString()
+  const { error } = await admin.from('colabs').update({ deleted_at, deleted_by: userId }).eq('id', colabId)
+  if (error) throw new ColabLifecycleError(error.message, 500)
+  return { deleted_at, purge_after: purgeAfter(deleted_at) }
+}
+
+/** Take a colab back out of the trash → its slug */
+export async function restoreColab(admin: SupabaseClient, colabId: string, userId: string) {
+  const colab = await loadOwned(admin, colabId, userId)
+  if (!colab.deleted_at) throw new ColabLifecycleError('This colab is not in the trash', 409)
+  if (new Date(purgeAfter(colab.deleted_at)).getTime() <= Date.now()) {
+    throw new ColabLifecycleError('The restore window has passed', 410)
+  }
+  const { error } = await admin.from('colabs').update({ deleted_at: null, deleted_by: null }).eq('id', colabId)
+  if (error) throw new ColabLifecycleError(error.message, 500)
+  return { slug: colab.slug as string }
+}
+
+/** The caller's trashed colabs, most recently deleted first */
+export async function listTrash(admin: SupabaseClient, userId: string): Promise<TrashedColab[]> {
+  const { data, error } = await admin
+    .from('colabs')
+    .select('id, name, slug, description, deleted_at')
+    .eq('owner_id', userId)
+    .not('deleted_at', 'is', null)
+    .order('deleted_at', { ascending: false })
+  if (error) throw new ColabLifecycleError(error.message, 500)
+  return (data || []).map(c => ({ ...c, purge_after: purgeAfter(c.deleted_at) }) as TrashedColab)
+}
+
+/** Remove the rows in one transaction, then the blobs (a failure there only leaves unreachable files) */
+async function purge(admin: SupabaseClient, storage: StorageAdapter, colabId: string) {
+  const { error } = await admin.rpc('purge_colab', { p_colab_id: colabId })
+  if (error) throw new ColabLifecycleError(`Purge failed: ${error.message}`, 500)
+  try {
+    await storage.removeAll(colabId)
+  } catch (e) {
+    console.error('colab file cleanup failed', colabId, e)
+  }
+}
+
+/** Delete forever, from the trash */
+export async function purgeColab(admin: SupabaseClient, storage: StorageAdapter, colabId: string, userId: string) {
+  const colab = await loadOwned(admin, colabId, userId)
+  if (!colab.deleted_at) throw new ColabLifecycleError('Move the colab to the trash first', 409)
+  await purge(admin, storage, colabId)
+}
+
+/** Cron: purge colabs whose restore window has passed → { purged, failed } */
+export async function purgeExpiredColabs(admin: SupabaseClient, storage: StorageAdapter) {
+  const cutoff = new Date(Date.now() - RESTORE_WINDOW_DAYS * DAY_MS).toISOString()
+  const { data, error } = await admin
+    .from('colabs')
+    .select('id')
+    .lte('deleted_at', cutoff)
+    .limit(100)
+  if (error) throw new ColabLifecycleError(error.message, 500)
+
+  let purged = 0
+  let failed = 0
+  for (const { id } of data || []) {
+    try {
+      await purge(admin, storage, id)
+      purged++
+    } catch (e) {
+      console.error('colab purge failed', id, e)
+      failed++
+    }
+  }
+  return { purged, failed }
+}
+
+/** Hand the colab to an accepted member; the previous owner stays on as maintainer */
+export async function transferOwnership(admin: SupabaseClient, colabId: string, owner: User, newOwnerId: unknown) {
+  if (typeof newOwnerId !== 'string' || !newOwnerId) throw new ColabLifecycleError('Provide "userId"')
+  if (newOwnerId === owner.id) throw new ColabLifecycleError('You already own this colab')
+  const colab = await loadLive(admin, colabId, owner.id)
+
+  const { data: member } = await admin
+    .from('colab_members')
+    .select('status')
+    .eq('colab_id', colabId)
+    .eq('user_id', newOwnerId)
+    .maybeSingle()
+  if (member?.status !== 'accepted') throw new ColabLifecycleError('The new owner must be a member of the colab')
+
+  const { error } = await admin.rpc('transfer_colab_ownership', { p_colab_id: colabId, p_from: owner.id, p_to: newOwnerId })
+  if (error) throw new ColabLifecycleError(error.message, 500)
+
+  const { data: profile } = await admin.from('profiles').select('full_name, username').eq('id', owner.id).maybeSingle()
+  try {
+    await notifyUsers(admin, [newOwnerId], colabId, {
+      kind: 'ownership_transferred',
+      title: `You now own ${colab.name}`,
+      body: `${profile?.full_name || profile?.username || 'The previous owner'} transferred the colab to you.`,
+      link: `/colab/${colab.slug}`,
+      data: { from: owner.id },
+    })
+  } catch (e) {
+    console.error('ownership notification failed', e)
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Transactional email over the Resend REST API.
+ * Env: RESEND_API_KEY, EMAIL_FROM (e.g. "Colab <noreply@example.org>").
+ * Without them nothing is sent and callers fall back to sharing links.
+ */
+
+const API = 'https://api.resend.com/emails'
+
+export interface EmailMessage {
+  to: string
+  subject: string
+  text: string
+}
+
+export const emailConfigured = () => !!(process.env.RESEND_API_KEY && process.env.EMAIL_FROM)
+
+/** Send one message; false when email is not configured or the provider refused it */
+export async function sendEmail({ to, subject, text }: EmailMessage): Promise<boolean> {
+  if (!emailConfigured()) return false
+  try {
+    const res = await fetch(API, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${process.env.RESEND_API_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ from: process.env.EMAIL_FROM, to: [to], subject, text }),
+    })
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}))
+      console.error('email send failed', res.status, data?.message)
+      return false
+    }
+    return true
+  } catch (e) {
+    console.error('email send failed', e)
+    return false
+  }
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+import { diffLines, diffStats } from './diff'
+
+const apply = (lines: NonNullable<ReturnType<typeof diffLines>>) => ({
+  before: lines.filter(l => l.op !== 'add').map(l => l.text),
+  after: lines.filter(l => l.op !== 'remove').map(l => l.text),
+})
+
+describe('diffLines', () => {
+  it('returns an empty script for two empty files', () => {
+    expect(diffLines('', '')).toEqual([])
+  })
+
+  it('marks added, removed and unchanged lines with their numbers', () => {
+    const lines = diffLines('a\nb\nc\n', 'a\nc\nd\n')!
+    expect(lines).toEqual([
+      { op: 'equal', text: 'a', oldNo: 1, newNo: 1 },
+      { op: 'remove', text: 'b', oldNo: 2 },
+      { op: 'equal', text: 'c', oldNo: 3, newNo: 2 },
+      { op: 'add', text: 'd', newNo: 3 },
+    ])
+    expect(diffStats(lines)).toEqual({ added: 1, removed: 1 })
+  })
+
+  it('reconstructs both sides', () => {
+    const before = 'one\ntwo\nthree\nfour\nfive'
+    const after = 'zero\ntwo\nthree\n3.5\nfive\nsix'
+    const { before: b, after: a } = apply(diffLines(before, after)!)
+    expect(b).toEqual(before.split('\n'))
+    expect(a).toEqual(after.split('\n'))
+  })
+
+  it('handles one side being empty', () => {
+    expect(diffStats(diffLines('', 'x\ny')!)).toEqual({ added: 2, removed: 0 })
+    expect(diffStats(diffLines('x\ny', '')!)).toEqual({ added: 0, removed: 2 })
+  })
+
+  it('gives up on files that are too far apart', () => {
+    const lines = (prefix: string) => Array.from({ length: 3000 }, (_, i) => `${prefix}${i}`).join('\n')
+    expect(diffLines(lines('a'), lines('b'))).toBeNull()
+  })
+})
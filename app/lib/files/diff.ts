@@ -0,0 +1,85 @@
+export type DiffOp = 'equal' | 'add' | 'remove'
+export interface DiffLine { op: DiffOp; text: string; oldNo?: number; newNo?: number }
+
+const TEXT_EXT = /\.(txt|md|markdown|csv|tsv|json|ya?ml|xml|fasta|fa|fastq|gb|gbk|pdb|sam|vcf|bed|gff3?|gtf|r|py|ipynb|m|sh|tex|bib|ris|log|ini|cfg|toml|html?|css|js|ts)$/i
+const MAX_DIFF_BYTES = 1_000_000
+/** The trace grows with the square of the edit distance; past this, files just "differ" */
+const MAX_EDIT_DISTANCE = 2000
+
+/** Decide whether a stored file can be diffed line-by-line */
+export function isTextFile(name: string, mime?: string | null, size = 0) {
+  if (size > MAX_DIFF_BYTES) return false
+  if (mime && /^text\/|json|xml|csv|yaml|javascript/i.test(mime)) return true
+  return TEXT_EXT.test(name)
+}
+
+const splitLines = (s: string) => {
+  const lines = s.replace(/\r\n/g, '\n').split('\n')
+  if (lines.length && lines[lines.length - 1] === '') lines.pop()
+  return lines
+}
+
+/**
+ * Myers O(ND) line diff → null when the files are more than
+ * MAX_EDIT_DISTANCE edits apart (show them as different instead)
+ */
+export function diffLines(before: string, after: string): DiffLine[] | null {
+  const a = splitLines(before)
+  const b = splitLines(after)
+  const n = a.length
+  const m = b.length
+  const max = n + m
+  const off = max + 1
+  const v: number[] = new Array(2 * max + 4).fill(0)
+  // trace[d] holds v for k in [-d-1, d+1] (index k + d + 1): all the walk back needs
+  const trace: number[][] = []
+
+  let found = false
+  outer: for (let d = 0; d <= Math.min(max, MAX_EDIT_DISTANCE); d++) {
+    trace.push(v.slice(off - d - 1, off + d + 2))
+    for (let k = -d; k <= d; k += 2) {
+      const idx = k + off
+      let x = (k === -d || (k !== d && v[idx - 1] < v[idx + 1])) ? v[idx + 1] : v[idx - 1] + 1
+      let y = x - k
+      while (x < n && y < m && a[x] === b[y]) { x++; y++ }
+      v[idx] = x
+      if (x >= n && y >= m) { found = true; break outer }
+    }
+  }
+  if (!found) return null
+
+  // Walk the trace backwards to recover the edit script
+  const out: DiffLine[] = []
+  let x = n
+  let y = m
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = trace[d]
+    const at = (k: number) => vd[k + d + 1]
+    const k = x - y
+    const prevK = (k === -d || (k !== d && at(k - 1) < at(k + 1))) ? k + 1 : k - 1
+    const prevX = at(prevK)
+    const prevY = prevX - prevK
+    while (x > prevX && y > prevY) {
+      out.push({ op: 'equal', text: a[x - 1], oldNo: x, newNo: y })
+      x--; y--
+    }
+    if (d > 0) {
+      if (x === prevX) out.push({ op: 'add', text: b[y - 1], newNo: y })
+      else out.push({ op: 'remove', text: a[x - 1], oldNo: x })
+    }
+    x = prevX
+    y = prevY
+  }
+  return out.reverse()
+}
+
+/** Counts shown next to a version diff */
+export function diffStats(lines: DiffLine[]) {
+  let added = 0
+  let removed = 0
+  for (const l of lines) {
+    if (l.op === 'add') added++
+    else if (l.op === 'remove') removed++
+  }
+  return { added, removed }
+}
@@ -0,0 +1,85 @@
+import { randomUUID } from 'crypto'
+import { mkdtemp, readdir, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { commitUploads, diffVersions, normalizePath, resolveTree, RepoError } from './repository'
+import { LocalStorageAdapter } from './storage'
+
+/** Just enough of the query builder for the repository, over in-memory tables */
+function fakeSupabase() {
+  const tables: Record<string, any[]> = { lab_commits: [], lab_files: [] }
+  let clock = 0
+  const client = {
+    from(table: string) {
+      let rows = tables[table]
+      const q: any = {
+        select: () => q,
+        eq: (col: string, val: unknown) => { rows = rows.filter(r => r[col] === val); return q },
+        in: (col: string, vals: unknown[]) => { rows = rows.filter(r => vals.includes(r[col])); return q },
+        order: (col: string, { ascending = true } = {}) => {
+          rows = [...rows].sort((a, b) => (a[col] < b[col] ? -1 : 1) * (ascending ? 1 : -1))
+          return q
+        },
+        maybeSingle: async () => ({ data: rows[0] ?? null, error: null }),
+        single: async () => ({ data: rows[0], error: null }),
+        insert: (input: any) => {
+          const list = (Array.isArray(input) ? input : [input]).map(r => ({
+            id: randomUUID(), created_at: new Date(Date.UTC(2026, 0, 1, 0, 0, clock++)).toISOString(), ...r,
+          }))
+          tables[table].push(...list)
+          rows = list
+          return q
+        },
+        then: (resolve: (v: unknown) => void) => resolve({ data: rows, error: null }),
+      }
+      return q
+    },
+  }
+  return client as unknown as SupabaseClient
+}
+
+const file = (p: string, content: string) => ({ path: p, type: 'text/plain', data: new TextEncoder().encode(content) })
+
+describe('file repository on local storage', () => {
+  let root: string
+  let storage: LocalStorageAdapter
+  let supabase: SupabaseClient
+  const labId = randomUUID()
+  const userId = randomUUID()
+
+  beforeEach(async () => {
+    root = await mkdtemp(path.join(tmpdir(), 'colab-repo-'))
+    storage = new LocalStorageAdapter(root)
+    supabase = fakeSupabase()
+  })
+  afterEach(() => rm(root, { recursive: true, force: true }))
+
+  it('stores identical content once and resolves the latest tree', async () => {
+    await commitUploads(supabase, storage, { labId, userId, message: 'Add data', files: [file('data/a.csv', 'x,y\n1,2\n'), file('notes.md', '# Notes\n')] })
+    await commitUploads(supabase, storage, { labId, userId, message: 'Copy and delete', files: [file('data/b.csv', 'x,y\n1,2\n')], deletions: ['notes.md'] })
+
+    const tree = await resolveTree(supabase, labId)
+    expect(tree.map(f => f.path)).toEqual(['data/a.csv', 'data/b.csv'])
+    expect(tree[0].storage_key).toBe(tree[1].storage_key)
+    expect(await readdir(path.join(root, labId))).toHaveLength(2)
+  })
+
+  it('diffs two versions of a file', async () => {
+    await commitUploads(supabase, storage, { labId, userId, message: 'v1', files: [file('r.py', 'a = 1\nprint(a)\n')] })
+    const [v1] = await resolveTree(supabase, labId)
+    await commitUploads(supabase, storage, { labId, userId, message: 'v2', files: [file('r.py', 'a = 2\nprint(a)\n')] })
+    const [v2] = await resolveTree(supabase, labId)
+
+    const diff = await diffVersions(supabase, storage, labId, v2.id, v1.id)
+    expect(diff.text).toBe(true)
+    expect(diff.stats).toEqual({ added: 1, removed: 1 })
+  })
+
+  it('refuses empty commits and unsafe paths', async () => {
+    await expect(commitUploads(supabase, storage, { labId, userId, message: 'nothing', files: [] })).rejects.toBeInstanceOf(RepoError)
+    expect(() => normalizePath('../secrets')).toThrow(RepoError)
+    expect(normalizePath('\\data//x.csv')).toBe('data/x.csv')
+  })
+})
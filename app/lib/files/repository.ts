@@ -0,0 +1,247 @@
+import { createHash } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { LabCommit, LabFile } from '../../types/lab-types'
+import type { StorageAdapter } from './storage'
+import { createAdminSupabase } from '../supabase-admin'
+import { diffLines, diffStats, isTextFile, type DiffLine } from './diff'
+
+/**
+ * Versioned file repository for a colab.
+ * Every upload/restore writes a `lab_commits` row chained through
+ * `previous_commit_id`; `lab_files` rows are the file versions touched by
+ * that commit (a `deleted` row removes the path from the tree). A commit can
+ * have only one child (unique index), so history stays a single line: when
+ * two commits race for the same parent, the loser re-reads HEAD and retries.
+ */
+
+export interface UploadInput { path: string; type: string; data: Uint8Array }
+export interface TreeEntry extends LabFile { commit: Pick<LabCommit, 'id' | 'message' | 'created_at'> }
+export interface FileDiff {
+  from: LabFile | null
+  to: LabFile
+  text: boolean
+  lines: DiffLine[]
+  stats: { added: number; removed: number }
+}
+
+export class RepoError extends Error {
+  constructor(message: string, public status = 400) { super(message) }
+}
+
+/** Normalize user supplied paths: forward slashes, no leading slash, no `..` */
+export function normalizePath(p: string) {
+  const parts = p.replace(/\\/g, '/').split('/').map(s => s.trim()).filter(Boolean)
+  if (!parts.length || parts.some(s => s === '.' || s === '..')) throw new RepoError(`Invalid file path: ${p}`)
+  return parts.join('/')
+}
+
+const sha256 = (data: Uint8Array) => createHash('sha256').update(data).digest('hex')
+const COMMIT_ATTEMPTS = 5
+
+/** ---------------- Commits ---------------- */
+export async function listCommits(supabase: SupabaseClient, labId: string): Promise<LabCommit[]> {
+  const { data, error } = await supabase
+    .from('lab_commits')
+    .select('*')
+    .eq('lab_id', labId)
+    .order('created_at', { ascending: false })
+  if (error) throw new RepoError(error.message, 500)
+  return (data || []) as LabCommit[]
+}
+
+/** The commit nothing builds on */
+function headOf(commits: LabCommit[]) {
+  const parents = new Set(commits.map(c => c.previous_commit_id))
+  return commits.find(c => !parents.has(c.id)) || commits[0]
+}
+
+/** Chain of commit ids from `commitId` back to the root, newest first */
+function ancestry(commits: LabCommit[], commitId: string) {
+  const byId = new Map(commits.map(c => [c.id, c]))
+  const chain: string[] = []
+  let cur = byId.get(commitId)
+  while (cur && !chain.includes(cur.id)) {
+    chain.push(cur.id)
+    cur = cur.previous_commit_id ? byId.get(cur.previous_commit_id) : undefined
+  }
+  return chain
+}
+
+/** Files visible at a commit (defaults to HEAD) */
+export async function resolveTree(supabase: SupabaseClient, labId: string, commitId?: string | null): Promise<TreeEntry[]> {
+  const commits = await listCommits(supabase, labId)
+  if (!commits.length) return []
+  const target = commitId || headOf(commits).id
+  const chain = ancestry(commits, target)
+  if (!chain.length) throw new RepoError('Commit not found', 404)
+
+  const { data, error } = await supabase
+    .from('lab_files')
+    .select('*')
+    .eq('lab_id', labId)
+    .in('commit_id', chain)
+  if (error) throw new RepoError(error.message, 500)
+
+  // nearest commit in the chain wins for each path
+  const rank = new Map(chain.map((id, i) => [id, i]))
+  const latest = new Map<string, LabFile>()
+  for (const f of (data || []) as LabFile[]) {
+    const prev = latest.get(f.path)
+    if (!prev || rank.get(f.commit_id)! < rank.get(prev.commit_id)!) latest.set(f.path, f)
+  }
+
+  const commitById = new Map(commits.map(c => [c.id, c]))
+  return Array.from(latest.values())
+    .filter(f => !f.deleted)
+    .map(f => {
+      const c = commitById.get(f.commit_id)!
+      return { ...f, commit: { id: c.id, message: c.message, created_at: c.created_at } }
+    })
+    .sort((a, b) => a.path.localeCompare(b.path))
+}
+
+async function insertCommit(supabase: SupabaseClient, labId: string, userId: string, message: string) {
+  for (let attempt = 1; ; attempt++) {
+    const commits = await listCommits(supabase, labId)
+    const { data, error } = await supabase
+      .from('lab_commits')
+      .insert({ lab_id: labId, user_id: userId, message, previous_commit_id: commits.length ? headOf(commits).id : null })
+      .select('*')
+      .single()
+    // another commit took this parent first: build on top of it instead
+    if (error?.code === '23505' && attempt < COMMIT_ATTEMPTS) continue
+    if (error?.code === '23505') throw new RepoError('The files changed while committing; try again', 409)
+    if (error || !data) throw new RepoError(error?.message || 'Failed to create commit', 500)
+    return data as LabCommit
+  }
+}
+
+/** Roll back a commit whose file rows failed to insert; clients cannot delete commits */
+async function discardCommit(commitId: string) {
+  const { error } = await createAdminSupabase().from('lab_commits').delete().eq('id', commitId)
+  if (error) console.error('commit rollback failed', commitId, error)
+}
+
+/** Upload one or more files as a single commit */
+export async function commitUploads(
+  supabase: SupabaseClient,
+  storage: StorageAdapter,
+  { labId, userId, message, files, deletions = [] }:
+  { labId: string; userId: string; message: string; files: UploadInput[]; deletions?: string[] }
+) {
+  if (!message.trim()) throw new RepoError('Commit message is required')
+  if (!files.length && !deletions.length) throw new RepoError('Nothing to commit')
+
+  // write blobs first so a failed upload never leaves a dangling commit
+  const prepared = []
+  for (const f of files) {
+    const filePath = normalizePath(f.path)
+    const key = `${labId}/${sha256(f.data)}`
+    if (!(await storage.exists(key))) await storage.put(key, f.data, f.type || 'application/octet-stream')
+    prepared.push({ path: filePath, key, type: f.type || 'application/octet-stream', size: f.data.byteLength })
+  }
+
+  const commit = await insertCommit(supabase, labId, userId, message.trim())
+  const rows = [
+    ...prepared.map(p => ({
+      lab_id: labId, commit_id: commit.id, uploaded_by: userId,
+      name: p.path.split('/').pop()!, path: p.path, size: p.size, type: p.type,
+      storage_key: p.key, deleted: false,
+    })),
+    ...deletions.map(d => normalizePath(d)).map(p => ({
+      lab_id: labId, commit_id: commit.id, uploaded_by: userId,
+      name: p.split('/').pop()!, path: p, size: 0, type: '', storage_key: '', deleted: true,
+    })),
+  ]
+  const { error } = await supabase.from('lab_files').insert(rows)
+  if (error) {
+    await discardCommit(commit.id)
+    throw new RepoError(error.message, 500)
+  }
+  return commit
+}
+
+/** Create a new commit whose tree equals the tree at `commitId` */
+export async function restoreCommit(supabase: SupabaseClient, labId: string, userId: string, commitId: string) {
+  const [target, head] = await Promise.all([
+    resolveTree(supabase, labId, commitId),
+    resolveTree(supabase, labId),
+  ])
+  const targetByPath = new Map(target.map(f => [f.path, f]))
+  const headByPath = new Map(head.map(f => [f.path, f]))
+
+  const changed = target.filter(f => headByPath.get(f.path)?.storage_key !== f.storage_key)
+  const removed = head.filter(f => !targetByPath.has(f.path))
+  if (!changed.length && !removed.length) throw new RepoError('Files already match that commit', 409)
+
+  const commit = await insertCommit(supabase, labId, userId, `Restore files to ${commitId.slice(0, 7)}`)
+  const rows = [
+    ...changed.map(f => ({
+      lab_id: labId, commit_id: commit.id, uploaded_by: userId,
+      name: f.name, path: f.path, size: f.size, type: f.type, storage_key: f.storage_key, deleted: false,
+    })),
+    ...removed.map(f => ({
+      lab_id: labId, commit_id: commit.id, uploaded_by: userId,
+      name: f.name, path: f.path, size: 0, type: '', storage_key: '', deleted: true,
+    })),
+  ]
+  const { error } = await supabase.from('lab_files').insert(rows)
+  if (error) {
+    await discardCommit(commit.id)
+    throw new RepoError(error.message, 500)
+  }
+  return commit
+}
+
+/** Every version of a path, newest first */
+export async function fileHistory(supabase: SupabaseClient, labId: string, filePath: string): Promise<TreeEntry[]> {
+  const [commits, { data, error }] = await Promise.all([
+    listCommits(supabase, labId),
+    supabase.from('lab_files').select('*').eq('lab_id', labId).eq('path', normalizePath(filePath)),
+  ])
+  if (error) throw new RepoError(error.message, 500)
+  const commitById = new Map(commits.map(c => [c.id, c]))
+  return ((data || []) as LabFile[])
+    .filter(f => commitById.has(f.commit_id))
+    .map(f => {
+      const c = commitById.get(f.commit_id)!
+      return { ...f, commit: { id: c.id, message: c.message, created_at: c.created_at } }
+    })
+    .sort((a, b) => b.commit.created_at.localeCompare(a.commit.created_at))
+}
+
+export async function getFileVersion(supabase: SupabaseClient, labId: string, fileId: string): Promise<LabFile> {
+  const { data, error } = await supabase
+    .from('lab_files')
+    .select('*')
+    .eq('lab_id', labId)
+    .eq('id', fileId)
+    .maybeSingle()
+  if (error) throw new RepoError(error.message, 500)
+  if (!data || data.deleted) throw new RepoError('File version not found', 404)
+  return data as LabFile
+}
+
+/** Line diff between two versions; `fromId` omitted means "vs. empty file" */
+export async function diffVersions(
+  supabase: SupabaseClient,
+  storage: StorageAdapter,
+  labId: string,
+  toId: string,
+  fromId?: string | null
+): Promise<FileDiff> {
+  const to = await getFileVersion(supabase, labId, toId)
+  const from = fromId ? await getFileVersion(supabase, labId, fromId) : null
+  const text = isTextFile(to.name, to.type, to.size) && (!from || isTextFile(from.name, from.type, from.size))
+  if (!text) return { from, to, text: false, lines: [], stats: { added: 0, removed: 0 } }
+
+  const decoder = new TextDecoder()
+  const [before, after] = await Promise.all([
+    from ? storage.get(from.storage_key).then(b => decoder.decode(b)) : Promise.resolve(''),
+    storage.get(to.storage_key).then(b => decoder.decode(b)),
+  ])
+  const lines = diffLines(before, after)
+  // too many changes to diff line by line: only report that the files differ
+  if (!lines) return { from, to, text: false, lines: [], stats: { added: 0, removed: 0 } }
+  return { from, to, text: true, lines, stats: diffStats(lines) }
+}
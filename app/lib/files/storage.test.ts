@@ -0,0 +1,44 @@
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { LocalStorageAdapter, type StorageAdapter } from './storage'
+
+const bytes = (s: string) => new TextEncoder().encode(s)
+const text = (b: Uint8Array) => new TextDecoder().decode(b)
+
+describe('LocalStorageAdapter', () => {
+  let root: string
+  let storage: StorageAdapter
+
+  beforeEach(async () => {
+    root = await mkdtemp(path.join(tmpdir(), 'colab-files-'))
+    storage = new LocalStorageAdapter(root)
+  })
+  afterEach(() => rm(root, { recursive: true, force: true }))
+
+  it('stores and reads blobs by key', async () => {
+    expect(await storage.exists('lab/abc')).toBe(false)
+    await storage.put('lab/abc', bytes('hello'), 'text/plain')
+    expect(await storage.exists('lab/abc')).toBe(true)
+    expect(text(await storage.get('lab/abc'))).toBe('hello')
+  })
+
+  it('never overwrites an existing blob', async () => {
+    await storage.put('lab/abc', bytes('original'), 'text/plain')
+    await storage.put('lab/abc', bytes('replacement'), 'text/plain')
+    expect(text(await storage.get('lab/abc'))).toBe('original')
+  })
+
+  it('removes everything under a prefix only', async () => {
+    await storage.put('lab-a/1', bytes('a'), 'text/plain')
+    await storage.put('lab-b/1', bytes('b'), 'text/plain')
+    await storage.removeAll('lab-a')
+    expect(await storage.exists('lab-a/1')).toBe(false)
+    expect(await storage.exists('lab-b/1')).toBe(true)
+  })
+
+  it('rejects keys outside its root', async () => {
+    await expect(storage.put('../escape', bytes('x'), 'text/plain')).rejects.toThrow('Invalid storage key')
+  })
+})
@@ -0,0 +1,99 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+/**
+ * Blob storage behind the colab file repository.
+ * Keys are content-addressed (`<labId>/<sha256>`), so identical uploads
+ * and restored versions share one stored object.
+ */
+export interface StorageAdapter {
+  put(key: string, data: Uint8Array, contentType: string): Promise<void>
+  get(key: string): Promise<Uint8Array>
+  exists(key: string): Promise<boolean>
+  /** Delete every blob under `<prefix>/` (a purged colab's files) */
+  removeAll(prefix: string): Promise<void>
+}
+
+const BUCKET = process.env.FILE_STORAGE_BUCKET || 'colab-files'
+
+const isAlreadyExists = (error: Error & { statusCode?: string }) =>
+  error.statusCode === '409' || /already exists/i.test(error.message)
+
+/** ---------------- Supabase Storage ---------------- */
+export class SupabaseStorageAdapter implements StorageAdapter {
+  constructor(private supabase: SupabaseClient, private bucket = BUCKET) {}
+
+  /** Never overwrites: an existing object under the same hash already holds these bytes */
+  async put(key: string, data: Uint8Array, contentType: string) {
+    const { error } = await this.supabase.storage
+      .from(this.bucket)
+      .upload(key, data, { contentType, upsert: false })
+    if (error && !isAlreadyExists(error)) throw new Error(`Storage upload failed: ${error.message}`)
+  }
+
+  async get(key: string) {
+    const { data, error } = await this.supabase.storage.from(this.bucket).download(key)
+    if (error || !data) throw new Error(`Storage download failed: ${error?.message || key}`)
+    return new Uint8Array(await data.arrayBuffer())
+  }
+
+  async exists(key: string) {
+    const dir = path.posix.dirname(key)
+    const { data } = await this.supabase.storage
+      .from(this.bucket)
+      .list(dir, { search: path.posix.basename(key), limit: 1 })
+    return !!data?.length
+  }
+
+  async removeAll(prefix: string) {
+    for (;;) {
+      const { data, error } = await this.supabase.storage.from(this.bucket).list(prefix, { limit: 1000 })
+      if (error) throw new Error(`Storage list failed: ${error.message}`)
+      if (!data?.length) return
+      const { error: rmError } = await this.supabase.storage.from(this.bucket).remove(data.map(o => `${prefix}/${o.name}`))
+      if (rmError) throw new Error(`Storage delete failed: ${rmError.message}`)
+    }
+  }
+}
+
+/** ---------------- Local filesystem (dev + tests) ---------------- */
+export class LocalStorageAdapter implements StorageAdapter {
+  constructor(private root: string) {}
+
+  private resolve(key: string) {
+    const full = path.resolve(this.root, key)
+    if (!full.startsWith(path.resolve(this.root) + path.sep)) throw new Error(`Invalid storage key: ${key}`)
+    return full
+  }
+
+  async put(key: string, data: Uint8Array) {
+    const full = this.resolve(key)
+    await fs.mkdir(path.dirname(full), { recursive: true })
+    try {
+      await fs.writeFile(full, data, { flag: 'wx' })
+    } catch (e: any) {
+      if (e?.code !== 'EEXIST') throw e
+    }
+  }
+
+  async get(key: string) {
+    return new Uint8Array(await fs.readFile(this.resolve(key)))
+  }
+
+  async exists(key: string) {
+    try { await fs.access(this.resolve(key)); return true } catch { return false }
+  }
+
+  async removeAll(prefix: string) {
+    await fs.rm(this.resolve(prefix), { recursive: true, force: true })
+  }
+}
+
+/** FILE_STORAGE_DRIVER=local keeps blobs under FILE_STORAGE_DIR instead of Supabase Storage */
+export function getStorageAdapter(supabase: SupabaseClient): StorageAdapter {
+  if (process.env.FILE_STORAGE_DRIVER === 'local') {
+    return new LocalStorageAdapter(process.env.FILE_STORAGE_DIR || path.join(process.cwd(), '.data', 'files'))
+  }
+  return new SupabaseStorageAdapter(supabase)
+}
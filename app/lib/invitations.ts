@@ -0,0 +1,243 @@
+import { createHash, randomBytes } from 'crypto'
+import type { SupabaseClient, User } from '@supabase/supabase-js'
+import type { LabMember } from '../types/lab-types'
+import { sendEmail } from './email'
+import { notifyUsers } from './notifications'
+
+/**
+ * Invitations into a colab, the way into private ones. Owners and
+ * moderators mint a single-use token carrying a preset role, either sent to
+ * an email address or handed out as a link; both expire. Only the token's
+ * sha256 is stored, so the link is shown once, at creation. Accepting turns
+ * the token into an accepted `colab_members` row; signing up through
+ * /api/auth/callback?invite=<token> accepts on the way in.
+ */
+
+export type InviteRole = Exclude<LabMember['role'], 'owner'>
+export const INVITE_ROLES: InviteRole[] = ['maintainer', 'contributor', 'viewer']
+export type InvitationStatus = 'pending' | 'accepted' | 'expired' | 'revoked'
+
+export interface Invitation {
+  id: string
+  colab_id: string
+  email: string | null
+  role: InviteRole
+  emailed: boolean
+  invited_by: string | null
+  expires_at: string
+  accepted_by: string | null
+  accepted_at: string | null
+  revoked_at: string | null
+  created_at: string
+  status: InvitationStatus
+}
+
+/** What the invite page shows to whoever holds the token */
+export interface InvitationPreview {
+  colab: { id: string; name: string; slug: string; description: string | null }
+  role: InviteRole
+  email: string | null
+  inviter: string | null
+  expires_at: string
+  status: InvitationStatus
+}
+
+export class InvitationError extends Error {
+  constructor(message: string, public status = 400) { super(message) }
+}
+
+export const DEFAULT_EXPIRY_DAYS = 7
+export const MAX_EXPIRY_DAYS = 30
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const FIELDS = 'id, colab_id, email, role, emailed, invited_by, expires_at, accepted_by, accepted_at, revoked_at, created_at'
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex')
+
+export const invitePath = (token: string) => `/invite/${encodeURIComponent(token)}`
+
+function statusOf(row: { accepted_at: string | null; revoked_at: string | null; expires_at: string }): InvitationStatus {
+  if (row.accepted_at) return 'accepted'
+  if (row.revoked_at) return 'revoked'
+  return new Date(row.expires_at).getTime() <= Date.now() ? 'expired' : 'pending'
+}
+
+const withStatus = (row: any): Invitation => ({ ...row, status: statusOf(row) })
+
+export async function listInvitations(admin: SupabaseClient, colabId: string): Promise<Invitation[]> {
+  const { data, error } = await admin
+    .from('colab_invitations')
+    .select(FIELDS)
+    .eq('colab_id', colabId)
+    .order('created_at', { ascending: false })
+    .limit(200)
+  if (error) throw new InvitationError(error.message, 500)
+  return (data || []).map(withStatus)
+}
+
+/**
+ * Mint an invitation. With an email the link is mailed (when email is
+ * configured); either way the link is returned once so it can be shared.
+ */
+export async function createInvitation(
+  admin: SupabaseClient,
+  colabId: string,
+  inviter: User,
+  input: { email?: unknown; role?: unknown; expiresInDays?: unknown },
+  origin: string
+): Promise<{ invitation: Invitation; link: string }> {
+  const email = typeof input.email === 'string' && input.email.trim() ? input.email.trim().toLowerCase() : null
+  if (email && !EMAIL_RE.test(email)) throw new InvitationError('Provide a valid email')
+  if (!INVITE_ROLES.includes(input.role as InviteRole)) throw new InvitationError(`"role" must be one of ${INVITE_ROLES.join(', ')}`)
+  const role = input.role as InviteRole
+  const days = input.expiresInDays == null ? DEFAULT_EXPIRY_DAYS : Number(input.expiresInDays)
+  if (!Number.isFinite(days) || days <= 0 || days > MAX_EXPIRY_DAYS) {
+    throw new InvitationError(`"expiresInDays" must be between 1 and ${MAX_EXPIRY_DAYS}`)
+  }
+
+  const { data: colab } = await admin.from('colabs').select('name').eq('id', colabId).maybeSingle()
+  if (!colab) throw new InvitationError('Colab not found', 404)
+
+  const token = randomBytes(24).toString('base64url')
+  const link = `${origin}${invitePath(token)}`
+  const expires_at = new Date(Date.now() + days * 86_400_000).toISOString()
+
+  const { data, error } = await admin
+    .from('colab_invitations')
+    .insert({ colab_id: colabId, token_hash: hashToken(token), email, role, invited_by: inviter.id, expires_at })
+    .select(FIELDS)
+    .single()
+  if (error) throw new InvitationError(error.message, 500)
+
+  if (email) {
+    const { data: profile } = await admin.from('profiles').select('full_name, username').eq('id', inviter.id).maybeSingle()
+    const who = profile?.full_name || profile?.username || inviter.email || 'A colleague'
+    const emailed = await sendEmail({
+      to: email,
+      subject: `${who} invited you to ${colab.name}`,
+      text: [
+        `${who} invited you to join the colab "${colab.name}" as ${role}.`,
+        `Accept the invitation here (valid until ${new Date(expires_at).toUTCString()}):`,
+        link,
+        `If you do not have an account yet, you can create one from that page.`,
+      ].join('\n\n'),
+    })
+    if (emailed) {
+      await admin.from('colab_invitations').update({ emailed: true }).eq('id', data.id)
+      data.emailed = true
+    }
+  }
+  return { invitation: withStatus(data), link }
+}
+
+export async function revokeInvitation(admin: SupabaseClient, colabId: string, invitationId: string, userId: string) {
+  const { data, error } = await admin
+    .from('colab_invitations')
+    .update({ revoked_at: new Date().toISOString(), revoked_by: userId })
+    .eq('colab_id', colabId)
+    .eq('id', invitationId)
+    .is('accepted_at', null)
+    .is('revoked_at', null)
+    .select(FIELDS)
+    .maybeSingle()
+  if (error) throw new InvitationError(error.message, 500)
+  if (!data) throw new InvitationError('No open invitation with that id', 404)
+  return withStatus(data)
+}
+
+async function findByToken(admin: SupabaseClient, token: string) {
+  if (!token || token.length > 100) throw new InvitationError('Invitation not found', 404)
+  const { data, error } = await admin
+    .from('colab_invitations')
+    .select(FIELDS)
+    .eq('token_hash', hashToken(token))
+    .maybeSingle()
+  if (error) throw new InvitationError(error.message, 500)
+  if (!data) throw new InvitationError('Invitation not found', 404)
+  return withStatus(data)
+}
+
+export async function previewInvitation(admin: SupabaseClient, token: string): Promise<InvitationPreview> {
+  const invite = await findByToken(admin, token)
+  const [{ data: colab }, { data: inviter }] = await Promise.all([
+    admin.from('colabs').select('id, name, slug, description').eq('id', invite.colab_id).maybeSingle(),
+    invite.invited_by
+      ? admin.from('profiles').select('full_name, username').eq('id', invite.invited_by).maybeSingle()
+      : Promise.resolve({ data: null }),
+  ])
+  if (!colab) throw new InvitationError('Invitation not found', 404)
+  return {
+    colab,
+    role: invite.role,
+    email: invite.email,
+    inviter: inviter?.full_name || inviter?.username || null,
+    expires_at: invite.expires_at,
+    status: invite.status,
+  }
+}
+
+/** Accept for the signed-in user → the colab's slug to land on */
+export async function acceptInvitation(admin: SupabaseClient, token: string, user: User): Promise<{ slug: string }> {
+  const invite = await findByToken(admin, token)
+  const { data: colab } = await admin.from('colabs').select('id, slug, name, owner_id').eq('id', invite.colab_id).maybeSingle()
+  if (!colab) throw new InvitationError('Invitation not found', 404)
+
+  if (invite.status === 'accepted') {
+    if (invite.accepted_by === user.id) return { slug: colab.slug }
+    throw new InvitationError('This invitation has already been used', 409)
+  }
+  if (invite.status === 'revoked') throw new InvitationError('This invitation was revoked', 410)
+  if (invite.status === 'expired') throw new InvitationError('This invitation has expired; ask for a new one', 410)
+  if (invite.email && invite.email !== (user.email || '').toLowerCase()) {
+    throw new InvitationError(`This invitation is for ${invite.email}; sign in with that address`, 403)
+  }
+  if (colab.owner_id === user.id) throw new InvitationError('You own this colab', 409)
+
+  // claim the token first so two accepts cannot both use it
+  const { data: claimed, error: claimErr } = await admin
+    .from('colab_invitations')
+    .update({ accepted_by: user.id, accepted_at: new Date().toISOString() })
+    .eq('id', invite.id)
+    .is('accepted_at', null)
+    .is('revoked_at', null)
+    .select('id')
+    .maybeSingle()
+  if (claimErr) throw new InvitationError(claimErr.message, 500)
+  if (!claimed) throw new InvitationError('This invitation has already been used', 409)
+
+  // an existing membership keeps its role; anyone else joins with the preset one
+  const { data: existing } = await admin
+    .from('colab_members')
+    .select('status')
+    .eq('colab_id', colab.id)
+    .eq('user_id', user.id)
+    .maybeSingle()
+  if (existing?.status !== 'accepted') {
+    const { error } = await admin
+      .from('colab_members')
+      .upsert({
+        colab_id: colab.id,
+        user_id: user.id,
+        role: invite.role,
+        status: 'accepted',
+        decided_by: invite.invited_by,
+        decided_at: new Date().toISOString(),
+      }, { onConflict: 'colab_id,user_id' })
+    if (error) throw new InvitationError(error.message, 500)
+  }
+
+  if (invite.invited_by) {
+    const { data: profile } = await admin.from('profiles').select('full_name, username').eq('id', user.id).maybeSingle()
+    try {
+      await notifyUsers(admin, [invite.invited_by], colab.id, {
+        kind: 'invite_accepted',
+        title: `${profile?.full_name || profile?.username || user.email || 'Someone'} joined ${colab.name}`,
+        body: `Accepted your invitation as ${invite.role}.`,
+        link: `/colab/${colab.slug}`,
+        data: { invitation_id: invite.id },
+      })
+    } catch (e) {
+      console.error('invitation notification failed', e)
+    }
+  }
+  return { slug: colab.slug }
+}
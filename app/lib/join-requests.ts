@@ -0,0 +1,190 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { ColabAccess } from './supabase-server'
+import { notifyUsers } from './notifications'
+import { can, memberRole } from './permissions'
+
+/**
+ * Asking to join a colab. A request is the applicant's `colab_members` row
+ * with status 'pending' (role 'member'); members with `members.manage`
+ * accept or decline it with an optional message, and the applicant is notified either
+ * way. Only public colabs with `allow_join_requests` take requests; a
+ * declined applicant may ask again. All writes use the service-role client.
+ */
+
+export type MembershipStatus = 'pending' | 'accepted' | 'declined'
+
+export interface JoinRequest {
+  colab_id: string
+  user_id: string
+  status: MembershipStatus
+  request_message: string | null
+  requested_at: string | null
+  decision_message: string | null
+  decided_at: string | null
+  profile: { id: string; username: string; full_name: string | null; avatar_url: string | null } | null
+}
+
+export class JoinRequestError extends Error {
+  constructor(message: string, public status = 400) { super(message) }
+}
+
+const MAX_MESSAGE = 500
+const REQUEST_FIELDS = 'colab_id, user_id, status, request_message, requested_at, decision_message, decided_at'
+
+/** Whoever holds `members.manage` handles the queue and invitations */
+export const canModerate = (access: ColabAccess) => access.permissions.includes('members.manage')
+
+const cleanMessage = (m: unknown) => (typeof m === 'string' && m.trim() ? m.trim().slice(0, MAX_MESSAGE) : null)
+
+async function loadColab(admin: SupabaseClient, colabId: string) {
+  const { data, error } = await admin
+    .from('colabs')
+    .select('id, name, slug, owner_id, is_public, allow_join_requests, permission_overrides, archived_at')
+    .eq('id', colabId)
+    .maybeSingle()
+  if (error) throw new JoinRequestError(error.message, 500)
+  if (!data) throw new JoinRequestError('Colab not found', 404)
+  return data
+}
+
+/** Owner plus accepted members whose role may manage members */
+async function moderatorIds(admin: SupabaseClient, colab: { id: string; owner_id: string; permission_overrides: unknown }) {
+  const { data } = await admin
+    .from('colab_members')
+    .select('user_id, role')
+    .eq('colab_id', colab.id)
+    .eq('status', 'accepted')
+  const managers = (data || []).filter(m => can(memberRole(m.role), 'members.manage', colab.permission_overrides))
+  return Array.from(new Set([colab.owner_id, ...managers.map(m => m.user_id as string)]))
+}
+
+/** The caller's own membership row, if any */
+export async function getOwnRequest(admin: SupabaseClient, colabId: string, userId: string): Promise<JoinRequest | null> {
+  const { data, error } = await admin
+    .from('colab_members')
+    .select(REQUEST_FIELDS)
+    .eq('colab_id', colabId)
+    .eq('user_id', userId)
+    .maybeSingle()
+  if (error) throw new JoinRequestError(error.message, 500)
+  return data ? ({ ...data, profile: null } as JoinRequest) : null
+}
+
+export async function requestToJoin(admin: SupabaseClient, colabId: string, userId: string, message: unknown): Promise<JoinRequest> {
+  const colab = await loadColab(admin, colabId)
+  if (colab.owner_id === userId) throw new JoinRequestError('You own this colab', 409)
+  if (!colab.is_public) throw new JoinRequestError('This colab is private; ask an owner for an invitation', 403)
+  if (colab.allow_join_requests === false || colab.archived_at) throw new JoinRequestError('This colab is not accepting join requests', 403)
+
+  const existing = await getOwnRequest(admin, colabId, userId)
+  if (existing?.status === 'accepted') throw new JoinRequestError('You are already a member', 409)
+  if (existing?.status === 'pending') throw new JoinRequestError('Your request is already waiting for review', 409)
+
+  const { data, error } = await admin
+    .from('colab_members')
+    .upsert({
+      colab_id: colabId,
+      user_id: userId,
+      role: 'member',
+      status: 'pending',
+      request_message: cleanMessage(message),
+      requested_at: new Date().toISOString(),
+      decision_message: null,
+      decided_by: null,
+      decided_at: null,
+    }, { onConflict: 'colab_id,user_id' })
+    .select(REQUEST_FIELDS)
+    .single()
+  if (error) throw new JoinRequestError(error.message, 500)
+
+  const { data: applicant } = await admin.from('profiles').select('full_name, username').eq('id', userId).maybeSingle()
+  const who = applicant?.full_name || applicant?.username || 'Someone'
+  try {
+    await notifyUsers(admin, await moderatorIds(admin, colab), colabId, {
+      kind: 'join_request',
+      title: `${who} asked to join ${colab.name}`,
+      body: cleanMessage(message) || '',
+      link: `/colab/${colab.slug}`,
+      data: { user_id: userId },
+    })
+  } catch (e) {
+    console.error('join request notification failed', e)
+  }
+  return { ...data, profile: null } as JoinRequest
+}
+
+/** Withdraw one's own pending request */
+export async function withdrawRequest(admin: SupabaseClient, colabId: string, userId: string) {
+  const { data, error } = await admin
+    .from('colab_members')
+    .delete()
+    .eq('colab_id', colabId)
+    .eq('user_id', userId)
+    .eq('status', 'pending')
+    .select('user_id')
+  if (error) throw new JoinRequestError(error.message, 500)
+  if (!data?.length) throw new JoinRequestError('No pending request to withdraw', 404)
+}
+
+/** Pending requests, oldest first, with the applicants' profiles */
+export async function listPendingRequests(admin: SupabaseClient, colabId: string): Promise<JoinRequest[]> {
+  const { data, error } = await admin
+    .from('colab_members')
+    .select(REQUEST_FIELDS)
+    .eq('colab_id', colabId)
+    .eq('status', 'pending')
+    .order('requested_at', { ascending: true })
+  if (error) throw new JoinRequestError(error.message, 500)
+  const rows = data || []
+  if (!rows.length) return []
+
+  const { data: profiles } = await admin
+    .from('profiles')
+    .select('id, username, full_name, avatar_url')
+    .in('id', rows.map(r => r.user_id))
+  const byId = new Map((profiles || []).map(p => [p.id as string, p]))
+  return rows.map(r => ({ ...r, profile: byId.get(r.user_id) || null }) as JoinRequest)
+}
+
+export async function decideRequest(
+  admin: SupabaseClient,
+  colabId: string,
+  applicantId: string,
+  moderatorId: string,
+  decision: unknown,
+  message: unknown
+): Promise<JoinRequest> {
+  if (decision !== 'approve' && decision !== 'decline') throw new JoinRequestError('"decision" must be "approve" or "decline"')
+  const colab = await loadColab(admin, colabId)
+
+  const { data, error } = await admin
+    .from('colab_members')
+    .update({
+      status: decision === 'approve' ? 'accepted' : 'declined',
+      decision_message: cleanMessage(message),
+      decided_by: moderatorId,
+      decided_at: new Date().toISOString(),
+    })
+    .eq('colab_id', colabId)
+    .eq('user_id', applicantId)
+    .eq('status', 'pending')
+    .select(REQUEST_FIELDS)
+    .maybeSingle()
+  if (error) throw new JoinRequestError(error.message, 500)
+  if (!data) throw new JoinRequestError('No pending request from this person', 404)
+
+  try {
+    await notifyUsers(admin, [applicantId], colabId, {
+      kind: 'join_decision',
+      title: decision === 'approve'
+        ? `You're now a member of ${colab.name}`
+        : `Your request to join ${colab.name} was declined`,
+      body: cleanMessage(message) || '',
+      link: `/colab/${colab.slug}`,
+      data: { decision },
+    })
+  } catch (e) {
+    console.error('join decision notification failed', e)
+  }
+  return { ...data, profile: null } as JoinRequest
+}
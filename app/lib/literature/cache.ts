@@ -0,0 +1,246 @@
+import { createHash } from 'crypto'
+import { after } from 'next/server'
+import { createAdminSupabase } from '../supabase-admin'
+
+/**
+ * Response cache for the external literature APIs (Crossref, arXiv, Semantic
+ * Scholar, Europe PMC, OpenAlex, NCBI). Entries are keyed by provider + normalized request and are
+ * fresh for a per-provider TTL; after that they are served stale for a while
+ * longer while a background refetch replaces them.
+ *
+ * Backend (LIT_CACHE_BACKEND):
+ *  - "supabase": `lit_cache` table, fronted by a small in-memory LRU
+ *  - "memory":   per-instance LRU only
+ *  - "off":      no caching
+ * Defaults to "supabase" when the service-role key is configured, else "memory".
+ */
+
+export const CACHE_PROVIDERS = ['crossref', 'arxiv', 's2', 'europepmc', 'openalex', 'biorxiv', 'pubmed'] as const
+export type CacheProvider = typeof CACHE_PROVIDERS[number]
+export type CacheStatus = 'hit' | 'stale' | 'miss'
+
+export type CacheEntry = {
+  provider: CacheProvider
+  value: unknown
+  storedAt: number
+  /** served as-is until then */
+  freshUntil: number
+  /** served while revalidating until then; dropped after */
+  staleUntil: number
+}
+
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | null>
+  set(key: string, entry: CacheEntry): Promise<void>
+}
+
+const MINUTE = 60_000
+const HOUR = 60 * MINUTE
+const DAY = 24 * HOUR
+
+/** Crossref, S2 and OpenAlex metadata moves slowly; preprint servers and PubMed index new work daily */
+export const PROVIDER_TTL: Record<CacheProvider, { fresh: number; stale: number }> = {
+  crossref: { fresh: 12 * HOUR, stale: 7 * DAY },
+  s2: { fresh: 12 * HOUR, stale: 7 * DAY },
+  openalex: { fresh: 12 * HOUR, stale: 7 * DAY },
+  europepmc: { fresh: 6 * HOUR, stale: 3 * DAY },
+  arxiv: { fresh: 2 * HOUR, stale: 2 * DAY },
+  biorxiv: { fresh: 2 * HOUR, stale: 2 * DAY },
+  pubmed: { fresh: 2 * HOUR, stale: 2 * DAY },
+}
+
+/** ------------ Backends ------------ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>()
+  constructor(private maxEntries = 500) {}
+
+  async get(key: string) {
+    const e = this.entries.get(key)
+    if (!e) return null
+    this.entries.delete(key)
+    if (e.staleUntil <= Date.now()) return null
+    this.entries.set(key, e) // most recently used last
+    return e
+  }
+
+  async set(key: string, entry: CacheEntry) {
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string)
+    }
+  }
+}
+
+/** `lit_cache` rows, written and read with the service-role client */
+export class SupabaseCacheStore implements CacheStore {
+  private admin = createAdminSupabase()
+
+  async get(key: string) {
+    const { data, error } = await this.admin
+      .from('lit_cache')
+      .select('provider, value, stored_at, fresh_until, stale_until')
+      .eq('key', key)
+      .gt('stale_until', new Date().toISOString())
+      .maybeSingle()
+    if (error) throw new Error(`lit_cache read failed: ${error.message}`)
+    if (!data) return null
+    return {
+      provider: data.provider as CacheProvider,
+      value: data.value,
+      storedAt: Date.parse(data.stored_at),
+      freshUntil: Date.parse(data.fresh_until),
+      staleUntil: Date.parse(data.stale_until),
+    }
+  }
+
+  async set(key: string, entry: CacheEntry) {
+    const iso = (t: number) => new Date(t).toISOString()
+    const { error } = await this.admin.from('lit_cache').upsert({
+      key,
+      provider: entry.provider,
+      value: entry.value,
+      stored_at: iso(entry.storedAt),
+      fresh_until: iso(entry.freshUntil),
+      stale_until: iso(entry.staleUntil),
+    })
+    if (error) throw new Error(`lit_cache write failed: ${error.message}`)
+    // expired rows are never read again; sweep them now and then
+    if (Math.random() < 0.02) {
+      await this.admin.from('lit_cache').delete().lt('stale_until', new Date().toISOString())
+    }
+  }
+}
+
+/** Memory in front of a shared store */
+export class TieredCacheStore implements CacheStore {
+  constructor(private near: CacheStore, private far: CacheStore) {}
+
+  async get(key: string) {
+    const hit = await this.near.get(key)
+    if (hit) return hit
+    const e = await this.far.get(key)
+    if (e) await this.near.set(key, e)
+    return e
+  }
+
+  async set(key: string, entry: CacheEntry) {
+    await this.near.set(key, entry)
+    await this.far.set(key, entry)
+  }
+}
+
+let store: CacheStore | null | undefined
+
+function defaultStore(): CacheStore | null {
+  const backend = process.env.LIT_CACHE_BACKEND || (process.env.SUPABASE_SERVICE_ROLE_KEY ? 'supabase' : 'memory')
+  if (backend === 'off') return null
+  if (backend === 'supabase') return new TieredCacheStore(new MemoryCacheStore(200), new SupabaseCacheStore())
+  return new MemoryCacheStore()
+}
+
+/** Replace the backend (null disables caching) */
+export function setCacheStore(next: CacheStore | null) {
+  store = next
+}
+
+function getStore() {
+  if (store === undefined) store = defaultStore()
+  return store
+}
+
+/** ------------ Keys ------------ */
+/**
+ * Whitespace-collapsed and lower-cased, except the upper-case boolean
+ * operators PubMed and arXiv give meaning to.
+ */
+export function normalizeQuery(q: string) {
+  return q
+    .trim()
+    .split(/\s+/)
+    .map(w => (/^(AND|OR|NOT|ANDNOT)$/.test(w) ? w : w.toLowerCase()))
+    .join(' ')
+}
+
+function canonical(v: unknown): unknown {
+  if (typeof v === 'string') return normalizeQuery(v)
+  if (Array.isArray(v)) return v.map(canonical)
+  if (v && typeof v === 'object') {
+    return Object.fromEntries(
+      Object.keys(v).sort()
+        .filter(k => (v as any)[k] !== undefined)
+        .map(k => [k, canonical((v as any)[k])])
+    )
+  }
+  return v
+}
+
+export function cacheKey(provider: CacheProvider, request: Record<string, unknown>) {
+  const digest = createHash('sha256').update(JSON.stringify(canonical(request))).digest('hex')
+  return `${provider}:${digest}`
+}
+
+/** ------------ Read-through ------------ */
+export type Cached<T> = { value: T; status: CacheStatus; storedAt: number }
+
+/** Identical requests in flight on this instance share one upstream fetch */
+const inflight = new Map<string, Promise<unknown>>()
+
+/** Keep the function alive for a background refresh when running inside a request */
+function inBackground(task: Promise<unknown>) {
+  try { after(task) } catch { /* outside a request scope (cron, scripts): runs detached */ }
+}
+
+async function safeGet(s: CacheStore, key: string) {
+  try { return await s.get(key) } catch (e) { console.error(e); return null }
+}
+
+async function load<T>(s: CacheStore | null, key: string, provider: CacheProvider, fetcher: () => Promise<T>): Promise<T> {
+  const pending = inflight.get(key)
+  if (pending) return pending as Promise<T>
+
+  const run = (async () => {
+    const value = await fetcher()
+    if (s) {
+      const now = Date.now()
+      const ttl = PROVIDER_TTL[provider]
+      await s.set(key, { provider, value, storedAt: now, freshUntil: now + ttl.fresh, staleUntil: now + ttl.stale })
+        .catch(e => console.error(e))
+    }
+    return value
+  })()
+  inflight.set(key, run)
+  try { return await run } finally { inflight.delete(key) }
+}
+
+/**
+ * Read-through cache around one provider request. Failures are never cached.
+ * `refresh` skips the read (the result is still stored), for callers that
+ * must see the provider's current answer.
+ */
+export async function cached<T>(
+  provider: CacheProvider,
+  request: Record<string, unknown>,
+  fetcher: () => Promise<T>,
+  opts: { refresh?: boolean } = {}
+): Promise<Cached<T>> {
+  const s = getStore()
+  const key = cacheKey(provider, request)
+
+  const entry = s && !opts.refresh ? await safeGet(s, key) : null
+  const now = Date.now()
+  if (entry && entry.freshUntil > now) return { value: entry.value as T, status: 'hit', storedAt: entry.storedAt }
+  if (entry && entry.staleUntil > now) {
+    if (!inflight.has(key)) {
+      inBackground(load(s, key, provider, fetcher).catch(e => console.error(`${provider} revalidation failed`, e)))
+    }
+    return { value: entry.value as T, status: 'stale', storedAt: entry.storedAt }
+  }
+
+  const value = await load(s, key, provider, fetcher)
+  return { value, status: 'miss', storedAt: Date.now() }
+}
+
+/** True when nothing had to be fetched upstream to answer */
+export const servedFromCache = (statuses: (CacheStatus | undefined)[]) =>
+  statuses.length > 0 && statuses.every(s => s === 'hit' || s === 'stale')
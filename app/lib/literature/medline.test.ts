@@ -0,0 +1,92 @@
+import { readFile } from 'fs/promises'
+import path from 'path'
+import { beforeAll, describe, expect, it } from 'vitest'
+import { medlineByPMID, type MedlineRecord, meshDescriptors, parseMedline } from './medline'
+
+describe('parseMedline (recorded efetch response)', () => {
+  let text: string
+  let alphafold: MedlineRecord
+  let older: MedlineRecord
+
+  beforeAll(async () => {
+    text = await readFile(path.join(__dirname, 'fixtures', 'medline.txt'), 'utf8')
+    ;[alphafold, older] = parseMedline(text)
+  })
+
+  it('splits the response into records', () => {
+    expect(parseMedline(text).map(r => r.pmid)).toEqual(['34265844', '2819845'])
+    expect(medlineByPMID(text)['2819845'].title).toBe(older.title)
+  })
+
+  it('reads the bibliographic fields', () => {
+    expect(alphafold).toMatchObject({
+      title: 'Highly accurate protein structure prediction with AlphaFold.',
+      journal: 'Nature',
+      year: '2021',
+      doi: '10.1038/s41586-021-03819-2',
+    })
+  })
+
+  it('folds continuation lines into their field', () => {
+    expect(alphafold.abstract).toBe(
+      'Proteins are essential to life, and understanding their structure can facilitate a mechanistic '
+      + 'understanding of their function. Through an enormous experimental effort, the structures of around '
+      + '100,000 unique proteins have been determined.')
+    expect(older.title).toBe('Sequence of the human gene for the cystic fibrosis region.')
+  })
+
+  it('pairs full and short author names and keeps affiliations with their author', () => {
+    expect(alphafold.authors).toEqual([
+      { name: 'Jumper, John', short: 'Jumper J', affiliations: ['DeepMind, London, UK. jumper@deepmind.com.'] },
+      { name: 'Evans, Richard', short: 'Evans R', affiliations: ['DeepMind, London, UK.'] },
+      {
+        name: 'Ronneberger, Olaf',
+        short: 'Ronneberger O',
+        affiliations: ['DeepMind, London, UK.', 'Institute of Computer Science, University of Freiburg, Freiburg im Breisgau, Germany.'],
+      },
+    ])
+    expect(alphafold.affiliations).toEqual([
+      'DeepMind, London, UK. jumper@deepmind.com.',
+      'DeepMind, London, UK.',
+      'Institute of Computer Science, University of Freiburg, Freiburg im Breisgau, Germany.',
+    ])
+  })
+
+  it('starts an author at each AU when there is no FAU', () => {
+    expect(older.authors).toEqual([
+      { name: 'Smith JA', short: 'Smith JA', affiliations: [] },
+      { name: 'Doe B', short: 'Doe B', affiliations: [] },
+    ])
+    expect(older.affiliations).toEqual([])
+  })
+
+  it('reads MeSH headings with qualifiers and major topics', () => {
+    expect(alphafold.mesh).toEqual([
+      { descriptor: 'Amino Acid Sequence', qualifiers: [], major: false },
+      { descriptor: 'Deep Learning', qualifiers: [], major: true },
+      { descriptor: 'Models, Molecular', qualifiers: [], major: false },
+      { descriptor: 'Protein Conformation', qualifiers: [], major: false },
+      { descriptor: 'Protein Folding', qualifiers: [], major: true },
+      { descriptor: 'Proteins', qualifiers: ['chemistry', 'metabolism'], major: true },
+    ])
+    expect(meshDescriptors(alphafold.mesh)).toEqual([
+      'Deep Learning', 'Protein Folding', 'Proteins', 'Amino Acid Sequence', 'Models, Molecular', 'Protein Conformation',
+    ])
+  })
+
+  it('keeps repeated keywords, publication types and grants in order', () => {
+    expect(alphafold.keywords).toEqual(['protein structure', 'deep learning'])
+    expect(alphafold.publicationTypes).toEqual(['Journal Article', "Research Support, Non-U.S. Gov't"])
+    expect(older.publicationTypes).toEqual(['Journal Article', 'Review'])
+    expect(alphafold.grants).toEqual([
+      { id: '203211/Z/16/Z', acronym: 'WT_', agency: 'Wellcome Trust', country: 'United Kingdom' },
+      { id: undefined, acronym: 'MRC_', agency: 'Medical Research Council', country: 'United Kingdom' },
+    ])
+  })
+
+  it('only takes a DOI from a [doi] identifier', () => {
+    expect(older.doi).toBeUndefined()
+    expect(older.keywords).toEqual([])
+    expect(older.grants).toEqual([])
+  })
+})
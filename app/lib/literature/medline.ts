@@ -0,0 +1,154 @@
+/**
+ * MEDLINE display format (efetch `rettype=medline`, `retmode=text`) parser.
+ * Each record is a run of `TAG - value` lines: the tag is left-justified in
+ * four columns, continuation lines are indented six spaces, and records are
+ * separated by blank lines. Repeated tags (AU, MH, PT, …) keep their order;
+ * AD lines belong to the FAU/AU author above them.
+ */
+
+export type MedlineAuthor = {
+  /** full name as indexed, e.g. "Smith, Jane A" (falls back to the short form) */
+  name: string
+  /** short form used in citations, e.g. "Smith JA" */
+  short: string
+  affiliations: string[]
+}
+
+export type MeshHeading = {
+  descriptor: string
+  qualifiers: string[]
+  /** starred in MEDLINE: a major topic of the article */
+  major: boolean
+}
+
+export type Grant = {
+  /** grant number, when the funder issued one */
+  id?: string
+  acronym?: string
+  agency?: string
+  country?: string
+}
+
+export type MedlineRecord = {
+  pmid: string
+  title?: string
+  abstract?: string
+  journal?: string
+  year?: string
+  doi?: string
+  authors: MedlineAuthor[]
+  mesh: MeshHeading[]
+  /** author keywords (OT) */
+  keywords: string[]
+  publicationTypes: string[]
+  /** distinct affiliations across all authors, in first-seen order */
+  affiliations: string[]
+  grants: Grant[]
+}
+
+type Field = { tag: string; value: string }
+
+const TAG_LINE = /^([A-Z][A-Z0-9]{1,3})\s*- (.*)$/
+
+/** Tag/value pairs of one record with continuation lines folded in */
+function fields(record: string): Field[] {
+  const out: Field[] = []
+  for (const line of record.split(/\r?\n/)) {
+    const m = line.match(TAG_LINE)
+    if (m) out.push({ tag: m[1], value: m[2].trim() })
+    else if (/^\s{2,}\S/.test(line) && out.length) out[out.length - 1].value += ` ${line.trim()}`
+  }
+  return out
+}
+
+/** "Humans", "*Neoplasms/drug therapy/*genetics" → descriptor + qualifiers */
+function meshHeading(value: string): MeshHeading {
+  const [head, ...subs] = value.split('/')
+  const qualifiers = subs.map(q => q.replace(/^\*/, '').trim()).filter(Boolean)
+  return {
+    descriptor: head.replace(/^\*/, '').trim(),
+    qualifiers,
+    major: head.startsWith('*') || subs.some(q => q.startsWith('*')),
+  }
+}
+
+/**
+ * "R01 CA123456/CA/NCI NIH HHS/United States" → parts; number and acronym may
+ * be missing, and the number may itself contain slashes ("203211/Z/16/Z")
+ */
+function grant(value: string): Grant {
+  const parts = value.split('/').map(s => s.trim())
+  const [acronym, agency, country] = parts.splice(-3)
+  const id = parts.join('/')
+  return {
+    id: id || undefined,
+    acronym: acronym || undefined,
+    agency: agency || undefined,
+    country: country || undefined,
+  }
+}
+
+function record(text: string): MedlineRecord | null {
+  const fs = fields(text)
+  const pmid = fs.find(f => f.tag === 'PMID')?.value
+  if (!pmid || !/^\d+$/.test(pmid)) return null
+
+  const rec: MedlineRecord = {
+    pmid, authors: [], mesh: [], keywords: [], publicationTypes: [], affiliations: [], grants: [],
+  }
+  const affiliations = new Set<string>()
+  let author: MedlineAuthor | null = null
+
+  for (const { tag, value } of fs) {
+    switch (tag) {
+      case 'TI': rec.title = value; break
+      case 'AB': rec.abstract = rec.abstract ? `${rec.abstract} ${value}` : value; break
+      case 'JT': rec.journal = value; break
+      case 'DP': rec.year = (value.match(/\b(1[89]|20)\d{2}\b/) || [])[0]; break
+      case 'LID':
+      case 'AID':
+        if (!rec.doi && /\[doi\]$/.test(value)) rec.doi = value.replace(/\s*\[doi\]$/, '')
+        break
+      // FAU precedes its AU; AU without a preceding FAU (older records) starts an author on its own
+      case 'FAU':
+        author = { name: value, short: '', affiliations: [] }
+        rec.authors.push(author)
+        break
+      case 'AU':
+        if (author && !author.short) author.short = value
+        else { author = { name: value, short: value, affiliations: [] }; rec.authors.push(author) }
+        break
+      case 'AD':
+        if (author) author.affiliations.push(value)
+        affiliations.add(value)
+        break
+      case 'MH': rec.mesh.push(meshHeading(value)); break
+      case 'OT': rec.keywords.push(value); break
+      case 'PT': rec.publicationTypes.push(value); break
+      case 'GR': rec.grants.push(grant(value)); break
+    }
+  }
+  for (const a of rec.authors) if (!a.short) a.short = a.name
+  rec.affiliations = Array.from(affiliations)
+  return rec
+}
+
+/** Every record in an efetch MEDLINE response */
+export function parseMedline(text: string): MedlineRecord[] {
+  return text
+    .split(/\r?\n(?=PMID- )/)
+    .map(record)
+    .filter((r): r is MedlineRecord => !!r)
+}
+
+export function medlineByPMID(text: string): Record<string, MedlineRecord> {
+  const map: Record<string, MedlineRecord> = {}
+  for (const r of parseMedline(text)) map[r.pmid] = r
+  return map
+}
+
+/** Distinct MeSH descriptors, major topics first */
+export function meshDescriptors(mesh: MeshHeading[]) {
+  const major = mesh.filter(m => m.major).map(m => m.descriptor)
+  return Array.from(new Set([...major, ...mesh.map(m => m.descriptor)]))
+}
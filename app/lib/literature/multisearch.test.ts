@@ -0,0 +1,92 @@
+import { readFile } from 'fs/promises'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  dedupeAndRank, litKey, searchArxiv, searchBiorxiv, searchCrossref, searchEuropePMC, searchOpenAlex, searchS2,
+} from './multisearch'
+
+/** The recorded API responses in ./fixtures, answered by host (and Crossref filter for bioRxiv) */
+function fixtureFor(url: URL) {
+  switch (url.hostname) {
+    case 'api.crossref.org':
+      return url.searchParams.get('filter')?.includes('prefix:10.1101') ? 'biorxiv.json' : 'crossref.json'
+    case 'export.arxiv.org': return 'arxiv.xml'
+    case 'api.semanticscholar.org': return 's2.json'
+    case 'www.ebi.ac.uk': return 'europepmc.json'
+    case 'api.openalex.org': return 'openalex.json'
+    default: throw new Error(`Unexpected request to ${url.hostname}`)
+  }
+}
+
+describe('literature source adapters (recorded responses)', () => {
+  const requested: URL[] = []
+
+  beforeEach(() => {
+    requested.length = 0
+    vi.stubGlobal('fetch', async (input: string) => {
+      const url = new URL(input)
+      requested.push(url)
+      const file = fixtureFor(url)
+      const body = await readFile(path.join(__dirname, 'fixtures', file), 'utf8')
+      return new Response(body, { headers: { 'content-type': file.endsWith('.xml') ? 'application/atom+xml' : 'application/json' } })
+    })
+  })
+  afterEach(() => { vi.unstubAllGlobals() })
+
+  it('parses Crossref works', async () => {
+    const items = await searchCrossref('protein structure', 5)
+    expect(requested[0].searchParams.get('rows')).toBe('5')
+    expect(items[0]).toMatchObject({
+      source: 'crossref',
+      doi: '10.1038/s41586-021-03819-2',
+      title: 'Highly accurate protein structure prediction with AlphaFold',
+    })
+    expect(items[0].authors?.length).toBeGreaterThan(0)
+  })
+
+  it('finds bioRxiv/medRxiv preprints through Crossref posted content', async () => {
+    const items = await searchBiorxiv('tumour lymphocytes')
+    expect(requested[0].searchParams.get('filter')).toBe('prefix:10.1101,type:posted-content')
+    expect(items.every(i => i.source === 'biorxiv' && i.doi?.startsWith('10.1101/'))).toBe(true)
+    expect(items[0].oaUrl).toMatch(/rxiv\.org\/content\/10\.1101\/.+\.full\.pdf$/)
+  })
+
+  it('parses the arXiv Atom feed without version suffixes', async () => {
+    const items = await searchArxiv('transformers')
+    expect(items.map(i => i.externalIds?.arXiv)).toEqual(['1706.03762', '2005.11401'])
+    expect(items[0]).toMatchObject({ source: 'arxiv', title: 'Attention Is All You Need', venue: 'arXiv' })
+  })
+
+  it('keeps Semantic Scholar external ids', async () => {
+    const items = await searchS2('attention')
+    expect(items[0].externalIds).toMatchObject({ arXiv: '1706.03762' })
+    expect(items[1].doi).toBe('10.1038/s41586-021-03819-2')
+  })
+
+  it('parses Europe PMC results with PubMed ids and free full text', async () => {
+    const items = await searchEuropePMC('alphafold')
+    expect(items[0]).toMatchObject({ source: 'europepmc', title: 'Highly accurate protein structure prediction with AlphaFold' })
+    expect(items[0].externalIds?.PMID).toBeTruthy()
+    expect(items.some(i => i.oaUrl)).toBe(true)
+  })
+
+  it('rebuilds OpenAlex abstracts and keys arXiv DataCite DOIs by arXiv id', async () => {
+    const items = await searchOpenAlex('alphafold')
+    expect(items[0].abstract).toBeTruthy()
+    const attention = items.find(i => i.title === 'Attention Is All You Need')!
+    expect(attention.doi).toBeUndefined()
+    expect(attention.externalIds?.arXiv).toBe('1706.03762')
+  })
+
+  it('merges the same work found by different sources', async () => {
+    const all = (await Promise.all([
+      searchCrossref('q'), searchBiorxiv('q'), searchArxiv('q'), searchS2('q'), searchEuropePMC('q'), searchOpenAlex('q'),
+    ])).flat()
+    const { items } = dedupeAndRank(all, { query: 'protein structure' })
+
+    expect(new Set(items.map(litKey)).size).toBe(items.length)
+    expect(items.filter(i => /alphafold/i.test(i.title))).toHaveLength(1)
+    expect(items.filter(i => /attention is all you need/i.test(i.title))).toHaveLength(1)
+    expect(items).toHaveLength(6)
+  })
+})
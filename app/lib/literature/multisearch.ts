@@ -0,0 +1,505 @@
+/**
+ * Multi-source literature search with DOI/arXiv-keyed dedupe. Shared by
+ * /api/lit/multisearch and saved-search reruns. Each source is an adapter
+ * (request + parser) feeding the same `dedupeAndRank` pipeline:
+ *  - Crossref, arXiv, Semantic Scholar
+ *  - Europe PMC (PubMed/PMC plus preprints, open-access full-text links)
+ *  - OpenAlex
+ *  - bioRxiv / medRxiv, found through Crossref (their own API has no keyword
+ *    search): posted content under the 10.1101 DOI prefix
+ *
+ * Optional envs:
+ *  - CROSSREF_MAILTO = you@domain.com   // polite pool (Crossref, OpenAlex)
+ *  - SEMANTIC_SCHOLAR_KEY = <key>       // optional; avoids 429
+ *  - LIT_FIXTURES = 1                   // answer every source from ./fixtures (offline)
+ */
+import { readFile } from 'fs/promises'
+import path from 'path'
+import { cached, type CacheStatus } from './cache'
+import { LIT_SOURCES, type LitItem, type LitSource } from './sources'
+import { rankItems, resolveWeights, type RankingOptions } from './ranking'
+
+export type { LitItem, LitSource }
+
+const MAILTO = process.env.CROSSREF_MAILTO || ''
+const S2_KEY = process.env.SEMANTIC_SCHOLAR_KEY || ''
+const FIXTURES = process.env.LIT_FIXTURES === '1'
+
+const withTimeout = async (p: Promise<Response>, ms = 6000) => {
+  let to: NodeJS.Timeout
+  const timeout = new Promise<Response>((_, rej) => {
+    to = setTimeout(() => rej(new Error('timeout')), ms)
+  })
+  try {
+    const res = await Promise.race([p, timeout])
+    return res as Response
+  } finally {
+    clearTimeout(to!)
+  }
+}
+
+const safeFetchText = async (url: string, init?: RequestInit) => {
+  const res = await withTimeout(fetch(url, { ...init, next: { revalidate: 0 } }))
+  const text = await res.text()
+  if (!res.ok) throw new Error(`[${res.status}] ${text.slice(0, 300)}`)
+  return text
+}
+
+const safeFetchJSON = async (url: string, init?: RequestInit) => {
+  const res = await withTimeout(fetch(url, { ...init, next: { revalidate: 0 } }))
+  const ct = res.headers.get('content-type') || ''
+  const text = await res.text()
+  if (!res.ok) throw new Error(`[${res.status}] ${text.slice(0, 300)}`)
+  if (!/json/i.test(ct)) {
+    if (/<!doctype|<html/i.test(text)) throw new Error('Non-JSON (HTML) response')
+    try { return JSON.parse(text) } catch { throw new Error('Invalid JSON') }
+  }
+  try { return JSON.parse(text) } catch { throw new Error('Invalid JSON') }
+}
+
+/** Recorded responses, one per source, replayed when LIT_FIXTURES=1 (and by multisearch.test.ts) */
+const FIXTURE_FILES: Record<LitSource, string> = {
+  crossref: 'crossref.json',
+  arxiv: 'arxiv.xml',
+  s2: 's2.json',
+  europepmc: 'europepmc.json',
+  openalex: 'openalex.json',
+  biorxiv: 'biorxiv.json',
+}
+
+const readFixture = (source: LitSource) =>
+  readFile(path.join(process.cwd(), 'app/lib/literature/fixtures', FIXTURE_FILES[source]), 'utf8')
+
+const sourceText = async (source: LitSource, url: string, init?: RequestInit) =>
+  FIXTURES ? readFixture(source) : safeFetchText(url, init)
+
+const sourceJSON = async (source: LitSource, url: string, init?: RequestInit) =>
+  FIXTURES ? JSON.parse(await readFixture(source)) : safeFetchJSON(url, init)
+
+/** -------- helpers to guarantee externalIds is either defined keys or undefined -------- */
+function buildExternalIds(parts: Array<[string, string | undefined]>): Record<string, string> | undefined {
+  const out: Record<string, string> = {}
+  for (const [k, v] of parts) {
+    if (typeof v === 'string' && v.trim()) out[k] = v.trim()
+  }
+  return Object.keys(out).length ? out : undefined
+}
+
+export const normDOI = (doi?: string | null): string | undefined => {
+  if (!doi) return undefined
+  let d = doi.trim().toLowerCase()
+  d = d.replace(/^https?:\/\/(dx\.)?doi\.org\//, '')
+  return d || undefined
+}
+
+export const normArxivId = (id?: string | null): string | undefined => {
+  if (!id) return undefined
+  let s = id.trim().toLowerCase()
+  s = s.replace(/^arxiv:/, '')
+  s = s.replace(/v\d+$/, '') // strip version suffix
+  return s || undefined
+}
+
+export const normTitle = (t?: string | null) =>
+  (t || '')
+    .toLowerCase()
+    .replace(/[\s]+/g, ' ')
+    .replace(/[^\w\s]/g, '')
+    .trim()
+
+const stripTags = (s?: string | null) => (s || '').replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim() || undefined
+
+/** ---------------- Crossref ---------------- */
+function crossrefItem(it: any): LitItem {
+  const title = Array.isArray(it.title) ? it.title[0] : it.title || ''
+  const year = it?.issued?.['date-parts']?.[0]?.[0]
+  const authors = Array.isArray(it?.author)
+    ? it.author
+        .map((a: any) => [a?.given, a?.family].filter(Boolean).join(' '))
+        .filter(Boolean)
+    : []
+  const doi = normDOI(it?.DOI)
+  const url = it?.URL || (doi ? `https://doi.org/${doi}` : undefined)
+  const citationCount =
+    typeof it?.['is-referenced-by-count'] === 'number'
+      ? it['is-referenced-by-count']
+      : undefined
+
+  const abstractRaw: string | undefined =
+    typeof it?.abstract === 'string' ? it.abstract : undefined
+  const abstract = abstractRaw ? abstractRaw.replace(/<[^>]+>/g, '').trim() : undefined
+
+  const externalIds = buildExternalIds([['DOI', doi]])
+  const venue = Array.isArray(it?.['container-title']) ? it['container-title'][0] : undefined
+
+  return {
+    id: doi || it?.URL || title,
+    source: 'crossref',
+    title,
+    year,
+    authors,
+    abstract,
+    doi,
+    url,
+    venue: venue || undefined,
+    citationCount,
+    externalIds,
+  }
+}
+
+export async function searchCrossref(query: string, rows = 20): Promise<LitItem[]> {
+  const u = new URL('https://api.crossref.org/works')
+  u.searchParams.set('query', query)
+  u.searchParams.set('rows', String(rows))
+  if (MAILTO) u.searchParams.set('mailto', MAILTO)
+
+  const data = await sourceJSON('crossref', u.toString())
+  const items: any[] = data?.message?.items || []
+  return items.map(crossrefItem)
+}
+
+/** ---------------- bioRxiv / medRxiv (via Crossref) ---------------- */
+export async function searchBiorxiv(query: string, rows = 20): Promise<LitItem[]> {
+  const u = new URL('https://api.crossref.org/works')
+  u.searchParams.set('query', query)
+  u.searchParams.set('rows', String(rows))
+  u.searchParams.set('filter', 'prefix:10.1101,type:posted-content')
+  if (MAILTO) u.searchParams.set('mailto', MAILTO)
+
+  const data = await sourceJSON('biorxiv', u.toString())
+  const items: any[] = data?.message?.items || []
+  return items.map((it) => {
+    const base = crossrefItem(it)
+    const server = /medrxiv/i.test(it?.institution?.[0]?.name || '') ? 'medRxiv' : 'bioRxiv'
+    return {
+      ...base,
+      id: base.doi || base.id,
+      source: 'biorxiv',
+      venue: server,
+      url: base.doi ? `https://www.${server.toLowerCase()}.org/content/${base.doi}` : base.url,
+      // preprint PDFs are free to read
+      oaUrl: base.doi ? `https://www.${server.toLowerCase()}.org/content/${base.doi}.full.pdf` : undefined,
+    } as LitItem
+  })
+}
+
+/** ---------------- arXiv (Atom XML) ---------------- */
+function parseArxivAtom(atom: string): LitItem[] {
+  const entries = atom.split(/<entry>/g).slice(1)
+  const out: LitItem[] = []
+
+  for (const e of entries) {
+    const title = (e.match(/<title>([\s\S]*?)<\/title>/) || [])[1]?.replace(/\s+/g, ' ').trim() || ''
+    const summary = (e.match(/<summary>([\s\S]*?)<\/summary>/) || [])[1]?.replace(/\s+/g, ' ').trim() || ''
+    const idUrl = (e.match(/<id>([\s\S]*?)<\/id>/) || [])[1]?.trim() || ''
+    const published = (e.match(/<published>([\s\S]*?)<\/published>/) || [])[1] || ''
+    const year = published ? Number((published.match(/\d{4}/) || [])[0]) : undefined
+
+    const authors: string[] = []
+    const authorBlocks = e.match(/<author>[\s\S]*?<\/author>/g) || []
+    for (const ab of authorBlocks) {
+      const name = (ab.match(/<name>([\s\S]*?)<\/name>/) || [])[1]?.trim()
+      if (name) authors.push(name)
+    }
+
+    const aid = (idUrl.match(/arxiv\.org\/abs\/([\w.\-]+)(v\d+)?/) || [])[1]
+    const arxivId = normArxivId(aid) || normArxivId(idUrl)
+
+    let url = idUrl
+    const linkAbs = (e.match(/<link[^>]+rel="alternate"[^>]+href="([^"]+)"/) || [])[1]
+    if (linkAbs) url = linkAbs
+    const pdf = (e.match(/<link[^>]+title="pdf"[^>]+href="([^"]+)"/) || [])[1]
+
+    const externalIds = buildExternalIds([['arXiv', arxivId]])
+
+    out.push({
+      id: arxivId || idUrl || title,
+      source: 'arxiv',
+      title,
+      year,
+      authors,
+      abstract: summary || undefined,
+      url,
+      venue: 'arXiv',
+      oaUrl: pdf || undefined,
+      externalIds,
+    })
+  }
+
+  return out
+}
+
+export async function searchArxiv(query: string, max = 20): Promise<LitItem[]> {
+  const u = new URL('http://export.arxiv.org/api/query')
+  u.searchParams.set('search_query', `all:${query}`)
+  u.searchParams.set('start', '0')
+  u.searchParams.set('max_results', String(max))
+  const text = await sourceText('arxiv', u.toString(), { headers: { Accept: 'application/atom+xml' } })
+  return parseArxivAtom(text)
+}
+
+/** ---------------- Semantic Scholar ---------------- */
+export async function searchS2(query: string, limit = 20): Promise<LitItem[]> {
+  const u = new URL('https://api.semanticscholar.org/graph/v1/paper/search')
+  u.searchParams.set('query', query)
+  u.searchParams.set('limit', String(limit))
+  u.searchParams.set('fields', [
+    'title',
+    'year',
+    'authors',
+    'citationCount',
+    'abstract',
+    'externalIds',
+    'url',
+    'venue',
+    'openAccessPdf'
+  ].join(','))
+
+  const headers: Record<string, string> = { Accept: 'application/json' }
+  if (S2_KEY) headers['x-api-key'] = S2_KEY
+
+  const data = await sourceJSON('s2', u.toString(), { headers })
+  const papers: any[] = data?.data || []
+
+  return papers.map((p) => {
+    const authors = Array.isArray(p?.authors)
+      ? p.authors.map((a: any) => a?.name).filter(Boolean)
+      : []
+    const ext = p?.externalIds || {}
+    const doi = normDOI(ext?.DOI)
+    const arxiv = normArxivId(ext?.ArXiv)
+
+    const externalIds = buildExternalIds([
+      ['DOI', doi],
+      ['arXiv', arxiv],
+      ['S2', typeof p?.paperId === 'string' && p.paperId ? p.paperId : undefined],
+      ['PMID', ext?.PubMed ? String(ext.PubMed) : undefined],
+      ['PMCID', ext?.PubMedCentral ? `PMC${String(ext.PubMedCentral).replace(/^PMC/i, '')}` : undefined],
+    ])
+
+    return {
+      id: p?.paperId || doi || arxiv || p?.url || p?.title,
+      source: 's2',
+      title: p?.title || '',
+      year: typeof p?.year === 'number' ? p.year : undefined,
+      authors,
+      abstract: p?.abstract || undefined,
+      doi,
+      url: p?.url || (doi ? `https://doi.org/${doi}` : undefined),
+      venue: p?.venue || undefined,
+      oaUrl: p?.openAccessPdf?.url || undefined,
+      citationCount: typeof p?.citationCount === 'number' ? p.citationCount : undefined,
+      externalIds,
+    } as LitItem
+  })
+}
+
+/** ---------------- Europe PMC ---------------- */
+export async function searchEuropePMC(query: string, pageSize = 20): Promise<LitItem[]> {
+  const u = new URL('https://www.ebi.ac.uk/europepmc/webservices/rest/search')
+  u.searchParams.set('query', query)
+  u.searchParams.set('format', 'json')
+  u.searchParams.set('resultType', 'core')
+  u.searchParams.set('pageSize', String(pageSize))
+
+  const data = await sourceJSON('europepmc', u.toString(), { headers: { Accept: 'application/json' } })
+  const results: any[] = data?.resultList?.result || []
+
+  return results.map((r) => {
+    const doi = normDOI(r?.doi)
+    const pmid = r?.pmid ? String(r.pmid) : undefined
+    const pmcid = r?.pmcid ? String(r.pmcid) : undefined
+    const authors: string[] = Array.isArray(r?.authorList?.author)
+      ? r.authorList.author.map((a: any) => a?.fullName || a?.collectiveName).filter(Boolean)
+      : String(r?.authorString || '').replace(/\.$/, '').split(/,\s*/).filter(Boolean)
+
+    // prefer an open-access HTML copy, then any free full text
+    const links: any[] = r?.fullTextUrlList?.fullTextUrl || []
+    const free = links.filter((l) => /^(free|open access)$/i.test(l?.availability || ''))
+    const oa = free.find((l) => l?.documentStyle === 'html') || free[0]
+
+    const preprint = r?.source === 'PPR'
+    return {
+      id: doi || (pmid ? `pmid:${pmid}` : `${r?.source}:${r?.id}`),
+      source: 'europepmc',
+      title: stripTags(r?.title)?.replace(/\.$/, '') || '',
+      year: Number(r?.pubYear) || undefined,
+      authors,
+      abstract: stripTags(r?.abstractText),
+      doi,
+      url: pmcid
+        ? `https://europepmc.org/article/PMC/${pmcid}`
+        : `https://europepmc.org/article/${r?.source}/${r?.id}`,
+      venue: r?.journalInfo?.journal?.title || (preprint ? r?.bookOrReportDetails?.publisher : undefined) || undefined,
+      oaUrl: oa?.url || (pmcid && r?.isOpenAccess === 'Y' ? `https://europepmc.org/article/PMC/${pmcid}` : undefined),
+      citationCount: typeof r?.citedByCount === 'number' ? r.citedByCount : undefined,
+      externalIds: buildExternalIds([
+        ['DOI', doi],
+        ['PMID', pmid],
+        ['PMCID', pmcid],
+      ]),
+    } as LitItem
+  })
+}
+
+/** ---------------- OpenAlex ---------------- */
+/** OpenAlex ships abstracts as { word: [positions] } */
+function invertedAbstract(index: Record<string, number[]> | null | undefined) {
+  if (!index) return undefined
+  const words: string[] = []
+  for (const [word, positions] of Object.entries(index)) {
+    for (const p of positions) words[p] = word
+  }
+  return words.filter(Boolean).join(' ') || undefined
+}
+
+export async function searchOpenAlex(query: string, perPage = 20): Promise<LitItem[]> {
+  const u = new URL('https://api.openalex.org/works')
+  u.searchParams.set('search', query)
+  u.searchParams.set('per-page', String(perPage))
+  u.searchParams.set('select', [
+    'id',
+    'doi',
+    'display_name',
+    'publication_year',
+    'authorships',
+    'cited_by_count',
+    'abstract_inverted_index',
+    'ids',
+    'primary_location',
+    'open_access'
+  ].join(','))
+  if (MAILTO) u.searchParams.set('mailto', MAILTO)
+
+  const data = await sourceJSON('openalex', u.toString(), { headers: { Accept: 'application/json' } })
+  const works: any[] = data?.results || []
+
+  return works.map((w) => {
+    let doi = normDOI(w?.doi)
+    // arXiv's DataCite DOIs: key these by arXiv id so they merge with arXiv results
+    const arxiv = doi?.startsWith('10.48550/arxiv.') ? normArxivId(doi.slice('10.48550/arxiv.'.length)) : undefined
+    if (arxiv) doi = undefined
+    const pmid = (String(w?.ids?.pmid || '').match(/(\d+)\/?$/) || [])[1]
+    const pmcNum = (String(w?.ids?.pmcid || '').match(/(?:PMC)?(\d+)\/?$/i) || [])[1]
+    const pmcid = pmcNum ? `PMC${pmcNum}` : undefined
+    const openalexId = String(w?.id || '').replace(/^https?:\/\/openalex\.org\//, '')
+
+    return {
+      id: openalexId || doi || w?.display_name,
+      source: 'openalex',
+      title: stripTags(w?.display_name) || '',
+      year: typeof w?.publication_year === 'number' ? w.publication_year : undefined,
+      authors: Array.isArray(w?.authorships)
+        ? w.authorships.map((a: any) => a?.author?.display_name).filter(Boolean)
+        : [],
+      abstract: invertedAbstract(w?.abstract_inverted_index),
+      doi,
+      url: doi ? `https://doi.org/${doi}` : w?.primary_location?.landing_page_url || w?.id,
+      venue: w?.primary_location?.source?.display_name || undefined,
+      oaUrl: w?.open_access?.oa_url || undefined,
+      citationCount: typeof w?.cited_by_count === 'number' ? w.cited_by_count : undefined,
+      externalIds: buildExternalIds([
+        ['DOI', doi],
+        ['arXiv', arxiv],
+        ['PMID', pmid],
+        ['PMCID', pmcid],
+        ['OpenAlex', openalexId || undefined],
+      ]),
+    } as LitItem
+  })
+}
+
+const SEARCHERS: Record<LitSource, (query: string, limit: number) => Promise<LitItem[]>> = {
+  crossref: searchCrossref,
+  arxiv: searchArxiv,
+  s2: searchS2,
+  europepmc: searchEuropePMC,
+  openalex: searchOpenAlex,
+  biorxiv: searchBiorxiv,
+}
+
+/** ---------------- Dedupe + Rank ---------------- */
+/** Identity of a work across sources: normalized DOI, else arXiv id, else title + year */
+export const litKey = (x: Pick<LitItem, 'doi' | 'externalIds' | 'title' | 'year'>) => {
+  const doi = x.doi ? `doi:${x.doi}` : ''
+  const ax = x.externalIds?.arXiv ? `arxiv:${x.externalIds.arXiv}` : ''
+  const normT = normTitle(x.title)
+  const y = x.year ? `y:${x.year}` : ''
+  return doi || ax || `t:${normT}|${y}`
+}
+
+/**
+ * Merge duplicates across sources (keeping the better-cited or abstract-bearing
+ * copy), then score everything with the chosen ranking profile.
+ */
+export function dedupeAndRank(items: LitItem[], opts: RankingOptions & { topN?: number } = {}) {
+  type Key = string
+  const byKey = new Map<Key, LitItem>()
+
+  for (const it of items) {
+    const k = litKey(it)
+    if (!k) continue
+    const existing = byKey.get(k)
+    if (!existing) {
+      byKey.set(k, it)
+    } else {
+      const pick =
+        (it.citationCount || 0) > (existing.citationCount || 0)
+          ? it
+          : existing.abstract
+          ? existing
+          : it.abstract
+          ? it
+          : existing
+      byKey.set(k, pick)
+    }
+  }
+
+  const merged = Array.from(byKey.values())
+  const ranked = rankItems(merged, opts)
+  return { items: merged, top: ranked.slice(0, opts.topN ?? 12) }
+}
+
+export type SourceCacheStatus = Partial<Record<LitSource, CacheStatus>>
+
+/**
+ * Query the chosen sources (all by default) together; failed sources are skipped.
+ * Each source's results go through the literature cache (`refresh` bypasses reads);
+ * `cache` reports how each successful source was answered and `counts` how many
+ * results it returned before dedupe. `top` is ranked with
+ * `opts.ranking` against the query, each item carrying its score explanation.
+ */
+export async function runMultiSearch(
+  query: string,
+  limit = 20,
+  topN = 12,
+  opts: { refresh?: boolean; sources?: readonly LitSource[]; ranking?: Omit<RankingOptions, 'query'> } = {}
+) {
+  const sources = opts.sources?.length ? opts.sources : LIT_SOURCES
+  const request = { query, limit }
+  const settled = await Promise.allSettled(
+    sources.map(source => cached(source, request, () => SEARCHERS[source](query, limit), opts))
+  )
+
+  const items: LitItem[] = []
+  const cache: SourceCacheStatus = {}
+  const counts: Partial<Record<LitSource, number>> = {}
+  const failures: string[] = []
+  settled.forEach((r, i) => {
+    if (r.status === 'fulfilled') {
+      items.push(...r.value.value)
+      cache[sources[i]] = r.value.status
+      counts[sources[i]] = r.value.value.length
+    } else {
+      failures.push(r.reason?.message || String(r.reason))
+    }
+  })
+
+  const profile = opts.ranking?.profile || 'balanced'
+  const ranking = { profile, weights: resolveWeights(profile, opts.ranking?.weights) }
+  if (!items.length) {
+    return { items: [], top: [], warning: failures[0] || 'No results', cache, counts, ranking }
+  }
+
+  return { ...dedupeAndRank(items, { ...opts.ranking, query, topN }), warning: undefined, cache, counts, ranking }
+}
@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { buildSearchTerm, esearchPage, PubMedError } from './pubmed'
+
+describe('buildSearchTerm', () => {
+  it('wraps the free-text query', () => {
+    expect(buildSearchTerm('  crispr screen  ')).toBe('(crispr screen)')
+    expect(buildSearchTerm('   ')).toBe('')
+  })
+
+  it('requires every MeSH heading', () => {
+    expect(buildSearchTerm('crispr', { mesh: ['Neoplasms', ' ', ' Gene Editing '] }))
+      .toBe('(crispr) AND "Neoplasms"[MeSH Terms] AND "Gene Editing"[MeSH Terms]')
+  })
+
+  it('accepts any of the publication types', () => {
+    expect(buildSearchTerm('', { publicationTypes: ['Review', 'Randomized Controlled Trial'] }))
+      .toBe('("Review"[Publication Type] OR "Randomized Controlled Trial"[Publication Type])')
+  })
+
+  it('combines the query, MeSH and publication types', () => {
+    expect(buildSearchTerm('sepsis', { mesh: ['Humans'], publicationTypes: ['Meta-Analysis'] }))
+      .toBe('(sepsis) AND "Humans"[MeSH Terms] AND ("Meta-Analysis"[Publication Type])')
+  })
+
+  it('keeps quotes and brackets from breaking out of a field term', () => {
+    expect(buildSearchTerm('', { mesh: ['Neoplasms"[All Fields] OR "x'] }))
+      .toBe('"Neoplasms All Fields OR x"[MeSH Terms]')
+    expect(buildSearchTerm('', { publicationTypes: ['Review]'] })).toBe('("Review"[Publication Type])')
+  })
+
+  it('leaves dates to the esearch parameters', () => {
+    expect(buildSearchTerm('sepsis', { dateFrom: '2020', dateTo: '2021' })).toBe('(sepsis)')
+  })
+})
+
+describe('esearchPage date filters', () => {
+  const requested: URL[] = []
+
+  beforeEach(() => {
+    requested.length = 0
+    vi.stubGlobal('fetch', async (input: string) => {
+      requested.push(new URL(input))
+      return Response.json({ esearchresult: { count: '0', idlist: [] } })
+    })
+  })
+  afterEach(() => { vi.unstubAllGlobals() })
+
+  const dates = () => {
+    const p = requested[requested.length - 1].searchParams
+    return { datetype: p.get('datetype'), mindate: p.get('mindate'), maxdate: p.get('maxdate') }
+  }
+
+  it('sends no date range unless one is given', async () => {
+    await esearchPage('sepsis')
+    expect(dates()).toEqual({ datetype: null, mindate: null, maxdate: null })
+  })
+
+  it('opens the missing end of the range and defaults to the publication date', async () => {
+    await esearchPage('sepsis', { filters: { dateFrom: '2020-03' } })
+    expect(dates()).toEqual({ datetype: 'pdat', mindate: '2020/03', maxdate: '3000' })
+    await esearchPage('sepsis', { filters: { dateTo: '2021/12/31', dateType: 'edat' } })
+    expect(dates()).toEqual({ datetype: 'edat', mindate: '1800', maxdate: '2021/12/31' })
+  })
+
+  it('rejects malformed dates', async () => {
+    await expect(esearchPage('sepsis', { filters: { dateFrom: 'last year' } })).rejects.toThrow(PubMedError)
+    expect(requested).toEqual([])
+  })
+
+  it('rejects a search with nothing to search for', async () => {
+    await expect(esearchPage(' ', { filters: { mesh: [' '] } })).rejects.toThrow('Provide a query, MeSH term or publication type')
+  })
+})
@@ -0,0 +1,336 @@
+import { cached, type CacheStatus } from './cache'
+import { medlineByPMID, meshDescriptors, type Grant, type MedlineAuthor, type MedlineRecord } from './medline'
+
+/**
+ * PubMed over NCBI E-utilities (esearch / esummary / efetch).
+ * Shared by /api/pubmed and saved-search reruns.
+ */
+
+/** ------------ ENV (optional but recommended) ------------ */
+const NCBI_API = process.env.NCBI_API // your E-utilities key
+const NCBI_EMAIL = process.env.NCBI_EMAIL || ''
+const NCBI_TOOL = process.env.NCBI_TOOL || 'colab-app'
+
+/** NCBI allows 10 requests/second per API key and 3/second without one */
+const NCBI_INTERVAL_MS = NCBI_API ? 110 : 350
+/** esummary/efetch ids per request (ids are POSTed, so URL length is not the limit) */
+export const PUBMED_BATCH_MAX = 200
+/** esearch cannot page past the first 10,000 records of a query */
+export const PUBMED_RESULT_WINDOW = 10_000
+
+export class PubMedError extends Error {
+  constructor(message: string, public status = 400) { super(message) }
+}
+
+/** ------------ Helpers ------------ */
+export const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms))
+
+/**
+ * Space out E-utilities calls made by this server instance. Callers reserve
+ * the next free slot synchronously, so concurrent searches queue up instead
+ * of bursting past the key's limit.
+ */
+let nextSlot = 0
+async function ncbiThrottle() {
+  const now = Date.now()
+  const at = Math.max(now, nextSlot)
+  nextSlot = at + NCBI_INTERVAL_MS
+  if (at > now) await sleep(at - now)
+}
+
+function ncbiParams(params: Record<string, string | number | undefined>) {
+  const out = new URLSearchParams()
+  for (const [k, v] of Object.entries(params)) {
+    if (v !== undefined && v !== null && v !== '') out.set(k, String(v))
+  }
+  if (NCBI_API) out.set('api_key', NCBI_API)
+  if (NCBI_EMAIL) out.set('email', NCBI_EMAIL)
+  if (NCBI_TOOL) out.set('tool', NCBI_TOOL)
+  return out
+}
+
+function ncbiUrl(path: string, params: Record<string, string | number | undefined>) {
+  return `https://eutils.ncbi.nlm.nih.gov/entrez/eutils/${path}?${ncbiParams(params)}`
+}
+
+/** Same request as a form POST; E-utilities accept this for long id lists */
+function ncbiPost(path: string, params: Record<string, string | number | undefined>): [string, RequestInit] {
+  return [
+    `https://eutils.ncbi.nlm.nih.gov/entrez/eutils/${path}`,
+    { method: 'POST', headers: { 'Content-Type': 'application/x-www-form-urlencoded' }, body: ncbiParams(params).toString() },
+  ]
+}
+
+/** Throttled fetch; a 429 (limit hit by another instance) is retried twice with backoff */
+async function ncbiFetch(url: string, init: RequestInit = {}) {
+  for (let attempt = 0; ; attempt++) {
+    await ncbiThrottle()
+    const res = await fetch(url, { ...init, next: { revalidate: 0 } } as RequestInit)
+    if (res.status !== 429 || attempt >= 2) return res
+    await sleep(1000 * (attempt + 1))
+  }
+}
+
+async function fetchJsonGuard(url: string, init: RequestInit = {}) {
+  const res = await ncbiFetch(url, { ...init, headers: { Accept: 'application/json', ...(init.headers as Record<string, string>) } })
+  const ct = res.headers.get('content-type') || ''
+  const raw = await res.text()
+  if (!res.ok) throw new Error(`HTTP ${res.status}: ${raw.slice(0, 300)}`)
+  if (!/application\/json/i.test(ct)) {
+    if (/<!DOCTYPE|<html/i.test(raw)) throw new Error('NCBI returned HTML (likely an error page)')
+    try { return JSON.parse(raw) } catch { throw new Error('Response not valid JSON') }
+  }
+  try { return JSON.parse(raw) } catch { throw new Error('Response not valid JSON') }
+}
+
+async function fetchTextGuard(url: string, init: RequestInit = {}) {
+  const res = await ncbiFetch(url, { ...init, headers: { Accept: 'text/plain', ...(init.headers as Record<string, string>) } })
+  const raw = await res.text()
+  if (!res.ok) throw new Error(`HTTP ${res.status}: ${raw.slice(0, 300)}`)
+  if (/<!DOCTYPE|<html/i.test(raw)) throw new Error('NCBI returned HTML (likely an error page)')
+  return raw
+}
+
+/** ------------ Types ------------ */
+export type Paper = {
+  pmid: string
+  title: string
+  journal?: string
+  year?: string
+  /** every author, short form ("Smith JA") */
+  authors?: string[]
+  doi?: string
+  url: string
+  abstract?: string
+  /** full names with affiliations, from the MEDLINE record */
+  authorDetails?: MedlineAuthor[]
+  /** MeSH descriptors, major topics first */
+  mesh?: string[]
+  /** the subset of `mesh` marked as major topics */
+  meshMajor?: string[]
+  keywords?: string[]
+  publicationTypes?: string[]
+  affiliations?: string[]
+  grants?: Grant[]
+}
+
+/** ------------ E-utilities minimal flow (single paper) ------------ */
+export async function esearchFirstPMID(query: string): Promise<string | null> {
+  const url = ncbiUrl('esearch.fcgi', {
+    db: 'pubmed',
+    term: `${query} [Title/Abstract]`,
+    retmode: 'json',
+    retmax: 1,
+    sort: 'relevance',
+  })
+  const data = await fetchJsonGuard(url)
+  const id = data?.esearchresult?.idlist?.[0]
+  return id || null
+}
+
+export async function esummaryOne(pmid: string) {
+  const url = ncbiUrl('esummary.fcgi', { db: 'pubmed', retmode: 'json', id: pmid })
+  const data = await fetchJsonGuard(url)
+  return data?.result?.[pmid] || {}
+}
+
+export async function efetchRecordOne(pmid: string): Promise<MedlineRecord | undefined> {
+  const url = ncbiUrl('efetch.fcgi', {
+    db: 'pubmed',
+    retmode: 'text',
+    rettype: 'medline',
+    id: pmid,
+  })
+  const txt = await fetchTextGuard(url)
+  return medlineByPMID(txt)[pmid]
+}
+
+/** esummary supplies the citation basics; the MEDLINE record (when fetched) adds indexing and full author data */
+export function buildPaper(pmid: string, s: any, rec?: MedlineRecord): Paper {
+  const summaryAuthors: string[] =
+    (Array.isArray(s?.authors) ? s.authors : [])
+      .map((a: any) => a?.name)
+      .filter(Boolean)
+  const authors = rec?.authors.length ? rec.authors.map(a => a.short) : summaryAuthors
+
+  let doi: string | undefined
+  if (Array.isArray(s?.articleids)) {
+    const doiObj = s.articleids.find((x: any) => (x?.idtype || '').toLowerCase() === 'doi')
+    doi = doiObj?.value
+  }
+
+  let year: string | undefined
+  if (typeof s?.pubdate === 'string') {
+    const m = s.pubdate.match(/\b(19|20)\d{2}\b/)
+    if (m) year = m[0]
+  }
+
+  return {
+    pmid,
+    title: s?.title || rec?.title || '',
+    journal: s?.fulljournalname || s?.source || rec?.journal || '',
+    year: year || rec?.year,
+    authors,
+    doi: doi || rec?.doi,
+    url: `https://pubmed.ncbi.nlm.nih.gov/${pmid}/`,
+    abstract: rec?.abstract || undefined,
+    ...(rec && {
+      authorDetails: rec.authors,
+      mesh: meshDescriptors(rec.mesh),
+      meshMajor: Array.from(new Set(rec.mesh.filter(m => m.major).map(m => m.descriptor))),
+      keywords: rec.keywords,
+      publicationTypes: rec.publicationTypes,
+      affiliations: rec.affiliations,
+      grants: rec.grants,
+    }),
+  }
+}
+
+/** ------------ Paginated search ------------ */
+export const PUBMED_SORTS = ['relevance', 'pub_date', 'first_author', 'journal'] as const
+export type PubMedSort = typeof PUBMED_SORTS[number]
+const ESEARCH_SORT: Record<PubMedSort, string> = {
+  relevance: 'relevance', // PubMed "Best Match"
+  pub_date: 'pub_date',
+  first_author: 'Author',
+  journal: 'JournalName',
+}
+
+/** Date fields esearch can restrict on: publication, Entrez (added) and modification date */
+export const PUBMED_DATE_TYPES = ['pdat', 'edat', 'mdat'] as const
+export type PubMedDateType = typeof PUBMED_DATE_TYPES[number]
+
+export type PubMedFilters = {
+  /** MeSH headings; every one must match (exploded, i.e. narrower terms included) */
+  mesh?: string[]
+  /** publication types such as "Review" or "Randomized Controlled Trial"; any may match */
+  publicationTypes?: string[]
+  /** YYYY, YYYY/MM or YYYY/MM/DD; either end may be left open */
+  dateFrom?: string
+  dateTo?: string
+  dateType?: PubMedDateType
+}
+
+export type PubMedSearchOptions = {
+  retstart?: number
+  retmax?: number
+  sort?: PubMedSort
+  filters?: PubMedFilters
+}
+
+export type PubMedPage = {
+  papers: Paper[]
+  /** total hits for the query (only the first PUBMED_RESULT_WINDOW are pageable) */
+  total: number
+  retstart: number
+  retmax: number
+  /** the query as PubMed interpreted it, e.g. with automatic term mapping */
+  translation?: string
+  /** how the literature cache answered */
+  cache?: CacheStatus
+}
+
+const fieldTerm = (value: string, field: string) => `"${value.replace(/["[\]]/g, ' ').replace(/\s+/g, ' ').trim()}"[${field}]`
+
+function normDate(v: string | undefined, label: string) {
+  const s = (v || '').trim().replace(/-/g, '/')
+  if (!s) return undefined
+  if (!/^\d{4}(\/\d{1,2}(\/\d{1,2})?)?$/.test(s)) throw new PubMedError(`${label} must look like YYYY, YYYY/MM or YYYY/MM/DD`)
+  return s
+}
+
+/** Free-text query combined with MeSH and publication-type clauses */
+export function buildSearchTerm(query: string, filters: PubMedFilters = {}) {
+  const parts: string[] = []
+  if (query.trim()) parts.push(`(${query.trim()})`)
+  for (const m of (filters.mesh || []).map(x => x.trim()).filter(Boolean)) parts.push(fieldTerm(m, 'MeSH Terms'))
+  const types = (filters.publicationTypes || []).map(x => x.trim()).filter(Boolean)
+  if (types.length) parts.push(`(${types.map(t => fieldTerm(t, 'Publication Type')).join(' OR ')})`)
+  return parts.join(' AND ')
+}
+
+/** One page of PMIDs in the requested order */
+export async function esearchPage(query: string, opts: PubMedSearchOptions = {}) {
+  const filters = opts.filters || {}
+  const term = buildSearchTerm(query, filters)
+  if (!term) throw new PubMedError('Provide a query, MeSH term or publication type')
+
+  const retstart = Math.max(0, Math.floor(opts.retstart || 0))
+  const retmax = Math.min(PUBMED_BATCH_MAX, Math.max(1, Math.floor(opts.retmax || 20)))
+  if (retstart >= PUBMED_RESULT_WINDOW) {
+    throw new PubMedError(`PubMed only pages through the first ${PUBMED_RESULT_WINDOW.toLocaleString('en-US')} results; narrow the query`)
+  }
+
+  // esearch needs both ends of a date range
+  const from = normDate(filters.dateFrom, 'dateFrom')
+  const to = normDate(filters.dateTo, 'dateTo')
+  const dated = from || to
+
+  const data = await fetchJsonGuard(ncbiUrl('esearch.fcgi', {
+    db: 'pubmed',
+    term,
+    retmode: 'json',
+    retstart,
+    retmax: Math.min(retmax, PUBMED_RESULT_WINDOW - retstart),
+    sort: ESEARCH_SORT[opts.sort || 'relevance'],
+    datetype: dated ? filters.dateType || 'pdat' : undefined,
+    mindate: dated ? from || '1800' : undefined,
+    maxdate: dated ? to || '3000' : undefined,
+  }))
+  const r = data?.esearchresult
+  if (r?.ERROR) throw new PubMedError(`PubMed: ${r.ERROR}`, 502)
+  return {
+    ids: (r?.idlist || []) as string[],
+    total: Number(r?.count) || 0,
+    retstart,
+    retmax,
+    translation: r?.querytranslation as string | undefined,
+  }
+}
+
+/** Summaries and MEDLINE records for any number of PMIDs, PUBMED_BATCH_MAX per request, in input order */
+export async function fetchPapers(pmids: string[]): Promise<Paper[]> {
+  const ids = Array.from(new Set(pmids.filter(id => /^\d+$/.test(id))))
+  const summaries: Record<string, any> = {}
+  const records: Record<string, MedlineRecord> = {}
+  for (let i = 0; i < ids.length; i += PUBMED_BATCH_MAX) {
+    const id = ids.slice(i, i + PUBMED_BATCH_MAX).join(',')
+    const summary = await fetchJsonGuard(...ncbiPost('esummary.fcgi', { db: 'pubmed', retmode: 'json', id }))
+    Object.assign(summaries, summary?.result || {})
+    const text = await fetchTextGuard(...ncbiPost('efetch.fcgi', { db: 'pubmed', retmode: 'text', rettype: 'medline', id }))
+    Object.assign(records, medlineByPMID(text))
+  }
+  return ids
+    .filter(pmid => summaries[pmid] && !summaries[pmid].error)
+    .map(pmid => buildPaper(pmid, summaries[pmid], records[pmid]))
+}
+
+/** One page of results with papers; pages are cached whole (`refresh` bypasses the read) */
+export async function searchPubMedPage(
+  query: string,
+  opts: PubMedSearchOptions = {},
+  cacheOpts: { refresh?: boolean } = {}
+): Promise<PubMedPage> {
+  const { value, status } = await cached('pubmed', { search: query, ...opts }, async (): Promise<PubMedPage> => {
+    const { ids, total, retstart, retmax, translation } = await esearchPage(query, opts)
+    const papers = ids.length ? await fetchPapers(ids) : []
+    return { papers, total, retstart, retmax, translation }
+  }, cacheOpts)
+  return { ...value, cache: status }
+}
+
+/** Top `max` hits in relevance order */
+export async function searchPubMed(query: string, max = 20, cacheOpts: { refresh?: boolean } = {}): Promise<Paper[]> {
+  return (await searchPubMedPage(query, { retmax: max }, cacheOpts)).papers
+}
+
+/** A single paper by PMID, or the best match for a title/abstract query; null when PubMed has none */
+export async function lookupPaper(by: { pmid: string } | { query: string }) {
+  return cached('pubmed', 'pmid' in by ? { pmid: by.pmid } : { firstMatch: by.query }, async () => {
+    const pmid = 'pmid' in by ? by.pmid : await esearchFirstPMID(by.query)
+    if (!pmid) return null
+    const s = await esummaryOne(pmid)
+    const rec = await efetchRecordOne(pmid)
+    return buildPaper(pmid, s, rec)
+  })
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest'
+import { bm25Scores, explainScore, rankItems, RANKING_FEATURES, RANKING_PROFILES, resolveWeights } from './ranking'
+import type { LitItem } from './sources'
+
+const NOW = 2026
+const QUERY = 'crispr screening'
+
+/** A classic (old, much cited, barely on topic), an on-topic study, and a fresh unrelated preprint */
+const corpus: LitItem[] = [
+  {
+    id: 'classic', source: 'crossref', year: 2006, citationCount: 5000,
+    title: 'Genome engineering in mammalian cells',
+    abstract: 'A review of genome engineering tools, with a brief note on CRISPR.',
+  },
+  {
+    id: 'study', source: 'europepmc', year: 2018, citationCount: 60,
+    title: 'Pooled CRISPR screening identifies essential genes',
+    abstract: 'Genome-wide CRISPR screening in cancer cell lines reveals essential genes.',
+  },
+  {
+    id: 'preprint', source: 'arxiv', year: 2026, citationCount: 0,
+    title: 'Graph neural networks for molecule generation',
+    abstract: 'We generate molecules with graph neural networks.',
+  },
+]
+
+const order = (opts: Parameters<typeof rankItems>[1]) => rankItems(corpus, { query: QUERY, nowYear: NOW, ...opts }).map(x => x.id)
+
+describe('rankItems', () => {
+  it.each([
+    ['relevance', ['study', 'classic', 'preprint']],
+    ['cited', ['classic', 'study', 'preprint']],
+    ['recent', ['preprint', 'study', 'classic']],
+    ['balanced', ['study', 'classic', 'preprint']],
+  ] as const)('orders the corpus for the %s profile', (profile, expected) => {
+    expect(order({ profile })).toEqual(expected)
+  })
+
+  it('orders by custom weights', () => {
+    expect(order({ profile: 'custom', weights: { recency: 1 } })).toEqual(['preprint', 'study', 'classic'])
+    expect(order({ profile: 'custom', weights: { citations: 1 } })).toEqual(['classic', 'study', 'preprint'])
+  })
+
+  it.each(RANKING_PROFILES)('explains %s scores with parts that add up to the score', profile => {
+    for (const { ranking } of rankItems(corpus, { profile, weights: { relevance: 2, recency: 1 }, query: QUERY, nowYear: NOW })) {
+      const total = RANKING_FEATURES.reduce((n, f) => n + ranking.parts[f].weight, 0)
+      const points = RANKING_FEATURES.reduce((n, f) => n + ranking.parts[f].points, 0)
+      expect(points).toBeCloseTo(ranking.score, 2)
+      for (const f of RANKING_FEATURES) {
+        const { value, weight, points } = ranking.parts[f]
+        expect(points).toBeCloseTo((weight * value) / total, 2)
+      }
+    }
+  })
+
+  it('scores citations on a log scale against the best-cited result', () => {
+    const ranked = rankItems(corpus, { profile: 'cited', nowYear: NOW })
+    const value = (id: string) => ranked.find(x => x.id === id)!.ranking.parts.citations.value
+    expect(value('classic')).toBe(1)
+    expect(value('study')).toBeCloseTo(Math.log1p(60) / Math.log1p(5000), 3)
+    expect(value('preprint')).toBe(0)
+  })
+
+  it('halves recency every four years and gives undated items none', () => {
+    const items: LitItem[] = [0, 4, 8].map(age => ({ id: `y${age}`, source: 'crossref', title: 'x', year: NOW - age }))
+    items.push({ id: 'undated', source: 'crossref', title: 'x' })
+    const values = rankItems(items, { profile: 'recent', nowYear: NOW }).map(x => x.ranking.parts.recency.value)
+    expect(values).toEqual([1, 0.5, 0.25, 0])
+  })
+
+  it('scores relevance 0 without a query', () => {
+    const ranked = rankItems(corpus, { profile: 'relevance', nowYear: NOW })
+    expect(ranked.every(x => x.ranking.parts.relevance.value === 0)).toBe(true)
+  })
+
+  it('keeps the incoming order on ties', () => {
+    const same: LitItem[] = ['a', 'b', 'c'].map(id => ({ id, source: 'crossref', title: 'same' }))
+    expect(rankItems(same, { nowYear: NOW }).map(x => x.id)).toEqual(['a', 'b', 'c'])
+  })
+})
+
+describe('bm25Scores', () => {
+  it('scores documents without any query term 0', () => {
+    const scores = bm25Scores(corpus, QUERY)
+    expect(scores[2]).toBe(0)
+    expect(scores[1]).toBeGreaterThan(scores[0])
+    expect(scores[0]).toBeGreaterThan(0)
+  })
+
+  it('counts title terms above abstract terms', () => {
+    const [inTitle, inAbstract] = bm25Scores([
+      { title: 'CRISPR screening', abstract: 'Methods and results.' },
+      { title: 'Methods and results', abstract: 'CRISPR screening.' },
+    ], QUERY)
+    expect(inTitle).toBeGreaterThan(inAbstract)
+  })
+
+  it('ignores case, accents and stopwords', () => {
+    const [a, b] = bm25Scores([{ title: 'Café CRISPR' }, { title: 'cafe crispr' }], 'the CAFÉ of crispr')
+    expect(a).toBeCloseTo(b, 10)
+    expect(bm25Scores(corpus, 'the of and')).toEqual([0, 0, 0])
+  })
+})
+
+describe('resolveWeights', () => {
+  it('clamps custom weights and falls back to balanced when all are zero', () => {
+    expect(resolveWeights('custom', { relevance: 50, citations: -1 })).toEqual({ relevance: 10, citations: 0, recency: 0 })
+    expect(resolveWeights('custom', {})).toEqual(resolveWeights('balanced'))
+  })
+})
+
+describe('explainScore', () => {
+  it('lists weighted features, largest contribution first', () => {
+    const [top] = rankItems(corpus, { profile: 'cited', query: QUERY, nowYear: NOW })
+    expect(explainScore(top.ranking)).toMatch(/^Citations \d\.\d\d · Relevance \d\.\d\d$/)
+  })
+})
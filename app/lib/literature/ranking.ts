@@ -0,0 +1,157 @@
+import type { LitItem } from './sources'
+
+/**
+ * Ranking for merged literature results. Each item gets three features in
+ * [0, 1] — citations (log-scaled against the best-cited result), recency
+ * (halving every RECENCY_HALF_LIFE years) and query relevance (BM25 over title
+ * and abstract, scaled against the best match) — and its score is their
+ * weighted mean. Profiles are preset weights; `custom` takes caller weights.
+ * Client-safe, so the UI can label profiles and render explanations.
+ */
+
+export const RANKING_FEATURES = ['relevance', 'citations', 'recency'] as const
+export type RankingFeature = typeof RANKING_FEATURES[number]
+export type RankingWeights = Record<RankingFeature, number>
+
+export const RANKING_PROFILES = ['balanced', 'relevance', 'cited', 'recent', 'custom'] as const
+export type RankingProfile = typeof RANKING_PROFILES[number]
+
+export const PROFILE_WEIGHTS: Record<Exclude<RankingProfile, 'custom'>, RankingWeights> = {
+  balanced: { relevance: 1, citations: 1, recency: 1 },
+  relevance: { relevance: 1, citations: 0.15, recency: 0.15 },
+  cited: { relevance: 0.3, citations: 1, recency: 0 },
+  recent: { relevance: 0.3, citations: 0.1, recency: 1 },
+}
+
+export const RANKING_PROFILE_LABELS: Record<RankingProfile, string> = {
+  balanced: 'Balanced',
+  relevance: 'Query relevance',
+  cited: 'Highly cited',
+  recent: 'Recent',
+  custom: 'Custom weights',
+}
+
+export const RANKING_FEATURE_LABELS: Record<RankingFeature, string> = {
+  relevance: 'Relevance',
+  citations: 'Citations',
+  recency: 'Recency',
+}
+
+export type RankingOptions = {
+  profile?: RankingProfile
+  /** used when profile is "custom"; missing features weigh 0 */
+  weights?: Partial<RankingWeights>
+  /** needed for relevance; without it relevance scores 0 */
+  query?: string
+  nowYear?: number
+}
+
+export type ScoreExplanation = {
+  /** weighted mean of the features, 0–1 */
+  score: number
+  /** per feature: its value (0–1), weight, and points contributed to `score` */
+  parts: Record<RankingFeature, { value: number; weight: number; points: number }>
+}
+
+export type RankedLitItem = LitItem & { ranking: ScoreExplanation }
+
+const RECENCY_HALF_LIFE = 4
+const MAX_WEIGHT = 10
+const BM25_K1 = 1.2
+const BM25_B = 0.75
+
+/** Weights for a profile, with custom weights clamped to 0–MAX_WEIGHT */
+export function resolveWeights(profile: RankingProfile = 'balanced', weights?: Partial<RankingWeights>): RankingWeights {
+  if (profile !== 'custom') return PROFILE_WEIGHTS[profile]
+  const w = {} as RankingWeights
+  for (const f of RANKING_FEATURES) {
+    const n = Number(weights?.[f])
+    w[f] = Number.isFinite(n) ? Math.min(MAX_WEIGHT, Math.max(0, n)) : 0
+  }
+  // all-zero custom weights would make every score 0; fall back to equal weights
+  return RANKING_FEATURES.some(f => w[f] > 0) ? w : PROFILE_WEIGHTS.balanced
+}
+
+const STOPWORDS = new Set('a an and are as at be by for from in into is it of on or that the this to with via using'.split(' '))
+
+const tokenize = (s?: string | null) =>
+  (s || '')
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9\s-]/g, ' ')
+    .split(/[\s-]+/)
+    .filter(t => t.length > 1 && !STOPWORDS.has(t))
+
+/**
+ * BM25 of the query against each item's title + abstract, with the result set
+ * itself as the corpus. Title terms count twice.
+ */
+export function bm25Scores(items: Pick<LitItem, 'title' | 'abstract'>[], query: string): number[] {
+  const terms = Array.from(new Set(tokenize(query)))
+  if (!terms.length || !items.length) return items.map(() => 0)
+
+  const docs = items.map(x => {
+    const title = tokenize(x.title)
+    const tokens = [...title, ...title, ...tokenize(x.abstract)]
+    const tf = new Map<string, number>()
+    for (const t of tokens) tf.set(t, (tf.get(t) || 0) + 1)
+    return { tf, len: tokens.length }
+  })
+  const avgLen = docs.reduce((n, d) => n + d.len, 0) / docs.length || 1
+  const N = docs.length
+  const idf = new Map(terms.map(t => {
+    const df = docs.filter(d => d.tf.has(t)).length
+    return [t, Math.log(1 + (N - df + 0.5) / (df + 0.5))]
+  }))
+
+  return docs.map(d => terms.reduce((sum, t) => {
+    const f = d.tf.get(t) || 0
+    if (!f) return sum
+    return sum + idf.get(t)! * (f * (BM25_K1 + 1)) / (f + BM25_K1 * (1 - BM25_B + BM25_B * d.len / avgLen))
+  }, 0))
+}
+
+/** Score and sort items (best first), explaining each score */
+export function rankItems(items: LitItem[], opts: RankingOptions = {}): RankedLitItem[] {
+  const weights = resolveWeights(opts.profile, opts.weights)
+  const total = RANKING_FEATURES.reduce((n, f) => n + weights[f], 0)
+  const nowYear = opts.nowYear ?? new Date().getFullYear()
+
+  const relevance = weights.relevance > 0 && opts.query ? bm25Scores(items, opts.query) : items.map(() => 0)
+  const maxRel = Math.max(0, ...relevance)
+  const maxCites = Math.max(0, ...items.map(x => x.citationCount || 0))
+
+  const ranked = items.map((item, i) => {
+    const values: Record<RankingFeature, number> = {
+      relevance: maxRel > 0 ? relevance[i] / maxRel : 0,
+      citations: maxCites > 0 ? Math.log1p(Math.max(0, item.citationCount || 0)) / Math.log1p(maxCites) : 0,
+      recency: item.year ? Math.pow(0.5, Math.max(0, nowYear - item.year) / RECENCY_HALF_LIFE) : 0,
+    }
+    const parts = {} as ScoreExplanation['parts']
+    let score = 0
+    for (const f of RANKING_FEATURES) {
+      const points = total > 0 ? (weights[f] * values[f]) / total : 0
+      parts[f] = { value: round(values[f]), weight: weights[f], points: round(points) }
+      score += points
+    }
+    return { ...item, ranking: { score: round(score), parts } }
+  })
+
+  // ties keep the incoming order
+  return ranked
+    .map((x, i) => ({ x, i }))
+    .sort((a, b) => b.x.ranking.score - a.x.ranking.score || a.i - b.i)
+    .map(({ x }) => x)
+}
+
+const round = (n: number) => Math.round(n * 1000) / 1000
+
+/** "Relevance 0.42 · Citations 0.21 · Recency 0.10" — the largest contributions first */
+export function explainScore(e: ScoreExplanation) {
+  return RANKING_FEATURES
+    .filter(f => e.parts[f].weight > 0)
+    .sort((a, b) => e.parts[b].points - e.parts[a].points)
+    .map(f => `${RANKING_FEATURE_LABELS[f]} ${e.parts[f].points.toFixed(2)}`)
+    .join(' · ')
+}
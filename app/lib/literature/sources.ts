@@ -0,0 +1,36 @@
+/**
+ * Literature sources the multi-source search can query, and the item shape
+ * every adapter maps its results to. Client-safe: no fetching here.
+ */
+
+export const LIT_SOURCES = ['crossref', 'arxiv', 's2', 'europepmc', 'openalex', 'biorxiv'] as const
+export type LitSource = typeof LIT_SOURCES[number]
+
+export const LIT_SOURCE_LABELS: Record<LitSource, string> = {
+  crossref: 'Crossref',
+  arxiv: 'arXiv',
+  s2: 'Semantic Scholar',
+  europepmc: 'Europe PMC',
+  openalex: 'OpenAlex',
+  biorxiv: 'bioRxiv / medRxiv',
+}
+
+export const isLitSource = (v: unknown): v is LitSource => LIT_SOURCES.includes(v as LitSource)
+
+export type LitItem = {
+  id: string
+  source: LitSource
+  title: string
+  year?: number
+  authors?: string[]
+  abstract?: string
+  doi?: string
+  url?: string
+  /** journal, or the preprint server for bioRxiv / medRxiv */
+  venue?: string
+  /** free full text (HTML or PDF) when the source knows one */
+  oaUrl?: string
+  citationCount?: number
+  /** DOI, arXiv, S2, PMID, PMCID, OpenAlex — whichever the source reports */
+  externalIds?: Record<string, string>
+}
@@ -0,0 +1,72 @@
+import { readSSE } from '../sse'
+import { errorFromResponse, LLMError, toLLMError, type ChatMessage, type GenerateRequest, type LLMProvider } from './types'
+
+/** Google Gemini over REST. Env: GEMINI_API_KEY, GEMINI_MODEL (default gemini-2.0-flash) */
+
+const API = 'https://generativelanguage.googleapis.com/v1beta/models'
+
+const partsText = (data: any): string =>
+  data?.candidates?.[0]?.content?.parts?.map((p: any) => p.text).join('') || ''
+
+// system turns become systemInstruction; assistant turns are "model" in Gemini
+function toGeminiBody({ messages, params = {} }: GenerateRequest) {
+  const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n')
+  const contents = messages
+    .filter((m): m is ChatMessage & { role: 'user' | 'assistant' } => m.role !== 'system' && !!m.content)
+    .map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] }))
+  return {
+    ...(system ? { systemInstruction: { parts: [{ text: system }] } } : {}),
+    contents,
+    generationConfig: params,
+  }
+}
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini' as const
+
+  constructor(
+    private apiKey = process.env.GEMINI_API_KEY || '',
+    readonly model = process.env.GEMINI_MODEL || 'gemini-2.0-flash'
+  ) {
+    if (!this.apiKey) throw new LLMError('Missing GEMINI_API_KEY', 'config', 500)
+  }
+
+  private async post(method: 'generateContent' | 'streamGenerateContent', req: GenerateRequest) {
+    const qs = method === 'streamGenerateContent' ? `alt=sse&key=${this.apiKey}` : `key=${this.apiKey}`
+    let res: Response
+    try {
+      res = await fetch(`${API}/${this.model}:${method}?${qs}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(toGeminiBody(req)),
+        signal: req.signal,
+      })
+    } catch (e) {
+      throw toLLMError(e)
+    }
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}))
+      throw errorFromResponse('Gemini', res.status, data?.error?.message)
+    }
+    return res
+  }
+
+  async generate(req: GenerateRequest) {
+    const res = await this.post('generateContent', req)
+    const data = await res.json()
+    return { text: partsText(data) }
+  }
+
+  async *stream(req: GenerateRequest) {
+    const res = await this.post('streamGenerateContent', req)
+    if (!res.body) throw new LLMError('Gemini returned no stream', 'upstream')
+    try {
+      for await (const { data } of readSSE(res.body)) {
+        const delta = partsText(JSON.parse(data))
+        if (delta) yield delta
+      }
+    } catch (e) {
+      throw toLLMError(e)
+    }
+  }
+}
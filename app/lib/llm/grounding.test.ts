@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest'
+import { type AnswerSegment, citationNumbers, parseCitations } from './grounding'
+
+describe('citationNumbers', () => {
+  it.each([
+    ['[1]', [1]],
+    ['[1, 2]', [1, 2]],
+    ['[ 1,2 ]', [1, 2]],
+    ['[1-3]', [1, 2, 3]],
+    ['[2–4]', [2, 3, 4]],
+    ['[#2]', [2]],
+    ['[#1-#3]', [1, 2, 3]],
+    ['[1; 4]', [1, 4]],
+    ['[1 and 4]', [1, 4]],
+    ['[1, 3-5; 7]', [1, 3, 4, 5, 7]],
+    // a reversed or very wide range is read as its two ends
+    ['[5-2]', [5, 2]],
+    ['[1-40]', [1, 40]],
+  ])('%s cites %j', (marker, expected) => {
+    expect(citationNumbers(marker)).toEqual(expected)
+  })
+})
+
+const text = (t: string): AnswerSegment => ({ type: 'text', text: t })
+const cite = (...ids: number[]): AnswerSegment => ({ type: 'cite', ids })
+
+describe('parseCitations', () => {
+  it.each([
+    {
+      name: 'a single citation',
+      answer: 'CRISPR works [1].',
+      segments: [text('CRISPR works '), cite(1), text('.')],
+      cited: [1], invalid: [],
+    },
+    {
+      name: 'lists, ranges, hashes and semicolons',
+      answer: 'A [1, 2], B [1-3], C [#2] and D [1; 4].',
+      segments: [text('A '), cite(1, 2), text(', B '), cite(1, 2, 3), text(', C '), cite(2), text(' and D '), cite(1, 4), text('.')],
+      cited: [1, 2, 3, 4], invalid: [],
+    },
+    {
+      name: 'adjacent markers merged into one run',
+      answer: 'Shown twice [1][2][1].',
+      segments: [text('Shown twice '), cite(1, 2), text('.')],
+      cited: [1, 2], invalid: [],
+    },
+    {
+      name: 'out-of-range numbers dropped from a marker',
+      answer: 'Mixed [2, 9].',
+      segments: [text('Mixed '), cite(2), text('.')],
+      cited: [2], invalid: [9],
+    },
+    {
+      name: 'a marker citing nothing valid removed with the space before it',
+      answer: 'Claim [0]. Other [7-8].',
+      segments: [text('Claim. Other.')],
+      cited: [], invalid: [0, 7, 8],
+    },
+    {
+      name: 'an invalid marker next to a valid run',
+      answer: 'Run [1][6] here.',
+      segments: [text('Run '), cite(1), text(' here.')],
+      cited: [1], invalid: [6],
+    },
+    {
+      name: 'brackets that are not citations',
+      answer: 'See the array [a, b] and [].',
+      segments: [text('See the array [a, b] and [].')],
+      cited: [], invalid: [],
+    },
+  ])('splits $name', ({ answer, segments, cited, invalid }) => {
+    const res = parseCitations(answer, 4)
+    expect(res.segments).toEqual(segments)
+    expect(res.report).toEqual({ cited, invalid, ungrounded: cited.length === 0 })
+  })
+})
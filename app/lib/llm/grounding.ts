@@ -0,0 +1,180 @@
+import type { ChatMessage } from './types'
+
+/**
+ * Grounded answers: the model gets a numbered list of retrieved papers and
+ * must cite them as [n]. The server checks every citation against that list
+ * and returns the answer as segments (text and citation runs), so the client
+ * can link each [n] to its paper. Safe to import from client code.
+ */
+
+/** A paper as the client sends it; the shape of a multi-source `LitItem` */
+export interface GroundingPaper {
+  title: string
+  year?: number
+  authors?: string[]
+  abstract?: string
+  doi?: string
+  url?: string
+  venue?: string
+  externalIds?: Record<string, string>
+}
+
+export interface GroundedSource {
+  /** the number the model cites, 1-based in the order given */
+  n: number
+  /** stable identity across requests: doi:, arxiv:, pmid: or t: (normalized title) */
+  id: string
+  title: string
+  year?: number
+  authors?: string[]
+  venue?: string
+  doi?: string
+  url?: string
+}
+
+export type AnswerSegment =
+  | { type: 'text'; text: string }
+  | { type: 'cite'; ids: number[] }
+
+export interface GroundingReport {
+  /** source numbers the answer cites, ascending */
+  cited: number[]
+  /** numbers the model cited that are not in the source list; removed from the segments */
+  invalid: number[]
+  /** true when the answer cites nothing valid */
+  ungrounded: boolean
+}
+
+export const MAX_GROUNDING_SOURCES = 20
+const ABSTRACT_CHARS = 1500
+const CONTEXT_CHARS = 14000
+
+const clean = (v: unknown, max: number) => (typeof v === 'string' && v.trim() ? v.trim().slice(0, max) : undefined)
+const bareDoi = (doi: string) => doi.replace(/^https?:\/\/(dx\.)?doi\.org\//i, '')
+
+/** doi:/arxiv:/pmid: when the paper has one, else its normalized title */
+export function sourceId(p: GroundingPaper): string {
+  const doi = bareDoi((p.doi || p.externalIds?.DOI || '').trim()).toLowerCase()
+  if (doi) return `doi:${doi}`
+  const arxiv = (p.externalIds?.arXiv || '').trim().toLowerCase().replace(/v\d+$/, '')
+  if (arxiv) return `arxiv:${arxiv}`
+  const pmid = (p.externalIds?.PMID || '').trim()
+  if (pmid) return `pmid:${pmid}`
+  return `t:${p.title.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()}`
+}
+
+/** Number the papers a request supplied (untrusted input), dropping ones without a title */
+export function readGroundingPapers(input: unknown): { sources: GroundedSource[]; abstracts: string[] } {
+  const sources: GroundedSource[] = []
+  const abstracts: string[] = []
+  for (const raw of (Array.isArray(input) ? input : []).slice(0, MAX_GROUNDING_SOURCES)) {
+    const title = clean(raw?.title, 500)
+    if (!title) continue
+    const year = Number(raw?.year)
+    const paper: GroundingPaper = {
+      title,
+      year: Number.isInteger(year) ? year : undefined,
+      authors: Array.isArray(raw?.authors) ? raw.authors.map((a: unknown) => clean(a, 120)).filter(Boolean).slice(0, 10) : undefined,
+      doi: clean(raw?.doi, 300) && bareDoi(raw.doi.trim()),
+      url: clean(raw?.url, 1000),
+      venue: clean(raw?.venue, 300),
+      externalIds: raw?.externalIds && typeof raw.externalIds === 'object'
+        ? Object.fromEntries(Object.entries(raw.externalIds).filter(([, v]) => typeof v === 'string').map(([k, v]) => [k, (v as string).slice(0, 200)]))
+        : undefined,
+    }
+    const { externalIds: _ids, ...rest } = paper
+    sources.push({ ...rest, n: sources.length + 1, id: sourceId(paper) })
+    abstracts.push(clean(raw?.abstract, ABSTRACT_CHARS) || '')
+  }
+  return { sources, abstracts }
+}
+
+const sourceLine = (s: GroundedSource) => {
+  const authors = s.authors?.length ? `${s.authors.slice(0, 3).join(', ')}${s.authors.length > 3 ? ' et al.' : ''}` : 'Unknown authors'
+  return `[${s.n}] ${s.title}${s.year ? ` (${s.year})` : ''} — ${authors}${s.venue ? ` — ${s.venue}` : ''}${s.doi ? ` — doi:${s.doi}` : ''}`
+}
+
+/** System rules plus the numbered source list (abstracts trimmed to fit CONTEXT_CHARS) */
+export function groundingMessages(sources: GroundedSource[], abstracts: string[]): ChatMessage[] {
+  let context = ''
+  sources.forEach((s, i) => {
+    const block = `${sourceLine(s)}\nAbstract: ${abstracts[i] || 'N/A'}`
+    // keep every source listed even when its abstract no longer fits
+    context += (context ? '\n\n' : '') + ((context + block).length > CONTEXT_CHARS ? sourceLine(s) : block)
+  })
+  return [
+    {
+      role: 'system',
+      content: [
+        `Answer only from the ${sources.length} numbered sources below.`,
+        `Cite them inline with square-bracketed numbers, e.g. [2] or [1, 3]; only the numbers 1–${sources.length} exist.`,
+        'Every sentence stating a finding needs a citation. If the sources do not support an answer, say so instead of guessing.',
+        'Do not add a reference list; the numbers are linked for the reader.',
+      ].join(' '),
+    },
+    { role: 'user', content: `SOURCES:\n${context}` },
+  ]
+}
+
+// [1] · [1, 2] · [1-3] · [#2] · [1; 4]
+const CITATION = /\[\s*#?\d+(?:\s*(?:[,;–-]|and)\s*#?\d+)*\s*\]/g
+
+/** The source numbers one marker cites, in order, ranges expanded */
+export function citationNumbers(marker: string): number[] {
+  const out: number[] = []
+  const parts = marker.slice(1, -1).split(/\s*(?:[,;]|and)\s*/)
+  for (const part of parts) {
+    const range = part.match(/^#?(\d+)\s*[–-]\s*#?(\d+)$/)
+    if (range) {
+      const [a, b] = [Number(range[1]), Number(range[2])]
+      // a wide range is more likely a typo than a citation run
+      if (b >= a && b - a <= 20) for (let k = a; k <= b; k++) out.push(k)
+      else out.push(a, b)
+    } else {
+      const k = Number(part.replace(/^#/, '').trim())
+      if (Number.isInteger(k)) out.push(k)
+    }
+  }
+  return out
+}
+
+/**
+ * Split an answer into text and citation segments, keeping only citations of
+ * numbers 1..`sourceCount`. Adjacent markers ("[1][2]") merge into one run.
+ */
+export function parseCitations(text: string, sourceCount: number): { segments: AnswerSegment[]; report: GroundingReport } {
+  const segments: AnswerSegment[] = []
+  const cited = new Set<number>()
+  const invalid = new Set<number>()
+  const pushText = (t: string) => {
+    if (!t) return
+    const last = segments[segments.length - 1]
+    if (last?.type === 'text') last.text += t
+    else segments.push({ type: 'text', text: t })
+  }
+
+  let at = 0
+  for (const m of Array.from(text.matchAll(CITATION))) {
+    const start = m.index ?? 0
+    const between = text.slice(at, start)
+    at = start + m[0].length
+    const ids = citationNumbers(m[0]).filter(k => {
+      const ok = k >= 1 && k <= sourceCount
+      if (!ok) invalid.add(k)
+      return ok
+    })
+    ids.forEach(k => cited.add(k))
+    const last = segments[segments.length - 1]
+    if (!between && last?.type === 'cite') {
+      if (ids.length) last.ids = Array.from(new Set([...last.ids, ...ids]))
+      continue
+    }
+    // a marker that cited nothing valid disappears along with the space before it
+    pushText(ids.length ? between : between.replace(/\s+$/, ''))
+    if (ids.length) segments.push({ type: 'cite', ids: Array.from(new Set(ids)) })
+  }
+  pushText(text.slice(at))
+
+  const sorted = (s: Set<number>) => Array.from(s).sort((a, b) => a - b)
+  return { segments, report: { cited: sorted(cited), invalid: sorted(invalid), ungrounded: cited.size === 0 } }
+}
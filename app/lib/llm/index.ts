@@ -0,0 +1,43 @@
+import { createAdminSupabase } from '../supabase-admin'
+import { GeminiProvider } from './gemini'
+import { MockProvider } from './mock'
+import { OpenAICompatibleProvider } from './openai'
+import { LLM_PROVIDERS, LLMError, SELECTABLE_LLM_PROVIDERS, type GenerationParams, type LLMProvider, type LLMProviderName } from './types'
+
+export * from './types'
+
+/** Generation parameters per use, shared by every provider */
+export const GENERATION_PRESETS = {
+  /** AI Co-Pilot answers and literature analyses (/api/ai) */
+  copilot: { temperature: 0.3, maxOutputTokens: 2048 },
+  /** Conversational research assistant (/api/ai-chat) */
+  chat: { temperature: 0.7, topK: 40, topP: 0.95, maxOutputTokens: 1024 },
+  /** Systematic review write-ups (/api/colabs/[id]/reviews/[reviewId]/synthesis) */
+  review: { temperature: 0.2, maxOutputTokens: 4096 },
+} satisfies Record<string, GenerationParams>
+
+const isProviderName = (v: unknown): v is LLMProviderName =>
+  typeof v === 'string' && (LLM_PROVIDERS as readonly string[]).includes(v)
+
+/** Instantiate a provider by name; LLM_PROVIDER (default gemini) when none is given */
+export function getLLMProvider(name?: string | null): LLMProvider {
+  const chosen = name || process.env.LLM_PROVIDER || 'gemini'
+  if (!isProviderName(chosen)) throw new LLMError(`Unknown LLM provider "${chosen}"`, 'config', 500)
+  switch (chosen) {
+    case 'openai': return new OpenAICompatibleProvider()
+    case 'mock': return new MockProvider()
+    default: return new GeminiProvider()
+  }
+}
+
+/** The colab's `ai_provider` override when set (and selectable here), else the environment default */
+export async function getLLMProviderForColab(colabId?: string | null): Promise<LLMProvider> {
+  if (!colabId) return getLLMProvider()
+  const { data } = await createAdminSupabase()
+    .from('colabs')
+    .select('ai_provider')
+    .eq('id', colabId)
+    .maybeSingle()
+  const override = isProviderName(data?.ai_provider) && SELECTABLE_LLM_PROVIDERS.includes(data.ai_provider) ? data.ai_provider : null
+  return getLLMProvider(override)
+}
@@ -0,0 +1,38 @@
+import { LLMError, type GenerateRequest, type LLMProvider } from './types'
+
+/**
+ * Offline provider: echoes the last user message back. Streams it word by
+ * word (MOCK_LLM_DELAY_MS apart, default 30) so streaming and cancel can be
+ * exercised without an API key.
+ */
+
+const DELAY_MS = Number(process.env.MOCK_LLM_DELAY_MS ?? 30)
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new LLMError('Request aborted', 'aborted', 499))
+    const t = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => { clearTimeout(t); reject(new LLMError('Request aborted', 'aborted', 499)) }, { once: true })
+  })
+
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock' as const
+  readonly model = 'echo'
+
+  private reply({ messages }: GenerateRequest) {
+    const last = [...messages].reverse().find(m => m.role === 'user')
+    return `Echo: ${last?.content || ''}`.trim()
+  }
+
+  async generate(req: GenerateRequest) {
+    return { text: this.reply(req) }
+  }
+
+  async *stream(req: GenerateRequest) {
+    const words = this.reply(req).split(/(?<=\s)/)
+    for (const w of words) {
+      await sleep(DELAY_MS, req.signal)
+      yield w
+    }
+  }
+}
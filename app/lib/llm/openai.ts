@@ -0,0 +1,70 @@
+import { readSSE } from '../sse'
+import { errorFromResponse, LLMError, toLLMError, type GenerateRequest, type LLMProvider } from './types'
+
+/**
+ * Any OpenAI-compatible /chat/completions endpoint (OpenAI, Azure-style
+ * gateways, vLLM, Ollama, LM Studio…).
+ * Env: OPENAI_API_KEY, OPENAI_BASE_URL (default https://api.openai.com/v1), OPENAI_MODEL
+ */
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai' as const
+
+  constructor(
+    private apiKey = process.env.OPENAI_API_KEY || '',
+    private baseUrl = (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, ''),
+    readonly model = process.env.OPENAI_MODEL || 'gpt-4o-mini'
+  ) {
+    // local servers usually accept any key; only the hosted API insists
+    if (!this.apiKey && !process.env.OPENAI_BASE_URL) throw new LLMError('Missing OPENAI_API_KEY', 'config', 500)
+  }
+
+  private async post(req: GenerateRequest, stream: boolean) {
+    const { messages, params = {}, signal } = req
+    let res: Response
+    try {
+      res = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: this.model,
+          messages: messages.filter(m => m.content),
+          temperature: params.temperature,
+          top_p: params.topP,
+          max_tokens: params.maxOutputTokens,
+          stream,
+        }),
+        signal,
+      })
+    } catch (e) {
+      throw toLLMError(e)
+    }
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}))
+      throw errorFromResponse('OpenAI-compatible endpoint', res.status, data?.error?.message)
+    }
+    return res
+  }
+
+  async generate(req: GenerateRequest) {
+    const data = await (await this.post(req, false)).json()
+    return { text: data?.choices?.[0]?.message?.content || '' }
+  }
+
+  async *stream(req: GenerateRequest) {
+    const res = await this.post(req, true)
+    if (!res.body) throw new LLMError('Endpoint returned no stream', 'upstream')
+    try {
+      for await (const { data } of readSSE(res.body)) {
+        if (data === '[DONE]') break
+        const delta = JSON.parse(data)?.choices?.[0]?.delta?.content
+        if (delta) yield delta as string
+      }
+    } catch (e) {
+      throw toLLMError(e)
+    }
+  }
+}
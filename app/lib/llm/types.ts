@@ -0,0 +1,72 @@
+/** Provider ids a colab (or LLM_PROVIDER) can select; safe to import from client code */
+export const LLM_PROVIDERS = ['gemini', 'openai', 'mock'] as const
+export type LLMProviderName = typeof LLM_PROVIDERS[number]
+
+export const LLM_PROVIDER_LABELS: Record<LLMProviderName, string> = {
+  gemini: 'Gemini',
+  openai: 'OpenAI-compatible',
+  mock: 'Mock (echo)',
+}
+
+/** What a colab owner can pick: the echo mock is for local development only */
+export const SELECTABLE_LLM_PROVIDERS: readonly LLMProviderName[] =
+  LLM_PROVIDERS.filter(p => p !== 'mock' || process.env.NODE_ENV === 'development')
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+/** Shared generation parameters; providers ignore what they don't support (e.g. topK on OpenAI) */
+export interface GenerationParams {
+  temperature?: number
+  maxOutputTokens?: number
+  topP?: number
+  topK?: number
+}
+
+export interface GenerateRequest {
+  messages: ChatMessage[]
+  params?: GenerationParams
+  signal?: AbortSignal
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName
+  readonly model: string
+  generate(req: GenerateRequest): Promise<{ text: string }>
+  /** Text deltas as they arrive; throws LLMError like `generate` */
+  stream(req: GenerateRequest): AsyncGenerator<string>
+}
+
+export type LLMErrorCode =
+  | 'config'        // provider not configured (missing key, unknown provider)
+  | 'auth'          // upstream rejected our credentials
+  | 'bad_request'   // upstream rejected the request itself
+  | 'rate_limited'
+  | 'unavailable'   // network failure / upstream 5xx
+  | 'aborted'
+  | 'upstream'      // anything else
+
+/** The one error shape both AI routes report: `{ error, code }` with `status` */
+export class LLMError extends Error {
+  constructor(message: string, public code: LLMErrorCode = 'upstream', public status = 502) { super(message) }
+}
+
+/** Map an upstream HTTP failure onto an LLMError */
+export function errorFromResponse(provider: string, status: number, message?: string): LLMError {
+  const msg = message || `${provider} error (${status})`
+  if (status === 401 || status === 403) return new LLMError(msg, 'auth', 502)
+  if (status === 429) return new LLMError(msg, 'rate_limited', 429)
+  if (status === 400 || status === 404 || status === 422) return new LLMError(msg, 'bad_request', 400)
+  if (status >= 500) return new LLMError(msg, 'unavailable', 503)
+  return new LLMError(msg, 'upstream', 502)
+}
+
+/** Normalize anything thrown while calling a provider (fetch failures, aborts, bugs) */
+export function toLLMError(e: any): LLMError {
+  if (e instanceof LLMError) return e
+  if (e?.name === 'AbortError') return new LLMError('Request aborted', 'aborted', 499)
+  if (e instanceof TypeError) return new LLMError(e.message || 'Network error', 'unavailable', 503)
+  return new LLMError(e?.message || 'AI provider error', 'upstream', 502)
+}
@@ -0,0 +1,244 @@
+import { NextResponse } from 'next/server'
+import type { User } from '@supabase/supabase-js'
+import { createServerSupabase, getRequestUser } from './supabase-server'
+import { createAdminSupabase } from './supabase-admin'
+import { resolveBillingOrg } from './orgs'
+import {
+  PLAN_LIMITS, USAGE_COLUMNS, USAGE_KINDS, periodKey, pooledLimits,
+  type PlanTier, type QuotaExceeded, type UsageKind, type UsageSnapshot,
+} from './plans'
+
+/**
+ * Server-side quota enforcement for metered API routes.
+ * The caller is resolved from the session cookie; plan + usage are read and
+ * charged with the service-role client so the browser can no longer write
+ * `user_usage_monthly` itself. `consume_usage` increments atomically and
+ * refuses to go past the plan limit. Calls an active member makes in a team
+ * organization's colab are charged to the org's pool instead
+ * (`consume_org_usage`), subject to any per-member cap set by an org admin.
+ */
+
+export interface UsageCharge {
+  user: User
+  kind: UsageKind
+  amount: number
+  usage: UsageSnapshot
+  /** Give the units back, e.g. when the upstream call failed */
+  refund(): Promise<void>
+}
+
+type ChargeResult = { ok: true; charge: UsageCharge } | { ok: false; response: NextResponse }
+
+export interface ChargeOptions {
+  /** Colab the call is made from; an org colab charges that org's pool */
+  colabId?: string | null
+}
+
+const emptyUsage = (): Record<UsageKind, number> => ({ ai_messages: 0, lit_searches: 0, analyses: 0 })
+
+const readUsage = (row: any) => {
+  const used = emptyUsage()
+  for (const k of USAGE_KINDS) used[k] = row?.[USAGE_COLUMNS[k]] ?? 0
+  return used
+}
+
+type ConsumeResult = { ok: boolean; used: number; memberUsed?: number; reason?: 'pool' | 'member' }
+
+/** Where a user's usage is counted: their own plan, or an org pool */
+interface UsageAccount {
+  snapshot: UsageSnapshot
+  /** Charge (positive) or refund (negative) `amount` units of `kind` */
+  consume(kind: UsageKind, amount: number): Promise<ConsumeResult>
+}
+
+async function loadPersonalAccount(userId: string, period: string): Promise<UsageAccount> {
+  const admin = createAdminSupabase()
+  const [{ data: planRow }, { data: usageRow }] = await Promise.all([
+    admin.from('user_plans').select('tier').eq('user_id', userId).maybeSingle(),
+    admin
+      .from('user_usage_monthly')
+      .select('ai_messages_used, lit_searches_used, analyses_used')
+      .eq('user_id', userId)
+      .eq('period', period)
+      .maybeSingle(),
+  ])
+  const tier: PlanTier = planRow?.tier && planRow.tier in PLAN_LIMITS ? planRow.tier : 'free'
+  const snapshot: UsageSnapshot = { tier, period, limits: PLAN_LIMITS[tier], used: readUsage(usageRow) }
+  return {
+    snapshot,
+    consume: async (kind, amount) => {
+      const { data, error } = await admin.rpc('consume_usage', {
+        p_user_id: userId,
+        p_period: period,
+        p_column: USAGE_COLUMNS[kind],
+        p_amount: amount,
+        p_limit: snapshot.limits[kind],
+      })
+      if (error) throw new Error(`Usage metering failed: ${error.message}`)
+      const row = Array.isArray(data) ? data[0] : data
+      return { ok: !!row?.ok, used: Number(row?.used ?? 0) }
+    },
+  }
+}
+
+async function loadAccount(userId: string, period: string, opts: ChargeOptions = {}): Promise<UsageAccount> {
+  const admin = createAdminSupabase()
+  const billing = await resolveBillingOrg(admin, userId, opts.colabId)
+  if (!billing) return loadPersonalAccount(userId, period)
+
+  const { org, membership } = billing
+  const [{ data: poolRow }, { data: memberRow }] = await Promise.all([
+    admin
+      .from('org_usage_monthly')
+      .select('ai_messages_used, lit_searches_used, analyses_used')
+      .eq('org_id', org.id)
+      .eq('period', period)
+      .maybeSingle(),
+    admin
+      .from('org_member_usage_monthly')
+      .select('ai_messages_used, lit_searches_used, analyses_used')
+      .eq('org_id', org.id)
+      .eq('user_id', userId)
+      .eq('period', period)
+      .maybeSingle(),
+  ])
+  const memberCaps = membership.caps || {}
+  const snapshot: UsageSnapshot = {
+    tier: 'team',
+    period,
+    limits: pooledLimits(org.seats),
+    used: readUsage(poolRow),
+    org: { id: org.id, name: org.name, seats: org.seats, memberUsed: readUsage(memberRow), memberCaps },
+  }
+  return {
+    snapshot,
+    consume: async (kind, amount) => {
+      const { data, error } = await admin.rpc('consume_org_usage', {
+        p_org_id: org.id,
+        p_user_id: userId,
+        p_period: period,
+        p_column: USAGE_COLUMNS[kind],
+        p_amount: amount,
+        p_pool_limit: snapshot.limits[kind],
+        p_member_cap: memberCaps[kind] ?? null,
+      })
+      if (error) throw new Error(`Usage metering failed: ${error.message}`)
+      const row = Array.isArray(data) ? data[0] : data
+      return {
+        ok: !!row?.ok,
+        used: Number(row?.pool_used ?? 0),
+        memberUsed: Number(row?.member_used ?? 0),
+        reason: row?.reason || undefined,
+      }
+    },
+  }
+}
+
+/** Current usage as metering sees it, for meters rendered before any metered call */
+export async function getUsageSnapshot(userId: string, opts: ChargeOptions = {}) {
+  return (await loadAccount(userId, periodKey(), opts)).snapshot
+}
+
+/** First instant of next month (UTC), for Retry-After on 429s */
+const nextPeriodStart = (d = new Date()) => new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 1))
+
+export function quotaExceededResponse(snapshot: UsageSnapshot, kind: UsageKind, scope?: 'member') {
+  const remaining = emptyUsage()
+  for (const k of USAGE_KINDS) remaining[k] = Math.max(0, snapshot.limits[k] - snapshot.used[k])
+  const label = kind.replace('_', ' ')
+  const body: QuotaExceeded = {
+    ...snapshot,
+    error: scope === 'member'
+      ? `Your monthly ${label} cap in ${snapshot.org?.name || 'your organization'} has been reached`
+      : snapshot.org
+      ? `${snapshot.org.name} has used its pooled monthly ${label} quota`
+      : `Monthly ${label} limit reached on the ${snapshot.tier} plan`,
+    code: 'quota_exceeded',
+    kind,
+    remaining,
+    ...(scope ? { scope } : {}),
+  }
+  // 402 while an upgrade would help; the top tier just has to wait for the next period
+  if (snapshot.tier !== 'team') return NextResponse.json(body, { status: 402 })
+  const retryAfter = Math.ceil((nextPeriodStart().getTime() - Date.now()) / 1000)
+  return NextResponse.json(body, { status: 429, headers: { 'Retry-After': String(retryAfter) } })
+}
+
+/**
+ * Authenticate the caller and charge `amount` units of `kind`.
+ * Returns a ready-to-send 401/402/429 response when the call must not proceed.
+ */
+export async function chargeUsage(kind: UsageKind, amount = 1, opts: ChargeOptions = {}): Promise<ChargeResult> {
+  const user = await getRequestUser(createServerSupabase())
+  if (!user) {
+    return { ok: false, response: NextResponse.json({ error: 'Sign in required', code: 'unauthenticated' }, { status: 401 }) }
+  }
+
+  const period = periodKey()
+  let account: UsageAccount
+  let result: ConsumeResult
+  try {
+    account = await loadAccount(user.id, period, opts)
+    result = await account.consume(kind, amount)
+  } catch (e: any) {
+    // fail closed: an unmetered call is worse than a retry
+    console.error('Usage metering error:', e)
+    return { ok: false, response: NextResponse.json({ error: 'Usage metering unavailable', code: 'metering_unavailable' }, { status: 503 }) }
+  }
+  const { snapshot } = account
+  const syncUsed = (r: ConsumeResult, target: UsageSnapshot) => {
+    target.used[kind] = r.used
+    if (target.org && r.memberUsed !== undefined) target.org.memberUsed[kind] = r.memberUsed
+  }
+  if (!result.ok) {
+    syncUsed(result, snapshot)
+    return { ok: false, response: quotaExceededResponse(snapshot, kind, result.reason === 'member' ? 'member' : undefined) }
+  }
+
+  const usage: UsageSnapshot = {
+    ...snapshot,
+    used: { ...snapshot.used },
+    org: snapshot.org && { ...snapshot.org, memberUsed: { ...snapshot.org.memberUsed } },
+  }
+  syncUsed(result, usage)
+  let refunded = false
+  return {
+    ok: true,
+    charge: {
+      user,
+      kind,
+      amount,
+      usage,
+      refund: async () => {
+        if (refunded) return
+        refunded = true
+        try {
+          syncUsed(await account.consume(kind, -amount), usage)
+        } catch (e) {
+          console.error('Usage refund failed:', e)
+        }
+      },
+    },
+  }
+}
+
+/**
+ * Charge a known user outside of a request (scheduled jobs), against the same
+ * personal or org account a request from them would use. `ok: false` means
+ * the quota is exhausted and nothing was charged.
+ */
+export async function chargeUserUsage(userId: string, kind: UsageKind, amount = 1, opts: ChargeOptions = {}) {
+  const account = await loadAccount(userId, periodKey(), opts)
+  const result = await account.consume(kind, amount)
+  return {
+    ok: result.ok,
+    refund: async () => {
+      if (!result.ok) return
+      try {
+        await account.consume(kind, -amount)
+      } catch (e) {
+        console.error('Usage refund failed:', e)
+      }
+    },
+  }
+}
@@ -0,0 +1,45 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+/**
+ * In-app notifications. Rows are written by server code with the service-role
+ * client; users read their own and may only set `read_at`.
+ */
+
+export interface Notification {
+  id: string
+  user_id: string
+  colab_id: string | null
+  kind: 'saved_search' | 'join_request' | 'join_decision' | 'invite_accepted' | 'ownership_transferred'
+  title: string
+  body: string
+  link: string | null
+  data: Record<string, unknown>
+  read_at: string | null
+  created_at: string
+}
+
+export type NotificationInput = Pick<Notification, 'kind' | 'title' | 'body' | 'link' | 'data'>
+
+/** Owner plus accepted members of a colab */
+export async function colabMemberIds(admin: SupabaseClient, colabId: string): Promise<string[]> {
+  const [{ data: colab }, { data: members }] = await Promise.all([
+    admin.from('colabs').select('owner_id').eq('id', colabId).maybeSingle(),
+    admin.from('colab_members').select('user_id').eq('colab_id', colabId).eq('status', 'accepted'),
+  ])
+  const ids = new Set<string>((members || []).map(m => m.user_id))
+  if (colab?.owner_id) ids.add(colab.owner_id)
+  return Array.from(ids)
+}
+
+export async function notifyUsers(admin: SupabaseClient, userIds: string[], colabId: string | null, input: NotificationInput) {
+  if (!userIds.length) return 0
+  const { error } = await admin
+    .from('notifications')
+    .insert(userIds.map(user_id => ({ user_id, colab_id: colabId, ...input })))
+  if (error) throw new Error(`Notification insert failed: ${error.message}`)
+  return userIds.length
+}
+
+export async function notifyColabMembers(admin: SupabaseClient, colabId: string, input: NotificationInput) {
+  return notifyUsers(admin, await colabMemberIds(admin, colabId), colabId, input)
+}
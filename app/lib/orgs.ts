@@ -0,0 +1,121 @@
+import type { SupabaseClient, User } from '@supabase/supabase-js'
+import { createServerSupabase, getRequestUser } from './supabase-server'
+import { createAdminSupabase } from './supabase-admin'
+import { USAGE_KINDS, type MemberCaps } from './plans'
+
+/**
+ * Organizations own a pooled team quota. Each `organization_members` row is a
+ * seat: admins invite by email, the invitee accepts, and metered calls that
+ * active members make in the org's colabs are charged to the pool (see
+ * metering.ts). Seat emails are stored lowercased.
+ * Clients only read these tables; writes go through /api/orgs with the
+ * service-role client after the checks below.
+ */
+
+export interface Organization {
+  id: string
+  name: string
+  owner_id: string
+  tier: 'free' | 'team'
+  seats: number
+  created_at: string
+}
+
+export interface OrgMember {
+  id: string
+  org_id: string
+  user_id: string | null
+  email: string
+  role: 'admin' | 'member'
+  status: 'invited' | 'active'
+  caps: MemberCaps
+  invited_by: string | null
+  created_at: string
+  joined_at: string | null
+}
+
+export class OrgError extends Error {
+  constructor(message: string, public status = 400) { super(message) }
+}
+
+// Active membership of a user in an org, if any
+export const getOrgMembership = async (
+  supabase: SupabaseClient,
+  orgId: string,
+  userId: string
+): Promise<OrgMember | null> => {
+  const { data } = await supabase
+    .from('organization_members')
+    .select('*')
+    .eq('org_id', orgId)
+    .eq('user_id', userId)
+    .eq('status', 'active')
+    .maybeSingle()
+  return (data as OrgMember) || null
+}
+
+type OrgAccessResult =
+  | { ok: true; admin: SupabaseClient; user: User; org: Organization; membership: OrgMember }
+  | { ok: false; status: number; error: string }
+
+// Gate an org route on active membership ('member') or the admin role ('admin')
+export const requireOrgAccess = async (orgId: string, mode: 'member' | 'admin'): Promise<OrgAccessResult> => {
+  const user = await getRequestUser(createServerSupabase())
+  if (!user) return { ok: false, status: 401, error: 'Sign in required' }
+
+  const admin = createAdminSupabase()
+  const { data: org } = await admin.from('organizations').select('*').eq('id', orgId).maybeSingle()
+  if (!org) return { ok: false, status: 404, error: 'Organization not found' }
+
+  const membership = await getOrgMembership(admin, orgId, user.id)
+  if (!membership) return { ok: false, status: 403, error: 'You are not a member of this organization' }
+  if (mode === 'admin' && membership.role !== 'admin') {
+    return { ok: false, status: 403, error: 'Only organization admins can do this' }
+  }
+  return { ok: true, admin, user, org: org as Organization, membership }
+}
+
+/** Seats taken by active members and outstanding invitations */
+export async function seatsInUse(admin: SupabaseClient, orgId: string) {
+  const { count, error } = await admin
+    .from('organization_members')
+    .select('id', { count: 'exact', head: true })
+    .eq('org_id', orgId)
+  if (error) throw new OrgError(error.message, 500)
+  return count ?? 0
+}
+
+/** Keep only non-negative integer caps for known usage kinds */
+export function sanitizeCaps(input: any): MemberCaps {
+  const caps: MemberCaps = {}
+  for (const k of USAGE_KINDS) {
+    const v = input?.[k]
+    if (v === null || v === undefined || v === '') continue
+    const n = Math.floor(Number(v))
+    if (!Number.isFinite(n) || n < 0) throw new OrgError(`Invalid cap for ${k}`)
+    caps[k] = n
+  }
+  return caps
+}
+
+/**
+ * The team org whose pool pays for a user's metered call: the colab's org,
+ * when the call is made from a colab that belongs to a team org the user has
+ * an active seat in. Null means the user's personal plan applies.
+ */
+export async function resolveBillingOrg(
+  admin: SupabaseClient,
+  userId: string,
+  colabId?: string | null
+): Promise<{ org: Organization; membership: OrgMember } | null> {
+  if (!colabId) return null
+  const { data: colab } = await admin.from('colabs').select('org_id').eq('id', colabId).maybeSingle()
+  if (!colab?.org_id) return null
+
+  const [{ data: org }, membership] = await Promise.all([
+    admin.from('organizations').select('*').eq('id', colab.org_id).maybeSingle(),
+    getOrgMembership(admin, colab.org_id, userId),
+  ])
+  if (org?.tier !== 'team' || !membership) return null
+  return { org: org as Organization, membership }
+}
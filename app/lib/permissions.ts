@@ -0,0 +1,118 @@
+import type { LabMember } from '../types/lab-types'
+
+/**
+ * The colab permission model, shared by the page, the API routes and (as
+ * `colab_can` in SQL) the database policies. A member's role grants the
+ * defaults below; the owner may switch individual permissions on or off per
+ * role through `colabs.permission_overrides`. The owner always holds every
+ * permission and only the owner may delete the colab. Keep DEFAULT_MATRIX in
+ * step with `colab_default_can` in 20261019001900_permissions.sql.
+ */
+
+export type ColabRole = LabMember['role']
+export type MemberRole = Exclude<ColabRole, 'owner'>
+
+export const PERMISSIONS = [
+  'readme.edit',
+  'notes.create',
+  'notes.moderate',
+  'members.manage',
+  'copilot.use',
+  'files.upload',
+  'colab.delete',
+] as const
+export type Permission = typeof PERMISSIONS[number]
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  'readme.edit': 'Edit the README',
+  'notes.create': 'Post notes',
+  'notes.moderate': "Edit or delete others' notes",
+  'members.manage': 'Invite and approve members',
+  'copilot.use': "Use the copilot on the colab's quota",
+  'files.upload': 'Upload files',
+  'colab.delete': 'Delete the colab',
+}
+
+export const MEMBER_ROLES: MemberRole[] = ['maintainer', 'contributor', 'viewer']
+
+export const ROLE_LABELS: Record<ColabRole, string> = {
+  owner: 'Owner',
+  maintainer: 'Maintainer',
+  contributor: 'Contributor',
+  viewer: 'Viewer',
+}
+
+/** role → permission → granted; only entries that differ from the defaults */
+export type PermissionOverrides = Partial<Record<MemberRole, Partial<Record<Permission, boolean>>>>
+
+const DEFAULT_MATRIX: Record<ColabRole, Permission[]> = {
+  owner: [...PERMISSIONS],
+  maintainer: ['readme.edit', 'notes.create', 'notes.moderate', 'members.manage', 'copilot.use', 'files.upload'],
+  contributor: ['readme.edit', 'notes.create', 'copilot.use', 'files.upload'],
+  viewer: [],
+}
+
+/** Viewers stay read-only; the copilot is the one thing they can be given */
+const VIEWER_GRANTABLE: Permission[] = ['copilot.use']
+
+/** Whether `role` may have `perm` overridden at all */
+export const isOverridable = (role: ColabRole, perm: Permission) =>
+  role !== 'owner' && perm !== 'colab.delete' && (role !== 'viewer' || VIEWER_GRANTABLE.includes(perm))
+
+/** Rows predating the invite roles say moderator/member */
+export function normalizeRole(role: string | null | undefined): ColabRole | null {
+  switch (role) {
+    case 'owner':
+    case 'maintainer':
+    case 'contributor':
+    case 'viewer':
+      return role
+    case 'moderator':
+      return 'maintainer'
+    case 'member':
+      return 'contributor'
+    default:
+      return null
+  }
+}
+
+/** A membership row's role; only `colabs.owner_id` makes someone the owner */
+export function memberRole(role: string | null | undefined): MemberRole | null {
+  const r = normalizeRole(role)
+  return r === 'owner' ? null : r
+}
+
+export const defaultPermissions = (role: ColabRole): Permission[] => [...DEFAULT_MATRIX[role]]
+
+/** Keep only known, overridable entries that actually change a default */
+export function sanitizeOverrides(raw: unknown): PermissionOverrides {
+  const out: PermissionOverrides = {}
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return out
+  for (const role of MEMBER_ROLES) {
+    const entries = (raw as any)[role]
+    if (!entries || typeof entries !== 'object') continue
+    for (const perm of PERMISSIONS) {
+      const value = entries[perm]
+      if (typeof value !== 'boolean' || !isOverridable(role, perm)) continue
+      if (value === DEFAULT_MATRIX[role].includes(perm)) continue
+      out[role] = { ...out[role], [perm]: value }
+    }
+  }
+  return out
+}
+
+/** An archived colab is read-only; its owner can still unarchive or delete it */
+const ARCHIVED_PERMISSIONS: Permission[] = ['colab.delete']
+
+/** Everything `role` may do in a colab with these overrides */
+export function permissionsFor(role: string | null | undefined, overrides?: unknown, archived = false): Permission[] {
+  const r = normalizeRole(role)
+  if (!r) return []
+  if (archived) return r === 'owner' ? [...ARCHIVED_PERMISSIONS] : []
+  if (r === 'owner') return defaultPermissions('owner')
+  const changes = sanitizeOverrides(overrides)[r] || {}
+  return PERMISSIONS.filter(p => changes[p] ?? DEFAULT_MATRIX[r].includes(p))
+}
+
+export const can = (role: string | null | undefined, perm: Permission, overrides?: unknown) =>
+  permissionsFor(role, overrides).includes(perm)
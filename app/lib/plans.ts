@@ -0,0 +1,64 @@
+export type PlanTier = 'free' | 'pro' | 'team'
+export type UsageKind = 'ai_messages' | 'lit_searches' | 'analyses'
+
+export const USAGE_KINDS: UsageKind[] = ['ai_messages', 'lit_searches', 'analyses']
+
+/** ---------- Limits by plan (shared by the client meters and server metering) ---------- */
+export const PLAN_LIMITS: Record<PlanTier, Record<UsageKind, number>> = {
+  free: { ai_messages: 150,  lit_searches: 50,   analyses: 10 },
+  pro:  { ai_messages: 2000, lit_searches: 500,  analyses: 200 },
+  team: { ai_messages: 10000, lit_searches: 2500, analyses: 1000 },
+}
+
+/** Column in `user_usage_monthly` that tracks each kind */
+export const USAGE_COLUMNS: Record<UsageKind, string> = {
+  ai_messages: 'ai_messages_used',
+  lit_searches: 'lit_searches_used',
+  analyses: 'analyses_used',
+}
+
+/** Monthly usage period, e.g. "2025-03" (UTC) */
+export const periodKey = (d = new Date()) =>
+  `${d.getUTCFullYear()}-${String(d.getUTCMonth()+1).padStart(2,'0')}`
+
+/** Admin-set monthly caps for one organization member (missing kind = uncapped) */
+export type MemberCaps = Partial<Record<UsageKind, number>>
+
+/** Usage snapshot returned by metered routes so clients can sync their meters */
+export interface UsageSnapshot {
+  tier: PlanTier
+  period: string
+  limits: Record<UsageKind, number>
+  used: Record<UsageKind, number>
+  /** Present when usage is drawn from an organization's pooled quota */
+  org?: {
+    id: string
+    name: string
+    seats: number
+    memberUsed: Record<UsageKind, number>
+    memberCaps: MemberCaps
+  }
+}
+
+/** Body of a 402/429 response from a metered route */
+export interface QuotaExceeded extends UsageSnapshot {
+  error: string
+  code: 'quota_exceeded'
+  kind: UsageKind
+  remaining: Record<UsageKind, number>
+  /** 'member' when an org admin's per-member cap was hit rather than the pool */
+  scope?: 'member'
+}
+
+/** Team pool for an organization: per-seat team limits times seats */
+export const pooledLimits = (seats: number): Record<UsageKind, number> => ({
+  ai_messages: PLAN_LIMITS.team.ai_messages * seats,
+  lit_searches: PLAN_LIMITS.team.lit_searches * seats,
+  analyses: PLAN_LIMITS.team.analyses * seats,
+})
+
+/** Monthly list prices for paid tiers (per seat for team) */
+export const PLAN_PRICES: Record<Exclude<PlanTier, 'free'>, { amount: number; currency: 'usd' }> = {
+  pro:  { amount: 1200, currency: 'usd' },
+  team: { amount: 3000, currency: 'usd' },
+}
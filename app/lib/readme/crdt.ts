@@ -0,0 +1,72 @@
+import * as Y from 'yjs'
+
+/**
+ * The README as a Yjs document: one Y.Text named README_TEXT. Both the
+ * editor and the server exchange whole-document or incremental updates as
+ * base64 strings; merging them is conflict-free in any order.
+ *
+ * Safe to import from client components.
+ */
+
+export const README_TEXT = 'readme'
+/** Longest README the editor and the API accept */
+export const MAX_README_CHARS = 200_000
+
+export function toBase64(bytes: Uint8Array): string {
+  let bin = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    bin += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 0x8000)))
+  }
+  return btoa(bin)
+}
+
+export function fromBase64(b64: string): Uint8Array {
+  const bin = atob(b64)
+  const out = new Uint8Array(bin.length)
+  for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i)
+  return out
+}
+
+/**
+ * A document holding `text`, written by the fixed client 0. Seeding is
+ * deterministic, so two editors that both start from the same plain README
+ * produce identical items and merge without duplicating it.
+ */
+export function seedUpdate(text: string): Uint8Array {
+  const doc = new Y.Doc()
+  doc.clientID = 0
+  if (text) doc.getText(README_TEXT).insert(0, text)
+  const update = Y.encodeStateAsUpdate(doc)
+  doc.destroy()
+  return update
+}
+
+/** Plain text of a document update */
+export function textOf(update: Uint8Array): string {
+  const doc = new Y.Doc()
+  Y.applyUpdate(doc, update)
+  const text = doc.getText(README_TEXT).toString()
+  doc.destroy()
+  return text
+}
+
+/**
+ * Turn `ytext` (currently `before`) into `after` with one delete and one
+ * insert spanning the changed middle. A textarea edit is a single contiguous
+ * change, so this keeps concurrent edits elsewhere in the text intact.
+ */
+export function applyTextChange(ytext: Y.Text, before: string, after: string) {
+  if (before === after) return
+  let start = 0
+  const max = Math.min(before.length, after.length)
+  while (start < max && before.charCodeAt(start) === after.charCodeAt(start)) start++
+  let endBefore = before.length
+  let endAfter = after.length
+  while (endBefore > start && endAfter > start && before.charCodeAt(endBefore - 1) === after.charCodeAt(endAfter - 1)) {
+    endBefore--; endAfter--
+  }
+  ytext.doc!.transact(() => {
+    if (endBefore > start) ytext.delete(start, endBefore - start)
+    if (endAfter > start) ytext.insert(start, after.slice(start, endAfter))
+  }, 'local')
+}
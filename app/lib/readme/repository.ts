@@ -0,0 +1,156 @@
+import * as Y from 'yjs'
+import { createAdminSupabase } from '../supabase-admin'
+import type { ReadmeDocument, ReadmeRevision } from '../../types/readme-types'
+import { MAX_README_CHARS, README_TEXT, applyTextChange, fromBase64, seedUpdate, toBase64 } from './crdt'
+
+/**
+ * Server side of the collaborative README.
+ *
+ * `colab_readme_state` keeps the merged Yjs document; `colabs.readme` is its
+ * plain text and is always written in the same statement
+ * (`save_readme_state`). Editors send their document (or just their changes)
+ * and the server merges it into the stored one. Saves are optimistic on
+ * `updated_at`: a concurrent save makes the loser re-merge on top of the
+ * winner, so no edit is lost. Revisions are plain-text snapshots.
+ */
+
+export class ReadmeError extends Error {
+  constructor(message: string, public status = 400) { super(message) }
+}
+
+const MAX_STATE_CHARS = 4_000_000
+const SAVE_ATTEMPTS = 4
+
+interface Stored { base: Uint8Array; readme: string; expected: string | null }
+
+async function loadStored(colabId: string): Promise<Stored> {
+  const admin = createAdminSupabase()
+  const [colab, row] = await Promise.all([
+    admin.from('colabs').select('readme').eq('id', colabId).maybeSingle(),
+    admin.from('colab_readme_state').select('state, updated_at').eq('colab_id', colabId).maybeSingle(),
+  ])
+  if (colab.error) throw new ReadmeError(colab.error.message, 500)
+  if (row.error) throw new ReadmeError(row.error.message, 500)
+  if (!colab.data) throw new ReadmeError('Colab not found', 404)
+  const readme = colab.data.readme || ''
+  return row.data
+    ? { base: fromBase64(row.data.state), readme, expected: row.data.updated_at }
+    : { base: seedUpdate(readme), readme, expected: null }
+}
+
+/**
+ * Merge `updates` into the stored document and save it, retrying when
+ * another save landed in between. With no updates this only reconciles a
+ * README that was changed outside the editor.
+ */
+async function mergeAndSave(colabId: string, userId: string | null, updates: Uint8Array[]): Promise<ReadmeDocument> {
+  for (let attempt = 0; attempt < SAVE_ATTEMPTS; attempt++) {
+    const { base, readme, expected } = await loadStored(colabId)
+    const doc = new Y.Doc()
+    try {
+      Y.applyUpdate(doc, base)
+      const ytext = doc.getText(README_TEXT)
+      // colabs.readme was edited directly: record that as an edit so editors pick it up
+      const drifted = ytext.toString() !== readme
+      if (drifted) applyTextChange(ytext, ytext.toString(), readme)
+      for (const u of updates) {
+        try {
+          Y.applyUpdate(doc, u)
+        } catch {
+          throw new ReadmeError('Invalid README update')
+        }
+      }
+      const text = ytext.toString()
+      if (text.length > MAX_README_CHARS) throw new ReadmeError(`README is too long (max ${MAX_README_CHARS} characters)`, 413)
+      const state = toBase64(Y.encodeStateAsUpdate(doc))
+      if (state.length > MAX_STATE_CHARS) throw new ReadmeError('README history is too large to save', 413)
+
+      // nothing new: skip the write (an unsaved seed is deterministic, so it need not be stored)
+      if (!updates.length && !drifted) return { text, state, updated_at: expected }
+
+      const { data, error } = await createAdminSupabase().rpc('save_readme_state', {
+        p_colab_id: colabId,
+        p_state: state,
+        p_text: text,
+        p_user_id: userId,
+        p_expected: expected,
+      })
+      if (error) throw new ReadmeError(error.message, 500)
+      if (data) return { text, state, updated_at: data as string }
+    } finally {
+      doc.destroy()
+    }
+  }
+  throw new ReadmeError('The README is being saved by someone else; try again', 409)
+}
+
+export async function loadReadme(colabId: string): Promise<ReadmeDocument> {
+  return mergeAndSave(colabId, null, [])
+}
+
+/** Merge an editor's base64 update into the README */
+export async function saveReadme(colabId: string, userId: string, update: unknown): Promise<ReadmeDocument> {
+  if (typeof update !== 'string' || !update) throw new ReadmeError('Provide "state"')
+  if (update.length > MAX_STATE_CHARS) throw new ReadmeError('README update is too large', 413)
+  let bytes: Uint8Array
+  try {
+    bytes = fromBase64(update)
+  } catch {
+    throw new ReadmeError('"state" must be base64')
+  }
+  return mergeAndSave(colabId, userId, [bytes])
+}
+
+/** ---------------- Revisions ---------------- */
+const REVISION_FIELDS = 'id, colab_id, message, restored_from, created_by, created_at'
+
+export async function listRevisions(colabId: string): Promise<ReadmeRevision[]> {
+  const { data, error } = await createAdminSupabase()
+    .from('readme_revisions')
+    .select(REVISION_FIELDS)
+    .eq('colab_id', colabId)
+    .order('created_at', { ascending: false })
+    .limit(200)
+  if (error) throw new ReadmeError(error.message, 500)
+  return (data || []) as ReadmeRevision[]
+}
+
+export async function getRevision(colabId: string, revisionId: string): Promise<ReadmeRevision> {
+  const { data, error } = await createAdminSupabase()
+    .from('readme_revisions')
+    .select(`${REVISION_FIELDS}, content`)
+    .eq('colab_id', colabId)
+    .eq('id', revisionId)
+    .maybeSingle()
+  if (error) throw new ReadmeError(error.message, 500)
+  if (!data) throw new ReadmeError('Revision not found', 404)
+  return data as ReadmeRevision
+}
+
+/**
+ * Snapshot the current README. `restoredFrom` marks a snapshot taken right
+ * after the editor restored that revision's text.
+ */
+export async function createRevision(colabId: string, userId: string, opts: { message?: unknown; restoredFrom?: unknown } = {}): Promise<ReadmeRevision> {
+  const message = typeof opts.message === 'string' ? opts.message.trim().slice(0, 200) : ''
+  const restoredFrom = typeof opts.restoredFrom === 'string' && opts.restoredFrom ? opts.restoredFrom : null
+  if (restoredFrom) await getRevision(colabId, restoredFrom)
+
+  const admin = createAdminSupabase()
+  const [colab, last] = await Promise.all([
+    admin.from('colabs').select('readme').eq('id', colabId).maybeSingle(),
+    admin.from('readme_revisions').select('content').eq('colab_id', colabId).order('created_at', { ascending: false }).limit(1).maybeSingle(),
+  ])
+  if (colab.error) throw new ReadmeError(colab.error.message, 500)
+  if (last.error) throw new ReadmeError(last.error.message, 500)
+  const content = colab.data?.readme || ''
+  if (last.data && last.data.content === content) throw new ReadmeError('No changes since the last revision')
+
+  const { data, error } = await admin
+    .from('readme_revisions')
+    .insert({ colab_id: colabId, content, message, restored_from: restoredFrom, created_by: userId })
+    .select(REVISION_FIELDS)
+    .single()
+  if (error) throw new ReadmeError(error.message, 500)
+  return data as ReadmeRevision
+}
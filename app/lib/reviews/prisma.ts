@@ -0,0 +1,273 @@
+import type {
+  ReviewDecision, ReviewRecord, ReviewSearch, ReviewStage, ReviewVote, VoteDecision,
+} from '../../types/review-types'
+
+/**
+ * Screening state and PRISMA 2020 flow counts for a systematic review.
+ * Safe to import from client code: the panel derives everything it shows
+ * from the rows the API returns.
+ *
+ * A record goes through two stages. "screening" (title/abstract) decides
+ * whether its full text is sought; "eligibility" (full text) only applies to
+ * records included at screening. A stage settles when `screeners_required`
+ * members voted the same include/exclude, or when a member resolves the
+ * conflict left by disagreeing (or "maybe") votes.
+ */
+
+export const REVIEW_STAGES = ['screening', 'eligibility'] as const
+export const VOTE_DECISIONS = ['include', 'exclude', 'maybe'] as const
+
+export const STAGE_LABELS: Record<ReviewStage, string> = {
+  screening: 'Title & abstract',
+  eligibility: 'Full text',
+}
+
+export const VOTE_LABELS: Record<VoteDecision, string> = {
+  include: 'Include',
+  exclude: 'Exclude',
+  maybe: 'Maybe',
+}
+
+/** Full-text exclusion reason counted as "reports not retrieved" rather than "excluded" */
+export const NOT_RETRIEVED = 'Full text not retrieved'
+
+export type StageStatus = 'pending' | 'conflict' | 'included' | 'excluded'
+
+/** The shared include/exclude of a complete set of votes, or null when they disagree */
+export function consensus(votes: Pick<ReviewVote, 'decision'>[]): 'include' | 'exclude' | null {
+  const first = votes[0]?.decision
+  if (!first || first === 'maybe') return null
+  return votes.every(v => v.decision === first) ? first : null
+}
+
+/** The most common reason among exclude votes (earliest wins ties) */
+export function commonReason(votes: Pick<ReviewVote, 'decision' | 'reason'>[]): string | null {
+  const counts = new Map<string, number>()
+  for (const v of votes) if (v.decision === 'exclude' && v.reason) counts.set(v.reason, (counts.get(v.reason) || 0) + 1)
+  let best: string | null = null
+  counts.forEach((n, reason) => { if (best === null || n > counts.get(best)!) best = reason })
+  return best
+}
+
+export type ReviewIndex = ReturnType<typeof indexReview>
+
+/** Votes and decisions looked up by record and stage */
+export function indexReview(votes: ReviewVote[], decisions: ReviewDecision[]) {
+  const key = (recordId: string, stage: ReviewStage) => `${stage}:${recordId}`
+  const votesBy = new Map<string, ReviewVote[]>()
+  for (const v of votes) {
+    const k = key(v.record_id, v.stage)
+    votesBy.set(k, [...(votesBy.get(k) || []), v])
+  }
+  const decisionBy = new Map(decisions.map(d => [key(d.record_id, d.stage), d]))
+  return {
+    votes: (recordId: string, stage: ReviewStage) => votesBy.get(key(recordId, stage)) || [],
+    decision: (recordId: string, stage: ReviewStage) => decisionBy.get(key(recordId, stage)),
+  }
+}
+
+/**
+ * Whether everyone may see a stage's votes: all required votes are in or the
+ * stage is decided (`review_vote_visible` in SQL). From then on votes are final.
+ */
+export function votesRevealed(index: ReviewIndex, recordId: string, stage: ReviewStage, required: number): boolean {
+  return !!index.decision(recordId, stage) || index.votes(recordId, stage).length >= required
+}
+
+/**
+ * Where a record stands at a stage, or null for eligibility before the record
+ * was included at screening. `votes` are the ones visible to the caller, so an
+ * unsettled record shows as pending until every required vote is in.
+ */
+export function stageStatus(index: ReviewIndex, recordId: string, stage: ReviewStage, required: number): StageStatus | null {
+  if (stage === 'eligibility' && index.decision(recordId, 'screening')?.decision !== 'include') return null
+  const decision = index.decision(recordId, stage)
+  if (decision) return decision.decision === 'include' ? 'included' : 'excluded'
+  return index.votes(recordId, stage).length >= required ? 'conflict' : 'pending'
+}
+
+export interface PrismaCounts {
+  /** records per database, summed over every search */
+  identified: Record<string, number>
+  identifiedTotal: number
+  duplicates: number
+  /** identified records that are no longer in the review (removed by a member) */
+  removedOther: number
+  screened: number
+  screeningExcluded: number
+  screeningPending: number
+  screeningConflicts: number
+  sought: number
+  notRetrieved: number
+  assessed: number
+  /** full-text exclusions by reason */
+  excludedReasons: Record<string, number>
+  eligibilityPending: number
+  eligibilityConflicts: number
+  included: number
+}
+
+export function prismaCounts(
+  searches: Pick<ReviewSearch, 'identified' | 'duplicates'>[],
+  records: Pick<ReviewRecord, 'id'>[],
+  index: ReviewIndex,
+  required: number
+): PrismaCounts {
+  const identified: Record<string, number> = {}
+  let duplicates = 0
+  for (const s of searches) {
+    for (const [db, n] of Object.entries(s.identified || {})) identified[db] = (identified[db] || 0) + (Number(n) || 0)
+    duplicates += s.duplicates || 0
+  }
+  const identifiedTotal = Object.values(identified).reduce((a, b) => a + b, 0)
+
+  const c: PrismaCounts = {
+    identified, identifiedTotal, duplicates,
+    removedOther: Math.max(0, identifiedTotal - duplicates - records.length),
+    screened: records.length,
+    screeningExcluded: 0, screeningPending: 0, screeningConflicts: 0,
+    sought: 0, notRetrieved: 0, assessed: 0,
+    excludedReasons: {},
+    eligibilityPending: 0, eligibilityConflicts: 0,
+    included: 0,
+  }
+
+  for (const r of records) {
+    const screening = stageStatus(index, r.id, 'screening', required)
+    if (screening === 'excluded') c.screeningExcluded++
+    else if (screening === 'pending') c.screeningPending++
+    else if (screening === 'conflict') c.screeningConflicts++
+    if (screening !== 'included') continue
+
+    c.sought++
+    const eligibility = stageStatus(index, r.id, 'eligibility', required)
+    const reason = index.decision(r.id, 'eligibility')?.reason || 'No reason given'
+    if (eligibility === 'excluded' && reason === NOT_RETRIEVED) { c.notRetrieved++; continue }
+    c.assessed++
+    if (eligibility === 'included') c.included++
+    else if (eligibility === 'excluded') c.excludedReasons[reason] = (c.excludedReasons[reason] || 0) + 1
+    else if (eligibility === 'conflict') c.eligibilityConflicts++
+    else c.eligibilityPending++
+  }
+  return c
+}
+
+/** ------------ Flow diagram ------------ */
+type Box = { lines: string[]; bold?: boolean }
+
+const escapeXml = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+/** Greedy word wrap for the fixed-width boxes */
+function wrap(text: string, width: number): string[] {
+  const out: string[] = []
+  let line = ''
+  for (const word of text.split(/\s+/)) {
+    if (line && (line + ' ' + word).length > width) { out.push(line); line = word }
+    else line = line ? `${line} ${word}` : word
+  }
+  if (line) out.push(line)
+  return out
+}
+
+const n = (v: number) => `(n = ${v.toLocaleString('en-US')})`
+
+/** PRISMA 2020 flow diagram (databases only) as a standalone SVG document */
+export function prismaSvg(c: PrismaCounts, title = 'PRISMA 2020 flow diagram'): string {
+  const CHARS = 44
+  const LINE = 16
+  const PAD = 12
+  const GAP = 34
+  const GUTTER = 28
+  const LEFT_X = GUTTER + 12
+  const BOX_W = 320
+  const RIGHT_X = LEFT_X + BOX_W + 40
+  const WIDTH = RIGHT_X + BOX_W + 12
+
+  const pending = (p: number, k: number) => [
+    ...(p ? [`Awaiting screening ${n(p)}`] : []),
+    ...(k ? [`Conflicts to resolve ${n(k)}`] : []),
+  ]
+  const dbs = Object.entries(c.identified)
+  const reasons = Object.entries(c.excludedReasons).sort((a, b) => b[1] - a[1])
+
+  const rows: { phase?: string; left: Box; right?: Box }[] = [
+    {
+      phase: 'Identification',
+      left: { lines: [`Records identified from databases ${n(c.identifiedTotal)}`, ...dbs.map(([db, k]) => `  ${db} ${n(k)}`)] },
+      right: { lines: ['Records removed before screening:', `  Duplicate records ${n(c.duplicates)}`, `  Removed for other reasons ${n(c.removedOther)}`] },
+    },
+    {
+      phase: 'Screening',
+      left: { lines: [`Records screened ${n(c.screened)}`, ...pending(c.screeningPending, c.screeningConflicts)] },
+      right: { lines: [`Records excluded ${n(c.screeningExcluded)}`] },
+    },
+    {
+      left: { lines: [`Reports sought for retrieval ${n(c.sought)}`] },
+      right: { lines: [`Reports not retrieved ${n(c.notRetrieved)}`] },
+    },
+    {
+      left: { lines: [`Reports assessed for eligibility ${n(c.assessed)}`, ...pending(c.eligibilityPending, c.eligibilityConflicts)] },
+      right: {
+        lines: reasons.length
+          ? ['Reports excluded:', ...reasons.map(([reason, k]) => `  ${reason} ${n(k)}`)]
+          : [`Reports excluded ${n(0)}`],
+      },
+    },
+    {
+      phase: 'Included',
+      left: { lines: [`Studies included in review ${n(c.included)}`], bold: true },
+    },
+  ]
+
+  const parts: string[] = []
+  // lines starting with a space are indented sub-items
+  const layout = (b: Box) => b.lines.flatMap(l => {
+    const indent = /^\s/.test(l) ? 12 : 0
+    return wrap(l.trim(), indent ? CHARS - 2 : CHARS).map(text => ({ text, indent }))
+  })
+  const height = (b: Box) => layout(b).length * LINE + PAD * 2
+  const drawBox = (x: number, y: number, h: number, b: Box) => {
+    parts.push(`<rect x="${x}" y="${y}" width="${BOX_W}" height="${h}" rx="4" fill="#fff" stroke="#334155"/>`)
+    layout(b).forEach(({ text, indent }, i) => {
+      parts.push(`<text x="${x + PAD + indent}" y="${y + PAD + LINE - 4 + i * LINE}"${b.bold ? ' font-weight="bold"' : ''}>${escapeXml(text)}</text>`)
+    })
+  }
+  const arrow = (x1: number, y1: number, x2: number, y2: number) =>
+    parts.push(`<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="#334155" marker-end="url(#arrow)"/>`)
+
+  let y = 44
+  const phases: { label: string; top: number; bottom: number }[] = []
+  let prevBottom = 0
+  rows.forEach((row, i) => {
+    const lh = height(row.left)
+    const rh = row.right ? height(row.right) : 0
+    const h = Math.max(lh, rh)
+    if (row.phase) phases.push({ label: row.phase, top: y, bottom: y + h })
+    else phases[phases.length - 1].bottom = y + h
+    drawBox(LEFT_X, y, h, row.left)
+    if (row.right) {
+      drawBox(RIGHT_X, y, h, row.right)
+      arrow(LEFT_X + BOX_W, y + h / 2, RIGHT_X - 2, y + h / 2)
+    }
+    if (i > 0) arrow(LEFT_X + BOX_W / 2, prevBottom, LEFT_X + BOX_W / 2, y - 2)
+    prevBottom = y + h
+    y += h + GAP
+  })
+  const total = y - GAP + 12
+
+  for (const p of phases) {
+    const mid = (p.top + p.bottom) / 2
+    parts.push(`<rect x="4" y="${p.top}" width="${GUTTER - 4}" height="${p.bottom - p.top}" rx="3" fill="#dbeafe"/>`)
+    parts.push(`<text x="${4 + (GUTTER - 4) / 2}" y="${mid}" transform="rotate(-90 ${4 + (GUTTER - 4) / 2} ${mid})" text-anchor="middle" dominant-baseline="central" font-weight="bold">${escapeXml(p.label)}</text>`)
+  }
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${total}" viewBox="0 0 ${WIDTH} ${total}" font-family="Helvetica, Arial, sans-serif" font-size="12" fill="#0f172a">`,
+    '<defs><marker id="arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto"><path d="M0,0 L10,5 L0,10 z" fill="#334155"/></marker></defs>',
+    `<rect width="100%" height="100%" fill="#fff"/>`,
+    `<text x="${WIDTH / 2}" y="24" text-anchor="middle" font-size="14" font-weight="bold">${escapeXml(title)}</text>`,
+    ...parts,
+    '</svg>',
+  ].join('\n')
+}
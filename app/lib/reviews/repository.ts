@@ -0,0 +1,402 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type {
+  ReviewDecision, ReviewRecord, ReviewSearch, ReviewSearchSource, ReviewStage, ReviewVote, SystematicReview, VoteDecision,
+} from '../../types/review-types'
+import { normArxivId, normDOI, normTitle, runMultiSearch } from '../literature/multisearch'
+import { PUBMED_BATCH_MAX, searchPubMedPage } from '../literature/pubmed'
+import { LIT_SOURCE_LABELS, isLitSource, type LitSource } from '../literature/sources'
+import { commonReason, consensus, indexReview, REVIEW_STAGES, stageStatus, VOTE_DECISIONS, votesRevealed } from './prisma'
+
+/**
+ * Systematic reviews on a colab (`systematic_reviews` and friends). Members
+ * read and edit the protocol and cast their own votes through RLS; searches,
+ * records and stage decisions are written with the service-role client once
+ * the route has checked access, so consensus can count votes the caller may
+ * not see yet.
+ */
+
+export class ReviewError extends Error {
+  constructor(message: string, public status = 400) { super(message) }
+}
+
+export const MAX_REVIEWS_PER_COLAB = 10
+const MAX_RECORDS_PER_REVIEW = 5000
+const MULTISEARCH_MAX = 50
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000
+
+type Page = PromiseLike<{ data: unknown[] | null; error: { message: string } | null }>
+
+/** Every row of an ordered select, fetched a page at a time */
+async function selectAll<T>(page: (from: number, to: number) => Page, max = Infinity): Promise<T[]> {
+  const rows: T[] = []
+  for (let from = 0; from < max; from += PAGE_SIZE) {
+    const { data, error } = await page(from, Math.min(from + PAGE_SIZE, max) - 1)
+    if (error) throw new ReviewError(error.message, 500)
+    rows.push(...((data || []) as T[]))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+  return rows
+}
+
+const allRecords = (supabase: SupabaseClient, reviewId: string, columns = '*') =>
+  selectAll<ReviewRecord>((from, to) => supabase.from('review_records').select(columns).eq('review_id', reviewId)
+    .order('created_at', { ascending: true }).order('id').range(from, to), MAX_RECORDS_PER_REVIEW)
+
+const allVotes = (supabase: SupabaseClient, reviewId: string, recordIds?: string[]) =>
+  selectAll<ReviewVote>((from, to) => {
+    const q = supabase.from('review_votes').select('*').eq('review_id', reviewId)
+    return (recordIds ? q.in('record_id', recordIds) : q).order('record_id').order('stage').order('reviewer_id').range(from, to)
+  })
+
+const allDecisions = (supabase: SupabaseClient, reviewId: string, recordIds?: string[]) =>
+  selectAll<ReviewDecision>((from, to) => {
+    const q = supabase.from('review_decisions').select('*').eq('review_id', reviewId)
+    return (recordIds ? q.in('record_id', recordIds) : q).order('record_id').order('stage').range(from, to)
+  })
+
+export interface ReviewDetail {
+  review: SystematicReview
+  searches: ReviewSearch[]
+  records: ReviewRecord[]
+  /** the caller's votes plus the ones they may see (see the migration's blinding rule) */
+  votes: ReviewVote[]
+  decisions: ReviewDecision[]
+}
+
+const str = (v: unknown, max: number) => (typeof v === 'string' && v.trim() ? v.trim().slice(0, max) : '')
+
+const criteria = (v: unknown) =>
+  (Array.isArray(v) ? v : typeof v === 'string' ? v.split('\n') : [])
+    .map(x => str(x, 500))
+    .filter(Boolean)
+    .slice(0, 30)
+
+/** Protocol fields from a request body; `partial` keeps only the ones present */
+export function readProtocol(body: any, partial = false) {
+  const out: Partial<Pick<SystematicReview, 'title' | 'question' | 'inclusion_criteria' | 'exclusion_criteria' | 'screeners_required'>> = {}
+  if (!partial || body?.title !== undefined) {
+    out.title = str(body?.title, 200)
+    if (!out.title) throw new ReviewError('Give the review a title')
+  }
+  if (!partial || body?.question !== undefined) out.question = str(body?.question, 2000)
+  if (!partial || body?.inclusionCriteria !== undefined) out.inclusion_criteria = criteria(body?.inclusionCriteria)
+  if (!partial || body?.exclusionCriteria !== undefined) out.exclusion_criteria = criteria(body?.exclusionCriteria)
+  if (!partial || body?.screenersRequired !== undefined) {
+    const n = Number(body?.screenersRequired ?? 2)
+    if (!Number.isInteger(n) || n < 1 || n > 5) throw new ReviewError('screenersRequired must be 1–5')
+    out.screeners_required = n
+  }
+  return out
+}
+
+export async function getReview(supabase: SupabaseClient, colabId: string, reviewId: string): Promise<SystematicReview> {
+  const { data, error } = await supabase
+    .from('systematic_reviews')
+    .select('*')
+    .eq('id', reviewId)
+    .eq('colab_id', colabId)
+    .maybeSingle()
+  if (error) throw new ReviewError(error.message, 500)
+  if (!data) throw new ReviewError('Review not found', 404)
+  return data as SystematicReview
+}
+
+/** Everything the screening panel needs, read as the caller */
+export async function loadReviewDetail(supabase: SupabaseClient, colabId: string, reviewId: string): Promise<ReviewDetail> {
+  const review = await getReview(supabase, colabId, reviewId)
+  const [searches, records, votes, decisions] = await Promise.all([
+    supabase.from('review_searches').select('*').eq('review_id', reviewId).order('ran_at', { ascending: true }),
+    allRecords(supabase, reviewId),
+    allVotes(supabase, reviewId),
+    allDecisions(supabase, reviewId),
+  ])
+  if (searches.error) throw new ReviewError(searches.error.message, 500)
+  return { review, searches: (searches.data || []) as ReviewSearch[], records, votes, decisions }
+}
+
+/** ------------ Identification ------------ */
+type Candidate = Pick<ReviewRecord, 'title' | 'authors' | 'journal' | 'year' | 'abstract' | 'doi' | 'pmid' | 'url' | 'source'> & { arxiv?: string }
+
+export type IdentifyRequest =
+  | { source: 'pubmed'; query: string; limit: number }
+  | { source: 'multisearch'; query: string; limit: number; litSources?: LitSource[] }
+  | { source: 'bibliography' }
+
+/** Validate an import request body */
+export function readIdentifyRequest(body: any): IdentifyRequest {
+  const source = body?.source as ReviewSearchSource
+  if (source === 'bibliography') return { source }
+  if (source !== 'pubmed' && source !== 'multisearch') throw new ReviewError('source must be pubmed, multisearch or bibliography')
+  const query = str(body?.query, 500)
+  if (!query) throw new ReviewError('Provide "query"')
+  const max = source === 'pubmed' ? PUBMED_BATCH_MAX : MULTISEARCH_MAX
+  const limit = Math.min(max, Math.max(1, Math.floor(Number(body?.limit) || (source === 'pubmed' ? 100 : 25))))
+  if (source === 'pubmed') return { source, query, limit }
+  const litSources = Array.isArray(body?.litSources) ? Array.from(new Set(body.litSources.filter(isLitSource))) as LitSource[] : undefined
+  if (litSources && !litSources.length) throw new ReviewError('Select at least one source')
+  return { source, query, limit, litSources }
+}
+
+/** Records from the chosen database(s) plus how many each returned before dedupe */
+async function identify(admin: SupabaseClient, colabId: string, req: IdentifyRequest) {
+  if (req.source === 'pubmed') {
+    // always the current answer: a review documents what the database returned on the day
+    const page = await searchPubMedPage(req.query, { retmax: req.limit }, { refresh: true })
+    const candidates: Candidate[] = page.papers.map(p => ({
+      title: p.title,
+      authors: p.authors || [],
+      journal: p.journal || null,
+      year: p.year ? Number(p.year) || null : null,
+      abstract: p.abstract || null,
+      doi: normDOI(p.doi) || null,
+      pmid: p.pmid,
+      url: p.url,
+      source: 'PubMed',
+    }))
+    return { candidates, identified: { PubMed: candidates.length } }
+  }
+
+  if (req.source === 'multisearch') {
+    const { items, counts, warning } = await runMultiSearch(req.query, req.limit, 0, { refresh: true, sources: req.litSources })
+    if (warning && !items.length) throw new ReviewError(warning, 502)
+    const identified: Record<string, number> = {}
+    for (const [s, k] of Object.entries(counts)) identified[LIT_SOURCE_LABELS[s as LitSource]] = k || 0
+    const candidates: Candidate[] = items.map(x => ({
+      title: x.title,
+      authors: x.authors || [],
+      journal: x.venue || null,
+      year: x.year || null,
+      abstract: x.abstract || null,
+      doi: x.doi || null,
+      pmid: x.externalIds?.PMID || null,
+      url: x.url || null,
+      source: LIT_SOURCE_LABELS[x.source],
+      arxiv: x.externalIds?.arXiv,
+    }))
+    return { candidates, identified }
+  }
+
+  const { data, error } = await admin.from('colab_references').select('*').eq('colab_id', colabId)
+  if (error) throw new ReviewError(error.message, 500)
+  const candidates: Candidate[] = (data || []).map((r: any) => ({
+    title: r.title,
+    authors: r.authors || [],
+    journal: r.journal,
+    year: r.year,
+    abstract: r.abstract,
+    doi: r.doi,
+    pmid: r.kind === 'pmid' ? r.identifier : null,
+    url: r.url,
+    source: 'Bibliography',
+    arxiv: r.kind === 'arxiv' ? r.identifier : undefined,
+  }))
+  return { candidates, identified: { Bibliography: candidates.length } }
+}
+
+/** Every identity a record can be matched on; the same keys `litKey` uses, plus PMID */
+function dedupeKeys(c: Candidate): string[] {
+  const keys: string[] = []
+  const doi = normDOI(c.doi)
+  if (doi) keys.push(`doi:${doi}`)
+  if (c.pmid) keys.push(`pmid:${c.pmid}`)
+  const ax = normArxivId(c.arxiv)
+  if (ax) keys.push(`arxiv:${ax}`)
+  const t = normTitle(c.title)
+  if (t) keys.push(`t:${t}|${c.year ? `y:${c.year}` : ''}`)
+  return keys
+}
+
+/**
+ * Run a search (or read the bibliography) into the review. Results matching a
+ * record already in the review, or an earlier result of the same batch, are
+ * counted as duplicates and dropped.
+ */
+export async function importRecords(admin: SupabaseClient, review: SystematicReview, userId: string, req: IdentifyRequest) {
+  const { candidates, identified } = await identify(admin, review.colab_id, req)
+
+  const existing = await allRecords(admin, review.id, 'id, dedupe_keys')
+  const seen = new Set(existing.flatMap(r => r.dedupe_keys))
+
+  const fresh: (Candidate & { dedupe_keys: string[] })[] = []
+  for (const c of candidates) {
+    const keys = dedupeKeys(c)
+    if (!c.title || !keys.length || keys.some(k => seen.has(k))) continue
+    keys.forEach(k => seen.add(k))
+    fresh.push({ ...c, dedupe_keys: keys })
+  }
+  const room = MAX_RECORDS_PER_REVIEW - existing.length
+  if (fresh.length > room) throw new ReviewError(`A review can hold at most ${MAX_RECORDS_PER_REVIEW} records`, 409)
+
+  const total = Object.values(identified).reduce((a, b) => a + b, 0)
+  const { data: search, error } = await admin
+    .from('review_searches')
+    .insert({
+      review_id: review.id,
+      colab_id: review.colab_id,
+      source: req.source,
+      query: 'query' in req ? req.query : '',
+      identified,
+      duplicates: total - fresh.length,
+      added: fresh.length,
+      run_by: userId,
+    })
+    .select('*')
+    .single()
+  if (error) throw new ReviewError(error.message, 500)
+
+  for (let i = 0; i < fresh.length; i += 500) {
+    const rows = fresh.slice(i, i + 500).map(({ arxiv: _arxiv, ...c }) => ({
+      ...c,
+      review_id: review.id,
+      colab_id: review.colab_id,
+      search_id: search.id,
+    }))
+    const { error: insErr } = await admin.from('review_records').insert(rows)
+    if (insErr) throw new ReviewError(insErr.message, 500)
+  }
+  return search as ReviewSearch
+}
+
+/** ------------ Screening ------------ */
+export function readStage(v: unknown): ReviewStage {
+  if (!REVIEW_STAGES.includes(v as ReviewStage)) throw new ReviewError('stage must be screening or eligibility')
+  return v as ReviewStage
+}
+
+async function getRecord(admin: SupabaseClient, review: SystematicReview, recordId: string) {
+  const { data } = await admin
+    .from('review_records')
+    .select('id')
+    .eq('id', recordId)
+    .eq('review_id', review.id)
+    .maybeSingle()
+  if (!data) throw new ReviewError('Record not found', 404)
+}
+
+async function stageIndex(admin: SupabaseClient, reviewId: string, recordIds?: string[]) {
+  const [votes, decisions] = await Promise.all([allVotes(admin, reviewId, recordIds), allDecisions(admin, reviewId, recordIds)])
+  return indexReview(votes, decisions)
+}
+
+/**
+ * Re-derive consensus decisions from the votes (all records when `recordIds`
+ * is omitted, e.g. after `screeners_required` changed). Member resolutions are
+ * kept; a record no longer included at screening loses its full-text outcome.
+ */
+export async function settle(admin: SupabaseClient, review: SystematicReview, recordIds?: string[]) {
+  const index = await stageIndex(admin, review.id, recordIds)
+  let ids = recordIds
+  if (!ids) ids = (await allRecords(admin, review.id, 'id')).map(r => r.id)
+
+  const upserts: Omit<ReviewDecision, 'decided_at'>[] = []
+  const removals: { record_id: string; stage: ReviewStage }[] = []
+  for (const recordId of ids) {
+    let screening: ReviewDecision['decision'] | undefined
+    for (const stage of REVIEW_STAGES) {
+      const current = index.decision(recordId, stage)
+      // full text only follows an "include" at screening
+      const reachable = stage === 'screening' || screening === 'include'
+      let next: Pick<ReviewDecision, 'decision' | 'reason'> | null = null
+      if (reachable && current?.resolved_by) {
+        next = current
+      } else if (reachable) {
+        const votes = index.votes(recordId, stage)
+        const agreed = votes.length >= review.screeners_required ? consensus(votes) : null
+        if (agreed) next = { decision: agreed, reason: agreed === 'exclude' ? commonReason(votes) : null }
+      }
+      if (stage === 'screening') screening = next?.decision
+
+      if (!next) {
+        if (current) removals.push({ record_id: recordId, stage })
+      } else if (next !== current && (current?.decision !== next.decision || current?.reason !== next.reason)) {
+        upserts.push({ record_id: recordId, stage, review_id: review.id, colab_id: review.colab_id, ...next, resolved_by: null })
+      }
+    }
+  }
+
+  if (upserts.length) {
+    const { error } = await admin.from('review_decisions').upsert(upserts.map(u => ({ ...u, decided_at: new Date().toISOString() })))
+    if (error) throw new ReviewError(error.message, 500)
+  }
+  for (const r of removals) {
+    const { error } = await admin.from('review_decisions').delete().eq('record_id', r.record_id).eq('stage', r.stage)
+    if (error) throw new ReviewError(error.message, 500)
+  }
+}
+
+/** Check a vote or resolution body; excluding at full text needs a reason */
+function readDecision(body: any, allowed: readonly string[]) {
+  const stage = readStage(body?.stage)
+  const decision = body?.decision
+  if (!allowed.includes(decision)) throw new ReviewError(`decision must be ${allowed.join(' or ')}`)
+  const reason = str(body?.reason, 300) || null
+  if (stage === 'eligibility' && decision === 'exclude' && !reason) throw new ReviewError('Give a reason for excluding at full text')
+  return { stage, decision, reason }
+}
+
+/**
+ * Record (or change) the caller's vote, then settle the record. Votes are
+ * written as the caller so RLS pins them to their own user id. Once a stage's
+ * votes are revealed (all in, or decided) the votes cast on it are final.
+ */
+export async function castVote(
+  supabase: SupabaseClient,
+  admin: SupabaseClient,
+  review: SystematicReview,
+  recordId: string,
+  userId: string,
+  body: any
+) {
+  const { stage, decision, reason } = readDecision(body, VOTE_DECISIONS)
+  await getRecord(admin, review, recordId)
+  const index = await stageIndex(admin, review.id, [recordId])
+  if (stage === 'eligibility' && index.decision(recordId, 'screening')?.decision !== 'include') {
+    throw new ReviewError('Only records included at title/abstract screening go to full-text review', 409)
+  }
+  const votes = index.votes(recordId, stage)
+  if (votes.some(v => v.reviewer_id === userId) && votesRevealed(index, recordId, stage, review.screeners_required)) {
+    throw new ReviewError('The votes on this record are revealed, so yours can no longer change', 409)
+  }
+
+  const { error } = await supabase.from('review_votes').upsert({
+    record_id: recordId,
+    stage,
+    reviewer_id: userId,
+    review_id: review.id,
+    colab_id: review.colab_id,
+    decision: decision as VoteDecision,
+    reason,
+    updated_at: new Date().toISOString(),
+  })
+  if (error) throw new ReviewError(error.message, 500)
+  await settle(admin, review, [recordId])
+}
+
+/** A member's final call on a conflicted stage (or a change to an earlier resolution) */
+export async function resolveConflict(admin: SupabaseClient, review: SystematicReview, recordId: string, userId: string, body: any) {
+  const { stage, decision, reason } = readDecision(body, ['include', 'exclude'])
+  await getRecord(admin, review, recordId)
+  const index = await stageIndex(admin, review.id, [recordId])
+  const status = stageStatus(index, recordId, stage, review.screeners_required)
+  if (status === null) throw new ReviewError('Only records included at title/abstract screening go to full-text review', 409)
+  if (status !== 'conflict' && !index.decision(recordId, stage)?.resolved_by) {
+    throw new ReviewError('Only conflicts can be resolved; this record has not been screened by everyone or the screeners agree', 409)
+  }
+
+  const { error } = await admin.from('review_decisions').upsert({
+    record_id: recordId,
+    stage,
+    review_id: review.id,
+    colab_id: review.colab_id,
+    decision,
+    reason: decision === 'exclude' ? reason : null,
+    resolved_by: userId,
+    decided_at: new Date().toISOString(),
+  })
+  if (error) throw new ReviewError(error.message, 500)
+  // an "exclude" at screening voids any full-text outcome
+  if (stage === 'screening' && decision === 'exclude') {
+    await admin.from('review_decisions').delete().eq('record_id', recordId).eq('stage', 'eligibility')
+  }
+}
@@ -0,0 +1,70 @@
+import type { ChatMessage } from '../llm'
+import type { ReviewRecord, SystematicReview } from '../../types/review-types'
+import type { PrismaCounts } from './prisma'
+
+/**
+ * Prompt for the structured write-up of a finished (or in-progress) review:
+ * the protocol, the flow counts and the included studies, numbered so the
+ * model can cite them as [n].
+ */
+
+const MAX_STUDIES = 40
+const ABSTRACT_CHARS = 900
+
+const list = (items: string[]) => (items.length ? items.map(x => `- ${x}`).join('\n') : '- (none recorded)')
+
+export function synthesisMessages(review: SystematicReview, counts: PrismaCounts, included: ReviewRecord[]): ChatMessage[] {
+  const studies = included.slice(0, MAX_STUDIES).map((r, i) => [
+    `[${i + 1}] ${r.title}`,
+    `    ${[r.authors.slice(0, 3).join(', ') + (r.authors.length > 3 ? ' et al.' : ''), r.journal, r.year].filter(Boolean).join(' · ')}`,
+    r.abstract ? `    Abstract: ${r.abstract.slice(0, ABSTRACT_CHARS)}${r.abstract.length > ABSTRACT_CHARS ? '…' : ''}` : '    No abstract available',
+  ].join('\n'))
+
+  const reasons = Object.entries(counts.excludedReasons).map(([reason, n]) => `${reason}: ${n}`)
+  const flow = [
+    `Records identified: ${counts.identifiedTotal} (${Object.entries(counts.identified).map(([db, n]) => `${db} ${n}`).join(', ') || 'none'})`,
+    `Duplicates removed: ${counts.duplicates}`,
+    `Records screened: ${counts.screened}; excluded at title/abstract: ${counts.screeningExcluded}`,
+    `Full texts sought: ${counts.sought}; not retrieved: ${counts.notRetrieved}; assessed: ${counts.assessed}`,
+    `Full texts excluded: ${reasons.join('; ') || 'none'}`,
+    `Studies included: ${counts.included}`,
+    counts.screeningPending + counts.screeningConflicts + counts.eligibilityPending + counts.eligibilityConflicts
+      ? 'Screening is not finished; say so in the limitations.'
+      : '',
+  ].filter(Boolean).join('\n')
+
+  return [
+    {
+      role: 'system',
+      content: 'You write structured systematic review reports in the PRISMA 2020 style. Only use the studies provided, cite them as [n], and never invent results, numbers or studies.',
+    },
+    {
+      role: 'user',
+      content: `REVIEW: ${review.title}
+QUESTION: ${review.question || '(not stated)'}
+
+INCLUSION CRITERIA:
+${list(review.inclusion_criteria)}
+
+EXCLUSION CRITERIA:
+${list(review.exclusion_criteria)}
+
+STUDY FLOW:
+${flow}
+
+INCLUDED STUDIES (${included.length}${included.length > MAX_STUDIES ? `, first ${MAX_STUDIES} shown` : ''}):
+${studies.join('\n\n') || '(none)'}
+
+Write the report with these sections:
+
+## Objective
+## Methods
+Eligibility criteria, information sources and the screening process (independent screening by ${review.screeners_required} reviewer${review.screeners_required === 1 ? '' : 's'}, conflicts resolved by discussion), using the flow counts above.
+## Study characteristics
+## Findings
+Group the evidence by theme, citing studies as [n].
+## Risk of bias and limitations
+## Conclusions`,
+    },
+  ]
+}
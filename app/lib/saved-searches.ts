@@ -0,0 +1,216 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { litKey, runMultiSearch } from './literature/multisearch'
+import type { LitSource } from './literature/sources'
+import { searchPubMed } from './literature/pubmed'
+import { chargeUserUsage } from './metering'
+import { colabMemberIds, notifyColabMembers } from './notifications'
+
+/**
+ * Saved literature searches on a colab. Each run fetches the current top
+ * results and diffs them against every key seen by earlier runs (the same
+ * normalized DOI / arXiv / title keys `dedupeAndRank` merges on; PubMed hits
+ * without a DOI use their PMID). The first run only records a baseline;
+ * later runs that find unseen works notify the colab's members.
+ */
+
+export const SEARCH_SOURCES = ['multisearch', 'pubmed'] as const
+export const SEARCH_SCHEDULES = ['off', 'daily', 'weekly'] as const
+export type SearchSource = typeof SEARCH_SOURCES[number]
+export type SearchSchedule = typeof SEARCH_SCHEDULES[number]
+
+export interface SavedSearch {
+  id: string
+  colab_id: string
+  created_by: string
+  name: string
+  source: SearchSource
+  query: string
+  /** multisearch only: the sources to query; null for all */
+  lit_sources: LitSource[] | null
+  schedule: SearchSchedule
+  seen_keys: string[]
+  last_run_at: string | null
+  next_run_at: string | null
+  last_error: string | null
+  created_at: string
+}
+
+/** Columns returned to clients: everything but the (large) seen_keys list */
+export const SEARCH_COLUMNS = 'id, colab_id, created_by, name, source, query, lit_sources, schedule, last_run_at, next_run_at, last_error, created_at'
+
+export interface SearchHit {
+  key: string
+  title: string
+  year?: number
+  authors: string[]
+  journal?: string
+  doi?: string
+  pmid?: string
+  url?: string
+}
+
+export interface SavedSearchRun {
+  id: string
+  search_id: string
+  colab_id: string
+  trigger: 'manual' | 'schedule'
+  baseline: boolean
+  result_count: number
+  new_hits: SearchHit[]
+  ran_at: string
+}
+
+export class SavedSearchError extends Error {
+  constructor(message: string, public status = 400) { super(message) }
+}
+
+const RESULT_LIMIT = 20
+const MAX_SEEN_KEYS = 2000
+
+const DAY_MS = 24 * 60 * 60 * 1000
+export const nextRunAt = (schedule: SearchSchedule, from = new Date()) =>
+  schedule === 'off' ? null : new Date(from.getTime() + (schedule === 'daily' ? 1 : 7) * DAY_MS).toISOString()
+
+/** Current top results for a saved query, as comparable hits (never a cached answer) */
+export async function fetchHits(source: SearchSource, query: string, litSources?: LitSource[] | null): Promise<SearchHit[]> {
+  if (source === 'pubmed') {
+    const papers = await searchPubMed(query, RESULT_LIMIT, { refresh: true })
+    return papers.map(p => ({
+      key: p.doi ? `doi:${p.doi.toLowerCase()}` : `pmid:${p.pmid}`,
+      title: p.title,
+      year: p.year ? Number(p.year) : undefined,
+      authors: (p.authors || []).slice(0, 5),
+      journal: p.journal || undefined,
+      doi: p.doi?.toLowerCase(),
+      pmid: p.pmid,
+      url: p.url,
+    }))
+  }
+
+  const { items, warning } = await runMultiSearch(query, RESULT_LIMIT, RESULT_LIMIT, { refresh: true, sources: litSources || undefined })
+  if (warning && !items.length) throw new Error(warning)
+  return items.map(x => ({
+    key: litKey(x),
+    title: x.title,
+    year: x.year,
+    authors: (x.authors || []).slice(0, 5),
+    doi: x.doi,
+    url: x.url,
+  }))
+}
+
+/**
+ * Run a saved search with the service-role client and record the diff.
+ * Search failures are stored on the search (`last_error`) and rethrown.
+ */
+export async function runSavedSearch(
+  admin: SupabaseClient,
+  search: SavedSearch,
+  trigger: SavedSearchRun['trigger']
+): Promise<SavedSearchRun> {
+  const now = new Date()
+  let hits: SearchHit[]
+  try {
+    hits = await fetchHits(search.source, search.query, search.lit_sources)
+  } catch (e: any) {
+    await admin
+      .from('saved_searches')
+      .update({ last_error: e.message || 'Search failed', next_run_at: nextRunAt(search.schedule, now) })
+      .eq('id', search.id)
+    throw new SavedSearchError(e.message || 'Search failed', 502)
+  }
+
+  const seen = new Set(search.seen_keys || [])
+  const baseline = !search.last_run_at
+  const fresh = hits.filter(h => !seen.has(h.key))
+  const newHits = baseline ? [] : fresh
+
+  const { data: run, error } = await admin
+    .from('saved_search_runs')
+    .insert({
+      search_id: search.id,
+      colab_id: search.colab_id,
+      trigger,
+      baseline,
+      result_count: hits.length,
+      new_hits: newHits,
+    })
+    .select('*')
+    .single()
+  if (error) throw new SavedSearchError(error.message, 500)
+
+  // newest keys last; keep the tail so long-lived searches stay bounded
+  const seenKeys = [...(search.seen_keys || []), ...fresh.map(h => h.key)].slice(-MAX_SEEN_KEYS)
+  const { error: updErr } = await admin
+    .from('saved_searches')
+    .update({ seen_keys: seenKeys, last_run_at: now.toISOString(), next_run_at: nextRunAt(search.schedule, now), last_error: null })
+    .eq('id', search.id)
+  if (updErr) throw new SavedSearchError(updErr.message, 500)
+
+  if (newHits.length) {
+    const { data: colab } = await admin.from('colabs').select('slug').eq('id', search.colab_id).maybeSingle()
+    const n = newHits.length
+    try {
+      await notifyColabMembers(admin, search.colab_id, {
+        kind: 'saved_search',
+        title: `${n} new result${n === 1 ? '' : 's'} for "${search.name}"`,
+        body: newHits.slice(0, 3).map(h => h.title).join('\n'),
+        link: colab?.slug ? `/colab/${colab.slug}` : null,
+        data: { search_id: search.id, run_id: run.id },
+      })
+    } catch (e) {
+      // the run and its digest entry are already recorded
+      console.error('saved search notification failed', e)
+    }
+  }
+
+  return run as SavedSearchRun
+}
+
+/**
+ * Rerun every scheduled search that is due, oldest first. Each run is charged
+ * as one literature search to the member who saved it; searches whose owner
+ * left the colab or ran out of quota are skipped until their next slot.
+ * Archived and trashed colabs are left out until they are restored.
+ */
+export async function runDueSearches(admin: SupabaseClient, limit = 20) {
+  const now = new Date()
+  const { data, error } = await admin
+    .from('saved_searches')
+    .select('*, colabs!inner(archived_at, deleted_at)')
+    .neq('schedule', 'off')
+    .lte('next_run_at', now.toISOString())
+    .is('colabs.archived_at', null)
+    .is('colabs.deleted_at', null)
+    .order('next_run_at', { ascending: true })
+    .limit(limit)
+  if (error) throw new SavedSearchError(error.message, 500)
+
+  const summary = { ran: 0, newHits: 0, skipped: 0, failed: 0 }
+  for (const { colabs: _colab, ...search } of (data || []) as (SavedSearch & { colabs: unknown })[]) {
+    const skip = async (reason: string) => {
+      summary.skipped++
+      await admin
+        .from('saved_searches')
+        .update({ last_error: reason, next_run_at: nextRunAt(search.schedule, now) })
+        .eq('id', search.id)
+    }
+
+    const members = await colabMemberIds(admin, search.colab_id)
+    if (!members.includes(search.created_by)) { await skip('The member who saved this search left the colab'); continue }
+
+    const charge = await chargeUserUsage(search.created_by, 'lit_searches', 1, { colabId: search.colab_id })
+    if (!charge.ok) { await skip('Literature search quota exhausted'); continue }
+
+    try {
+      const run = await runSavedSearch(admin, search, 'schedule')
+      summary.ran++
+      summary.newHits += run.new_hits.length
+    } catch (e) {
+      summary.failed++
+      await charge.refund()
+      console.error('scheduled saved search failed', search.id, e)
+    }
+  }
+  return summary
+}
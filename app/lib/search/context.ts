@@ -0,0 +1,83 @@
+import { createAdminSupabase } from '../supabase-admin'
+import type { ChatMessage } from '../llm/types'
+import type { ContextSource, SearchKind } from '../../types/search-types'
+import { hybridChunks, publicSourceId, type RankedChunk } from './index'
+
+/**
+ * Copilot context: the colab excerpts most relevant to a prompt, packed into
+ * a token budget (COPILOT_CONTEXT_TOKENS, default 6000). The README's opening
+ * chunk is always included first since it says what the colab is about;
+ * everything else competes on hybrid search rank.
+ */
+
+export const CONTEXT_TOKEN_BUDGET = Number(process.env.COPILOT_CONTEXT_TOKENS) || 6000
+const CANDIDATES = 40
+
+const KIND_LABELS: Record<SearchKind, string> = {
+  readme: 'README',
+  note: 'Note',
+  file: 'File',
+  reference: 'Paper',
+  memory: 'Copilot memory',
+}
+
+/** Rough token count (~4 characters per token); good enough for budgeting */
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4)
+
+export interface RetrievedContext {
+  messages: ChatMessage[]
+  sources: ContextSource[]
+  tokens: number
+}
+
+export async function retrieveContext(
+  colabId: string,
+  userId: string,
+  prompt: string,
+  budget = CONTEXT_TOKEN_BUDGET
+): Promise<RetrievedContext> {
+  // the copilot message charge covers embedding the prompt
+  const { chunks } = await hybridChunks(colabId, userId, prompt, { limit: CANDIDATES, matchAny: true, queryCharged: true })
+  const { data: intro } = await createAdminSupabase()
+    .from('search_chunks')
+    .select('kind, source_id, chunk, title, content')
+    .eq('colab_id', colabId)
+    .eq('kind', 'readme')
+    .eq('chunk', 0)
+    .maybeSingle()
+
+  const candidates: Pick<RankedChunk, 'kind' | 'source_id' | 'chunk' | 'title' | 'content'>[] = [...(intro ? [intro] : []), ...chunks]
+  const blocks: string[] = []
+  const used = new Set<string>()
+  const sources = new Map<string, ContextSource>()
+  let tokens = 0
+  for (const c of candidates) {
+    const key = `${c.kind}:${c.source_id}:${c.chunk}`
+    if (used.has(key)) continue
+    const block = `[${KIND_LABELS[c.kind]}: ${c.title}]\n${c.content}`
+    const cost = estimateTokens(block)
+    // a big chunk that does not fit may still leave room for smaller ones
+    if (tokens + cost > budget) continue
+    used.add(key)
+    blocks.push(block)
+    tokens += cost
+
+    const doc = `${c.kind}:${c.source_id}`
+    const source = sources.get(doc)
+    if (source) source.chunks++
+    else sources.set(doc, { kind: c.kind, source_id: publicSourceId(c), title: c.title, chunks: 1 })
+  }
+
+  if (!blocks.length) return { messages: [], sources: [], tokens: 0 }
+  return {
+    messages: [
+      {
+        role: 'system',
+        content: 'You are the research copilot of this colab. Excerpts of its README, notes, files, bibliography and saved copilot memories were retrieved for this question. Use them where they help, and say so when they do not cover the question.',
+      },
+      { role: 'user', content: `COLAB CONTEXT:\n\n${blocks.join('\n\n---\n\n')}` },
+    ],
+    sources: Array.from(sources.values()),
+    tokens,
+  }
+}
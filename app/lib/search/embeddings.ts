@@ -0,0 +1,188 @@
+import { createHash } from 'crypto'
+import { getLLMProviderForColab } from '../llm'
+import { errorFromResponse, LLMError, toLLMError } from '../llm/types'
+
+/**
+ * Text embeddings for the colab search index. Every model is asked for
+ * EMBEDDING_DIMS dimensions so vectors fit the one `search_chunks.embedding`
+ * column; vectors are only ever compared with ones from the same model.
+ *
+ * Provider (EMBEDDING_PROVIDER): "gemini", "openai" or "local". Unset, it
+ * follows the colab's LLM provider, and anything that is not configured (no
+ * API key, the mock provider) falls back to "local": a deterministic hashed
+ * bag-of-words model that needs no network, so search works offline.
+ */
+
+export const EMBEDDING_DIMS = 768
+
+export const EMBEDDING_PROVIDERS = ['gemini', 'openai', 'local'] as const
+export type EmbeddingProviderName = typeof EMBEDDING_PROVIDERS[number]
+
+/** Documents and queries embed differently on models that support it */
+export type EmbeddingPurpose = 'document' | 'query'
+
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName
+  /** stored with each vector; changing it re-embeds the index */
+  readonly model: string
+  embed(texts: string[], purpose: EmbeddingPurpose): Promise<number[][]>
+}
+
+const BATCH = 64
+
+async function inBatches(texts: string[], run: (batch: string[]) => Promise<number[][]>) {
+  const out: number[][] = []
+  for (let i = 0; i < texts.length; i += BATCH) out.push(...await run(texts.slice(i, i + BATCH)))
+  return out
+}
+
+async function postJson(label: string, url: string, init: RequestInit) {
+  let res: Response
+  try {
+    res = await fetch(url, { method: 'POST', ...init })
+  } catch (e) {
+    throw toLLMError(e)
+  }
+  const data = await res.json().catch(() => ({}))
+  if (!res.ok) throw errorFromResponse(label, res.status, data?.error?.message)
+  return data
+}
+
+/** Env: GEMINI_API_KEY, GEMINI_EMBEDDING_MODEL (default text-embedding-004) */
+export class GeminiEmbeddings implements EmbeddingProvider {
+  readonly name = 'gemini' as const
+
+  constructor(
+    private apiKey = process.env.GEMINI_API_KEY || '',
+    readonly model = process.env.GEMINI_EMBEDDING_MODEL || 'text-embedding-004'
+  ) {
+    if (!this.apiKey) throw new LLMError('Missing GEMINI_API_KEY', 'config', 500)
+  }
+
+  embed(texts: string[], purpose: EmbeddingPurpose) {
+    return inBatches(texts, async batch => {
+      const data = await postJson(
+        'Gemini',
+        `https://generativelanguage.googleapis.com/v1beta/models/${this.model}:batchEmbedContents?key=${this.apiKey}`,
+        {
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            requests: batch.map(text => ({
+              model: `models/${this.model}`,
+              content: { parts: [{ text }] },
+              taskType: purpose === 'query' ? 'RETRIEVAL_QUERY' : 'RETRIEVAL_DOCUMENT',
+              outputDimensionality: EMBEDDING_DIMS,
+            })),
+          }),
+        }
+      )
+      const vectors = (data?.embeddings || []).map((e: any) => e?.values as number[])
+      if (vectors.length !== batch.length) throw new LLMError('Gemini returned too few embeddings', 'upstream')
+      return vectors
+    })
+  }
+}
+
+/** Any OpenAI-compatible /embeddings endpoint. Env: OPENAI_API_KEY, OPENAI_BASE_URL, OPENAI_EMBEDDING_MODEL */
+export class OpenAIEmbeddings implements EmbeddingProvider {
+  readonly name = 'openai' as const
+
+  constructor(
+    private apiKey = process.env.OPENAI_API_KEY || '',
+    private baseUrl = (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, ''),
+    readonly model = process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small'
+  ) {
+    if (!this.apiKey && !process.env.OPENAI_BASE_URL) throw new LLMError('Missing OPENAI_API_KEY', 'config', 500)
+  }
+
+  embed(texts: string[]) {
+    return inBatches(texts, async batch => {
+      const data = await postJson('OpenAI-compatible endpoint', `${this.baseUrl}/embeddings`, {
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        },
+        body: JSON.stringify({ model: this.model, input: batch, dimensions: EMBEDDING_DIMS }),
+      })
+      const rows = (data?.data || []) as { index: number; embedding: number[] }[]
+      if (rows.length !== batch.length) throw new LLMError('Endpoint returned too few embeddings', 'upstream')
+      return rows.sort((a, b) => a.index - b.index).map(r => r.embedding)
+    })
+  }
+}
+
+const STOPWORDS = new Set(
+  'a an and are as at be by for from has have in is it its of on or that the this to was were with we our not but into than then these those'.split(' ')
+)
+
+/** Lowercased ASCII word tokens, accents folded, stopwords dropped */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(t => t.length > 1 && !STOPWORDS.has(t))
+}
+
+/**
+ * Feature hashing: words, adjacent word pairs and (weaker) character
+ * trigrams, each hashed to a signed bucket, log-scaled and L2-normalized.
+ * Crude next to a real model but deterministic and typo-tolerant.
+ */
+export class LocalEmbeddings implements EmbeddingProvider {
+  readonly name = 'local' as const
+  readonly model = `local-hash-${EMBEDDING_DIMS}`
+
+  private vector(text: string): number[] {
+    const counts = new Map<string, number>()
+    const add = (feature: string, weight: number) => counts.set(feature, (counts.get(feature) || 0) + weight)
+    const words = tokenize(text)
+    words.forEach((w, i) => {
+      add(`w:${w}`, 1)
+      if (i > 0) add(`b:${words[i - 1]} ${w}`, 0.5)
+      const padded = ` ${w} `
+      for (let k = 0; k + 3 <= padded.length; k++) add(`c:${padded.slice(k, k + 3)}`, 0.25)
+    })
+
+    const v = new Array<number>(EMBEDDING_DIMS).fill(0)
+    counts.forEach((weight, feature) => {
+      const h = createHash('md5').update(feature).digest()
+      const bucket = h.readUInt32LE(0) % EMBEDDING_DIMS
+      v[bucket] += (h[4] & 1 ? 1 : -1) * Math.log1p(weight)
+    })
+    const norm = Math.sqrt(v.reduce((s, x) => s + x * x, 0))
+    return norm ? v.map(x => x / norm) : v
+  }
+
+  async embed(texts: string[]) {
+    return texts.map(t => this.vector(t))
+  }
+}
+
+const isEmbeddingProvider = (v: unknown): v is EmbeddingProviderName =>
+  typeof v === 'string' && (EMBEDDING_PROVIDERS as readonly string[]).includes(v)
+
+function create(name: EmbeddingProviderName): EmbeddingProvider {
+  switch (name) {
+    case 'gemini': return new GeminiEmbeddings()
+    case 'openai': return new OpenAIEmbeddings()
+    default: return new LocalEmbeddings()
+  }
+}
+
+/** EMBEDDING_PROVIDER, else the colab's LLM provider; "local" when that is not configured */
+export async function getEmbeddingProvider(colabId: string): Promise<EmbeddingProvider> {
+  const configured = process.env.EMBEDDING_PROVIDER
+  if (configured) {
+    if (!isEmbeddingProvider(configured)) throw new LLMError(`Unknown embedding provider "${configured}"`, 'config', 500)
+    return create(configured)
+  }
+  try {
+    const llm = await getLLMProviderForColab(colabId)
+    return create(llm.name === 'mock' ? 'local' : llm.name)
+  } catch (e) {
+    if (e instanceof LLMError && e.code === 'config') return new LocalEmbeddings()
+    throw e
+  }
+}
@@ -0,0 +1,163 @@
+import { randomUUID } from 'crypto'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { LocalEmbeddings } from './embeddings'
+import { chunkText, snippet, syncIndex } from './index'
+
+/** Just enough of the query builder for the index sync, over in-memory tables */
+function fakeAdmin(tables: Record<string, any[]>) {
+  return {
+    from(table: string) {
+      tables[table] ||= []
+      let rows = tables[table]
+      let deleting = false
+      const q: any = {
+        select: () => q,
+        eq: (col: string, val: unknown) => { rows = rows.filter(r => r[col] === val); return q },
+        in: (col: string, vals: unknown[]) => {
+          rows = rows.filter(r => vals.includes(r[col]))
+          if (deleting) tables[table] = tables[table].filter(r => !rows.includes(r))
+          return q
+        },
+        maybeSingle: async () => ({ data: rows[0] ?? null, error: null }),
+        upsert: async (input: any[]) => {
+          for (const row of input) {
+            const i = tables[table].findIndex(r =>
+              r.colab_id === row.colab_id && r.kind === row.kind && r.source_id === row.source_id && r.chunk === row.chunk)
+            if (i >= 0) tables[table][i] = { ...tables[table][i], ...row }
+            else tables[table].push({ id: randomUUID(), ...row })
+          }
+          return { error: null }
+        },
+        delete: () => { deleting = true; return q },
+        then: (resolve: (v: unknown) => void) => resolve({ data: rows, error: null }),
+      }
+      return q
+    },
+  }
+}
+
+const tables = vi.hoisted(() => ({}) as Record<string, any[]>)
+vi.mock('../supabase-admin', () => ({ createAdminSupabase: () => fakeAdmin(tables) }))
+vi.mock('../files/repository', () => ({ resolveTree: async () => [] }))
+vi.mock('../files/storage', () => ({ getStorageAdapter: () => ({}) }))
+vi.mock('../metering', () => ({ chargeUserUsage: vi.fn() }))
+
+const dot = (a: number[], b: number[]) => a.reduce((s, x, i) => s + x * b[i], 0)
+
+describe('chunkText', () => {
+  it('packs short paragraphs together and drops blank ones', () => {
+    expect(chunkText('First paragraph.\n\n  \n\nSecond paragraph.')).toEqual(['First paragraph.\n\nSecond paragraph.'])
+    expect(chunkText('   ')).toEqual([])
+  })
+
+  it('starts a new chunk when the next paragraph would overflow', () => {
+    const para = 'x'.repeat(700)
+    expect(chunkText(`${para}\n\n${para}`)).toEqual([para, para])
+  })
+
+  it('splits a long paragraph into overlapping windows', () => {
+    const long = Array.from({ length: 3000 }, (_, i) => String.fromCharCode(97 + (i % 26))).join('')
+    const chunks = chunkText(long)
+    expect(chunks.map(c => c.length)).toEqual([1200, 1200, 900])
+    expect(chunks[1].slice(0, 150)).toBe(chunks[0].slice(-150))
+  })
+})
+
+describe('snippet', () => {
+  it('returns short content whole, whitespace collapsed', () => {
+    expect(snippet('A  short\n\nnote', 'note')).toBe('A short note')
+  })
+
+  it('centres long content on the first query term it contains', () => {
+    const text = `${'lorem ipsum '.repeat(50)}CRISPR screening results ${'dolor sit '.repeat(50)}`
+    const s = snippet(text, 'crispr', 80)
+    expect(s).toContain('CRISPR')
+    expect(s.startsWith('…')).toBe(true)
+    expect(s.endsWith('…')).toBe(true)
+  })
+
+  it('falls back to the opening when no term matches', () => {
+    const s = snippet('word '.repeat(100), 'absent', 40)
+    expect(s.startsWith('word')).toBe(true)
+    expect(s.endsWith('…')).toBe(true)
+  })
+})
+
+describe('local embeddings', () => {
+  const local = new LocalEmbeddings()
+
+  it('is deterministic and unit length', async () => {
+    const [a] = await local.embed(['Protein structure prediction'])
+    const [b] = await new LocalEmbeddings().embed(['Protein structure prediction'])
+    expect(a).toEqual(b)
+    expect(a).toHaveLength(768)
+    expect(dot(a, a)).toBeCloseTo(1, 6)
+  })
+
+  it('ranks related text above unrelated text', async () => {
+    const [query, related, unrelated] = await local.embed([
+      'protein folding structure',
+      'Deep learning predicts protein structure and folding from sequence',
+      'Quarterly inflation figures and central bank interest rates',
+    ])
+    expect(dot(query, related)).toBeGreaterThan(dot(query, unrelated))
+  })
+
+  it('tolerates typos through character trigrams', async () => {
+    const [query, typo, other] = await local.embed(['microbiome', 'microbiom', 'astronomy'])
+    expect(dot(query, typo)).toBeGreaterThan(dot(query, other))
+  })
+})
+
+describe('syncIndex', () => {
+  const colabId = randomUUID()
+  const userId = randomUUID()
+  let embedder: LocalEmbeddings
+  let embedded: string[]
+
+  beforeEach(() => {
+    for (const k of Object.keys(tables)) delete tables[k]
+    Object.assign(tables, {
+      colabs: [{ id: colabId, name: 'Gut flora', readme: '# Gut flora\n\nWe study the gut microbiome.' }],
+      research_notes: [
+        { id: 'n1', colab_id: colabId, content: 'Sequencing run finished.', parent_id: null },
+        { id: 'n2', colab_id: colabId, content: 'Looks good to me.', parent_id: 'n1' },
+      ],
+      colab_references: [],
+      ai_memories: [{ colab_id: colabId, user_id: userId, type: 'preferences', content: 'Prefers short answers.' }],
+      search_chunks: [],
+    })
+    embedder = new LocalEmbeddings()
+    embedded = []
+    const embed = embedder.embed.bind(embedder)
+    vi.spyOn(embedder, 'embed').mockImplementation(async texts => { embedded.push(...texts); return embed(texts) })
+  })
+
+  it('embeds every chunk the first time', async () => {
+    expect(await syncIndex(colabId, embedder)).toEqual({ embedded: 4, removed: 0 })
+    expect(tables.search_chunks.map(c => c.kind).sort()).toEqual(['memory', 'note', 'note', 'readme'])
+    expect(tables.search_chunks.find(c => c.kind === 'memory').owner_id).toBe(userId)
+  })
+
+  it('re-embeds only chunks whose text changed and drops deleted documents', async () => {
+    await syncIndex(colabId, embedder)
+    embedded = []
+    expect(await syncIndex(colabId, embedder)).toEqual({ embedded: 0, removed: 0 })
+    expect(embedded).toEqual([])
+
+    tables.research_notes[0].content = 'Sequencing run failed; rerunning tomorrow.'
+    tables.research_notes.splice(1, 1)
+    expect(await syncIndex(colabId, embedder)).toEqual({ embedded: 1, removed: 1 })
+    expect(embedded).toHaveLength(1)
+    expect(embedded[0]).toContain('rerunning tomorrow')
+    expect(tables.search_chunks.filter(c => c.kind === 'note').map(c => c.source_id)).toEqual(['n1'])
+  })
+
+  it('charges the meter for the chunks it embeds and stops when refused', async () => {
+    const meter = vi.fn(async () => ({ ok: false, refund: async () => {} }))
+    await expect(syncIndex(colabId, embedder, meter)).rejects.toMatchObject({ status: 402 })
+    expect(meter).toHaveBeenCalledWith(4)
+    expect(embedded).toEqual([])
+    expect(tables.search_chunks).toEqual([])
+  })
+})
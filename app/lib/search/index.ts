@@ -0,0 +1,356 @@
+import { createHash } from 'crypto'
+import { createAdminSupabase } from '../supabase-admin'
+import { chargeUserUsage } from '../metering'
+import { resolveTree } from '../files/repository'
+import { isTextFile } from '../files/diff'
+import { getStorageAdapter } from '../files/storage'
+import type { SearchKind, SearchResponse, SearchResult } from '../../types/search-types'
+import { getEmbeddingProvider, tokenize, type EmbeddingProvider } from './embeddings'
+
+/**
+ * Hybrid search inside a colab: research notes, the README, text files at
+ * HEAD, bibliography entries and the caller's own copilot memories.
+ *
+ * The index (`search_chunks`) is derived data. Writes to the source tables
+ * mark it dirty (`search_index_state`), and a search first syncs a dirty
+ * index, at most once per SYNC_DEBOUNCE_SECONDS per colab: documents are
+ * split into chunks, and only chunks whose hash (model + text) changed are
+ * re-embedded; chunks of deleted documents are dropped. Files carry their
+ * version (storage key), so an unchanged file is not even downloaded. The
+ * query then runs a vector and a full-text search and the two rankings are
+ * fused with reciprocal rank fusion (`hybridChunks`); `searchColab` keeps the
+ * best chunk per document.
+ *
+ * Embedding calls to a paid provider are charged to the searching user as AI
+ * usage. Without quota the search runs on what is already indexed, and by
+ * keyword alone when the query cannot be embedded.
+ */
+
+export const SEARCH_KINDS: SearchKind[] = ['note', 'readme', 'file', 'reference', 'memory']
+export const MAX_SEARCH_RESULTS = 25
+
+export class SearchError extends Error {
+  constructor(message: string, public status = 400) { super(message) }
+}
+
+interface SourceDoc {
+  kind: SearchKind
+  source_id: string
+  owner_id: string | null
+  title: string
+  /** the text, or how to fetch it when `version` shows it changed */
+  text: string | (() => Promise<string>)
+  version?: string
+}
+
+interface Chunk {
+  kind: SearchKind
+  source_id: string
+  owner_id: string | null
+  title: string
+  source_version: string | null
+  chunk: number
+  content: string
+  content_hash: string
+}
+
+/** A chunk picked by hybrid retrieval, with its fused score */
+export interface RankedChunk {
+  kind: SearchKind
+  source_id: string
+  chunk: number
+  title: string
+  content: string
+  score: number
+  similarity: number | null
+  keyword: boolean
+}
+
+const CHUNK_CHARS = 1200
+const CHUNK_OVERLAP = 150
+const MAX_FILES = 200
+const MAX_FILE_CHARS = 200_000
+// reciprocal rank fusion constant; larger flattens the difference between ranks
+const RRF_K = 60
+const SYNC_DEBOUNCE_SECONDS = 60
+// texts sent to a paid embedding API per unit of AI usage
+const EMBEDDINGS_PER_UNIT = 100
+
+/** Paragraph-aligned chunks of at most CHUNK_CHARS, long paragraphs split with overlap */
+export function chunkText(text: string): string[] {
+  const chunks: string[] = []
+  let current = ''
+  for (const para of text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean)) {
+    if (current && current.length + para.length + 2 > CHUNK_CHARS) { chunks.push(current); current = '' }
+    if (para.length <= CHUNK_CHARS) { current = current ? `${current}\n\n${para}` : para; continue }
+    for (let at = 0; at < para.length; at += CHUNK_CHARS - CHUNK_OVERLAP) chunks.push(para.slice(at, at + CHUNK_CHARS))
+  }
+  if (current) chunks.push(current)
+  return chunks
+}
+
+async function loadDocuments(colabId: string): Promise<SourceDoc[]> {
+  const admin = createAdminSupabase()
+  const [colab, notes, refs, memories] = await Promise.all([
+    admin.from('colabs').select('name, readme').eq('id', colabId).maybeSingle(),
+    admin.from('research_notes').select('id, content, parent_id').eq('colab_id', colabId),
+    admin.from('colab_references').select('id, title, authors, journal, year, abstract, keywords, mesh_terms').eq('colab_id', colabId),
+    admin.from('ai_memories').select('user_id, type, content').eq('colab_id', colabId),
+  ])
+  for (const r of [colab, notes, refs, memories]) if (r.error) throw new SearchError(r.error.message, 500)
+
+  const docs: SourceDoc[] = []
+  if (colab.data?.readme?.trim()) {
+    docs.push({ kind: 'readme', source_id: 'readme', owner_id: null, title: `${colab.data.name} README`, text: colab.data.readme })
+  }
+  for (const n of notes.data || []) {
+    if (!n.content?.trim()) continue
+    const opening = n.content.trim().split('\n')[0]
+    const title = `${n.parent_id ? 'Reply' : 'Thread'}: ${opening.length > 60 ? `${opening.slice(0, 60).trim()}…` : opening}`
+    docs.push({ kind: 'note', source_id: n.id, owner_id: null, title, text: n.content })
+  }
+  for (const r of refs.data || []) {
+    const text = [
+      (r.authors || []).join(', '),
+      [r.journal, r.year].filter(Boolean).join(' '),
+      r.abstract,
+      [...(r.keywords || []), ...(r.mesh_terms || [])].join('; '),
+    ].filter(Boolean).join('\n\n')
+    docs.push({ kind: 'reference', source_id: r.id, owner_id: null, title: r.title || 'Untitled work', text: text || r.title || '' })
+  }
+  for (const m of memories.data || []) {
+    if (m.content?.trim()) {
+      docs.push({ kind: 'memory', source_id: `${m.user_id}:${m.type}`, owner_id: m.user_id, title: `Copilot memory (${m.type})`, text: m.content })
+    }
+  }
+
+  const storage = getStorageAdapter(admin)
+  const files = (await resolveTree(admin, colabId)).filter(f => isTextFile(f.name, f.type, f.size)).slice(0, MAX_FILES)
+  for (const f of files) {
+    docs.push({
+      kind: 'file',
+      source_id: f.path,
+      owner_id: null,
+      title: f.path,
+      version: f.storage_key,
+      text: async () => new TextDecoder().decode(await storage.get(f.storage_key)).slice(0, MAX_FILE_CHARS),
+    })
+  }
+  return docs
+}
+
+const chunkKey = (c: { kind: string; source_id: string; chunk: number }) => `${c.kind}:${c.source_id}:${c.chunk}`
+
+/** Charges for `texts` embeddings; `ok: false` means they must not be made */
+export type EmbeddingMeter = (texts: number) => Promise<{ ok: boolean; refund: () => Promise<void> }>
+
+/** Bring the colab's index up to date with its source tables */
+export async function syncIndex(
+  colabId: string,
+  embedder: EmbeddingProvider,
+  meter?: EmbeddingMeter
+): Promise<{ embedded: number; removed: number }> {
+  const admin = createAdminSupabase()
+  const [docs, { data: existing, error }] = await Promise.all([
+    loadDocuments(colabId),
+    admin.from('search_chunks').select('id, kind, source_id, chunk, content_hash, source_version, model').eq('colab_id', colabId),
+  ])
+  if (error) throw new SearchError(error.message, 500)
+
+  const chunks: Chunk[] = []
+  const wanted = new Set<string>()
+  for (const doc of docs) {
+    if (doc.version) {
+      const indexed = (existing || []).filter(r => r.kind === doc.kind && r.source_id === doc.source_id)
+      if (indexed.length && indexed.every(r => r.source_version === doc.version && r.model === embedder.model)) {
+        indexed.forEach(r => wanted.add(chunkKey(r)))
+        continue
+      }
+    }
+    const text = typeof doc.text === 'string' ? doc.text : await doc.text()
+    chunkText(text).forEach((content, chunk) => {
+      const content_hash = createHash('sha256').update(`${embedder.model}\n${doc.title}\n${content}`).digest('hex')
+      chunks.push({
+        kind: doc.kind, source_id: doc.source_id, owner_id: doc.owner_id, title: doc.title,
+        source_version: doc.version || null, chunk, content, content_hash,
+      })
+    })
+  }
+  chunks.forEach(c => wanted.add(chunkKey(c)))
+
+  const hashes = new Map((existing || []).map(r => [chunkKey(r), r.content_hash as string]))
+  const changed = chunks.filter(c => hashes.get(chunkKey(c)) !== c.content_hash)
+  const stale = (existing || []).filter(r => !wanted.has(chunkKey(r))).map(r => r.id as string)
+
+  if (changed.length) {
+    const charge = await meter?.(changed.length)
+    if (charge && !charge.ok) throw new SearchError('Usage quota reached; the search index was not updated', 402)
+    let vectors: number[][]
+    try {
+      vectors = await embedder.embed(changed.map(c => `${c.title}\n\n${c.content}`), 'document')
+    } catch (e) {
+      await charge?.refund()
+      throw e
+    }
+    const rows = changed.map((c, i) => ({
+      colab_id: colabId,
+      ...c,
+      model: embedder.model,
+      embedding: JSON.stringify(vectors[i]),
+      indexed_at: new Date().toISOString(),
+    }))
+    const { error: upErr } = await admin.from('search_chunks').upsert(rows, { onConflict: 'colab_id,kind,source_id,chunk' })
+    if (upErr) throw new SearchError(upErr.message, 500)
+  }
+  if (stale.length) {
+    const { error: delErr } = await admin.from('search_chunks').delete().in('id', stale)
+    if (delErr) throw new SearchError(delErr.message, 500)
+  }
+  return { embedded: changed.length, removed: stale.length }
+}
+
+/** ~`width` characters of `content` around the first query term it contains */
+export function snippet(content: string, query: string, width = 240): string {
+  const flat = content.replace(/\s+/g, ' ').trim()
+  if (flat.length <= width) return flat
+  const lower = flat.toLowerCase()
+  const hit = tokenize(query).map(t => lower.indexOf(t)).filter(i => i >= 0).sort((a, b) => a - b)[0] ?? 0
+  const start = Math.max(0, Math.min(hit - Math.floor(width / 3), flat.length - width))
+  return `${start > 0 ? '…' : ''}${flat.slice(start, start + width).trim()}${start + width < flat.length ? '…' : ''}`
+}
+
+export interface SearchOptions {
+  kinds?: SearchKind[]
+  limit?: number
+  /** keyword side matches any query term instead of all (for long prompts) */
+  matchAny?: boolean
+  /** the caller already charged for the query embedding */
+  queryCharged?: boolean
+}
+
+export interface HybridChunks {
+  chunks: RankedChunk[]
+  mode: SearchResponse['mode']
+  model: string
+  stale: boolean
+}
+
+/** Charge the searching user for embeddings from a paid provider; the local model is free */
+function embeddingMeter(colabId: string, userId: string, embedder: EmbeddingProvider): EmbeddingMeter | undefined {
+  if (embedder.name === 'local') return undefined
+  return async texts => {
+    try {
+      return await chargeUserUsage(userId, 'ai_messages', Math.ceil(texts / EMBEDDINGS_PER_UNIT), { colabId })
+    } catch (e) {
+      // fail closed, like chargeUsage
+      console.error('Usage metering error:', e)
+      return { ok: false, refund: async () => {} }
+    }
+  }
+}
+
+/**
+ * Sync the index when it is dirty and no sync started within
+ * SYNC_DEBOUNCE_SECONDS → whether it may still be out of date.
+ */
+async function refreshIndex(colabId: string, embedder: EmbeddingProvider, meter?: EmbeddingMeter): Promise<boolean> {
+  const admin = createAdminSupabase()
+  const { data, error } = await admin.rpc('claim_search_index_sync', {
+    p_colab_id: colabId,
+    p_model: embedder.model,
+    p_debounce: `${SYNC_DEBOUNCE_SECONDS} seconds`,
+  })
+  if (error) throw new SearchError(error.message, 500)
+  const { claim, pending } = (data?.[0] || {}) as { claim: string | null; pending: boolean }
+  if (!claim) return !!pending
+
+  await syncIndex(colabId, embedder, meter)
+  const { error: doneErr } = await admin
+    .from('search_index_state')
+    .update({ synced_at: claim, model: embedder.model })
+    .eq('colab_id', colabId)
+  if (doneErr) throw new SearchError(doneErr.message, 500)
+  return false
+}
+
+/**
+ * Refresh the index if needed, then run the vector and keyword searches and
+ * fuse them. Chunks come back best first, several per document when they rank.
+ */
+export async function hybridChunks(colabId: string, userId: string, query: string, opts: SearchOptions = {}): Promise<HybridChunks> {
+  const q = query.trim()
+  if (!q) throw new SearchError('Provide "q"')
+  const limit = Math.max(opts.limit || 30, 1)
+
+  const embedder = await getEmbeddingProvider(colabId)
+  const meter = embeddingMeter(colabId, userId, embedder)
+  // a failed sync (e.g. the embedding API is down, no quota left) still searches what is indexed
+  let stale = false
+  try {
+    stale = await refreshIndex(colabId, embedder, meter)
+  } catch (e) {
+    console.error('search index sync failed', e)
+    stale = true
+  }
+
+  let embedding: number[] | null = null
+  const charge = opts.queryCharged ? undefined : await meter?.(1)
+  if (!charge || charge.ok) {
+    try {
+      [embedding] = await embedder.embed([q.slice(0, 2000)], 'query')
+    } catch (e) {
+      console.error('query embedding failed', e)
+      await charge?.refund()
+    }
+  }
+
+  const { data, error } = await createAdminSupabase().rpc('search_colab_chunks', {
+    p_colab_id: colabId,
+    p_user_id: userId,
+    p_query: opts.matchAny ? tokenize(q).slice(0, 40).join(' or ') : q.slice(0, 2000),
+    p_model: embedder.model,
+    p_embedding: embedding ? JSON.stringify(embedding) : null,
+    p_kinds: opts.kinds?.length ? opts.kinds : null,
+    p_limit: limit,
+  })
+  if (error) throw new SearchError(error.message, 500)
+
+  const chunks: RankedChunk[] = ((data || []) as any[]).map(row => ({
+    kind: row.kind,
+    source_id: row.source_id,
+    chunk: row.chunk,
+    title: row.title,
+    content: row.content,
+    score: (row.vector_pos ? 1 / (RRF_K + row.vector_pos) : 0) + (row.keyword_pos ? 1 / (RRF_K + row.keyword_pos) : 0),
+    similarity: row.similarity ?? null,
+    keyword: !!row.keyword_pos,
+  }))
+  chunks.sort((a, b) => b.score - a.score)
+  return { chunks, mode: embedding ? 'hybrid' : 'keyword', model: embedder.model, stale }
+}
+
+/** Memories are addressed by kind alone on the client; their id embeds the user */
+export const publicSourceId = (c: Pick<RankedChunk, 'kind' | 'source_id'>) => (c.kind === 'memory' ? 'memory' : c.source_id)
+
+export async function searchColab(colabId: string, userId: string, query: string, opts: SearchOptions = {}): Promise<SearchResponse> {
+  if (query.trim().length > 500) throw new SearchError('Query is too long (max 500 characters)')
+  const limit = Math.min(Math.max(opts.limit || 10, 1), MAX_SEARCH_RESULTS)
+  const { chunks, mode, model, stale } = await hybridChunks(colabId, userId, query, { kinds: opts.kinds, limit: limit * 3 })
+
+  // best chunk per document
+  const best = new Map<string, SearchResult>()
+  for (const c of chunks) {
+    const key = `${c.kind}:${c.source_id}`
+    if (best.has(key)) continue
+    best.set(key, {
+      kind: c.kind,
+      source_id: publicSourceId(c),
+      title: c.title,
+      snippet: snippet(c.content, query),
+      score: c.score,
+      similarity: c.similarity,
+      keyword: c.keyword,
+    })
+  }
+  return { results: Array.from(best.values()).slice(0, limit), mode, model, stale }
+}
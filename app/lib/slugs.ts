@@ -0,0 +1,96 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+/**
+ * Colab URLs. The database owns uniqueness: the `assign_colab_slug` trigger
+ * normalises every slug written to `colabs`, adds a -2, -3, … suffix when it
+ * is taken (by another colab or another colab's old slug) and moves the slug
+ * being replaced into `colab_slug_history`, which `resolve_colab_slug` uses to
+ * send old links to the current URL. A pinned slug survives renames; only the
+ * owner can set one, through `setColabSlug` (service role).
+ */
+
+export const SLUG_MAX_LENGTH = 60
+const SLUG_MIN_LENGTH = 3
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/
+
+export class SlugError extends Error {
+  constructor(message: string, public status = 400) { super(message) }
+}
+
+/** Same rules as public.slugify() in SQL */
+export function slugify(text: string): string {
+  const slug = text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/(^-|-$)/g, '').slice(0, SLUG_MAX_LENGTH).replace(/-$/, '')
+  return slug || 'colab'
+}
+
+/** Why a custom slug is unacceptable, or null */
+export function slugProblem(slug: string): string | null {
+  if (slug.length < SLUG_MIN_LENGTH || slug.length > SLUG_MAX_LENGTH) {
+    return `Use ${SLUG_MIN_LENGTH}–${SLUG_MAX_LENGTH} characters`
+  }
+  if (!SLUG_PATTERN.test(slug)) return 'Use lowercase letters, numbers and single dashes'
+  return null
+}
+
+/** A slug, current or retired → the colab's current slug, or null if unknown or unreadable */
+export async function resolveColabSlug(supabase: SupabaseClient, slug: string): Promise<string | null> {
+  const { data, error } = await supabase.rpc('resolve_colab_slug', { p_slug: slug })
+  if (error) throw new SlugError(error.message, 500)
+  return typeof data === 'string' ? data : null
+}
+
+/**
+ * Owner: set a custom slug and/or pin the current one → { slug, slug_pinned }.
+ * A custom slug that belongs to another colab, now or in its history, is
+ * refused rather than suffixed.
+ */
+export async function setColabSlug(
+  admin: SupabaseClient,
+  colabId: string,
+  userId: string,
+  input: { slug?: unknown; pinned?: unknown }
+) {
+  const { data: colab, error } = await admin
+    .from('colabs')
+    .select('slug, slug_pinned, owner_id, archived_at, deleted_at')
+    .eq('id', colabId)
+    .maybeSingle()
+  if (error) throw new SlugError(error.message, 500)
+  if (!colab || colab.deleted_at) throw new SlugError('Colab not found', 404)
+  if (colab.owner_id !== userId) throw new SlugError('Only the owner can change the URL', 403)
+  if (colab.archived_at) throw new SlugError('This colab is archived and read-only', 403)
+
+  const update: { slug?: string; slug_pinned?: boolean } = {}
+  if (input.pinned !== undefined) {
+    if (typeof input.pinned !== 'boolean') throw new SlugError('"pinned" must be a boolean')
+    update.slug_pinned = input.pinned
+  }
+  if (input.slug !== undefined) {
+    if (typeof input.slug !== 'string') throw new SlugError('"slug" must be a string')
+    const slug = input.slug.trim().toLowerCase()
+    const problem = slugProblem(slug)
+    if (problem) throw new SlugError(problem)
+    if (slug !== colab.slug) {
+      const [{ data: current }, { data: retired }] = await Promise.all([
+        admin.from('colabs').select('id').eq('slug', slug).maybeSingle(),
+        admin.from('colab_slug_history').select('colab_id').eq('slug', slug).maybeSingle(),
+      ])
+      if ((current && current.id !== colabId) || (retired && retired.colab_id !== colabId)) {
+        throw new SlugError('That URL is already taken', 409)
+      }
+      update.slug = slug
+      // a chosen slug is kept through renames unless the owner says otherwise
+      if (update.slug_pinned === undefined) update.slug_pinned = true
+    }
+  }
+  if (!Object.keys(update).length) return { slug: colab.slug as string, slug_pinned: !!colab.slug_pinned }
+
+  const { data, error: updateError } = await admin
+    .from('colabs')
+    .update(update)
+    .eq('id', colabId)
+    .select('slug, slug_pinned')
+    .single()
+  if (updateError) throw new SlugError(updateError.message, updateError.code === '23505' ? 409 : 500)
+  return { slug: data.slug as string, slug_pinned: !!data.slug_pinned }
+}
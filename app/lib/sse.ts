@@ -0,0 +1,50 @@
+/**
+ * Minimal Server-Sent Events helpers shared by streaming routes (encoding)
+ * and their clients (decoding). Also used to read Gemini's `alt=sse` stream.
+ */
+
+export interface SSEMessage {
+  event: string
+  data: string
+}
+
+const encoder = new TextEncoder()
+
+/** Encode one event; `data` is JSON-serialized */
+export const sseEvent = (event: string, data: unknown) =>
+  encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive',
+  'X-Accel-Buffering': 'no',
+}
+
+/** Yield events from an SSE byte stream as they complete ("message" when unnamed) */
+export async function* readSSE(body: ReadableStream<Uint8Array>): AsyncGenerator<SSEMessage> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buf = ''
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      buf += decoder.decode(value, { stream: true }).replace(/\r\n?/g, '\n')
+      let end: number
+      while ((end = buf.indexOf('\n\n')) >= 0) {
+        const block = buf.slice(0, end)
+        buf = buf.slice(end + 2)
+        let event = 'message'
+        const data: string[] = []
+        for (const line of block.split('\n')) {
+          if (line.startsWith('event:')) event = line.slice(6).trim()
+          else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''))
+        }
+        if (data.length) yield { event, data: data.join('\n') }
+      }
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
@@ -0,0 +1,12 @@
+import { createClient } from '@supabase/supabase-js'
+
+// Service-role client for trusted server code only (metering, webhooks).
+// Never import this from a client component.
+export const createAdminSupabase = () => {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!url || !key) {
+    throw new Error('NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set on the server')
+  }
+  return createClient(url, key, { auth: { persistSession: false, autoRefreshToken: false } })
+}
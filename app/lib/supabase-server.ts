@@ -0,0 +1,88 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import type { SupabaseClient, User } from '@supabase/supabase-js'
+import { cookies } from 'next/headers'
+import { memberRole, permissionsFor, type Permission } from './permissions'
+
+// For route handlers - carries the caller's session so RLS applies
+export const createServerSupabase = () => createRouteHandlerClient({ cookies })
+
+export interface ColabAccess {
+  colab: { id: string; slug: string; owner_id: string; is_public: boolean; archived_at: string | null }
+  role: string | null
+  isMember: boolean
+  /** what the caller's role may do here, owner overrides applied */
+  permissions: Permission[]
+}
+
+// Resolve the signed-in user, or null when the request carries no session
+export const getRequestUser = async (supabase: SupabaseClient): Promise<User | null> => {
+  const { data: { user } } = await supabase.auth.getUser()
+  return user || null
+}
+
+// Load a colab plus the caller's accepted membership in it
+export const getColabAccess = async (
+  supabase: SupabaseClient,
+  colabId: string,
+  userId: string
+): Promise<ColabAccess | null> => {
+  const { data: colab } = await supabase
+    .from('colabs')
+    .select('id, slug, owner_id, is_public, archived_at, permission_overrides')
+    .eq('id', colabId)
+    .maybeSingle()
+  if (!colab) return null
+
+  const { data: member } = await supabase
+    .from('colab_members')
+    .select('role, status')
+    .eq('colab_id', colabId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  const isOwner = colab.owner_id === userId
+  const role = isOwner ? 'owner' : (member?.status === 'accepted' ? memberRole(member.role) : null)
+  const isMember = role !== null
+  const { permission_overrides, ...rest } = colab
+  return {
+    colab: rest,
+    role,
+    isMember,
+    permissions: permissionsFor(role, permission_overrides, !!colab.archived_at),
+  }
+}
+
+const ARCHIVED_ERROR = 'This colab is archived and read-only'
+
+type AccessResult =
+  | { ok: true; supabase: SupabaseClient; user: User; access: ColabAccess }
+  | { ok: false; status: number; error: string }
+
+// Gate a route on colab visibility ('read') or accepted non-viewer membership of a live colab ('write')
+export const requireColabAccess = async (colabId: string, mode: 'read' | 'write'): Promise<AccessResult> => {
+  const supabase = createServerSupabase()
+  const user = await getRequestUser(supabase)
+  if (!user) return { ok: false, status: 401, error: 'Sign in required' }
+
+  const access = await getColabAccess(supabase, colabId, user.id)
+  if (!access) return { ok: false, status: 404, error: 'Colab not found' }
+
+  const allowed = mode === 'read'
+    ? access.isMember || access.colab.is_public
+    : access.isMember && access.role !== 'viewer'
+  if (!allowed) return { ok: false, status: 403, error: 'You do not have access to this colab' }
+  if (mode === 'write' && access.colab.archived_at) return { ok: false, status: 403, error: ARCHIVED_ERROR }
+
+  return { ok: true, supabase, user, access }
+}
+
+// Gate a route on one permission of the caller's role (see app/lib/permissions.ts)
+export const requireColabPermission = async (colabId: string, permission: Permission): Promise<AccessResult> => {
+  const auth = await requireColabAccess(colabId, 'read')
+  if (!auth.ok) return auth
+  if (!auth.access.permissions.includes(permission)) {
+    const error = auth.access.colab.archived_at ? ARCHIVED_ERROR : 'Your role in this colab does not allow that'
+    return { ok: false, status: 403, error }
+  }
+  return auth
+}
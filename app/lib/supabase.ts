@@ -107,12 +107,17 @@ export const signInWithEmail = async (email: string, password: string) => {
   return { data, error }
 }
 
-export const signUpWithEmail = async (email: string, password: string) => {
+// `after` is forwarded to /api/auth/callback: an invitation token to accept, or a page to land on
+export const signUpWithEmail = async (email: string, password: string, after: { invite?: string | null; redirectTo?: string | null } = {}) => {
+  const params = new URLSearchParams()
+  if (after.invite) params.set('invite', after.invite)
+  if (after.redirectTo) params.set('redirectTo', after.redirectTo)
+  const qs = params.toString()
   const { data, error } = await supabase.auth.signUp({
     email,
     password,
     options: {
-      emailRedirectTo: `${window.location.origin}/auth/callback`
+      emailRedirectTo: `${window.location.origin}/api/auth/callback${qs ? `?${qs}` : ''}`
     }
   })
   return { data, error }
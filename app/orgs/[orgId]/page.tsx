@@ -0,0 +1,407 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useParams, useRouter } from 'next/navigation'
+import { supabase } from '../../lib/supabase'
+import UsageMeter from '@/components/dashboard/UsageMeter'
+import { PLAN_PRICES, USAGE_KINDS, type MemberCaps, type UsageKind } from '../../lib/plans'
+import {
+  FiArrowLeft, FiMessageSquare, FiSearch, FiBarChart2, FiUsers, FiUserPlus, FiTrash2, FiFolder, FiShield,
+} from 'react-icons/fi'
+
+type Member = {
+  id: string
+  user_id: string | null
+  email?: string
+  role: 'admin' | 'member'
+  status: 'invited' | 'active'
+  joined_at: string | null
+  profile: { full_name: string | null; username: string | null } | null
+  caps?: MemberCaps
+  used?: Record<UsageKind, number>
+}
+
+type OrgDashboard = {
+  org: { id: string; name: string; owner_id: string; tier: 'free' | 'team'; seats: number }
+  role: 'admin' | 'member'
+  seatsUsed: number
+  members: Member[]
+  usage: { period: string; limits: Record<UsageKind, number> | null; used: Record<UsageKind, number> }
+  colabs: { id: string; name: string; slug: string; owner_id: string }[]
+  subscription: { quantity: number; status: string; current_period_end: string | null; cancel_at_period_end: boolean } | null
+}
+
+const KIND_LABELS: Record<UsageKind, string> = {
+  ai_messages: 'AI messages',
+  lit_searches: 'Literature searches',
+  analyses: 'Analyses',
+}
+const KIND_ICONS: Record<UsageKind, React.ReactNode> = {
+  ai_messages: <FiMessageSquare className="w-4 h-4 text-slate-500" />,
+  lit_searches: <FiSearch className="w-4 h-4 text-slate-500" />,
+  analyses: <FiBarChart2 className="w-4 h-4 text-slate-500" />,
+}
+
+const memberName = (m: Member) => m.profile?.full_name || m.profile?.username || m.email || 'Invited member'
+
+/** ---------------- Organization dashboard ---------------- */
+export default function OrgPage() {
+  const { orgId } = useParams<{ orgId: string }>()
+  const router = useRouter()
+  const [userId, setUserId] = useState<string | null>(null)
+  const [data, setData] = useState<OrgDashboard | null>(null)
+  const [myColabs, setMyColabs] = useState<{ id: string; name: string; org_id: string | null }[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [inviteEmail, setInviteEmail] = useState('')
+  const [inviteRole, setInviteRole] = useState<'member' | 'admin'>('member')
+  const [seatTarget, setSeatTarget] = useState(1)
+  const [assignId, setAssignId] = useState('')
+  const [checkout, setCheckout] = useState<string | null>(null)
+
+  const refresh = async () => {
+    try {
+      const res = await fetch(`/api/orgs/${orgId}`)
+      const body = await res.json()
+      if (!res.ok) throw new Error(body.error || 'Failed to load organization')
+      setData(body)
+      setSeatTarget(Math.max(body.seatsUsed, body.org.seats))
+    } catch (e: any) {
+      setError(e.message)
+    }
+  }
+
+  useEffect(() => {
+    (async () => {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) { router.push('/signin'); return }
+      setUserId(user.id)
+      setCheckout(new URLSearchParams(window.location.search).get('checkout'))
+      const { data: owned } = await supabase.from('colabs').select('id, name, org_id').eq('owner_id', user.id).order('name')
+      setMyColabs(owned || [])
+      refresh()
+    })()
+  }, [orgId, router])
+
+  // every mutation goes through the API, then reloads the dashboard
+  const call = async (url: string, init: RequestInit & { json?: any } = {}) => {
+    setBusy(true); setError(null)
+    try {
+      const res = await fetch(url, {
+        ...init,
+        headers: init.json !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+        body: init.json !== undefined ? JSON.stringify(init.json) : undefined,
+      })
+      const body = await res.json()
+      if (!res.ok) throw new Error(body.error || 'Request failed')
+      if (body.url) { window.location.href = body.url; return body }
+      await refresh()
+      return body
+    } catch (e: any) {
+      setError(e.message)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const invite = async () => {
+    if (!inviteEmail.trim()) return
+    const ok = await call(`/api/orgs/${orgId}/members`, { method: 'POST', json: { email: inviteEmail, role: inviteRole } })
+    if (ok) setInviteEmail('')
+  }
+
+  const saveCaps = (m: Member, caps: MemberCaps) =>
+    call(`/api/orgs/${orgId}/members/${m.id}`, { method: 'PATCH', json: { caps } })
+
+  const buySeats = () =>
+    call('/api/billing/checkout', { method: 'POST', json: { tier: 'team', quantity: seatTarget, orgId } })
+
+  if (!data) {
+    return (
+      <div className="min-h-screen bg-slate-50 flex items-center justify-center text-sm text-slate-600">
+        {error || 'Loading…'}
+      </div>
+    )
+  }
+
+  const { org, role, seatsUsed, members, usage, colabs, subscription } = data
+  const isAdmin = role === 'admin'
+  const me = members.find(m => m.user_id === userId)
+  const assignable = myColabs.filter(c => c.org_id !== org.id)
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <header className="bg-white border-b sticky top-0 z-30">
+        <div className="max-w-6xl mx-auto px-4 py-3 flex items-center gap-3">
+          <Link href="/orgs" className="text-slate-600 hover:text-slate-900 inline-flex items-center gap-2">
+            <FiArrowLeft /> Organizations
+          </Link>
+          <div className="ml-auto inline-flex items-center gap-2 text-sm">
+            <FiShield className="w-4 h-4" />
+            <span className="px-2 py-1 rounded border bg-slate-50">{org.tier.toUpperCase()}</span>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-4 py-8 space-y-6">
+        <section className="bg-white border rounded-xl p-5 space-y-4">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+            <div>
+              <h1 className="text-xl font-bold">{org.name}</h1>
+              <p className="text-sm text-slate-600">
+                {seatsUsed} of {org.seats} seat{org.seats === 1 ? '' : 's'} used · usage for {usage.period}
+              </p>
+            </div>
+          </div>
+
+          {checkout === 'success' && (
+            <p className="text-sm text-green-700">Payment received — seats update as soon as the provider confirms it.</p>
+          )}
+          {subscription?.cancel_at_period_end && (
+            <p className="text-sm text-amber-700">
+              The team plan ends on {subscription.current_period_end ? new Date(subscription.current_period_end).toLocaleDateString() : 'the end of the period'}.
+            </p>
+          )}
+
+          {usage.limits ? (
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              {USAGE_KINDS.map(k => (
+                <UsageMeter key={k} label={`${KIND_LABELS[k]} (pool)`} icon={KIND_ICONS[k]} used={usage.used[k]} total={usage.limits![k]} />
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-slate-600">
+              This organization is on the free tier, so members use their personal plans. The team plan pools
+              quota across seats.
+            </p>
+          )}
+
+          {me?.used && usage.limits && (
+            <div>
+              <h2 className="text-sm font-semibold text-slate-700 mb-2">Your share</h2>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                {USAGE_KINDS.map(k => (
+                  <UsageMeter
+                    key={k}
+                    label={me.caps?.[k] !== undefined ? `${KIND_LABELS[k]} (your cap)` : KIND_LABELS[k]}
+                    icon={KIND_ICONS[k]}
+                    used={me.used![k]}
+                    total={me.caps?.[k] ?? usage.limits![k]}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </section>
+
+        {isAdmin && (
+          <section className="bg-white border rounded-xl p-5 space-y-3">
+            <h2 className="text-lg font-semibold">Team plan & seats</h2>
+            <p className="text-sm text-slate-600">
+              ${(PLAN_PRICES.team.amount / 100).toFixed(0)} per seat / month. Changes are prorated for the rest of the period.
+            </p>
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                type="number"
+                min={Math.max(1, seatsUsed)}
+                value={seatTarget}
+                onChange={e => setSeatTarget(Math.max(1, Number(e.target.value) || 1))}
+                className="w-24 border rounded-lg px-3 py-2 text-sm"
+              />
+              <span className="text-sm text-slate-600">seats</span>
+              <button
+                onClick={buySeats}
+                disabled={busy || seatTarget < seatsUsed}
+                className="px-4 py-2 rounded-lg bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-60 text-sm"
+              >
+                {org.tier === 'team' && subscription ? 'Update seats' : 'Start team plan'}
+              </button>
+              {subscription && !subscription.cancel_at_period_end && (
+                <button
+                  onClick={() => call('/api/billing/cancel', { method: 'POST', json: { orgId } })}
+                  disabled={busy}
+                  className="px-4 py-2 rounded-lg border hover:bg-slate-50 disabled:opacity-60 text-sm"
+                >
+                  Cancel team plan
+                </button>
+              )}
+            </div>
+          </section>
+        )}
+
+        <section className="bg-white border rounded-xl p-5 space-y-3">
+          <h2 className="text-lg font-semibold flex items-center gap-2"><FiUsers /> Members</h2>
+          {isAdmin && (
+            <div className="flex flex-wrap gap-2">
+              <input
+                value={inviteEmail}
+                onChange={e => setInviteEmail(e.target.value)}
+                placeholder="colleague@lab.org"
+                className="flex-1 min-w-[12rem] border rounded-lg px-3 py-2 text-sm"
+              />
+              <select value={inviteRole} onChange={e => setInviteRole(e.target.value as any)} className="border rounded-lg px-2 py-2 text-sm">
+                <option value="member">Member</option>
+                <option value="admin">Admin</option>
+              </select>
+              <button
+                onClick={invite}
+                disabled={busy || seatsUsed >= org.seats}
+                title={seatsUsed >= org.seats ? 'All seats are taken' : undefined}
+                className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-slate-900 text-white hover:bg-black disabled:opacity-60 text-sm"
+              >
+                <FiUserPlus /> Invite
+              </button>
+            </div>
+          )}
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-slate-500 border-b">
+                <th className="py-2 font-medium">Member</th>
+                <th className="py-2 font-medium">Role</th>
+                {USAGE_KINDS.map(k => <th key={k} className="py-2 font-medium">{KIND_LABELS[k]}</th>)}
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {members.map(m => (
+                <MemberRow
+                  key={m.id}
+                  member={m}
+                  canManage={isAdmin}
+                  isOwner={m.user_id === org.owner_id}
+                  isSelf={m.user_id === userId}
+                  busy={busy}
+                  onRole={r => call(`/api/orgs/${orgId}/members/${m.id}`, { method: 'PATCH', json: { role: r } })}
+                  onCaps={caps => saveCaps(m, caps)}
+                  onRemove={() => call(`/api/orgs/${orgId}/members/${m.id}`, { method: 'DELETE' })}
+                />
+              ))}
+            </tbody>
+          </table>
+        </section>
+
+        <section className="bg-white border rounded-xl p-5 space-y-3">
+          <h2 className="text-lg font-semibold flex items-center gap-2"><FiFolder /> Colabs</h2>
+          {colabs.length === 0 ? (
+            <p className="text-sm text-slate-500">No colabs are assigned to this organization yet.</p>
+          ) : (
+            <ul className="divide-y">
+              {colabs.map(c => (
+                <li key={c.id} className="flex items-center justify-between py-2 text-sm">
+                  <Link href={`/colab/${c.slug}`} className="text-blue-700 hover:underline">{c.name}</Link>
+                  {(isAdmin || c.owner_id === userId) && (
+                    <button
+                      onClick={() => call(`/api/orgs/${orgId}/colabs?colabId=${c.id}`, { method: 'DELETE' })}
+                      disabled={busy}
+                      className="text-xs border px-2 py-1 rounded hover:bg-slate-50"
+                    >
+                      Remove
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+          {assignable.length > 0 && (
+            <div className="flex gap-2">
+              <select value={assignId} onChange={e => setAssignId(e.target.value)} className="flex-1 border rounded-lg px-2 py-2 text-sm">
+                <option value="">Assign one of your colabs…</option>
+                {assignable.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+              </select>
+              <button
+                onClick={async () => {
+                  if (!assignId) return
+                  await call(`/api/orgs/${orgId}/colabs`, { method: 'POST', json: { colabId: assignId } })
+                  setMyColabs(prev => prev.map(c => (c.id === assignId ? { ...c, org_id: org.id } : c)))
+                  setAssignId('')
+                }}
+                disabled={busy || !assignId}
+                className="px-4 py-2 rounded-lg border hover:bg-slate-50 disabled:opacity-60 text-sm"
+              >
+                Assign
+              </button>
+            </div>
+          )}
+        </section>
+      </main>
+    </div>
+  )
+}
+
+/** ---------------- Member row (usage vs. cap, admin controls) ---------------- */
+function MemberRow({
+  member, canManage, isOwner, isSelf, busy, onRole, onCaps, onRemove,
+}: {
+  member: Member
+  canManage: boolean
+  isOwner: boolean
+  isSelf: boolean
+  busy: boolean
+  onRole: (role: 'admin' | 'member') => void
+  onCaps: (caps: MemberCaps) => void
+  onRemove: () => void
+}) {
+  const [caps, setCaps] = useState<Record<UsageKind, string>>(() => ({
+    ai_messages: member.caps?.ai_messages?.toString() ?? '',
+    lit_searches: member.caps?.lit_searches?.toString() ?? '',
+    analyses: member.caps?.analyses?.toString() ?? '',
+  }))
+  const dirty = USAGE_KINDS.some(k => caps[k] !== (member.caps?.[k]?.toString() ?? ''))
+
+  const save = () => {
+    const next: MemberCaps = {}
+    for (const k of USAGE_KINDS) if (caps[k].trim() !== '') next[k] = Number(caps[k])
+    onCaps(next)
+  }
+
+  return (
+    <tr className="border-b last:border-0 align-top">
+      <td className="py-2">
+        <div className="font-medium">{memberName(member)}</div>
+        {member.status === 'invited' && <div className="text-xs text-amber-700">Invitation pending</div>}
+        {member.email && member.profile && <div className="text-xs text-slate-500">{member.email}</div>}
+      </td>
+      <td className="py-2">
+        {canManage && !isOwner ? (
+          <select
+            value={member.role}
+            onChange={e => onRole(e.target.value as 'admin' | 'member')}
+            disabled={busy}
+            className="border rounded px-1 py-0.5 text-xs"
+          >
+            <option value="member">member</option>
+            <option value="admin">admin</option>
+          </select>
+        ) : (
+          <span className="text-xs">{isOwner ? 'owner' : member.role}</span>
+        )}
+      </td>
+      {USAGE_KINDS.map(k => (
+        <td key={k} className="py-2 text-xs">
+          {member.used ? <div>{member.used[k]}{member.caps?.[k] !== undefined ? ` / ${member.caps[k]}` : ''}</div> : <span className="text-slate-400">—</span>}
+          {canManage && (
+            <input
+              value={caps[k]}
+              onChange={e => setCaps(prev => ({ ...prev, [k]: e.target.value.replace(/[^0-9]/g, '') }))}
+              placeholder="no cap"
+              className="mt-1 w-20 border rounded px-1 py-0.5"
+            />
+          )}
+        </td>
+      ))}
+      <td className="py-2 text-right space-x-1 whitespace-nowrap">
+        {canManage && dirty && (
+          <button onClick={save} disabled={busy} className="text-xs border px-2 py-1 rounded hover:bg-slate-50">Save caps</button>
+        )}
+        {!isOwner && (canManage || isSelf) && (
+          <button onClick={onRemove} disabled={busy} className="text-xs border px-2 py-1 rounded hover:bg-red-50 text-red-600" title={isSelf ? 'Leave' : 'Remove'}>
+            <FiTrash2 className="inline w-3.5 h-3.5" />
+          </button>
+        )}
+      </td>
+    </tr>
+  )
+}
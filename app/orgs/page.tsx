@@ -0,0 +1,158 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { supabase } from '../lib/supabase'
+import { FiArrowLeft, FiPlus, FiUsers, FiCheck, FiX } from 'react-icons/fi'
+
+type OrgSummary = { id: string; name: string; tier: 'free' | 'team'; seats: number; role: 'admin' | 'member' }
+type Invite = { id: string; role: string; created_at: string; org: { id: string; name: string } }
+
+/** ---------------- Organizations list ---------------- */
+export default function OrgsPage() {
+  const [orgs, setOrgs] = useState<OrgSummary[]>([])
+  const [invites, setInvites] = useState<Invite[]>([])
+  const [name, setName] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const router = useRouter()
+
+  const refresh = async () => {
+    setError(null)
+    try {
+      const res = await fetch('/api/orgs')
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to load organizations')
+      setOrgs(data.orgs || [])
+      setInvites(data.invites || [])
+    } catch (e: any) {
+      setError(e.message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    (async () => {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) { router.push('/signin'); return }
+      refresh()
+    })()
+  }, [router])
+
+  const create = async () => {
+    if (!name.trim()) return
+    setBusy(true); setError(null)
+    try {
+      const res = await fetch('/api/orgs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: name.trim() }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Could not create organization')
+      router.push(`/orgs/${data.org.id}`)
+    } catch (e: any) {
+      setError(e.message)
+      setBusy(false)
+    }
+  }
+
+  const respond = async (orgId: string, decline = false) => {
+    setBusy(true); setError(null)
+    try {
+      const res = await fetch(`/api/orgs/${orgId}/accept`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decline }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Could not update invitation')
+      await refresh()
+    } catch (e: any) {
+      setError(e.message)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <header className="bg-white border-b sticky top-0 z-30">
+        <div className="max-w-4xl mx-auto px-4 py-3 flex items-center gap-3">
+          <Link href="/dashboard" className="text-slate-600 hover:text-slate-900 inline-flex items-center gap-2">
+            <FiArrowLeft /> Dashboard
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+        <section className="bg-white border rounded-xl p-5 space-y-3">
+          <h1 className="text-xl font-bold flex items-center gap-2"><FiUsers /> Organizations</h1>
+          <p className="text-sm text-slate-600">
+            Team organizations share one pooled quota across their seats. Colabs assigned to an organization draw on its pool.
+          </p>
+          <div className="flex gap-2">
+            <input
+              value={name}
+              onChange={e => setName(e.target.value)}
+              placeholder="New organization name"
+              className="flex-1 border rounded-lg px-3 py-2 text-sm"
+            />
+            <button
+              onClick={create}
+              disabled={busy || !name.trim()}
+              className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-60 text-sm"
+            >
+              <FiPlus /> Create
+            </button>
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </section>
+
+        {invites.length > 0 && (
+          <section className="bg-white border rounded-xl p-5 space-y-3">
+            <h2 className="text-lg font-semibold">Invitations</h2>
+            {invites.map(inv => (
+              <div key={inv.id} className="flex items-center justify-between border rounded-lg p-3 text-sm">
+                <span><strong>{inv.org.name}</strong> invited you as {inv.role}</span>
+                <div className="flex gap-2">
+                  <button onClick={() => respond(inv.org.id)} disabled={busy} className="inline-flex items-center gap-1 px-3 py-1.5 rounded-lg bg-indigo-600 text-white disabled:opacity-60">
+                    <FiCheck /> Accept
+                  </button>
+                  <button onClick={() => respond(inv.org.id, true)} disabled={busy} className="inline-flex items-center gap-1 px-3 py-1.5 rounded-lg border hover:bg-slate-50 disabled:opacity-60">
+                    <FiX /> Decline
+                  </button>
+                </div>
+              </div>
+            ))}
+          </section>
+        )}
+
+        <section className="bg-white border rounded-xl p-5 space-y-3">
+          <h2 className="text-lg font-semibold">Your organizations</h2>
+          {loading ? (
+            <p className="text-sm text-slate-500">Loading…</p>
+          ) : orgs.length === 0 ? (
+            <p className="text-sm text-slate-500">You are not in any organization yet.</p>
+          ) : (
+            <ul className="divide-y">
+              {orgs.map(o => (
+                <li key={o.id}>
+                  <Link href={`/orgs/${o.id}`} className="flex items-center justify-between py-3 hover:bg-slate-50 px-2 rounded">
+                    <span className="font-medium">{o.name}</span>
+                    <span className="text-xs text-slate-500">
+                      {o.tier.toUpperCase()} · {o.seats} seat{o.seats === 1 ? '' : 's'} · {o.role}
+                    </span>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </main>
+    </div>
+  )
+}
@@ -4,9 +4,10 @@ import { useEffect, useMemo, useState } from 'react'
 import Link from 'next/link'
 import { useRouter } from 'next/navigation'
 import { supabase } from '../lib/supabase' // ← adjust if your path differs
+import { PLAN_LIMITS as SHARED_PLAN_LIMITS, PLAN_PRICES } from '../lib/plans'
 import {
   FiShield, FiZap, FiCheck, FiX, FiArrowLeft, FiInfo,
-  FiMessageSquare, FiSearch, FiBarChart2, FiUsers, FiFolderPlus, FiTarget
+  FiMessageSquare, FiSearch, FiBarChart2, FiUsers, FiFolderPlus, FiTarget, FiFileText
 } from 'react-icons/fi'
 
 /** ------------------------------------------------------
@@ -22,6 +23,8 @@ const PLAN_LIMITS: Record<PlanTier, Record<UsageKind, number>> = {
   pro:  { ai_messages: 2000, lit_searches: 500, analyses: 200 },
 }
 
+const PLAN_LIMITS_TEAM = SHARED_PLAN_LIMITS.team
+
 /** Additional collaboration/challenge rules (non-metered) */
 const PLAN_RULES = {
   free: {
@@ -77,19 +80,12 @@ function useUsage(userId: string | null) {
         .maybeSingle()
       if (usageErr) throw usageErr
 
-      if (!usageRow) {
-        const { error: insErr } = await supabase
-          .from('user_usage_monthly')
-          .insert({ user_id: userId, period: pKey, ai_messages_used: 0, lit_searches_used: 0, analyses_used: 0 })
-        if (insErr) throw insErr
-        setUsed({ ai_messages: 0, lit_searches: 0, analyses: 0 })
-      } else {
-        setUsed({
-          ai_messages: usageRow.ai_messages_used ?? 0,
-          lit_searches: usageRow.lit_searches_used ?? 0,
-          analyses: usageRow.analyses_used ?? 0,
-        })
-      }
+      // rows are created server-side on first metered call
+      setUsed({
+        ai_messages: usageRow?.ai_messages_used ?? 0,
+        lit_searches: usageRow?.lit_searches_used ?? 0,
+        analyses: usageRow?.analyses_used ?? 0,
+      })
     } catch (e:any) {
       setError(e.message || 'Failed to load usage')
     } finally {
@@ -101,18 +97,69 @@ function useUsage(userId: string | null) {
   return { tier, limits, used, loading, error, remaining, exceeded, refresh, periodLabel: 'this month' }
 }
 
+/** ---------------- Billing hook (subscription + invoices via /api/billing) ---------------- */
+type Subscription = {
+  id: string
+  tier: string
+  quantity: number
+  status: string
+  current_period_end: string | null
+  cancel_at_period_end: boolean
+}
+type Invoice = {
+  id: string
+  amount: number
+  currency: string
+  status: 'paid' | 'failed'
+  description: string | null
+  hosted_url: string | null
+  period_start: string | null
+  period_end: string | null
+  created_at: string
+}
+
+function useBilling(userId: string | null) {
+  const [subscription, setSubscription] = useState<Subscription | null>(null)
+  const [invoices, setInvoices] = useState<Invoice[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = async () => {
+    if (!userId) return
+    setError(null)
+    try {
+      const res = await fetch('/api/billing/invoices')
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to load billing')
+      setSubscription(data.subscription)
+      setInvoices(data.invoices || [])
+    } catch (e: any) {
+      setError(e.message || 'Failed to load billing')
+    }
+  }
+
+  useEffect(() => { refresh() }, [userId])
+  return { subscription, invoices, error, refresh }
+}
+
+const formatMoney = (cents: number, currency: string) =>
+  new Intl.NumberFormat(undefined, { style: 'currency', currency: currency.toUpperCase() }).format(cents / 100)
+const formatDate = (iso: string | null) => (iso ? new Date(iso).toLocaleDateString() : '—')
+
 /** ---------------- Page ---------------- */
 export default function PricingPage() {
   const [userId, setUserId] = useState<string | null>(null)
   const [fullName, setFullName] = useState<string>('Researcher')
   const [updating, setUpdating] = useState(false)
+  const [actionError, setActionError] = useState<string | null>(null)
   const router = useRouter()
+  const [checkout, setCheckout] = useState<string | null>(null)
 
   useEffect(() => {
     (async () => {
       const { data: { user } } = await supabase.auth.getUser()
       if (!user) { router.push('/signin'); return }
       setUserId(user.id)
+      setCheckout(new URLSearchParams(window.location.search).get('checkout'))
 
       const { data: profile } = await supabase
         .from('profiles')
@@ -125,16 +172,27 @@ export default function PricingPage() {
 
   const { tier, limits, used, loading, error, remaining, periodLabel, refresh } = useUsage(userId)
 
-  const upgradeTo = async (next: PlanTier) => {
+  const billing = useBilling(userId)
+
+  // Plan changes land via the billing webhook; the API only starts checkout / cancellation.
+  const changePlan = async (next: PlanTier) => {
     if (!userId) return
-    setUpdating(true)
+    setUpdating(true); setActionError(null)
     try {
-      await supabase
-        .from('user_plans')
-        .upsert({ user_id: userId, tier: next }, { onConflict: 'user_id' })
-      await refresh()
-    } catch (e) {
+      const res = next === 'free'
+        ? await fetch('/api/billing/cancel', { method: 'POST' })
+        : await fetch('/api/billing/checkout', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ tier: next }),
+          })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Plan update failed')
+      if (data.url) { window.location.href = data.url; return }
+      await Promise.all([refresh(), billing.refresh()])
+    } catch (e: any) {
       console.error('Plan update failed:', e)
+      setActionError(e.message || 'Plan update failed')
     } finally {
       setUpdating(false)
     }
@@ -158,6 +216,7 @@ export default function PricingPage() {
   }
 
   const isPro = tier === 'pro'
+  const sub = billing.subscription
 
   return (
     <div className="min-h-screen bg-slate-50">
@@ -183,7 +242,7 @@ export default function PricingPage() {
               <h1 className="text-xl font-bold">Hi {fullName.split(' ')[0] || 'there'} — choose what fits your research</h1>
               <p className="text-slate-600 text-sm">Fair monthly quotas ({periodLabel}). Server enforces limits.</p>
             </div>
-            <Link href="/billing" className="inline-flex items-center gap-2 px-3 py-2 rounded-lg border hover:bg-slate-50">
+            <Link href="#invoices" className="inline-flex items-center gap-2 px-3 py-2 rounded-lg border hover:bg-slate-50">
               <FiZap /> Billing & Invoices
             </Link>
           </div>
@@ -194,7 +253,20 @@ export default function PricingPage() {
             <Meter icon={FiBarChart2}      label="Analyses" u={used.analyses} t={limits.analyses} />
           </div>
 
+          {checkout === 'success' && (
+            <p className="mt-3 text-sm text-green-700">Payment received — your plan updates as soon as the provider confirms it.</p>
+          )}
+          {checkout === 'cancelled' && <p className="mt-3 text-sm text-slate-600">Checkout cancelled. Nothing was charged.</p>}
+          {sub?.cancel_at_period_end && (
+            <p className="mt-3 text-sm text-amber-700">
+              Your {sub.tier} plan ends on {formatDate(sub.current_period_end)}. Upgrade again to keep it.
+            </p>
+          )}
+          {sub?.status === 'past_due' && (
+            <p className="mt-3 text-sm text-red-600">Your last payment failed. Update your payment method to keep {sub.tier}.</p>
+          )}
           {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+          {actionError && <p className="mt-3 text-sm text-red-600">{actionError}</p>}
         </section>
 
         {/* Plans */}
@@ -217,7 +289,9 @@ export default function PricingPage() {
             ctas={[
               tier === 'free'
                 ? { label: 'Your current plan', onClick: undefined, kind: 'ghost' as const }
-                : { label: updating ? 'Switching…' : 'Switch to Free', onClick: () => upgradeTo('free'), kind: 'secondary' as const }
+                : sub?.cancel_at_period_end
+                ? { label: `Switches on ${formatDate(sub.current_period_end)}`, onClick: undefined, kind: 'ghost' as const }
+                : { label: updating ? 'Switching…' : 'Switch to Free', onClick: () => changePlan('free'), kind: 'secondary' as const }
             ]}
             highlight={tier === 'free'}
           />
@@ -238,14 +312,70 @@ export default function PricingPage() {
               'Email support',
             ]}
             ctas={[
-              tier === 'pro'
+              tier === 'pro' && !sub?.cancel_at_period_end
                 ? { label: 'Your current plan', onClick: undefined, kind: 'ghost' as const }
-                : { label: updating ? 'Upgrading…' : 'Upgrade to Pro', onClick: () => upgradeTo('pro'), kind: 'primary' as const }
+                : { label: updating ? 'Upgrading…' : tier === 'pro' ? 'Keep Pro' : 'Upgrade to Pro', onClick: () => changePlan('pro'), kind: 'primary' as const }
             ]}
             highlight={tier === 'pro'}
           />
         </section>
 
+        {/* Team */}
+        <section className="bg-white border rounded-xl p-5 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div>
+            <h2 className="text-lg font-semibold flex items-center gap-2"><FiUsers /> Team</h2>
+            <p className="text-sm text-slate-600">
+              ${(PLAN_PRICES.team.amount / 100).toFixed(0)} per seat / mo. An organization pools {PLAN_LIMITS_TEAM.ai_messages} AI messages,{' '}
+              {PLAN_LIMITS_TEAM.lit_searches} searches and {PLAN_LIMITS_TEAM.analyses} analyses per seat, with optional per-member caps.
+            </p>
+          </div>
+          <Link href="/orgs" className="inline-flex items-center gap-2 px-4 py-2 rounded-lg border hover:bg-slate-50 whitespace-nowrap">
+            <FiUsers /> Organizations
+          </Link>
+        </section>
+
+        {/* Invoices */}
+        <section id="invoices" className="bg-white border rounded-xl p-5 space-y-3">
+          <h2 className="text-lg font-semibold flex items-center gap-2"><FiFileText /> Billing & invoices</h2>
+          {sub && (
+            <p className="text-sm text-slate-600">
+              {sub.tier.toUpperCase()}{sub.quantity > 1 ? ` × ${sub.quantity} seats` : ''} · {sub.status.replace('_', ' ')} ·{' '}
+              {sub.cancel_at_period_end ? 'ends' : 'renews'} {formatDate(sub.current_period_end)}
+            </p>
+          )}
+          {billing.error && <p className="text-sm text-red-600">{billing.error}</p>}
+          {billing.invoices.length === 0 ? (
+            <p className="text-sm text-slate-500">No invoices yet.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-500 border-b">
+                  <th className="py-2 font-medium">Date</th>
+                  <th className="py-2 font-medium">Description</th>
+                  <th className="py-2 font-medium">Period</th>
+                  <th className="py-2 font-medium text-right">Amount</th>
+                  <th className="py-2 font-medium text-right">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {billing.invoices.map(inv => (
+                  <tr key={inv.id} className="border-b last:border-0">
+                    <td className="py-2">{formatDate(inv.created_at)}</td>
+                    <td className="py-2">
+                      {inv.hosted_url
+                        ? <a href={inv.hosted_url} target="_blank" rel="noreferrer" className="text-blue-700 underline">{inv.description || 'Invoice'}</a>
+                        : inv.description || 'Invoice'}
+                    </td>
+                    <td className="py-2 text-slate-600">{formatDate(inv.period_start)} – {formatDate(inv.period_end)}</td>
+                    <td className="py-2 text-right">{formatMoney(inv.amount, inv.currency)}</td>
+                    <td className={`py-2 text-right ${inv.status === 'paid' ? 'text-green-700' : 'text-red-600'}`}>{inv.status}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </section>
+
         {/* How challenges work */}
         <section className="bg-white border rounded-xl p-5 space-y-4">
           <h2 className="text-lg font-semibold flex items-center gap-2"><FiTarget /> Challenges — how it works</h2>
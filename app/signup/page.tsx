@@ -12,6 +12,7 @@ export default function SignUpPage() {
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
   const [error, setError] = useState('')
+  const [notice, setNotice] = useState('')
   const [loading, setLoading] = useState(false)
   const router = useRouter()
 
@@ -20,12 +21,21 @@ export default function SignUpPage() {
     setLoading(true)
     setError('')
 
-    const { error } = await signUpWithEmail(email, password)
+    // arriving from an invitation (/signup?invite=…) or a protected page (?redirectTo=…)
+    const params = new URLSearchParams(window.location.search)
+    const invite = params.get('invite')
+    const redirectTo = params.get('redirectTo')
+    const { data, error } = await signUpWithEmail(email, password, { invite, redirectTo })
 
     if (error) {
       setError(error.message)
+    } else if (invite && data.session) {
+      // no email confirmation required: accept on the invitation page right away
+      router.push(`/invite/${encodeURIComponent(invite)}`)
+    } else if (invite) {
+      setNotice('Check your email to confirm your account — the link will take you straight into the colab.')
     } else {
-      router.push('/dashboard')
+      router.push(redirectTo?.startsWith('/') && !redirectTo.startsWith('//') ? redirectTo : '/dashboard')
     }
 
     setLoading(false)
@@ -50,6 +60,11 @@ export default function SignUpPage() {
               <p>{error}</p>
             </div>
           )}
+          {notice && (
+            <div className="mb-4 bg-blue-50 border-l-4 border-blue-500 text-blue-700 p-4 rounded">
+              <p>{notice}</p>
+            </div>
+          )}
 
           <form onSubmit={handleSubmit} className="space-y-5">
             <div className="space-y-1">
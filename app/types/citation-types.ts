@@ -0,0 +1,29 @@
+export type ReferenceKind = 'pmid' | 'doi' | 'arxiv';
+
+export interface ColabReference {
+  id: string;
+  colab_id: string;
+  kind: ReferenceKind;
+  identifier: string;
+  title: string;
+  authors: string[];
+  journal: string | null;
+  year: number | null;
+  doi: string | null;
+  url: string | null;
+  abstract: string | null;
+  /** MeSH descriptors, major topics first (PubMed works only) */
+  mesh_terms: string[];
+  keywords: string[];
+  publication_types: string[];
+  added_by: string;
+  created_at: string;
+}
+
+export interface NoteCitation {
+  note_id: string;
+  reference_id: string;
+  colab_id: string;
+  created_by: string;
+  created_at: string;
+}
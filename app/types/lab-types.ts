@@ -19,10 +19,13 @@ export interface LabMember {
 export interface LabFile {
   id: string;
   lab_id: string;
+  commit_id: string;
   name: string;
   path: string;
   size: number;
   type: string;
+  storage_key: string;
+  deleted: boolean;
   uploaded_by: string;
   created_at: string;
 }
@@ -0,0 +1,18 @@
+export interface ReadmeRevision {
+  id: string;
+  colab_id: string;
+  message: string;
+  /** revision this one restored, when it records a restore */
+  restored_from: string | null;
+  created_by: string | null;
+  created_at: string;
+  /** omitted from listings; fetched per revision */
+  content?: string;
+}
+
+export interface ReadmeDocument {
+  text: string;
+  /** base64 Yjs update of the whole document */
+  state: string;
+  updated_at: string | null;
+}
@@ -0,0 +1,75 @@
+export type ReviewStage = 'screening' | 'eligibility';
+export type VoteDecision = 'include' | 'exclude' | 'maybe';
+export type ReviewSearchSource = 'pubmed' | 'multisearch' | 'bibliography';
+
+export interface SystematicReview {
+  id: string;
+  colab_id: string;
+  created_by: string;
+  title: string;
+  question: string;
+  inclusion_criteria: string[];
+  exclusion_criteria: string[];
+  /** independent votes needed before a record's stage can settle */
+  screeners_required: number;
+  synthesis: string | null;
+  synthesized_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ReviewSearch {
+  id: string;
+  review_id: string;
+  colab_id: string;
+  source: ReviewSearchSource;
+  query: string;
+  /** records returned per database, before deduplication */
+  identified: Record<string, number>;
+  duplicates: number;
+  added: number;
+  run_by: string;
+  ran_at: string;
+}
+
+export interface ReviewRecord {
+  id: string;
+  review_id: string;
+  colab_id: string;
+  search_id: string | null;
+  dedupe_keys: string[];
+  title: string;
+  authors: string[];
+  journal: string | null;
+  year: number | null;
+  abstract: string | null;
+  doi: string | null;
+  pmid: string | null;
+  url: string | null;
+  /** database the record was first identified in */
+  source: string;
+  created_at: string;
+}
+
+export interface ReviewVote {
+  record_id: string;
+  stage: ReviewStage;
+  reviewer_id: string;
+  review_id: string;
+  colab_id: string;
+  decision: VoteDecision;
+  reason: string | null;
+  updated_at: string;
+}
+
+export interface ReviewDecision {
+  record_id: string;
+  stage: ReviewStage;
+  review_id: string;
+  colab_id: string;
+  decision: 'include' | 'exclude';
+  reason: string | null;
+  /** null when the screeners agreed */
+  resolved_by: string | null;
+  decided_at: string;
+}
@@ -0,0 +1,34 @@
+export type SearchKind = 'note' | 'readme' | 'file' | 'reference' | 'memory';
+
+export interface SearchResult {
+  kind: SearchKind;
+  /** note / reference id, file path, 'readme', or 'memory' */
+  source_id: string;
+  title: string;
+  /** best-matching passage, trimmed around the query terms */
+  snippet: string;
+  /** fused rank score; only comparable within one response */
+  score: number;
+  /** cosine similarity of the best chunk, when it came up in the vector search */
+  similarity: number | null;
+  /** matched the query's keywords */
+  keyword: boolean;
+}
+
+export interface SearchResponse {
+  results: SearchResult[];
+  /** 'keyword' when the query could not be embedded */
+  mode: 'hybrid' | 'keyword';
+  model: string;
+  /** the index could not be brought up to date; results may miss recent edits */
+  stale: boolean;
+}
+
+/** A colab document the copilot was given excerpts of for an answer */
+export interface ContextSource {
+  kind: SearchKind;
+  source_id: string;
+  title: string;
+  /** excerpts of it that fit the context budget */
+  chunks: number;
+}
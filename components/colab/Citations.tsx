@@ -0,0 +1,420 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState, type FormEvent } from 'react'
+import { FiBookOpen, FiDownload, FiExternalLink, FiPlus, FiTrash2, FiUpload, FiX } from 'react-icons/fi'
+import type { BibliographyEntry, ImportSummary } from '../../app/lib/citations/repository'
+import { citationLabel, formatIdentifier, parseIdentifier } from '../../app/lib/citations/identifiers'
+
+export type { BibliographyEntry }
+export type CiteInput = { referenceId: string } | { identifier: string; metadata?: Record<string, unknown> }
+
+async function readJson(res: Response) {
+  const data = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(data?.error || `Request failed (${res.status})`)
+  return data
+}
+
+/** Colab bibliography plus per-note citations, kept in sync with the citation routes */
+export function useBibliography(colabId: string | null) {
+  const base = `/api/colabs/${colabId}`
+  const [references, setReferences] = useState<BibliographyEntry[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  const reload = useCallback(async () => {
+    if (!colabId) return
+    try {
+      const data = await readJson(await fetch(`${base}/references`))
+      setReferences(data.references || [])
+      setError(null)
+    } catch (e: any) {
+      setError(e.message || 'Failed to load bibliography')
+    }
+  }, [colabId, base])
+
+  useEffect(() => { reload() }, [reload])
+
+  const citationsByNote = useMemo(() => {
+    const map: Record<string, BibliographyEntry[]> = {}
+    for (const r of references) for (const noteId of r.cited_by) (map[noteId] ||= []).push(r)
+    return map
+  }, [references])
+
+  const merge = (ref: Omit<BibliographyEntry, 'cited_by'>, noteId?: string) =>
+    setReferences(prev => {
+      const cur = prev.find(r => r.id === ref.id)
+      const citedBy = cur?.cited_by || []
+      const entry = { ...ref, cited_by: noteId && !citedBy.includes(noteId) ? [...citedBy, noteId] : citedBy }
+      return cur ? prev.map(r => r.id === ref.id ? entry : r) : [...prev, entry]
+    })
+
+  const add = async (identifier: string, metadata?: Record<string, unknown>) => {
+    const data = await readJson(await fetch(`${base}/references`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ identifier, metadata }),
+    }))
+    merge(data.reference)
+    return data.reference as BibliographyEntry
+  }
+
+  const remove = async (referenceId: string) => {
+    await readJson(await fetch(`${base}/references/${referenceId}`, { method: 'DELETE' }))
+    setReferences(prev => prev.filter(r => r.id !== referenceId))
+  }
+
+  const cite = async (noteId: string, input: CiteInput) => {
+    const data = await readJson(await fetch(`${base}/notes/${noteId}/citations`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    }))
+    merge(data.reference, noteId)
+  }
+
+  const uncite = async (noteId: string, referenceId: string) => {
+    await readJson(await fetch(`${base}/notes/${noteId}/citations?referenceId=${encodeURIComponent(referenceId)}`, { method: 'DELETE' }))
+    setReferences(prev => prev.map(r => r.id === referenceId ? { ...r, cited_by: r.cited_by.filter(id => id !== noteId) } : r))
+  }
+
+  const importFile = async (file: File) => {
+    const form = new FormData()
+    form.append('file', file)
+    const summary = await readJson(await fetch(`${base}/references/import`, { method: 'POST', body: form }))
+    await reload()
+    return summary as ImportSummary
+  }
+
+  return { references, citationsByNote, error, reload, add, remove, cite, uncite, importFile }
+}
+
+const authorLine = (authors: string[]) =>
+  authors.length <= 3 ? authors.join(', ') : `${authors.slice(0, 3).join(', ')} et al.`
+
+/** Inline chip with a hover card showing the cited work */
+export function CitationChip({ reference, onRemove }: { reference: BibliographyEntry; onRemove?: () => void }) {
+  return (
+    <span className="group relative inline-flex">
+      <a
+        href={reference.url || '#'}
+        target="_blank"
+        rel="noreferrer"
+        className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full border border-indigo-200 bg-indigo-50 text-indigo-800 text-xs hover:bg-indigo-100"
+      >
+        <FiBookOpen className="w-3 h-3 shrink-0" />
+        <span className="truncate max-w-[12rem]">{citationLabel(reference)}</span>
+      </a>
+      {onRemove && (
+        <button onClick={onRemove} title="Remove citation" className="ml-0.5 text-slate-400 hover:text-red-600">
+          <FiX className="w-3 h-3" />
+        </button>
+      )}
+      <span className="hidden group-hover:block group-focus-within:block absolute left-0 top-full z-30 pt-1">
+        <span className="block w-80 max-w-[80vw] bg-white border rounded-lg shadow-lg p-3 text-left text-xs text-slate-700">
+          <span className="block font-semibold text-sm text-slate-900 break-words">{reference.title}</span>
+          {reference.authors.length ? <span className="block mt-1 break-words">{authorLine(reference.authors)}</span> : null}
+          <span className="block mt-1 text-slate-500">
+            {[reference.journal, reference.year].filter(Boolean).join(' · ')}
+            {reference.journal || reference.year ? ' · ' : ''}{formatIdentifier(reference)}
+          </span>
+          {reference.abstract ? <span className="block mt-2 line-clamp-4 break-words">{reference.abstract}</span> : null}
+        </span>
+      </span>
+    </span>
+  )
+}
+
+/** Cite by identifier, or pick a work already in the bibliography */
+export function CitationPicker({ references, exclude, onCite, onClose }: {
+  references: BibliographyEntry[]
+  exclude: string[]
+  onCite: (input: CiteInput) => Promise<void>
+  onClose: () => void
+}) {
+  const [value, setValue] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [err, setErr] = useState<string | null>(null)
+
+  const q = value.trim().toLowerCase()
+  const matches = references
+    .filter(r => !exclude.includes(r.id))
+    .filter(r => !q || `${r.title} ${citationLabel(r)} ${r.identifier}`.toLowerCase().includes(q))
+    .slice(0, 6)
+
+  const run = async (input: CiteInput) => {
+    setBusy(true); setErr(null)
+    try {
+      await onCite(input)
+      onClose()
+    } catch (e: any) {
+      setErr(e.message || 'Could not add citation')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const submit = (e: FormEvent) => {
+    e.preventDefault()
+    if (!parseIdentifier(value)) { setErr('Enter a PMID, DOI or arXiv id'); return }
+    run({ identifier: value.trim() })
+  }
+
+  return (
+    <div className="mt-3 border rounded-lg p-3 bg-slate-50">
+      <form onSubmit={submit} className="flex items-center gap-2">
+        <input
+          value={value}
+          onChange={e => setValue(e.target.value)}
+          placeholder="PMID, DOI or arXiv id — or search the bibliography"
+          className="flex-1 border rounded-lg px-3 py-2 min-w-0 text-sm"
+          autoFocus
+        />
+        <button type="submit" disabled={busy || !value.trim()} className="px-3 py-2 rounded-lg bg-indigo-600 text-white text-sm disabled:opacity-50">
+          {busy ? 'Adding…' : 'Cite'}
+        </button>
+        <button type="button" onClick={onClose} className="px-3 py-2 rounded-lg border text-sm">Cancel</button>
+      </form>
+      {err && <div className="mt-2 text-sm text-red-600 break-words">{err}</div>}
+      {matches.length > 0 && (
+        <ul className="mt-2 divide-y bg-white border rounded-lg">
+          {matches.map(r => (
+            <li key={r.id}>
+              <button
+                onClick={() => run({ referenceId: r.id })}
+                disabled={busy}
+                className="w-full text-left px-3 py-2 text-sm hover:bg-slate-50 disabled:opacity-50"
+              >
+                <span className="font-medium">{citationLabel(r)}</span>
+                <span className="text-slate-600"> — {r.title}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+/** Every work cited in the colab, with how many notes cite it */
+const EXPORTS = [
+  { format: 'bibtex', label: 'BibTeX' },
+  { format: 'ris', label: 'RIS' },
+  { format: 'csl-json', label: 'CSL-JSON' },
+] as const
+
+export function BibliographySection({ colabId, references, error, canWrite, onAdd, onRemove, onImport }: {
+  colabId: string
+  references: BibliographyEntry[]
+  error: string | null
+  canWrite: boolean
+  onAdd: (identifier: string) => Promise<unknown>
+  onRemove: (referenceId: string) => Promise<void>
+  onImport: (file: File) => Promise<ImportSummary>
+}) {
+  const [value, setValue] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [err, setErr] = useState<string | null>(null)
+  const [imported, setImported] = useState<ImportSummary | null>(null)
+
+  const [meshFilter, setMeshFilter] = useState('')
+  const [groupByMesh, setGroupByMesh] = useState(false)
+
+  const sorted = useMemo(
+    () => [...references].sort((a, b) => citationLabel(a).localeCompare(citationLabel(b))),
+    [references]
+  )
+
+  /** MeSH descriptors used in the bibliography, most common first */
+  const meshTerms = useMemo(() => {
+    const counts = new Map<string, number>()
+    for (const r of references) for (const t of r.mesh_terms) counts.set(t, (counts.get(t) || 0) + 1)
+    return Array.from(counts).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+  }, [references])
+
+  const visible = meshFilter ? sorted.filter(r => r.mesh_terms.includes(meshFilter)) : sorted
+  // a work appears under each of its headings; the filtered heading itself is implied
+  const groups = groupByMesh
+    ? [
+        ...meshTerms
+          .filter(([t]) => t !== meshFilter)
+          .map(([t]) => ({ term: t, works: visible.filter(r => r.mesh_terms.includes(t)) }))
+          .filter(g => g.works.length),
+        { term: '', works: visible.filter(r => !r.mesh_terms.some(t => t !== meshFilter)) },
+      ].filter(g => g.works.length)
+    : [{ term: '', works: visible }]
+
+  const submit = async (e: FormEvent) => {
+    e.preventDefault()
+    if (!parseIdentifier(value)) { setErr('Enter a PMID, DOI or arXiv id'); return }
+    setBusy(true); setErr(null)
+    try {
+      await onAdd(value.trim())
+      setValue('')
+    } catch (e: any) {
+      setErr(e.message || 'Could not add reference')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const remove = async (r: BibliographyEntry) => {
+    const n = r.cited_by.length
+    if (!confirm(n ? `Remove "${r.title}"? It is cited in ${n} note${n === 1 ? '' : 's'}; those citations will be removed too.` : `Remove "${r.title}" from the bibliography?`)) return
+    try { await onRemove(r.id) } catch (e: any) { setErr(e.message || 'Could not remove reference') }
+  }
+
+  const importFile = async (file: File | undefined) => {
+    if (!file) return
+    setBusy(true); setErr(null); setImported(null)
+    try {
+      setImported(await onImport(file))
+    } catch (e: any) {
+      setErr(e.message || 'Import failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <section className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-xl font-semibold">Bibliography</h2>
+          <span className="text-sm text-slate-500">{references.length} work{references.length === 1 ? '' : 's'}</span>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          {references.length > 0 && EXPORTS.map(x => (
+            <a
+              key={x.format}
+              href={`/api/colabs/${colabId}/references/export?format=${x.format}`}
+              className="inline-flex items-center gap-1 px-3 py-2 rounded-lg border bg-white hover:bg-slate-50"
+              title={`Export as ${x.label}`}
+            >
+              <FiDownload /> {x.label}
+            </a>
+          ))}
+          {canWrite && (
+            <label className={`inline-flex items-center gap-1 px-3 py-2 rounded-lg border bg-white hover:bg-slate-50 cursor-pointer ${busy ? 'opacity-50 pointer-events-none' : ''}`}>
+              <FiUpload /> Import
+              <input
+                type="file"
+                accept=".bib,.ris,.json,.txt"
+                className="hidden"
+                onChange={e => { importFile(e.target.files?.[0]); e.target.value = '' }}
+              />
+            </label>
+          )}
+        </div>
+      </div>
+
+      {imported && (
+        <div className="rounded-lg border border-green-200 bg-green-50 text-green-800 p-3 text-sm" role="status">
+          Imported {imported.added} new work{imported.added === 1 ? '' : 's'}
+          {imported.existing ? `, ${imported.existing} already in the bibliography` : ''}.
+          {imported.skipped.length > 0 && (
+            <details className="mt-1 text-slate-700">
+              <summary className="cursor-pointer">
+                {imported.skipped.length} skipped (no PMID, DOI or arXiv id)
+              </summary>
+              <ul className="mt-1 list-disc pl-5">
+                {imported.skipped.slice(0, 50).map((t, i) => <li key={i} className="break-words">{t}</li>)}
+              </ul>
+            </details>
+          )}
+        </div>
+      )}
+
+      {canWrite && (
+        <form onSubmit={submit} className="bg-white border rounded-lg p-4 flex items-center gap-2">
+          <input
+            value={value}
+            onChange={e => setValue(e.target.value)}
+            placeholder="Add by PMID, DOI or arXiv id"
+            className="flex-1 border rounded-lg px-3 py-2 min-w-0"
+          />
+          <button type="submit" disabled={busy || !value.trim()} className="inline-flex items-center gap-2 px-3 py-2 rounded-lg bg-indigo-600 text-white disabled:opacity-50">
+            <FiPlus /> {busy ? 'Adding…' : 'Add'}
+          </button>
+        </form>
+      )}
+
+      {(err || error) && <div className="text-sm text-red-600 break-words">{err || error}</div>}
+
+      {meshTerms.length > 0 && (
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <select value={meshFilter} onChange={e => setMeshFilter(e.target.value)} className="border rounded-lg px-2 py-1.5 bg-white max-w-full">
+            <option value="">All MeSH terms</option>
+            {meshTerms.map(([t, n]) => <option key={t} value={t}>{t} ({n})</option>)}
+          </select>
+          <label className="inline-flex items-center gap-1.5 text-slate-700">
+            <input type="checkbox" checked={groupByMesh} onChange={e => setGroupByMesh(e.target.checked)} />
+            Group by MeSH term
+          </label>
+          {meshFilter && <span className="text-slate-500">{visible.length} of {references.length} works</span>}
+        </div>
+      )}
+
+      {visible.length ? (
+        <div className="space-y-5">
+          {groups.map(g => (
+            <div key={g.term || '_none'}>
+              {groupByMesh && (
+                <h3 className="text-sm font-semibold text-slate-700 mb-2">
+                  {g.term || 'Other works'} <span className="font-normal text-slate-500">({g.works.length})</span>
+                </h3>
+              )}
+              <ol className="space-y-3">
+                {g.works.map(r => (
+                  <li key={r.id} className="bg-white border rounded-lg p-4">
+                    <div className="flex items-start justify-between gap-3">
+                      <div className="min-w-0">
+                        <div className="flex flex-wrap items-center gap-2 text-xs text-slate-600 mb-1">
+                          <span className="px-2 py-0.5 rounded bg-slate-50 border">{citationLabel(r)}</span>
+                          <span className="px-2 py-0.5 rounded bg-slate-50 border break-all">{formatIdentifier(r)}</span>
+                          <span className="px-2 py-0.5 rounded bg-slate-50 border">
+                            Cited in {r.cited_by.length} note{r.cited_by.length === 1 ? '' : 's'}
+                          </span>
+                        </div>
+                        <div className="font-medium break-words">{r.title}</div>
+                        {r.authors.length ? <div className="text-sm text-slate-700 mt-0.5 break-words">{authorLine(r.authors)}</div> : null}
+                        {r.journal || r.year ? <div className="text-sm text-slate-500">{[r.journal, r.year].filter(Boolean).join(' · ')}</div> : null}
+                        {r.mesh_terms.length > 0 && (
+                          <div className="mt-2 flex flex-wrap gap-1">
+                            {r.mesh_terms.slice(0, 8).map(t => (
+                              <button
+                                key={t}
+                                onClick={() => setMeshFilter(meshFilter === t ? '' : t)}
+                                className={`px-1.5 py-0.5 rounded text-[11px] border ${meshFilter === t ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : 'bg-slate-50 text-slate-600 hover:bg-slate-100'}`}
+                                title="Filter by this MeSH term"
+                              >
+                                {t}
+                              </button>
+                            ))}
+                            {r.mesh_terms.length > 8 && <span className="text-[11px] text-slate-400">+{r.mesh_terms.length - 8}</span>}
+                          </div>
+                        )}
+                        {r.url && (
+                          <a href={r.url} target="_blank" rel="noreferrer" className="mt-1 inline-flex items-center gap-1 text-sm text-blue-700 underline break-words">
+                            Open <FiExternalLink className="w-3 h-3" />
+                          </a>
+                        )}
+                      </div>
+                      {canWrite && (
+                        <button onClick={() => remove(r)} title="Remove from bibliography" className="p-2 rounded hover:bg-slate-50 text-red-600 shrink-0">
+                          <FiTrash2 />
+                        </button>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="bg-white border rounded-lg p-8 text-center text-slate-500">
+          No works cited yet. Cite papers on review notes or add them here.
+        </div>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,113 @@
+'use client'
+
+import { useEffect, useRef, useState, type FormEvent } from 'react'
+import { FiSearch, FiX, FiMessageSquare, FiFileText, FiFile, FiBookOpen, FiCpu } from 'react-icons/fi'
+import type { SearchKind, SearchResponse, SearchResult } from '../../app/types/search-types'
+
+export const SEARCH_KIND_LABELS: Record<SearchKind, string> = {
+  note: 'Note',
+  readme: 'README',
+  file: 'File',
+  reference: 'Bibliography',
+  memory: 'Copilot memory',
+}
+
+export const SEARCH_KIND_ICONS: Record<SearchKind, typeof FiSearch> = {
+  note: FiMessageSquare,
+  readme: FiFileText,
+  file: FiFile,
+  reference: FiBookOpen,
+  memory: FiCpu,
+}
+
+async function readJson(res: Response) {
+  const data = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(data?.error || `Request failed (${res.status})`)
+  return data
+}
+
+/** Search box for the colab header; `onOpen` navigates to the picked result */
+export default function ColabSearch({ colabId, onOpen }: { colabId: string; onOpen: (result: SearchResult) => void }) {
+  const [q, setQ] = useState('')
+  const [response, setResponse] = useState<SearchResponse | null>(null)
+  const [searching, setSearching] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [open, setOpen] = useState(false)
+  const boxRef = useRef<HTMLDivElement | null>(null)
+
+  // close on outside click
+  useEffect(() => {
+    if (!open) return
+    const onDown = (e: MouseEvent) => { if (!boxRef.current?.contains(e.target as Node)) setOpen(false) }
+    document.addEventListener('mousedown', onDown)
+    return () => document.removeEventListener('mousedown', onDown)
+  }, [open])
+
+  const search = async (e: FormEvent) => {
+    e.preventDefault()
+    if (!q.trim()) return
+    setSearching(true); setError(null); setOpen(true)
+    try {
+      setResponse(await readJson(await fetch(`/api/colabs/${colabId}/search?q=${encodeURIComponent(q.trim())}`)))
+    } catch (e: any) {
+      setError(e.message || 'Search failed'); setResponse(null)
+    } finally {
+      setSearching(false)
+    }
+  }
+
+  const pick = (r: SearchResult) => { setOpen(false); onOpen(r) }
+
+  return (
+    <div ref={boxRef} className="relative w-full max-w-md">
+      <form onSubmit={search} className="flex items-center gap-2 border rounded-lg px-3 py-1.5 bg-white focus-within:ring-2 focus-within:ring-indigo-500">
+        <FiSearch className="w-4 h-4 text-slate-400 shrink-0" />
+        <input
+          value={q}
+          onChange={e => setQ(e.target.value)}
+          onFocus={() => response && setOpen(true)}
+          onKeyDown={e => { if (e.key === 'Escape') setOpen(false) }}
+          placeholder="Search notes, files, papers…"
+          className="flex-1 min-w-0 text-sm outline-none"
+        />
+        {q && (
+          <button type="button" onClick={() => { setQ(''); setResponse(null); setOpen(false) }} className="text-slate-400 hover:text-slate-700" title="Clear">
+            <FiX className="w-4 h-4" />
+          </button>
+        )}
+      </form>
+
+      {open && (
+        <div className="absolute z-50 mt-1 w-full bg-white border rounded-lg shadow-lg max-h-[60vh] overflow-y-auto">
+          {searching && <div className="p-3 text-sm text-slate-500">Searching…</div>}
+          {error && <div className="p-3 text-sm text-red-600 break-words">{error}</div>}
+          {!searching && response && !response.results.length && (
+            <div className="p-3 text-sm text-slate-500">No matches.</div>
+          )}
+          {!searching && response?.results.map(r => {
+            const Icon = SEARCH_KIND_ICONS[r.kind]
+            return (
+              <button
+                key={`${r.kind}:${r.source_id}`}
+                onClick={() => pick(r)}
+                className="w-full text-left p-3 border-b last:border-b-0 hover:bg-slate-50"
+              >
+                <div className="flex items-center gap-2 text-xs text-slate-500">
+                  <Icon className="w-3 h-3 shrink-0" />
+                  <span>{SEARCH_KIND_LABELS[r.kind]}</span>
+                  {(r.kind === 'reference' || r.kind === 'file') && <span className="truncate text-slate-700">{r.title}</span>}
+                </div>
+                <div className="mt-1 text-sm text-slate-800 break-words">{r.snippet}</div>
+              </button>
+            )
+          })}
+          {!searching && response && (response.mode === 'keyword' || response.stale) && (
+            <div className="p-2 text-[11px] text-amber-700 bg-amber-50">
+              {response.mode === 'keyword' ? 'Keyword matches only — semantic search is unavailable right now.' : 'The index could not be refreshed; recent edits may be missing.'}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,164 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { FiArchive, FiKey, FiLink, FiTrash2 } from 'react-icons/fi'
+import { RESTORE_WINDOW_DAYS } from '../../app/lib/colab-lifecycle'
+import { slugProblem } from '../../app/lib/slugs'
+
+async function readJson(res: Response) {
+  const data = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(data?.error || `Request failed (${res.status})`)
+  return data
+}
+
+interface Candidate { id: string; username: string; full_name?: string | null }
+
+/** Owner-only: set its URL, hand the colab over, archive it, or move it to the trash */
+export default function ColabSettings({ colab, members, onArchivedChange, onSlugChange, onTransferred }: {
+  colab: { id: string; name: string; slug: string; slug_pinned?: boolean; archived_at?: string | null }
+  /** accepted members who could take over */
+  members: Candidate[]
+  onArchivedChange: (archivedAt: string | null) => void
+  onSlugChange: (slug: string, pinned: boolean) => void
+  onTransferred: (newOwnerId: string) => void
+}) {
+  const router = useRouter()
+  const base = `/api/colabs/${colab.id}`
+  const [slugDraft, setSlugDraft] = useState(colab.slug)
+  const [newOwner, setNewOwner] = useState('')
+  const [confirming, setConfirming] = useState<'transfer' | 'delete' | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true); setError(null)
+    try {
+      await action()
+      setConfirming(null)
+    } catch (e: any) {
+      setError(e.message)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const toggleArchive = () => run(async () => {
+    const data = await readJson(await fetch(`${base}/archive`, { method: colab.archived_at ? 'DELETE' : 'POST' }))
+    onArchivedChange(data.archived_at)
+  })
+
+  const draft = slugDraft.trim().toLowerCase()
+  const draftProblem = draft !== colab.slug ? slugProblem(draft) : null
+
+  const saveSlug = (body: { slug?: string; pinned?: boolean }) => run(async () => {
+    const data = await readJson(await fetch(`${base}/slug`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    }))
+    setSlugDraft(data.slug)
+    onSlugChange(data.slug, data.slug_pinned)
+  })
+
+  const transfer = () => run(async () => {
+    await readJson(await fetch(`${base}/transfer`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ userId: newOwner }),
+    }))
+    onTransferred(newOwner)
+  })
+
+  const trash = () => run(async () => {
+    await readJson(await fetch(base, { method: 'DELETE' }))
+    router.push('/dashboard')
+  })
+
+  const who = (m: Candidate) => m.full_name || `@${m.username}`
+
+  return (
+    <div className="bg-white border rounded-lg p-4 space-y-4">
+      <h3 className="font-semibold">Owner settings</h3>
+
+      <div className="space-y-2">
+        <div className="text-sm font-medium inline-flex items-center gap-2"><FiLink className="w-4 h-4" /> Colab URL</div>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <div className="flex flex-1 items-center border rounded-lg text-sm overflow-hidden">
+            <span className="pl-3 text-slate-400">/colab/</span>
+            <input
+              value={slugDraft}
+              onChange={e => setSlugDraft(e.target.value)}
+              disabled={!!colab.archived_at}
+              className="flex-1 min-w-0 py-2 pr-3 outline-none disabled:bg-transparent"
+            />
+          </div>
+          <button
+            onClick={() => saveSlug({ slug: draft })}
+            disabled={busy || draft === colab.slug || !!draftProblem || !!colab.archived_at}
+            className="px-4 py-2 rounded-lg border text-sm disabled:opacity-50"
+          >
+            Save URL
+          </button>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-slate-700">
+          <input
+            type="checkbox"
+            checked={!!colab.slug_pinned}
+            disabled={busy || !!colab.archived_at}
+            onChange={e => saveSlug({ pinned: e.target.checked })}
+          />
+          Keep this URL when the colab is renamed
+        </label>
+        {draftProblem
+          ? <p className="text-xs text-red-600">{draftProblem}</p>
+          : <p className="text-xs text-slate-500">Old URLs keep redirecting here.</p>}
+      </div>
+
+      <div className="space-y-2 pt-2 border-t">
+        <div className="text-sm font-medium inline-flex items-center gap-2"><FiKey className="w-4 h-4" /> Transfer ownership</div>
+        {members.length ? (
+          <div className="flex flex-col sm:flex-row gap-2">
+            <select value={newOwner} onChange={e => { setNewOwner(e.target.value); setConfirming(null) }} className="flex-1 px-3 py-2 border rounded-lg text-sm">
+              <option value="">Choose a member…</option>
+              {members.map(m => <option key={m.id} value={m.id}>{who(m)}</option>)}
+            </select>
+            {confirming === 'transfer' ? (
+              <button onClick={transfer} disabled={busy} className="px-4 py-2 rounded-lg bg-amber-600 text-white text-sm disabled:opacity-50">
+                {busy ? 'Transferring…' : 'Confirm transfer'}
+              </button>
+            ) : (
+              <button onClick={() => setConfirming('transfer')} disabled={!newOwner} className="px-4 py-2 rounded-lg border text-sm disabled:opacity-50">
+                Transfer
+              </button>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-slate-500">Invite someone first; ownership can only go to a member.</p>
+        )}
+        {confirming === 'transfer' && (
+          <p className="text-xs text-amber-700">You will stay on as a maintainer and lose owner-only controls.</p>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2 pt-2 border-t">
+        <button onClick={toggleArchive} disabled={busy} className="inline-flex items-center gap-2 px-3 py-2 rounded-lg border text-sm hover:bg-slate-50 disabled:opacity-50">
+          <FiArchive className="w-4 h-4" /> {colab.archived_at ? 'Unarchive' : 'Archive (read-only)'}
+        </button>
+        {confirming === 'delete' ? (
+          <button onClick={trash} disabled={busy} className="inline-flex items-center gap-2 px-3 py-2 rounded-lg bg-red-600 text-white text-sm disabled:opacity-50">
+            <FiTrash2 className="w-4 h-4" /> {busy ? 'Deleting…' : `Move "${colab.name}" to the trash`}
+          </button>
+        ) : (
+          <button onClick={() => setConfirming('delete')} className="inline-flex items-center gap-2 px-3 py-2 rounded-lg border border-red-200 text-red-700 text-sm hover:bg-red-50">
+            <FiTrash2 className="w-4 h-4" /> Delete colab
+          </button>
+        )}
+      </div>
+      {confirming === 'delete' && (
+        <p className="text-xs text-slate-600">It can be restored from your dashboard for {RESTORE_WINDOW_DAYS} days, then it is deleted for good.</p>
+      )}
+      {error && <div className="text-sm text-red-600 break-words">{error}</div>}
+    </div>
+  )
+}
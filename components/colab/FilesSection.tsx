@@ -0,0 +1,267 @@
+'use client'
+
+import { useEffect, useState, type FormEvent } from 'react'
+import {
+  FiUpload, FiFile, FiGitCommit, FiClock, FiDownload, FiRotateCcw, FiX, FiFolder
+} from 'react-icons/fi'
+import type { LabCommit, LabFile } from '../../app/types/lab-types'
+
+type TreeEntry = LabFile & { commit: Pick<LabCommit, 'id' | 'message' | 'created_at'> }
+type DiffLine = { op: 'equal' | 'add' | 'remove'; text: string; oldNo?: number; newNo?: number }
+type FileDiff = { from: LabFile | null; to: LabFile; text: boolean; lines: DiffLine[]; stats: { added: number; removed: number } }
+
+const fmtSize = (n: number) =>
+  n < 1024 ? `${n} B` : n < 1024 * 1024 ? `${(n / 1024).toFixed(1)} KB` : `${(n / 1024 / 1024).toFixed(1)} MB`
+const shortId = (id: string) => id.slice(0, 7)
+
+async function readJson(res: Response) {
+  const data = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(data?.error || `Request failed (${res.status})`)
+  return data
+}
+
+export default function FilesSection({ colabId, canWrite }: { colabId: string; canWrite: boolean }) {
+  const base = `/api/colabs/${colabId}`
+  const [tree, setTree] = useState<TreeEntry[]>([])
+  const [commits, setCommits] = useState<LabCommit[]>([])
+  const [viewing, setViewing] = useState<string | null>(null) // commit id; null = HEAD
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const [history, setHistory] = useState<{ path: string; versions: TreeEntry[] } | null>(null)
+  const [diff, setDiff] = useState<FileDiff | null>(null)
+
+  const load = async (commitId: string | null = viewing) => {
+    setLoading(true); setError(null)
+    try {
+      const qs = commitId ? `?commit=${encodeURIComponent(commitId)}` : ''
+      const data = await readJson(await fetch(`${base}/files${qs}`))
+      setTree(data.tree || [])
+      setCommits(data.commits || [])
+    } catch (e: any) {
+      setError(e.message || 'Failed to load files')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => { load(null) }, [colabId])
+
+  const browse = (commitId: string | null) => { setViewing(commitId); setHistory(null); setDiff(null); load(commitId) }
+
+  const restore = async (commitId: string) => {
+    if (!confirm(`Restore all files to commit ${shortId(commitId)}? This creates a new commit.`)) return
+    try {
+      await readJson(await fetch(`${base}/commits/${commitId}/restore`, { method: 'POST' }))
+      browse(null)
+    } catch (e: any) { setError(e.message || 'Restore failed') }
+  }
+
+  const openHistory = async (path: string) => {
+    setDiff(null)
+    try {
+      const data = await readJson(await fetch(`${base}/files/history?path=${encodeURIComponent(path)}`))
+      setHistory({ path, versions: data.versions || [] })
+    } catch (e: any) { setError(e.message || 'Failed to load history') }
+  }
+
+  const openDiff = async (toId: string, fromId?: string) => {
+    try {
+      const qs = new URLSearchParams({ to: toId })
+      if (fromId) qs.set('from', fromId)
+      const data = await readJson(await fetch(`${base}/files/diff?${qs}`))
+      setDiff(data.diff)
+    } catch (e: any) { setError(e.message || 'Failed to load diff') }
+  }
+
+  const headId = commits[0]?.id || null
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold">Files</h2>
+        <div className="text-sm text-slate-600">
+          {viewing && viewing !== headId
+            ? <>Viewing <span className="font-mono">{shortId(viewing)}</span> · <button onClick={()=>browse(null)} className="text-blue-700 underline">back to latest</button></>
+            : `${tree.length} files · ${commits.length} commits`}
+        </div>
+      </div>
+
+      {error && <div className="text-sm text-red-600 break-words">{error}</div>}
+
+      {canWrite && (!viewing || viewing === headId) && <UploadForm base={base} onDone={()=>browse(null)} />}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        {/* Tree */}
+        <div className="lg:col-span-2 bg-white border rounded-lg">
+          {loading ? (
+            <div className="p-6 text-slate-500 animate-pulse">Loading files…</div>
+          ) : tree.length === 0 ? (
+            <div className="p-10 text-center">
+              <p className="font-medium mb-2">No files yet</p>
+              <p className="text-slate-600 text-sm">Upload datasets, protocols and figures to start the history.</p>
+            </div>
+          ) : (
+            <ul className="divide-y">
+              {tree.map(f => (
+                <li key={f.id} className="p-3 flex items-center gap-3">
+                  <FiFile className="text-slate-400 shrink-0" />
+                  <div className="min-w-0 flex-1">
+                    <div className="font-medium truncate">{f.path}</div>
+                    <div className="text-xs text-slate-500 truncate">
+                      {fmtSize(f.size)} · {f.commit.message} · {new Date(f.commit.created_at).toLocaleDateString()}
+                    </div>
+                  </div>
+                  <button onClick={()=>openHistory(f.path)} className="p-2 rounded hover:bg-slate-50 text-slate-600" title="Version history">
+                    <FiClock />
+                  </button>
+                  <a href={`${base}/files/${f.id}`} className="p-2 rounded hover:bg-slate-50 text-slate-600" title="Download">
+                    <FiDownload />
+                  </a>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Commit history */}
+        <div className="bg-white border rounded-lg p-4">
+          <h3 className="font-semibold mb-3 flex items-center gap-2"><FiGitCommit /> History</h3>
+          {commits.length === 0 ? (
+            <p className="text-sm text-slate-500">No commits yet.</p>
+          ) : (
+            <ul className="space-y-2 max-h-[50vh] overflow-y-auto">
+              {commits.map(c => {
+                const active = (viewing || headId) === c.id
+                return (
+                  <li key={c.id} className={`p-2 rounded-lg border text-sm ${active ? 'border-blue-300 bg-blue-50' : ''}`}>
+                    <button onClick={()=>browse(c.id === headId ? null : c.id)} className="text-left w-full">
+                      <div className="font-medium break-words">{c.message}</div>
+                      <div className="text-xs text-slate-500">
+                        <span className="font-mono">{shortId(c.id)}</span> · {new Date(c.created_at).toLocaleString()}
+                      </div>
+                    </button>
+                    {canWrite && c.id !== headId && (
+                      <button onClick={()=>restore(c.id)} className="mt-1 inline-flex items-center gap-1 text-xs text-slate-700 hover:text-slate-900">
+                        <FiRotateCcw className="w-3 h-3" /> Restore
+                      </button>
+                    )}
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      {history && (
+        <div className="bg-white border rounded-lg p-4">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="font-semibold truncate">Versions of {history.path}</h3>
+            <button onClick={()=>{ setHistory(null); setDiff(null) }} className="p-2 rounded hover:bg-slate-100"><FiX /></button>
+          </div>
+          <ul className="space-y-2">
+            {history.versions.map((v, i) => {
+              const prev = history.versions.slice(i + 1).find(x => !x.deleted)
+              return (
+                <li key={v.id} className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="font-mono text-xs px-2 py-0.5 rounded bg-slate-100">{shortId(v.commit.id)}</span>
+                  <span className="flex-1 min-w-0 truncate">{v.deleted ? <em className="text-slate-500">deleted</em> : v.commit.message}</span>
+                  <span className="text-xs text-slate-500">{new Date(v.commit.created_at).toLocaleString()}</span>
+                  {!v.deleted && (
+                    <button onClick={()=>openDiff(v.id, prev?.id)} className="text-xs border px-2 py-1 rounded hover:bg-slate-50">
+                      {prev ? 'Diff vs previous' : 'View'}
+                    </button>
+                  )}
+                </li>
+              )
+            })}
+          </ul>
+          {diff && <DiffView diff={diff} />}
+        </div>
+      )}
+    </section>
+  )
+}
+
+function UploadForm({ base, onDone }: { base: string; onDone: () => void }) {
+  const [files, setFiles] = useState<File[]>([])
+  const [folder, setFolder] = useState('')
+  const [message, setMessage] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const submit = async (e: FormEvent) => {
+    e.preventDefault()
+    if (!files.length || !message.trim()) return
+    setBusy(true); setError(null)
+    try {
+      const form = new FormData()
+      form.set('message', message.trim())
+      if (folder.trim()) form.set('folder', folder.trim())
+      files.forEach(f => form.append('files', f))
+      await readJson(await fetch(`${base}/files`, { method: 'POST', body: form }))
+      setFiles([]); setMessage(''); setFolder('')
+      onDone()
+    } catch (e: any) {
+      setError(e.message || 'Upload failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <form onSubmit={submit} className="bg-white border rounded-lg p-4 space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <label className="md:col-span-2 flex items-center gap-2 border rounded-lg px-3 py-2 cursor-pointer hover:bg-slate-50 min-w-0">
+          <FiUpload className="shrink-0" />
+          <span className="truncate text-sm text-slate-700">
+            {files.length ? files.map(f => f.name).join(', ') : 'Choose datasets, protocols or figures…'}
+          </span>
+          <input type="file" multiple className="hidden" onChange={e=>setFiles(Array.from(e.target.files || []))} />
+        </label>
+        <div className="flex items-center gap-2 border rounded-lg px-3 py-2">
+          <FiFolder className="text-slate-400 shrink-0" />
+          <input value={folder} onChange={e=>setFolder(e.target.value)} placeholder="Folder (optional)" className="flex-1 min-w-0 outline-none text-sm" />
+        </div>
+      </div>
+      <div className="flex gap-2">
+        <input
+          value={message}
+          onChange={e=>setMessage(e.target.value)}
+          placeholder="Commit message, e.g. Add raw qPCR data"
+          className="flex-1 border rounded-lg px-3 py-2 min-w-0"
+        />
+        <button type="submit" disabled={busy || !files.length || !message.trim()} className="px-4 py-2 rounded-lg bg-indigo-600 text-white disabled:opacity-50">
+          {busy ? 'Committing…' : 'Commit'}
+        </button>
+      </div>
+      {error && <div className="text-sm text-red-600 break-words">{error}</div>}
+    </form>
+  )
+}
+
+function DiffView({ diff }: { diff: FileDiff }) {
+  if (!diff.text) {
+    return <p className="mt-4 text-sm text-slate-500">Binary, large or heavily changed file — no line diff available. Download both versions to compare.</p>
+  }
+  return (
+    <div className="mt-4 border rounded-lg overflow-hidden">
+      <div className="px-3 py-2 bg-slate-50 border-b text-xs text-slate-600">
+        <span className="text-green-700">+{diff.stats.added}</span> <span className="text-red-700">−{diff.stats.removed}</span>
+      </div>
+      <pre className="text-xs overflow-x-auto max-h-[50vh]">
+        {diff.lines.map((l, i) => (
+          <div
+            key={i}
+            className={l.op === 'add' ? 'bg-green-50 text-green-900' : l.op === 'remove' ? 'bg-red-50 text-red-900' : 'text-slate-700'}
+          >
+            <span className="inline-block w-10 text-right pr-2 text-slate-400 select-none">{l.oldNo ?? ''}</span>
+            <span className="inline-block w-10 text-right pr-2 text-slate-400 select-none">{l.newNo ?? ''}</span>
+            {l.op === 'add' ? '+ ' : l.op === 'remove' ? '- ' : '  '}{l.text}
+          </div>
+        ))}
+      </pre>
+    </div>
+  )
+}
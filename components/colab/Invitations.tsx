@@ -0,0 +1,146 @@
+'use client'
+
+import { useCallback, useEffect, useState, type FormEvent } from 'react'
+import { FiCopy, FiLink, FiMail, FiSlash } from 'react-icons/fi'
+import type { Invitation, InvitationStatus, InviteRole } from '../../app/lib/invitations'
+
+async function readJson(res: Response) {
+  const data = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(data?.error || `Request failed (${res.status})`)
+  return data
+}
+
+const ROLE_OPTIONS: { value: InviteRole; label: string }[] = [
+  { value: 'contributor', label: 'Contributor' },
+  { value: 'maintainer', label: 'Maintainer' },
+  { value: 'viewer', label: 'Viewer (read-only)' },
+]
+
+const STATUS_STYLES: Record<InvitationStatus, string> = {
+  pending: 'bg-blue-50 text-blue-800 border-blue-200',
+  accepted: 'bg-green-50 text-green-800 border-green-200',
+  expired: 'bg-slate-50 text-slate-600 border-slate-200',
+  revoked: 'bg-red-50 text-red-700 border-red-200',
+}
+
+/** Owners and moderators invite by email or link, and revoke unused invitations */
+export default function InvitationsPanel({ colabId }: { colabId: string }) {
+  const base = `/api/colabs/${colabId}/invitations`
+  const [invitations, setInvitations] = useState<Invitation[]>([])
+  const [emailEnabled, setEmailEnabled] = useState(false)
+  const [email, setEmail] = useState('')
+  const [role, setRole] = useState<InviteRole>('contributor')
+  const [days, setDays] = useState(7)
+  const [link, setLink] = useState<{ url: string; emailed: boolean } | null>(null)
+  const [copied, setCopied] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const reload = useCallback(async () => {
+    try {
+      const data = await readJson(await fetch(base))
+      setInvitations(data.invitations || [])
+      setEmailEnabled(!!data.emailEnabled)
+    } catch (e: any) {
+      setError(e.message || 'Failed to load invitations')
+    }
+  }, [base])
+  useEffect(() => { reload() }, [reload])
+
+  const invite = async (e: FormEvent) => {
+    e.preventDefault()
+    setBusy(true); setError(null); setCopied(false)
+    try {
+      const data = await readJson(await fetch(base, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: email.trim() || undefined, role, expiresInDays: days }),
+      }))
+      setInvitations(prev => [data.invitation, ...prev])
+      setLink({ url: data.link, emailed: data.invitation.emailed })
+      setEmail('')
+    } catch (e: any) {
+      setError(e.message)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const revoke = async (id: string) => {
+    setError(null)
+    try {
+      const data = await readJson(await fetch(`${base}/${id}`, { method: 'DELETE' }))
+      setInvitations(prev => prev.map(i => i.id === id ? data.invitation : i))
+    } catch (e: any) {
+      setError(e.message)
+    }
+  }
+
+  const copy = async () => {
+    if (!link) return
+    await navigator.clipboard.writeText(link.url).catch(() => {})
+    setCopied(true)
+  }
+
+  return (
+    <div className="bg-white border rounded-lg p-4 space-y-4">
+      <h3 className="font-semibold">Invite people</h3>
+      <form onSubmit={invite} className="flex flex-col md:flex-row gap-2">
+        <input
+          type="email"
+          value={email}
+          onChange={e => setEmail(e.target.value)}
+          placeholder={emailEnabled ? 'Email (leave empty for a shareable link)' : 'Email (optional — you will get a link to send)'}
+          className="flex-1 px-3 py-2 border rounded-lg text-sm"
+        />
+        <select value={role} onChange={e => setRole(e.target.value as InviteRole)} className="px-3 py-2 border rounded-lg text-sm">
+          {ROLE_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+        </select>
+        <select value={days} onChange={e => setDays(Number(e.target.value))} className="px-3 py-2 border rounded-lg text-sm" title="Expires after">
+          {[1, 7, 14, 30].map(d => <option key={d} value={d}>{d === 1 ? '1 day' : `${d} days`}</option>)}
+        </select>
+        <button type="submit" disabled={busy} className="inline-flex items-center justify-center gap-1 px-4 py-2 rounded-lg bg-blue-600 text-white text-sm disabled:opacity-50">
+          {email.trim() ? <FiMail className="w-4 h-4" /> : <FiLink className="w-4 h-4" />} {busy ? 'Creating…' : email.trim() ? 'Invite' : 'Create link'}
+        </button>
+      </form>
+
+      {link && (
+        <div className="rounded-lg bg-slate-50 border p-3 text-sm space-y-2">
+          <div className="text-slate-700">
+            {link.emailed ? 'Invitation emailed. You can also share this link — it is shown only once:' : 'Share this link — it is shown only once and works for one person:'}
+          </div>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 min-w-0 truncate bg-white border rounded px-2 py-1">{link.url}</code>
+            <button onClick={copy} className="inline-flex items-center gap-1 px-2 py-1 rounded border bg-white hover:bg-slate-100">
+              <FiCopy className="w-4 h-4" /> {copied ? 'Copied' : 'Copy'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <div className="text-sm text-red-600 break-words">{error}</div>}
+
+      {invitations.length > 0 && (
+        <ul className="divide-y text-sm">
+          {invitations.map(i => (
+            <li key={i.id} className="py-2 flex items-center gap-3">
+              <div className="min-w-0 flex-1">
+                <div className="truncate text-slate-800">{i.email || 'Shareable link'}</div>
+                <div className="text-xs text-slate-500">
+                  {i.role} · {i.status === 'pending' ? `expires ${new Date(i.expires_at).toLocaleDateString()}` : i.accepted_at ? `accepted ${new Date(i.accepted_at).toLocaleDateString()}` : `created ${new Date(i.created_at).toLocaleDateString()}`}
+                  {i.email && !i.emailed && i.status === 'pending' && ' · not emailed'}
+                </div>
+              </div>
+              <span className={`text-[11px] px-2 py-0.5 rounded-full border ${STATUS_STYLES[i.status]}`}>{i.status}</span>
+              {i.status === 'pending' && (
+                <button onClick={() => revoke(i.id)} className="inline-flex items-center gap-1 text-xs text-slate-500 hover:text-red-600" title="Revoke">
+                  <FiSlash className="w-3.5 h-3.5" /> Revoke
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,203 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { FiCheck, FiX, FiUserPlus, FiClock } from 'react-icons/fi'
+import type { JoinRequest } from '../../app/lib/join-requests'
+
+async function readJson(res: Response) {
+  const data = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(data?.error || `Request failed (${res.status})`)
+  return data
+}
+
+/** The caller's own request plus, for members, the pending queue */
+export function useJoinRequests(colabId: string | null) {
+  const base = `/api/colabs/${colabId}/join-requests`
+  const [own, setOwn] = useState<JoinRequest | null>(null)
+  const [requests, setRequests] = useState<JoinRequest[]>([])
+  const [canModerate, setCanModerate] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const reload = useCallback(async () => {
+    if (!colabId) return
+    try {
+      const data = await readJson(await fetch(base))
+      setOwn(data.own || null)
+      setRequests(data.requests || [])
+      setCanModerate(!!data.canModerate)
+      setError(null)
+    } catch (e: any) {
+      setError(e.message || 'Failed to load join requests')
+    }
+  }, [colabId, base])
+
+  useEffect(() => { reload() }, [reload])
+
+  const ask = async (message: string) => {
+    const data = await readJson(await fetch(base, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ message }),
+    }))
+    setOwn(data.request)
+  }
+
+  const withdraw = async () => {
+    await readJson(await fetch(base, { method: 'DELETE' }))
+    setOwn(null)
+  }
+
+  const decide = async (userId: string, decision: 'approve' | 'decline', message: string) => {
+    await readJson(await fetch(`${base}/${userId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ decision, message }),
+    }))
+    setRequests(prev => prev.filter(r => r.user_id !== userId))
+  }
+
+  return { own, requests, canModerate, error, reload, ask, withdraw, decide }
+}
+
+export type JoinRequestsState = ReturnType<typeof useJoinRequests>
+
+/** Header action for signed-in non-members of a public colab */
+export function JoinRequestButton({ state }: { state: JoinRequestsState }) {
+  const [open, setOpen] = useState(false)
+  const [message, setMessage] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const run = async (fn: () => Promise<void>) => {
+    setBusy(true); setError(null)
+    try { await fn(); setOpen(false); setMessage('') } catch (e: any) { setError(e.message) } finally { setBusy(false) }
+  }
+
+  if (state.own?.status === 'accepted') return null
+  if (state.own?.status === 'pending') {
+    return (
+      <div className="flex items-center gap-2 text-sm">
+        <span className="inline-flex items-center gap-1 px-3 py-1.5 rounded-lg bg-amber-50 text-amber-800 border border-amber-200">
+          <FiClock className="w-4 h-4" /> Request pending
+        </span>
+        <button onClick={() => run(state.withdraw)} disabled={busy} className="text-slate-500 hover:text-slate-800 disabled:opacity-50">
+          Withdraw
+        </button>
+        {error && <span className="text-red-600">{error}</span>}
+      </div>
+    )
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="inline-flex items-center gap-1 px-3 py-1.5 rounded-lg bg-blue-600 text-white text-sm hover:bg-blue-700"
+        title={state.own?.status === 'declined' ? 'Your last request was declined — you can ask again' : undefined}
+      >
+        <FiUserPlus className="w-4 h-4" /> {state.own?.status === 'declined' ? 'Ask again' : 'Request to join'}
+      </button>
+      {open && (
+        <form
+          onSubmit={e => { e.preventDefault(); run(() => state.ask(message)) }}
+          className="absolute right-0 z-50 mt-2 w-72 bg-white border rounded-lg shadow-lg p-3 space-y-2"
+        >
+          {state.own?.status === 'declined' && state.own.decision_message && (
+            <p className="text-xs text-slate-600 break-words">Last reply: “{state.own.decision_message}”</p>
+          )}
+          <textarea
+            value={message}
+            onChange={e => setMessage(e.target.value)}
+            maxLength={500}
+            rows={3}
+            placeholder="Tell the owners what you would like to work on (optional)"
+            className="w-full px-3 py-2 border rounded text-sm"
+          />
+          {error && <div className="text-xs text-red-600 break-words">{error}</div>}
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={() => setOpen(false)} className="px-3 py-1.5 text-sm text-slate-600">Cancel</button>
+            <button type="submit" disabled={busy} className="px-3 py-1.5 rounded bg-blue-600 text-white text-sm disabled:opacity-50">
+              {busy ? 'Sending…' : 'Send request'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  )
+}
+
+/** Pending members, with approve / decline for owners and moderators */
+export function PendingRequests({ state, onApproved }: { state: JoinRequestsState; onApproved?: (request: JoinRequest) => void }) {
+  const [replies, setReplies] = useState<Record<string, string>>({})
+  const [busy, setBusy] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  if (!state.requests.length) return null
+
+  const decide = async (r: JoinRequest, decision: 'approve' | 'decline') => {
+    setBusy(r.user_id); setError(null)
+    try {
+      await state.decide(r.user_id, decision, replies[r.user_id] || '')
+      if (decision === 'approve') onApproved?.(r)
+    } catch (e: any) {
+      setError(e.message)
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  return (
+    <div className="bg-white border rounded-lg p-4">
+      <h3 className="font-semibold mb-3">Pending requests <span className="text-sm font-normal text-slate-500">({state.requests.length})</span></h3>
+      {error && <div className="mb-2 text-sm text-red-600 break-words">{error}</div>}
+      <ul className="divide-y">
+        {state.requests.map(r => (
+          <li key={r.user_id} className="py-3 flex flex-col sm:flex-row sm:items-start gap-3">
+            <div className="flex items-start gap-3 min-w-0 flex-1">
+              <div className="w-9 h-9 rounded-full overflow-hidden bg-gradient-to-br from-slate-400 to-slate-600 grid place-items-center shrink-0">
+                {r.profile?.avatar_url
+                  ? <img src={r.profile.avatar_url} alt="" className="w-full h-full object-cover" />
+                  : <span className="text-white text-sm font-semibold">{(r.profile?.full_name?.[0] || r.profile?.username?.[0] || 'U').toUpperCase()}</span>}
+              </div>
+              <div className="min-w-0">
+                <div className="text-sm font-medium truncate">{r.profile?.full_name || r.profile?.username || 'Unknown user'}</div>
+                <div className="text-xs text-slate-500">
+                  {r.profile?.username && <>@{r.profile.username} · </>}
+                  asked {r.requested_at ? new Date(r.requested_at).toLocaleDateString() : ''}
+                </div>
+                {r.request_message && <p className="mt-1 text-sm text-slate-700 whitespace-pre-wrap break-words">{r.request_message}</p>}
+              </div>
+            </div>
+            {state.canModerate && (
+              <div className="flex flex-col gap-2 sm:w-64">
+                <input
+                  value={replies[r.user_id] || ''}
+                  onChange={e => setReplies(prev => ({ ...prev, [r.user_id]: e.target.value }))}
+                  maxLength={500}
+                  placeholder="Message to the applicant (optional)"
+                  className="px-2 py-1 border rounded text-sm"
+                />
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => decide(r, 'approve')}
+                    disabled={busy === r.user_id}
+                    className="flex-1 inline-flex items-center justify-center gap-1 px-2 py-1 rounded bg-green-600 text-white text-sm disabled:opacity-50"
+                  >
+                    <FiCheck className="w-4 h-4" /> Approve
+                  </button>
+                  <button
+                    onClick={() => decide(r, 'decline')}
+                    disabled={busy === r.user_id}
+                    className="flex-1 inline-flex items-center justify-center gap-1 px-2 py-1 rounded border text-sm text-slate-700 hover:bg-slate-50 disabled:opacity-50"
+                  >
+                    <FiX className="w-4 h-4" /> Decline
+                  </button>
+                </div>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,104 @@
+'use client'
+
+import { useState } from 'react'
+import { FiRotateCcw, FiShield } from 'react-icons/fi'
+import {
+  MEMBER_ROLES, PERMISSIONS, PERMISSION_LABELS, ROLE_LABELS,
+  isOverridable, permissionsFor, sanitizeOverrides,
+  type MemberRole, type Permission, type PermissionOverrides
+} from '../../app/lib/permissions'
+
+async function readJson(res: Response) {
+  const data = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(data?.error || `Request failed (${res.status})`)
+  return data
+}
+
+/** The owner's role × permission matrix; greyed cells are fixed for that role */
+export default function PermissionsPanel({ colabId, overrides, onSaved }: {
+  colabId: string
+  overrides: PermissionOverrides
+  onSaved: (overrides: PermissionOverrides) => void
+}) {
+  const [draft, setDraft] = useState<PermissionOverrides>(overrides)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const saved = JSON.stringify(sanitizeOverrides(overrides))
+  // start over when the saved overrides change (the parent passes a new object every render)
+  const [draftOf, setDraftOf] = useState(saved)
+  if (draftOf !== saved) { setDraftOf(saved); setDraft(overrides) }
+
+  const granted = (role: MemberRole, perm: Permission) => permissionsFor(role, draft).includes(perm)
+  const toggle = (role: MemberRole, perm: Permission) =>
+    setDraft(prev => sanitizeOverrides({ ...prev, [role]: { ...prev[role], [perm]: !granted(role, perm) } }))
+
+  const dirty = JSON.stringify(sanitizeOverrides(draft)) !== saved
+  const customized = Object.keys(sanitizeOverrides(draft)).length > 0
+
+  const save = async () => {
+    setBusy(true); setError(null)
+    try {
+      const data = await readJson(await fetch(`/api/colabs/${colabId}/permissions`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ overrides: draft }),
+      }))
+      onSaved(data.overrides)
+    } catch (e: any) {
+      setError(e.message)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="bg-white border rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-semibold inline-flex items-center gap-2"><FiShield className="w-4 h-4" /> Role permissions</h3>
+        {customized && (
+          <button onClick={() => setDraft({})} className="inline-flex items-center gap-1 text-xs text-slate-500 hover:text-slate-800">
+            <FiRotateCcw className="w-3.5 h-3.5" /> Reset to defaults
+          </button>
+        )}
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-500">
+              <th className="py-1 pr-3 font-normal">Permission</th>
+              {MEMBER_ROLES.map(r => <th key={r} className="py-1 px-3 font-normal text-center">{ROLE_LABELS[r]}</th>)}
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {PERMISSIONS.map(perm => (
+              <tr key={perm}>
+                <td className="py-2 pr-3 text-slate-800">{PERMISSION_LABELS[perm]}</td>
+                {MEMBER_ROLES.map(role => (
+                  <td key={role} className="py-2 px-3 text-center">
+                    <input
+                      type="checkbox"
+                      checked={granted(role, perm)}
+                      disabled={!isOverridable(role, perm)}
+                      onChange={() => toggle(role, perm)}
+                      className="disabled:opacity-40"
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-slate-500">The owner can always do everything; only the owner can delete the colab. Viewers stay read-only apart from the copilot.</p>
+      {error && <div className="text-sm text-red-600 break-words">{error}</div>}
+      {dirty && (
+        <div className="flex justify-end gap-2">
+          <button onClick={() => setDraft(overrides)} className="px-3 py-1.5 rounded border text-sm">Cancel</button>
+          <button onClick={save} disabled={busy} className="px-3 py-1.5 rounded bg-blue-600 text-white text-sm disabled:opacity-50">
+            {busy ? 'Saving…' : 'Save permissions'}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,210 @@
+'use client'
+
+import { useMemo, useState, type ReactNode } from 'react'
+import { FiChevronLeft, FiChevronRight, FiFilter } from 'react-icons/fi'
+import type { Paper, PubMedFilters, PubMedPage, PubMedSort } from '../../app/lib/literature/pubmed'
+
+export type PubMedSearchRequest = {
+  query: string
+  retstart: number
+  retmax: number
+  sort: PubMedSort
+  filters: PubMedFilters
+}
+
+const PAGE_SIZE = 20
+
+const SORT_LABELS: Record<PubMedSort, string> = {
+  relevance: 'Best match',
+  pub_date: 'Most recent',
+  first_author: 'First author',
+  journal: 'Journal',
+}
+
+const PUBLICATION_TYPES = [
+  'Review',
+  'Systematic Review',
+  'Meta-Analysis',
+  'Randomized Controlled Trial',
+  'Clinical Trial',
+  'Observational Study',
+  'Case Reports',
+]
+
+/** MeSH headings (major topics bold), keywords, publication types, and author/grant details of a PubMed paper */
+export function PaperIndexing({ paper, activeMesh, onMesh }: {
+  paper: Paper
+  activeMesh?: string
+  onMesh?: (term: string) => void
+}) {
+  const major = new Set(paper.meshMajor || [])
+  const details = paper.authorDetails?.some(a => a.affiliations.length) || paper.grants?.length
+  return (
+    <div className="mt-2 space-y-1.5 text-xs">
+      {paper.publicationTypes?.length ? <div className="text-slate-500">{paper.publicationTypes.join(' · ')}</div> : null}
+      {paper.mesh?.length ? (
+        <div className="flex flex-wrap gap-1">
+          {paper.mesh.map(t => {
+            const cls = `px-1.5 py-0.5 rounded border ${activeMesh === t ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : 'bg-white text-slate-600'} ${major.has(t) ? 'font-semibold' : ''}`
+            return onMesh
+              ? <button key={t} onClick={() => onMesh(t)} className={`${cls} hover:bg-slate-100`} title="Filter by this MeSH term">{t}</button>
+              : <span key={t} className={cls}>{t}</span>
+          })}
+        </div>
+      ) : null}
+      {paper.keywords?.length ? <div className="text-slate-600 break-words"><span className="text-slate-500">Keywords:</span> {paper.keywords.join(', ')}</div> : null}
+      {details ? (
+        <details className="text-slate-600">
+          <summary className="cursor-pointer text-slate-500">Authors, affiliations and funding</summary>
+          <ul className="mt-1 space-y-1 pl-3">
+            {paper.authorDetails?.map((a, i) => (
+              <li key={i} className="break-words">
+                <span className="font-medium">{a.name}</span>
+                {a.affiliations.length ? <span className="text-slate-500"> — {a.affiliations.join('; ')}</span> : null}
+              </li>
+            ))}
+          </ul>
+          {paper.grants?.length ? (
+            <div className="mt-1 pl-3 break-words">
+              <span className="text-slate-500">Grants:</span> {paper.grants.map(g => [g.id, g.agency].filter(Boolean).join(', ')).filter(Boolean).join('; ')}
+            </div>
+          ) : null}
+        </details>
+      ) : null}
+    </div>
+  )
+}
+
+const splitTerms = (s: string) => s.split(/[;,]/).map(x => x.trim()).filter(Boolean)
+
+/**
+ * Paged PubMed results with MeSH, publication-type and year filters.
+ * `runSearch` does the metered request and returns null when it was refused
+ * (e.g. over quota, which the caller already surfaced).
+ */
+export default function PubMedBrowser({ query, disabled, runSearch, renderActions }: {
+  query: string
+  disabled?: boolean
+  runSearch: (req: PubMedSearchRequest) => Promise<PubMedPage | null>
+  renderActions?: (paper: Paper) => ReactNode
+}) {
+  const [showFilters, setShowFilters] = useState(false)
+  const [mesh, setMesh] = useState('')
+  const [pubType, setPubType] = useState('')
+  const [yearFrom, setYearFrom] = useState('')
+  const [yearTo, setYearTo] = useState('')
+  const [sort, setSort] = useState<PubMedSort>('relevance')
+  const [page, setPage] = useState<PubMedPage | null>(null)
+  const [open, setOpen] = useState<string | null>(null)
+  const [pageMesh, setPageMesh] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [err, setErr] = useState<string | null>(null)
+
+  const filters: PubMedFilters = {
+    mesh: splitTerms(mesh),
+    publicationTypes: pubType ? [pubType] : [],
+    dateFrom: yearFrom.trim() || undefined,
+    dateTo: yearTo.trim() || undefined,
+  }
+  const hasInput = !!query.trim() || !!filters.mesh?.length || !!pubType
+
+  const load = async (retstart: number) => {
+    setLoading(true); setErr(null)
+    try {
+      const res = await runSearch({ query: query.trim(), retstart, retmax: PAGE_SIZE, sort, filters })
+      if (res) { setPage(res); setOpen(null); setPageMesh('') }
+    } catch (e: any) {
+      setErr(e.message || 'Search failed')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  /** MeSH headings on the current page, most common first */
+  const pageTerms = useMemo(() => {
+    const counts = new Map<string, number>()
+    for (const p of page?.papers || []) for (const t of p.mesh || []) counts.set(t, (counts.get(t) || 0) + 1)
+    return Array.from(counts).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+  }, [page])
+  const shown = (page?.papers || []).filter(p => !pageMesh || p.mesh?.includes(pageMesh))
+
+  const lastStart = page ? Math.min(page.total, 10_000) : 0
+  const from = page ? page.retstart + 1 : 0
+  const to = page ? page.retstart + page.papers.length : 0
+
+  return (
+    <div className="mt-4 border rounded-lg p-3 sm:p-4 bg-white">
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={() => load(0)}
+          disabled={disabled || loading || !hasInput}
+          className="px-3 py-1.5 rounded-lg border text-sm disabled:opacity-50"
+          title="List every match, 20 per page"
+        >
+          {loading ? 'Searching…' : 'Browse all results'}
+        </button>
+        <select value={sort} onChange={e => setSort(e.target.value as PubMedSort)} className="border rounded-lg px-2 py-1.5 text-sm" title="Order">
+          {(Object.keys(SORT_LABELS) as PubMedSort[]).map(k => <option key={k} value={k}>{SORT_LABELS[k]}</option>)}
+        </select>
+        <button onClick={() => setShowFilters(v => !v)} className={`inline-flex items-center gap-1 px-2 py-1.5 rounded-lg text-sm ${showFilters ? 'bg-slate-100' : 'hover:bg-slate-50'}`}>
+          <FiFilter /> Filters
+        </button>
+      </div>
+
+      {showFilters && (
+        <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-2 text-sm">
+          <input value={mesh} onChange={e => setMesh(e.target.value)} placeholder="MeSH terms, comma-separated" className="border rounded-lg px-3 py-1.5 min-w-0" />
+          <select value={pubType} onChange={e => setPubType(e.target.value)} className="border rounded-lg px-2 py-1.5">
+            <option value="">Any publication type</option>
+            {PUBLICATION_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+          </select>
+          <input value={yearFrom} onChange={e => setYearFrom(e.target.value)} placeholder="From year (e.g. 2015)" inputMode="numeric" className="border rounded-lg px-3 py-1.5 min-w-0" />
+          <input value={yearTo} onChange={e => setYearTo(e.target.value)} placeholder="To year" inputMode="numeric" className="border rounded-lg px-3 py-1.5 min-w-0" />
+        </div>
+      )}
+
+      {err && <div className="mt-3 text-sm text-red-600 break-words">{err}</div>}
+
+      {page && (
+        <div className="mt-3">
+          <div className="flex items-center justify-between gap-2 text-xs text-slate-500 mb-2">
+            <span>{page.total ? `${from}–${to} of ${page.total.toLocaleString()}` : 'No results'}</span>
+            <div className="flex items-center gap-1">
+              <button onClick={() => load(Math.max(0, page.retstart - page.retmax))} disabled={loading || page.retstart === 0} className="p-1 rounded border disabled:opacity-40" title="Previous page"><FiChevronLeft /></button>
+              <button onClick={() => load(page.retstart + page.retmax)} disabled={loading || page.retstart + page.retmax >= lastStart} className="p-1 rounded border disabled:opacity-40" title="Next page"><FiChevronRight /></button>
+            </div>
+          </div>
+          {page.cache && page.cache !== 'miss' && <div className="text-[11px] text-slate-400 mb-1">Cached page — not counted against your quota</div>}
+          {page.translation && <div className="text-[11px] text-slate-400 mb-2 break-words" title="How PubMed interpreted the query">{page.translation}</div>}
+          {pageTerms.length > 0 && (
+            <select value={pageMesh} onChange={e => setPageMesh(e.target.value)} className="mb-2 border rounded-lg px-2 py-1 text-xs max-w-full">
+              <option value="">All MeSH terms on this page</option>
+              {pageTerms.map(([t, n]) => <option key={t} value={t}>{t} ({n})</option>)}
+            </select>
+          )}
+          <ol className="divide-y">
+            {shown.map(p => (
+              <li key={p.pmid} className="py-2">
+                <button onClick={() => setOpen(open === p.pmid ? null : p.pmid)} className="text-left text-sm font-medium hover:underline break-words">{p.title || `PMID ${p.pmid}`}</button>
+                <div className="text-xs text-slate-500 break-words">
+                  {p.authors?.length ? `${p.authors[0]}${p.authors.length > 1 ? ' et al.' : ''} · ` : ''}
+                  {[p.journal, p.year].filter(Boolean).join(' · ')} · PMID {p.pmid}
+                </div>
+                {open === p.pmid && (
+                  <div className="mt-2 pl-3 border-l-2 border-slate-200">
+                    {p.abstract ? <p className="text-sm text-slate-700 whitespace-pre-wrap break-words">{p.abstract}</p> : <p className="text-sm text-slate-500">No abstract available.</p>}
+                    <PaperIndexing paper={p} activeMesh={pageMesh} onMesh={t => setPageMesh(pageMesh === t ? '' : t)} />
+                    <div className="mt-2 flex flex-wrap items-center gap-3">
+                      <a href={p.url} target="_blank" rel="noreferrer" className="text-sm text-blue-700 underline">View on PubMed</a>
+                      {renderActions?.(p)}
+                    </div>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  )
+}
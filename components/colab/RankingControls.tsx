@@ -0,0 +1,74 @@
+'use client'
+
+import { FiSliders } from 'react-icons/fi'
+import {
+  PROFILE_WEIGHTS, RANKING_FEATURES, RANKING_FEATURE_LABELS, RANKING_PROFILES, RANKING_PROFILE_LABELS,
+  explainScore, type RankingProfile, type RankingWeights, type ScoreExplanation,
+} from '../../app/lib/literature/ranking'
+
+/** Ranking profile picker; "custom" reveals a weight slider per feature */
+export function RankingControls({ profile, weights, onChange }: {
+  profile: RankingProfile
+  weights: RankingWeights
+  onChange: (profile: RankingProfile, weights: RankingWeights) => void
+}) {
+  const pick = (p: RankingProfile) =>
+    // custom starts from whatever the previous profile weighed
+    onChange(p, p === 'custom' ? { ...(profile === 'custom' ? weights : PROFILE_WEIGHTS[profile]) } : PROFILE_WEIGHTS[p])
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs">
+      <label className="inline-flex items-center gap-1 text-slate-500">
+        <FiSliders /> Rank by
+        <select value={profile} onChange={e => pick(e.target.value as RankingProfile)} className="border rounded-lg px-2 py-1 text-xs text-slate-800">
+          {RANKING_PROFILES.map(p => <option key={p} value={p}>{RANKING_PROFILE_LABELS[p]}</option>)}
+        </select>
+      </label>
+      {profile === 'custom' && RANKING_FEATURES.map(f => (
+        <label key={f} className="inline-flex items-center gap-1 text-slate-600">
+          {RANKING_FEATURE_LABELS[f]}
+          <input
+            type="range"
+            min={0}
+            max={5}
+            step={0.5}
+            value={weights[f]}
+            onChange={e => onChange('custom', { ...weights, [f]: Number(e.target.value) })}
+            className="w-20"
+          />
+          <span className="w-6 tabular-nums">{weights[f]}</span>
+        </label>
+      ))}
+    </div>
+  )
+}
+
+/** Score chip; opening it shows what each feature contributed */
+export function ScoreBadge({ ranking }: { ranking: ScoreExplanation }) {
+  return (
+    <details className="relative inline-block">
+      <summary className="list-none cursor-pointer px-2 py-0.5 rounded bg-white border hover:bg-slate-50" title={explainScore(ranking)}>
+        Score {ranking.score.toFixed(2)}
+      </summary>
+      <div className="absolute z-20 mt-1 w-64 bg-white border rounded-lg shadow p-3 space-y-2">
+        {RANKING_FEATURES.map(f => {
+          const p = ranking.parts[f]
+          return (
+            <div key={f} className={p.weight ? '' : 'opacity-50'}>
+              <div className="flex justify-between text-[11px] text-slate-600">
+                <span>{RANKING_FEATURE_LABELS[f]} <span className="text-slate-400">× {p.weight}</span></span>
+                <span className="tabular-nums">+{p.points.toFixed(2)}</span>
+              </div>
+              <div className="h-1.5 bg-slate-100 rounded">
+                <div className="h-1.5 bg-indigo-500 rounded" style={{ width: `${Math.round(p.value * 100)}%` }} />
+              </div>
+            </div>
+          )
+        })}
+        <p className="text-[11px] text-slate-500">
+          Bars show each feature relative to the best result; points are its weighted share of the score.
+        </p>
+      </div>
+    </details>
+  )
+}
@@ -0,0 +1,522 @@
+'use client'
+
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react'
+import * as Y from 'yjs'
+import ReactMarkdown from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import type { RealtimeChannel } from '@supabase/supabase-js'
+import { FiEdit3, FiEye, FiClock, FiX, FiSave, FiRotateCcw } from 'react-icons/fi'
+import { supabase } from '../../app/lib/supabase'
+import { MAX_README_CHARS, README_TEXT, applyTextChange, fromBase64, toBase64 } from '../../app/lib/readme/crdt'
+import { diffLines, diffStats } from '../../app/lib/files/diff'
+import type { ReadmeDocument, ReadmeRevision } from '../../app/types/readme-types'
+import type { RealtimeStatus } from './Realtime'
+
+/**
+ * Collaborative README editor.
+ *
+ * The text lives in a Yjs document. Open editors exchange Yjs updates over
+ * the private broadcast channel `readme:<colabId>` (a joiner asks for what it
+ * is missing with its state vector); readers of the colab may listen, only
+ * people with readme.edit may send (20261019002300_readme_realtime.sql).
+ * Every editor autosaves its document to /api/colabs/[id]/readme, where it
+ * is merged into the stored copy. Because merges are conflict-free,
+ * concurrent edits all survive whichever way they arrive. Collaborator carets travel as Yjs relative positions in presence,
+ * so they stay anchored to the same text while it changes.
+ * Without realtime the editor still works: saves merge on the server and the
+ * document is refreshed periodically.
+ */
+
+const SAVE_DEBOUNCE_MS = 1_500
+const CURSOR_THROTTLE_MS = 200
+const OFFLINE_REFRESH_MS = 20_000
+const CURSOR_COLORS = ['#e11d48', '#2563eb', '#059669', '#d97706', '#7c3aed', '#0891b2', '#db2777', '#65a30d']
+
+type Tab = 'edit' | 'preview' | 'history'
+type RelJSON = Record<string, unknown>
+interface Cursor { user_id: string; name: string; color: string; anchor: RelJSON | null; head: RelJSON | null }
+
+const colorFor = (id: string) => {
+  let h = 0
+  for (let i = 0; i < id.length; i++) h = (h * 31 + id.charCodeAt(i)) | 0
+  return CURSOR_COLORS[Math.abs(h) % CURSOR_COLORS.length]
+}
+
+async function readJson(res: Response) {
+  const data = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(data?.error || `Request failed (${res.status})`)
+  return data
+}
+
+/** The README rendered as GitHub-flavoured markdown */
+export function ReadmeMarkdown({ text }: { text: string }) {
+  return (
+    <div className="prose prose-slate max-w-none break-words">
+      <ReactMarkdown remarkPlugins={[remarkGfm]}>{text}</ReactMarkdown>
+    </div>
+  )
+}
+
+export default function ReadmeEditor({ colabId, userId, canWrite, onSaved, onClose }: {
+  colabId: string
+  userId: string | null
+  canWrite: boolean
+  /** the merged README text after each save */
+  onSaved: (text: string) => void
+  onClose: () => void
+}) {
+  const [doc] = useState(() => new Y.Doc())
+  const ytext = useMemo(() => doc.getText(README_TEXT), [doc])
+  const [text, setText] = useState('')
+  const [loaded, setLoaded] = useState(false)
+  const [tab, setTab] = useState<Tab>('edit')
+  const [status, setStatus] = useState<RealtimeStatus>('connecting')
+  const [cursors, setCursors] = useState<Cursor[]>([])
+  const [saveState, setSaveState] = useState<'saved' | 'pending' | 'saving' | 'error'>('saved')
+  const [error, setError] = useState<string | null>(null)
+
+  const areaRef = useRef<HTMLTextAreaElement | null>(null)
+  const mirrorsRef = useRef<HTMLDivElement | null>(null)
+  const channelRef = useRef<RealtimeChannel | null>(null)
+  const meRef = useRef<Cursor | null>(null)
+  // local selection as relative positions, so it survives remote edits
+  const selRef = useRef<{ anchor: Y.RelativePosition; head: Y.RelativePosition } | null>(null)
+  const restoreSel = useRef(false)
+  const saveTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const cursorTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const dirty = useRef(false)
+  const inflight = useRef<Promise<void> | null>(null)
+  const onSavedRef = useRef(onSaved)
+  onSavedRef.current = onSaved
+
+  /* ---------- saving ---------- */
+  const put = useCallback(async () => {
+    dirty.current = false
+    setSaveState('saving')
+    try {
+      const res: ReadmeDocument = await readJson(await fetch(`/api/colabs/${colabId}/readme`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ state: toBase64(Y.encodeStateAsUpdate(doc)) }),
+      }))
+      // brings in edits saved by editors we are not connected to
+      Y.applyUpdate(doc, fromBase64(res.state), 'server')
+      onSavedRef.current(res.text)
+      setSaveState(dirty.current ? 'pending' : 'saved')
+      setError(null)
+    } catch (e: any) {
+      dirty.current = true
+      setSaveState('error')
+      setError(e.message || 'Could not save the README')
+    }
+  }, [colabId, doc])
+
+  /** Save pending edits now; one request at a time, edits made meanwhile go in the next */
+  const save = useCallback(async () => {
+    if (saveTimer.current) { clearTimeout(saveTimer.current); saveTimer.current = null }
+    while (inflight.current) await inflight.current
+    if (!dirty.current || !canWrite) return
+    inflight.current = put()
+    await inflight.current
+    inflight.current = null
+  }, [put, canWrite])
+
+  const scheduleSave = useCallback(() => {
+    dirty.current = true
+    setSaveState('pending')
+    if (saveTimer.current) clearTimeout(saveTimer.current)
+    saveTimer.current = setTimeout(() => { save() }, SAVE_DEBOUNCE_MS)
+  }, [save])
+
+  /* ---------- cursors ---------- */
+  const publishCursor = useCallback(() => {
+    if (cursorTimer.current) return
+    cursorTimer.current = setTimeout(() => {
+      cursorTimer.current = null
+      const channel = channelRef.current
+      const me = meRef.current
+      const sel = selRef.current
+      if (!channel || !me) return
+      me.anchor = sel ? Y.relativePositionToJSON(sel.anchor) : null
+      me.head = sel ? Y.relativePositionToJSON(sel.head) : null
+      channel.track(me).catch(() => {})
+    }, CURSOR_THROTTLE_MS)
+  }, [])
+
+  const rememberSelection = useCallback(() => {
+    const el = areaRef.current
+    if (!el) return
+    const backwards = el.selectionDirection === 'backward'
+    const [anchor, head] = backwards ? [el.selectionEnd, el.selectionStart] : [el.selectionStart, el.selectionEnd]
+    selRef.current = {
+      anchor: Y.createRelativePositionFromTypeIndex(ytext, anchor),
+      head: Y.createRelativePositionFromTypeIndex(ytext, head),
+    }
+    publishCursor()
+  }, [ytext, publishCursor])
+
+  const absolute = useCallback((rel: RelJSON | Y.RelativePosition | null) => {
+    if (!rel) return null
+    const pos = Y.createAbsolutePositionFromRelativePosition(
+      rel instanceof Y.RelativePosition ? rel : Y.createRelativePositionFromJSON(rel), doc)
+    return pos ? pos.index : null
+  }, [doc])
+
+  /* ---------- document ---------- */
+  useEffect(() => {
+    const onUpdate = (update: Uint8Array, origin: unknown) => {
+      setText(ytext.toString())
+      if (origin === 'local') {
+        channelRef.current?.send({ type: 'broadcast', event: 'update', payload: { update: toBase64(update) } }).catch(() => {})
+        scheduleSave()
+      } else {
+        restoreSel.current = true
+      }
+    }
+    doc.on('update', onUpdate)
+    return () => { doc.off('update', onUpdate) }
+  }, [doc, ytext, scheduleSave])
+
+  useEffect(() => {
+    let cancelled = false
+    fetch(`/api/colabs/${colabId}/readme`).then(readJson).then((res: ReadmeDocument) => {
+      if (cancelled) return
+      Y.applyUpdate(doc, fromBase64(res.state), 'server')
+      setText(ytext.toString())
+      setLoaded(true)
+    }).catch(e => { if (!cancelled) setError(e.message || 'Could not load the README') })
+    return () => { cancelled = true }
+  }, [colabId, doc, ytext])
+
+  // keep the caret in place when someone else's edit lands
+  useLayoutEffect(() => {
+    if (!restoreSel.current) return
+    restoreSel.current = false
+    const el = areaRef.current
+    const sel = selRef.current
+    if (!el || !sel || document.activeElement !== el) return
+    const anchor = absolute(sel.anchor)
+    const head = absolute(sel.head)
+    if (anchor == null || head == null) return
+    el.setSelectionRange(Math.min(anchor, head), Math.max(anchor, head), head < anchor ? 'backward' : 'forward')
+  }, [text, absolute])
+  useLayoutEffect(() => {
+    if (mirrorsRef.current && areaRef.current) mirrorsRef.current.scrollTop = areaRef.current.scrollTop
+  }, [text, cursors])
+
+  /* ---------- realtime ---------- */
+  useEffect(() => {
+    if (!loaded || !userId) return
+    let cancelled = false
+    setStatus('connecting')
+    const channel = supabase.channel(`readme:${colabId}`, {
+      config: { private: true, presence: { key: userId }, broadcast: { self: false } },
+    })
+    channelRef.current = channel
+    const stateVector = () => toBase64(Y.encodeStateVector(doc))
+
+    channel
+      .on('broadcast', { event: 'update' }, ({ payload }) => {
+        try { Y.applyUpdate(doc, fromBase64(payload.update), 'remote') } catch { /* malformed; the next save resyncs */ }
+      })
+      // a joiner announces what it has; answer with what it lacks and what we have
+      .on('broadcast', { event: 'sync-step1' }, ({ payload }) => {
+        const missing = Y.encodeStateAsUpdate(doc, fromBase64(payload.sv))
+        channel.send({ type: 'broadcast', event: 'sync-step2', payload: { to: payload.from, update: toBase64(missing), sv: stateVector() } }).catch(() => {})
+      })
+      .on('broadcast', { event: 'sync-step2' }, ({ payload }) => {
+        if (payload.to !== userId) return
+        try { Y.applyUpdate(doc, fromBase64(payload.update), 'remote') } catch { return }
+        const theirs = Y.encodeStateAsUpdate(doc, fromBase64(payload.sv))
+        // anything beyond an empty update: send back the edits they have not seen
+        if (theirs.length > 2) {
+          channel.send({ type: 'broadcast', event: 'update', payload: { update: toBase64(theirs) } }).catch(() => {})
+        }
+      })
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<Cursor>()
+        setCursors(Object.values(state).map(metas => metas[0]).filter(c => c && c.user_id !== userId))
+      })
+      .subscribe(async state => {
+        if (cancelled) return
+        if (state === 'SUBSCRIBED') {
+          setStatus('live')
+          channel.send({ type: 'broadcast', event: 'sync-step1', payload: { from: userId, sv: stateVector() } }).catch(() => {})
+          const { data } = await supabase.from('profiles').select('full_name, username').eq('id', userId).maybeSingle()
+          meRef.current = { user_id: userId, name: data?.full_name || data?.username || 'A member', color: colorFor(userId), anchor: null, head: null }
+          publishCursor()
+        } else if (state === 'CHANNEL_ERROR' || state === 'TIMED_OUT' || state === 'CLOSED') {
+          setStatus('offline')
+        }
+      })
+
+    return () => {
+      cancelled = true
+      channelRef.current = null
+      supabase.removeChannel(channel)
+    }
+  }, [loaded, colabId, userId, doc, publishCursor])
+
+  // without realtime, pick up other editors' saves now and then
+  useEffect(() => {
+    if (status !== 'offline' || !loaded) return
+    const t = setInterval(() => {
+      fetch(`/api/colabs/${colabId}/readme`).then(readJson)
+        .then((res: ReadmeDocument) => Y.applyUpdate(doc, fromBase64(res.state), 'server'))
+        .catch(() => {})
+    }, OFFLINE_REFRESH_MS)
+    return () => clearInterval(t)
+  }, [status, loaded, colabId, doc])
+
+  // flush on close
+  useEffect(() => () => {
+    if (cursorTimer.current) clearTimeout(cursorTimer.current)
+    if (dirty.current) save()
+  }, [save])
+  useEffect(() => () => doc.destroy(), [doc])
+
+  const onChange = (value: string) => {
+    if (!canWrite) return
+    if (value.length > MAX_README_CHARS) { setError(`README is too long (max ${MAX_README_CHARS} characters)`); return }
+    applyTextChange(ytext, ytext.toString(), value)
+    rememberSelection()
+  }
+
+  const syncScroll = () => {
+    if (mirrorsRef.current && areaRef.current) mirrorsRef.current.scrollTop = areaRef.current.scrollTop
+  }
+
+  const close = async () => {
+    await save()
+    onClose()
+  }
+
+  const shared = 'p-4 font-mono text-sm leading-6 whitespace-pre-wrap break-words'
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 grid place-items-center p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-5xl h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between gap-3 px-4 py-3 border-b">
+          <div className="flex items-center gap-1">
+            {([['edit', 'Edit', FiEdit3], ['preview', 'Preview', FiEye], ['history', 'History', FiClock]] as const).map(([key, label, Icon]) => (
+              <button
+                key={key}
+                onClick={() => setTab(key)}
+                className={`inline-flex items-center gap-1 px-3 py-1.5 rounded text-sm ${tab === key ? 'bg-indigo-50 text-indigo-700' : 'text-slate-600 hover:bg-slate-50'}`}
+              >
+                <Icon className="w-4 h-4" /> {label}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-3 text-xs text-slate-500">
+            {cursors.length > 0 && (
+              <div className="flex items-center gap-1">
+                {cursors.map(c => (
+                  <span key={c.user_id} className="px-2 py-0.5 rounded-full text-white" style={{ backgroundColor: c.color }}>{c.name}</span>
+                ))}
+              </div>
+            )}
+            <span
+              className={`w-2 h-2 rounded-full ${status === 'live' ? 'bg-emerald-500' : status === 'connecting' ? 'bg-amber-400' : 'bg-slate-300'}`}
+              title={status === 'live' ? 'Editing live with others' : status === 'connecting' ? 'Connecting…' : 'Live editing unavailable — changes merge when saved'}
+            />
+            {canWrite && (
+              <span>{saveState === 'saving' ? 'Saving…' : saveState === 'pending' ? 'Unsaved changes' : saveState === 'error' ? 'Not saved' : 'Saved'}</span>
+            )}
+            <button onClick={close} className="text-slate-500 hover:text-slate-800" title="Close"><FiX className="w-5 h-5" /></button>
+          </div>
+        </div>
+
+        {error && <div className="px-4 py-2 text-sm text-red-600 bg-red-50 break-words">{error}</div>}
+        {!canWrite && <div className="px-4 py-2 text-xs text-slate-600 bg-slate-50">Read-only — only members with write access can edit the README.</div>}
+
+        <div className="flex-1 min-h-0">
+          {!loaded ? (
+            <div className="p-4 text-sm text-slate-500">Loading…</div>
+          ) : tab === 'edit' ? (
+            <div className="relative h-full">
+              <textarea
+                ref={areaRef}
+                value={text}
+                readOnly={!canWrite}
+                onChange={e => onChange(e.target.value)}
+                onSelect={rememberSelection}
+                onScroll={syncScroll}
+                spellCheck
+                placeholder={'# Project title\n\nDescribe the aims, methods and how to contribute…'}
+                className={`absolute inset-0 w-full h-full resize-none outline-none bg-transparent ${shared}`}
+              />
+              {/* one transparent copy of the text per collaborator, showing only their caret and selection */}
+              <div ref={mirrorsRef} aria-hidden className="absolute inset-0 overflow-hidden pointer-events-none">
+                {cursors.map(c => {
+                  const a = absolute(c.anchor)
+                  const h = absolute(c.head)
+                  if (a == null || h == null) return null
+                  const from = Math.min(a, h)
+                  const to = Math.max(a, h)
+                  return (
+                    <div key={c.user_id} className={`absolute inset-x-0 top-0 text-transparent ${shared}`}>
+                      {text.slice(0, from)}
+                      <span style={{ backgroundColor: `${c.color}33` }}>{text.slice(from, to)}</span>
+                      <span className="relative inline-block w-0">
+                        <span className="absolute -left-px top-0 h-6 border-l-2" style={{ borderColor: c.color }} />
+                        <span className="absolute left-0 -top-4 px-1 rounded text-[10px] leading-4 text-white whitespace-nowrap font-sans" style={{ backgroundColor: c.color }}>{c.name}</span>
+                      </span>
+                      {text.slice(to)}
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+          ) : tab === 'preview' ? (
+            <div className="h-full overflow-y-auto p-6">
+              {text.trim() ? <ReadmeMarkdown text={text} /> : <div className="text-slate-500">Nothing to preview yet.</div>}
+            </div>
+          ) : (
+            <RevisionHistory
+              colabId={colabId}
+              current={text}
+              canWrite={canWrite}
+              beforeSnapshot={save}
+              onRestore={content => applyTextChange(ytext, ytext.toString(), content)}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+/** Saved revisions: diff any of them against the current text, snapshot, restore */
+function RevisionHistory({ colabId, current, canWrite, beforeSnapshot, onRestore }: {
+  colabId: string
+  current: string
+  canWrite: boolean
+  /** flush pending edits so the snapshot includes them */
+  beforeSnapshot: () => Promise<void>
+  /** put a revision's text into the shared document */
+  onRestore: (content: string) => void
+}) {
+  const [revisions, setRevisions] = useState<ReadmeRevision[]>([])
+  const [selected, setSelected] = useState<ReadmeRevision | null>(null)
+  const [message, setMessage] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    try {
+      const data = await readJson(await fetch(`/api/colabs/${colabId}/readme/revisions`))
+      setRevisions(data.revisions || [])
+    } catch (e: any) {
+      setError(e.message || 'Could not load revisions')
+    }
+  }, [colabId])
+  useEffect(() => { load() }, [load])
+
+  const open = async (r: ReadmeRevision) => {
+    setError(null)
+    try {
+      const data = await readJson(await fetch(`/api/colabs/${colabId}/readme/revisions/${r.id}`))
+      setSelected(data.revision)
+    } catch (e: any) {
+      setError(e.message || 'Could not load the revision')
+    }
+  }
+
+  const snapshot = async (restoredFrom?: string) => {
+    setBusy(true); setError(null)
+    try {
+      await beforeSnapshot()
+      await readJson(await fetch(`/api/colabs/${colabId}/readme/revisions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message: message.trim() || undefined, restoredFrom }),
+      }))
+      setMessage('')
+      await load()
+    } catch (e: any) {
+      setError(e.message || 'Could not save the revision')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const restore = async (r: ReadmeRevision) => {
+    if (r.content == null) return
+    if (!confirm('Replace the README with this revision for everyone editing it?')) return
+    onRestore(r.content)
+    await snapshot(r.id)
+    setSelected(null)
+  }
+
+  // null: too many changes for a line diff
+  const lines = selected?.content != null ? diffLines(selected.content, current) : []
+  const stats = diffStats(lines || [])
+
+  return (
+    <div className="h-full grid grid-cols-1 md:grid-cols-3 min-h-0">
+      <div className="border-r flex flex-col min-h-0">
+        {canWrite && (
+          <form onSubmit={e => { e.preventDefault(); snapshot() }} className="p-3 border-b space-y-2">
+            <input
+              value={message}
+              onChange={e => setMessage(e.target.value)}
+              placeholder="What changed? (optional)"
+              maxLength={200}
+              className="w-full px-3 py-1.5 border rounded text-sm"
+            />
+            <button type="submit" disabled={busy} className="w-full inline-flex items-center justify-center gap-1 px-3 py-1.5 rounded bg-indigo-600 text-white text-sm disabled:opacity-50">
+              <FiSave className="w-4 h-4" /> {busy ? 'Saving…' : 'Save revision'}
+            </button>
+          </form>
+        )}
+        <div className="flex-1 overflow-y-auto">
+          {!revisions.length && <div className="p-3 text-sm text-slate-500">No revisions saved yet.</div>}
+          {revisions.map(r => (
+            <button
+              key={r.id}
+              onClick={() => open(r)}
+              className={`w-full text-left p-3 border-b hover:bg-slate-50 ${selected?.id === r.id ? 'bg-indigo-50' : ''}`}
+            >
+              <div className="text-sm text-slate-800 truncate">{r.message || (r.restored_from ? 'Restored an earlier revision' : 'Untitled revision')}</div>
+              <div className="text-xs text-slate-500">{new Date(r.created_at).toLocaleString()}</div>
+            </button>
+          ))}
+        </div>
+        {error && <div className="p-3 text-sm text-red-600 break-words">{error}</div>}
+      </div>
+
+      <div className="md:col-span-2 flex flex-col min-h-0">
+        {!selected ? (
+          <div className="p-4 text-sm text-slate-500">Pick a revision to compare it with the current README.</div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between px-3 py-2 border-b bg-slate-50 text-xs text-slate-600">
+              <span>
+                Revision → current: {lines ? <><span className="text-green-700">+{stats.added}</span> <span className="text-red-700">−{stats.removed}</span></> : 'differs'}
+              </span>
+              {canWrite && (
+                <button onClick={() => restore(selected)} disabled={busy} className="inline-flex items-center gap-1 px-2 py-1 rounded border bg-white hover:bg-slate-100 disabled:opacity-50">
+                  <FiRotateCcw className="w-3 h-3" /> Restore
+                </button>
+              )}
+            </div>
+            {!lines && <div className="p-4 text-sm text-slate-500">This revision differs too much from the current README to compare line by line.</div>}
+            <pre className="flex-1 text-xs overflow-auto">
+              {(lines || []).map((l, i) => (
+                <div
+                  key={i}
+                  className={l.op === 'add' ? 'bg-green-50 text-green-900' : l.op === 'remove' ? 'bg-red-50 text-red-900' : 'text-slate-700'}
+                >
+                  <span className="inline-block w-10 text-right pr-2 text-slate-400 select-none">{l.oldNo ?? ''}</span>
+                  <span className="inline-block w-10 text-right pr-2 text-slate-400 select-none">{l.newNo ?? ''}</span>
+                  {l.op === 'add' ? '+ ' : l.op === 'remove' ? '- ' : '  '}{l.text}
+                </div>
+              ))}
+            </pre>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,167 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { RealtimeChannel } from '@supabase/supabase-js'
+import { supabase } from '../../app/lib/supabase'
+
+/**
+ * One private Supabase Realtime channel per open colab (joinable only by
+ * people who can read it, see 20261019001500_realtime_notes.sql):
+ *  - postgres_changes on `research_notes` → onNoteUpsert / onNoteDelete
+ *  - presence: who has the colab open, keyed by user, and which reply box
+ *    they are typing in (parent note, ROOT for new threads)
+ * When the channel cannot connect, `status` is 'offline' and `onResync` is
+ * polled instead so threads still catch up, just more slowly.
+ */
+
+export const ROOT = '__root__'
+export type RealtimeStatus = 'connecting' | 'live' | 'offline'
+export interface Viewer { user_id: string; name: string; avatar_url: string | null; typing_in?: string | null }
+
+const POLL_MS = 30_000
+// a reply box with no keystrokes for this long stops counting as typing
+const TYPING_IDLE_MS = 6_000
+
+export function useColabRealtime({ colabId, userId, onNoteUpsert, onNoteDelete, onResync }: {
+  colabId: string | null
+  userId: string | null
+  /** a note was inserted or edited (possibly by us) */
+  onNoteUpsert: (noteId: string) => void
+  onNoteDelete: (noteId: string) => void
+  /** full reload, used while realtime is unavailable */
+  onResync: () => void
+}) {
+  const [status, setStatus] = useState<RealtimeStatus>('connecting')
+  const [viewers, setViewers] = useState<Viewer[]>([])
+  const channelRef = useRef<RealtimeChannel | null>(null)
+  const meRef = useRef<Viewer | null>(null)
+  const typingTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  // handlers change every render; the channel reads the latest through a ref
+  const handlers = useRef({ onNoteUpsert, onNoteDelete, onResync })
+  handlers.current = { onNoteUpsert, onNoteDelete, onResync }
+
+  useEffect(() => {
+    if (!colabId || !userId) return
+    let cancelled = false
+    setStatus('connecting')
+
+    const channel = supabase.channel(`colab:${colabId}`, {
+      config: { private: true, presence: { key: userId } },
+    })
+    channelRef.current = channel
+
+    channel
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'research_notes', filter: `colab_id=eq.${colabId}` },
+        payload => handlers.current.onNoteUpsert((payload.new as { id: string }).id))
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'research_notes', filter: `colab_id=eq.${colabId}` },
+        payload => handlers.current.onNoteUpsert((payload.new as { id: string }).id))
+      // delete events carry only the primary key and cannot be filtered; unknown ids are ignored
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'research_notes' },
+        payload => { const id = (payload.old as { id?: string }).id; if (id) handlers.current.onNoteDelete(id) })
+      // who someone is comes from their presence key, never from what they track
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<Viewer>()
+        setViewers(Object.entries(state).filter(([, metas]) => metas[0]).map(([key, metas]) => ({ ...metas[0], user_id: key })))
+      })
+      .subscribe(async state => {
+        if (cancelled) return
+        if (state === 'SUBSCRIBED') {
+          setStatus('live')
+          // we may have missed changes while connecting or disconnected
+          handlers.current.onResync()
+          const { data } = await supabase.from('profiles').select('full_name, username, avatar_url').eq('id', userId).maybeSingle()
+          meRef.current = {
+            user_id: userId,
+            name: data?.full_name || data?.username || 'A member',
+            avatar_url: data?.avatar_url || null,
+            typing_in: null,
+          }
+          await channel.track(meRef.current).catch(() => {})
+        } else if (state === 'CHANNEL_ERROR' || state === 'TIMED_OUT' || state === 'CLOSED') {
+          setStatus('offline')
+        }
+      })
+
+    return () => {
+      cancelled = true
+      channelRef.current = null
+      meRef.current = null
+      if (typingTimer.current) clearTimeout(typingTimer.current)
+      supabase.removeChannel(channel)
+    }
+  }, [colabId, userId])
+
+  // fallback polling while offline
+  useEffect(() => {
+    if (status !== 'offline') return
+    const t = setInterval(() => handlers.current.onResync(), POLL_MS)
+    return () => clearInterval(t)
+  }, [status])
+
+  const publishTyping = useCallback((typingIn: string | null) => {
+    const channel = channelRef.current
+    const me = meRef.current
+    if (!channel || !me || me.typing_in === typingIn) return
+    meRef.current = { ...me, typing_in: typingIn }
+    channel.track(meRef.current).catch(() => {})
+  }, [])
+
+  /** Call on every keystroke in a reply box, and with active=false when it closes */
+  const setTypingIn = useCallback((parentId: string | null, active: boolean) => {
+    const key = parentId || ROOT
+    if (typingTimer.current) clearTimeout(typingTimer.current)
+    if (!active) {
+      if (meRef.current?.typing_in === key) publishTyping(null)
+      return
+    }
+    publishTyping(key)
+    typingTimer.current = setTimeout(() => publishTyping(null), TYPING_IDLE_MS)
+  }, [publishTyping])
+
+  /** Names of other members typing under a note (ROOT/null = a new thread) */
+  const typingIn = useCallback((parentId: string | null) =>
+    viewers.filter(v => v.user_id !== userId && v.typing_in === (parentId || ROOT)).map(v => v.name), [viewers, userId])
+
+  return { status, viewers, typingIn, setTypingIn }
+}
+
+/** Avatars of members viewing the colab, plus the connection state */
+export function PresenceBar({ viewers, status, selfId }: { viewers: Viewer[]; status: RealtimeStatus; selfId: string | null }) {
+  const others = viewers.filter(v => v.user_id !== selfId)
+  const shown = others.slice(0, 4)
+  return (
+    <div className="flex items-center gap-2">
+      {status === 'live' && shown.length > 0 && (
+        <div className="flex -space-x-2" title={`Also viewing: ${others.map(v => v.name).join(', ')}`}>
+          {shown.map(v => (
+            <div key={v.user_id} className="w-7 h-7 rounded-full ring-2 ring-white bg-gradient-to-br from-emerald-500 to-teal-600 grid place-items-center overflow-hidden">
+              {v.avatar_url
+                ? <img src={v.avatar_url} alt={v.name} className="w-full h-full object-cover" />
+                : <span className="text-white text-xs font-semibold">{v.name[0]?.toUpperCase()}</span>}
+            </div>
+          ))}
+          {others.length > shown.length && (
+            <div className="w-7 h-7 rounded-full ring-2 ring-white bg-slate-200 grid place-items-center text-[10px] text-slate-700">
+              +{others.length - shown.length}
+            </div>
+          )}
+        </div>
+      )}
+      <span
+        className={`w-2 h-2 rounded-full ${status === 'live' ? 'bg-emerald-500' : status === 'connecting' ? 'bg-amber-400' : 'bg-slate-300'}`}
+        title={status === 'live' ? 'Live updates on' : status === 'connecting' ? 'Connecting…' : 'Live updates unavailable — refreshing every 30s'}
+      />
+    </div>
+  )
+}
+
+export function TypingIndicator({ names, what = 'replying' }: { names: string[]; what?: string }) {
+  if (!names.length) return null
+  const who = names.length === 1 ? names[0] : names.length === 2 ? `${names[0]} and ${names[1]}` : `${names[0]} and ${names.length - 1} others`
+  return (
+    <div className="mt-2 text-xs text-slate-500 italic">
+      {who} {names.length === 1 ? 'is' : 'are'} {what}…
+    </div>
+  )
+}
@@ -0,0 +1,229 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { FiBell, FiPlay, FiTrash2, FiAlertTriangle } from 'react-icons/fi'
+import type {
+  SavedSearch, SavedSearchRun, SearchHit, SearchSchedule, SearchSource,
+} from '../../app/lib/saved-searches'
+import { LIT_SOURCES, LIT_SOURCE_LABELS, type LitSource } from '../../app/lib/literature/sources'
+
+export type SavedSearchRow = Omit<SavedSearch, 'seen_keys'>
+
+async function readJson(res: Response) {
+  const data = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(data?.error || `Request failed (${res.status})`)
+  return data
+}
+
+const SOURCE_LABELS: Record<SearchSource, string> = { multisearch: 'Multi-source', pubmed: 'PubMed' }
+const SCHEDULE_LABELS: Record<SearchSchedule, string> = { off: 'Manual only', daily: 'Daily', weekly: 'Weekly' }
+
+const fmtDate = (iso: string | null) => (iso ? new Date(iso).toLocaleString() : '—')
+
+/** Saved searches of a colab plus the recent runs that found new works */
+export function useSavedSearches(colabId: string | null) {
+  const base = `/api/colabs/${colabId}/saved-searches`
+  const [searches, setSearches] = useState<SavedSearchRow[]>([])
+  const [runs, setRuns] = useState<SavedSearchRun[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  const reload = useCallback(async () => {
+    if (!colabId) return
+    try {
+      const data = await readJson(await fetch(base))
+      setSearches(data.searches || [])
+      setRuns(data.runs || [])
+      setError(null)
+    } catch (e: any) {
+      setError(e.message || 'Failed to load saved searches')
+    }
+  }, [colabId, base])
+
+  useEffect(() => { reload() }, [reload])
+
+  const create = async (input: { source: SearchSource; query: string; name?: string; schedule?: SearchSchedule; litSources?: LitSource[] }) => {
+    const data = await readJson(await fetch(base, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    }))
+    setSearches(prev => [...prev, data.search])
+    return data.search as SavedSearchRow
+  }
+
+  const update = async (searchId: string, patch: { name?: string; schedule?: SearchSchedule }) => {
+    const data = await readJson(await fetch(`${base}/${searchId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(patch),
+    }))
+    setSearches(prev => prev.map(s => s.id === searchId ? data.search : s))
+  }
+
+  const remove = async (searchId: string) => {
+    await readJson(await fetch(`${base}/${searchId}`, { method: 'DELETE' }))
+    setSearches(prev => prev.filter(s => s.id !== searchId))
+    setRuns(prev => prev.filter(r => r.search_id !== searchId))
+  }
+
+  const run = async (searchId: string) => {
+    const data = await readJson(await fetch(`${base}/${searchId}/run`, { method: 'POST' }))
+    await reload()
+    return data.run as SavedSearchRun
+  }
+
+  return { searches, runs, error, reload, create, update, remove, run }
+}
+
+export type SavedSearchesState = ReturnType<typeof useSavedSearches>
+
+function HitList({ hits, max = 5 }: { hits: SearchHit[]; max?: number }) {
+  return (
+    <ul className="space-y-1.5">
+      {hits.slice(0, max).map(h => (
+        <li key={h.key} className="text-sm break-words">
+          {h.url
+            ? <a href={h.url} target="_blank" rel="noreferrer" className="text-blue-700 hover:underline">{h.title || h.key}</a>
+            : <span>{h.title || h.key}</span>}
+          <span className="text-slate-500">
+            {h.authors.length ? ` — ${h.authors[0]}${h.authors.length > 1 ? ' et al.' : ''}` : ''}
+            {h.year ? ` (${h.year})` : ''}
+          </span>
+        </li>
+      ))}
+      {hits.length > max && <li className="text-xs text-slate-500">+{hits.length - max} more</li>}
+    </ul>
+  )
+}
+
+/** Manage saved searches: schedule, rerun, delete and see the latest findings */
+export function SavedSearchesPanel({ state, canWrite, onRan }: {
+  state: SavedSearchesState
+  canWrite: boolean
+  /** called after a manual run so usage meters can refresh */
+  onRan?: () => void
+}) {
+  const { searches, runs, error } = state
+  const [busy, setBusy] = useState<string | null>(null)
+  const [err, setErr] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const act = async (searchId: string, fn: () => Promise<unknown>) => {
+    setBusy(searchId); setErr(null); setNotice(null)
+    try { await fn() } catch (e: any) { setErr(e.message || 'Request failed') } finally { setBusy(null) }
+  }
+
+  const runNow = (s: SavedSearchRow) => act(s.id, async () => {
+    const run = await state.run(s.id)
+    onRan?.()
+    const n = run.new_hits.length
+    setNotice(run.baseline
+      ? `Baseline saved for "${s.name}" (${run.result_count} results). Future runs report new works.`
+      : n ? `${n} new result${n === 1 ? '' : 's'} for "${s.name}".` : `No new results for "${s.name}".`)
+  })
+
+  const latestRun = (searchId: string) => runs.find(r => r.search_id === searchId)
+
+  return (
+    <div className="bg-white border rounded-lg p-4 sm:p-5">
+      <div className="flex items-center gap-2 mb-3">
+        <FiBell className="text-slate-500" />
+        <h3 className="font-semibold">Saved searches</h3>
+      </div>
+
+      {(err || error) && <div className="mb-3 text-sm text-red-600 break-words">{err || error}</div>}
+      {notice && <div className="mb-3 text-sm text-green-700 break-words" role="status">{notice}</div>}
+
+      {searches.length ? (
+        <ul className="divide-y">
+          {searches.map(s => {
+            const latest = latestRun(s.id)
+            return (
+              <li key={s.id} className="py-3">
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="font-medium break-words">{s.name}</div>
+                    <div className="text-xs text-slate-500 break-words">
+                      {SOURCE_LABELS[s.source]}
+                      {s.lit_sources && s.lit_sources.length < LIT_SOURCES.length ? ` (${s.lit_sources.map(x => LIT_SOURCE_LABELS[x]).join(', ')})` : ''}
+                      {' '}· “{s.query}” · last run {fmtDate(s.last_run_at)}
+                      {s.schedule !== 'off' && s.next_run_at ? ` · next ${fmtDate(s.next_run_at)}` : ''}
+                    </div>
+                    {s.last_error && (
+                      <div className="mt-1 text-xs text-amber-700 flex items-center gap-1"><FiAlertTriangle className="shrink-0" /> {s.last_error}</div>
+                    )}
+                  </div>
+                  {canWrite && (
+                    <div className="flex items-center gap-2 shrink-0">
+                      <select
+                        value={s.schedule}
+                        onChange={e => act(s.id, () => state.update(s.id, { schedule: e.target.value as SearchSchedule }))}
+                        disabled={busy === s.id}
+                        className="border rounded-lg px-2 py-1 text-sm"
+                        title="Rerun schedule"
+                      >
+                        {(Object.keys(SCHEDULE_LABELS) as SearchSchedule[]).map(k => <option key={k} value={k}>{SCHEDULE_LABELS[k]}</option>)}
+                      </select>
+                      <button onClick={() => runNow(s)} disabled={busy === s.id} className="inline-flex items-center gap-1 px-2 py-1 rounded border text-sm disabled:opacity-50" title="Run now">
+                        <FiPlay /> {busy === s.id ? 'Running…' : 'Run'}
+                      </button>
+                      <button
+                        onClick={() => confirm(`Delete saved search "${s.name}"?`) && act(s.id, () => state.remove(s.id))}
+                        disabled={busy === s.id}
+                        className="p-1.5 rounded hover:bg-slate-50 text-red-600 disabled:opacity-50"
+                        title="Delete"
+                      >
+                        <FiTrash2 />
+                      </button>
+                    </div>
+                  )}
+                </div>
+                {latest && (
+                  <div className="mt-2 pl-3 border-l-2 border-green-200">
+                    <div className="text-xs text-green-700 mb-1">
+                      {latest.new_hits.length} new on {new Date(latest.ran_at).toLocaleDateString()}
+                    </div>
+                    <HitList hits={latest.new_hits} max={3} />
+                  </div>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      ) : (
+        <p className="text-sm text-slate-500">
+          Save a PubMed or multi-source query to rerun it on a schedule and get notified about new papers.
+        </p>
+      )}
+    </div>
+  )
+}
+
+/** Overview digest: what saved searches found over the last two weeks */
+export function LiteratureDigest({ state }: { state: SavedSearchesState }) {
+  const { searches, runs } = state
+  if (!runs.length) return null
+
+  const byId = new Map(searches.map(s => [s.id, s]))
+  const total = runs.reduce((n, r) => n + r.new_hits.length, 0)
+
+  return (
+    <div className="bg-white border rounded-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-semibold flex items-center gap-2"><FiBell className="text-slate-500" /> New literature</h3>
+        <span className="text-sm text-slate-500">{total} new work{total === 1 ? '' : 's'} in the last 14 days</span>
+      </div>
+      <div className="space-y-4">
+        {runs.map(r => (
+          <div key={r.id}>
+            <div className="text-sm font-medium mb-1">
+              {byId.get(r.search_id)?.name || 'Saved search'}
+              <span className="font-normal text-slate-500"> · {new Date(r.ran_at).toLocaleDateString()}</span>
+            </div>
+            <HitList hits={r.new_hits} />
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
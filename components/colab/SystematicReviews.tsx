@@ -0,0 +1,746 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState, type FormEvent } from 'react'
+import {
+  FiAlertTriangle, FiCheck, FiClipboard, FiDownload, FiEdit2, FiFileText, FiPlus, FiSearch, FiTrash2, FiX,
+} from 'react-icons/fi'
+import type { ReviewDetail } from '../../app/lib/reviews/repository'
+import type {
+  ReviewRecord, ReviewSearchSource, ReviewStage, SystematicReview, VoteDecision,
+} from '../../app/types/review-types'
+import {
+  NOT_RETRIEVED, STAGE_LABELS, VOTE_DECISIONS, VOTE_LABELS, indexReview, prismaCounts, prismaSvg, stageStatus, votesRevealed,
+  type ReviewIndex,
+} from '../../app/lib/reviews/prisma'
+import { LIT_SOURCES, LIT_SOURCE_LABELS, type LitSource } from '../../app/lib/literature/sources'
+
+async function readJson(res: Response) {
+  const data = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(data?.error || `Request failed (${res.status})`)
+  return data
+}
+
+type Tab = 'protocol' | 'identify' | ReviewStage | 'conflicts' | 'prisma'
+
+const SEARCH_SOURCE_LABELS: Record<ReviewSearchSource, string> = {
+  pubmed: 'PubMed',
+  multisearch: 'Multi-source',
+  bibliography: 'Colab bibliography',
+}
+
+const PAGE = 20
+
+const lines = (s: string) => s.split('\n').map(x => x.trim()).filter(Boolean)
+
+type ProtocolInput = {
+  title: string
+  question: string
+  inclusionCriteria: string[]
+  exclusionCriteria: string[]
+  screenersRequired: number
+}
+
+/** Title, question, criteria (one per line) and how many members screen each record */
+function ProtocolForm({ initial, submitLabel, onSubmit, onCancel }: {
+  initial?: SystematicReview
+  submitLabel: string
+  onSubmit: (input: ProtocolInput) => Promise<void>
+  onCancel: () => void
+}) {
+  const [title, setTitle] = useState(initial?.title || '')
+  const [question, setQuestion] = useState(initial?.question || '')
+  const [inclusion, setInclusion] = useState((initial?.inclusion_criteria || []).join('\n'))
+  const [exclusion, setExclusion] = useState((initial?.exclusion_criteria || []).join('\n'))
+  const [screeners, setScreeners] = useState(initial?.screeners_required || 2)
+  const [busy, setBusy] = useState(false)
+  const [err, setErr] = useState<string | null>(null)
+
+  const submit = async (e: FormEvent) => {
+    e.preventDefault()
+    setBusy(true); setErr(null)
+    try {
+      await onSubmit({ title, question, inclusionCriteria: lines(inclusion), exclusionCriteria: lines(exclusion), screenersRequired: screeners })
+    } catch (e: any) {
+      setErr(e.message || 'Could not save the protocol')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <form onSubmit={submit} className="bg-white border rounded-lg p-4 sm:p-5 space-y-3 text-sm">
+      <input value={title} onChange={e => setTitle(e.target.value)} placeholder="Review title" className="w-full border rounded-lg px-3 py-2" required />
+      <textarea value={question} onChange={e => setQuestion(e.target.value)} placeholder="Review question (e.g. PICO)" rows={2} className="w-full border rounded-lg px-3 py-2" />
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <label className="block">
+          <span className="text-xs text-slate-500">Inclusion criteria, one per line</span>
+          <textarea value={inclusion} onChange={e => setInclusion(e.target.value)} rows={4} className="mt-1 w-full border rounded-lg px-3 py-2" />
+        </label>
+        <label className="block">
+          <span className="text-xs text-slate-500">Exclusion criteria, one per line (offered as full-text exclusion reasons)</span>
+          <textarea value={exclusion} onChange={e => setExclusion(e.target.value)} rows={4} className="mt-1 w-full border rounded-lg px-3 py-2" />
+        </label>
+      </div>
+      <label className="flex items-center gap-2">
+        <span className="text-slate-600">Independent screeners per record</span>
+        <select value={screeners} onChange={e => setScreeners(Number(e.target.value))} className="border rounded-lg px-2 py-1">
+          {[1, 2, 3, 4, 5].map(k => <option key={k} value={k}>{k}</option>)}
+        </select>
+      </label>
+      {err && <div className="text-red-600 break-words">{err}</div>}
+      <div className="flex gap-2">
+        <button disabled={busy} className="px-3 py-1.5 rounded-lg bg-indigo-600 text-white disabled:opacity-50">{busy ? 'Saving…' : submitLabel}</button>
+        <button type="button" onClick={onCancel} className="px-3 py-1.5 rounded-lg border">Cancel</button>
+      </div>
+    </form>
+  )
+}
+
+function Criteria({ review }: { review: SystematicReview }) {
+  if (!review.inclusion_criteria.length && !review.exclusion_criteria.length) return null
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-xs">
+      <div className="border rounded-lg p-3 bg-green-50/50">
+        <div className="font-medium text-green-800 mb-1">Include</div>
+        <ul className="list-disc pl-4 space-y-0.5">{review.inclusion_criteria.map((c, i) => <li key={i}>{c}</li>)}</ul>
+      </div>
+      <div className="border rounded-lg p-3 bg-red-50/50">
+        <div className="font-medium text-red-800 mb-1">Exclude</div>
+        <ul className="list-disc pl-4 space-y-0.5">{review.exclusion_criteria.map((c, i) => <li key={i}>{c}</li>)}</ul>
+      </div>
+    </div>
+  )
+}
+
+function RecordMeta({ record }: { record: ReviewRecord }) {
+  return (
+    <>
+      <div className="font-medium break-words">
+        {record.url ? <a href={record.url} target="_blank" rel="noreferrer" className="hover:underline">{record.title}</a> : record.title}
+      </div>
+      <div className="text-xs text-slate-500 break-words">
+        {record.authors.length ? `${record.authors[0]}${record.authors.length > 1 ? ' et al.' : ''} · ` : ''}
+        {[record.journal, record.year].filter(Boolean).join(' · ')}
+        {record.pmid ? ` · PMID ${record.pmid}` : ''}
+        {record.doi ? ` · ${record.doi}` : ''}
+        {` · via ${record.source}`}
+      </div>
+    </>
+  )
+}
+
+/** Full-text exclusion reasons: the protocol's criteria, "not retrieved", or free text */
+function ReasonPicker({ review, onPick, onCancel }: { review: SystematicReview; onPick: (reason: string) => void; onCancel: () => void }) {
+  const [other, setOther] = useState('')
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-2 text-xs">
+      <span className="text-slate-500">Reason:</span>
+      {[...review.exclusion_criteria, NOT_RETRIEVED].map(r => (
+        <button key={r} onClick={() => onPick(r)} className="px-2 py-1 rounded border hover:bg-red-50 break-words text-left">{r}</button>
+      ))}
+      <input value={other} onChange={e => setOther(e.target.value)} placeholder="Other reason" className="border rounded px-2 py-1 min-w-0" />
+      <button onClick={() => other.trim() && onPick(other.trim())} disabled={!other.trim()} className="px-2 py-1 rounded border disabled:opacity-50">Exclude</button>
+      <button onClick={onCancel} className="p-1 text-slate-500" title="Cancel"><FiX /></button>
+    </div>
+  )
+}
+
+/** One record at a stage: the caller's vote buttons plus any votes they may see */
+function ScreeningCard({ review, record, stage, index, userId, people, canWrite, onVote }: {
+  review: SystematicReview
+  record: ReviewRecord
+  stage: ReviewStage
+  index: ReviewIndex
+  userId: string | null
+  people: Record<string, string>
+  canWrite: boolean
+  onVote: (decision: VoteDecision, reason?: string) => Promise<void>
+}) {
+  const [picking, setPicking] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [showAbstract, setShowAbstract] = useState(stage === 'screening')
+  const votes = index.votes(record.id, stage)
+  const mine = votes.find(v => v.reviewer_id === userId)
+  const others = votes.filter(v => v.reviewer_id !== userId)
+  // a cast vote is final once the votes are revealed
+  const locked = !!mine && votesRevealed(index, record.id, stage, review.screeners_required)
+
+  const vote = async (decision: VoteDecision, reason?: string) => {
+    setBusy(true)
+    try { await onVote(decision, reason); setPicking(false) } finally { setBusy(false) }
+  }
+
+  return (
+    <li className="py-3">
+      <RecordMeta record={record} />
+      {record.abstract ? (
+        showAbstract
+          ? <p className="mt-1 text-sm text-slate-700 whitespace-pre-wrap break-words">{record.abstract}</p>
+          : <button onClick={() => setShowAbstract(true)} className="mt-1 text-xs text-blue-700">Show abstract</button>
+      ) : <p className="mt-1 text-xs text-slate-400">No abstract</p>}
+
+      {canWrite && (
+        <div className="mt-2 flex flex-wrap items-center gap-2 text-sm">
+          {VOTE_DECISIONS.map(d => {
+            const active = mine?.decision === d
+            const color = d === 'include' ? 'bg-green-600 border-green-600' : d === 'exclude' ? 'bg-red-600 border-red-600' : 'bg-amber-500 border-amber-500'
+            return (
+              <button
+                key={d}
+                disabled={busy || locked}
+                onClick={() => (d === 'exclude' && stage === 'eligibility' ? setPicking(true) : vote(d))}
+                className={`px-3 py-1 rounded-lg border disabled:opacity-50 ${active ? `${color} text-white` : 'hover:bg-slate-50'}`}
+              >
+                {VOTE_LABELS[d]}
+              </button>
+            )
+          })}
+          {mine?.reason && <span className="text-xs text-slate-500 break-words">Your reason: {mine.reason}</span>}
+        </div>
+      )}
+      {picking && <ReasonPicker review={review} onPick={r => vote('exclude', r)} onCancel={() => setPicking(false)} />}
+
+      {others.length > 0 && (
+        <div className="mt-2 text-xs text-slate-500 break-words">
+          {others.map(v => `${people[v.reviewer_id] || 'A member'}: ${VOTE_LABELS[v.decision]}${v.reason ? ` (${v.reason})` : ''}`).join(' · ')}
+        </div>
+      )}
+    </li>
+  )
+}
+
+/** A conflicted (or member-resolved) stage with every vote and the resolve controls */
+function ConflictCard({ review, record, stage, index, people, canWrite, onResolve }: {
+  review: SystematicReview
+  record: ReviewRecord
+  stage: ReviewStage
+  index: ReviewIndex
+  people: Record<string, string>
+  canWrite: boolean
+  onResolve: (decision: 'include' | 'exclude', reason?: string) => Promise<void>
+}) {
+  const [picking, setPicking] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const decision = index.decision(record.id, stage)
+
+  const resolve = async (d: 'include' | 'exclude', reason?: string) => {
+    setBusy(true)
+    try { await onResolve(d, reason); setPicking(false) } finally { setBusy(false) }
+  }
+
+  return (
+    <li className="py-3">
+      <div className="text-xs font-medium text-amber-700 mb-1">{STAGE_LABELS[stage]}</div>
+      <RecordMeta record={record} />
+      <ul className="mt-2 text-sm space-y-0.5">
+        {index.votes(record.id, stage).map(v => (
+          <li key={v.reviewer_id} className="break-words">
+            <span className="font-medium">{people[v.reviewer_id] || 'A member'}</span>: {VOTE_LABELS[v.decision]}
+            {v.reason ? <span className="text-slate-500"> — {v.reason}</span> : null}
+          </li>
+        ))}
+      </ul>
+      {decision?.resolved_by && (
+        <div className="mt-1 text-xs text-slate-500 break-words">
+          Resolved by {people[decision.resolved_by] || 'a member'}: {decision.decision === 'include' ? 'Include' : `Exclude${decision.reason ? ` (${decision.reason})` : ''}`}
+        </div>
+      )}
+      {canWrite && (
+        <div className="mt-2 flex flex-wrap gap-2 text-sm">
+          <button disabled={busy} onClick={() => resolve('include')} className="inline-flex items-center gap-1 px-3 py-1 rounded-lg border hover:bg-green-50 disabled:opacity-50"><FiCheck /> Include</button>
+          <button disabled={busy} onClick={() => (stage === 'eligibility' ? setPicking(true) : resolve('exclude'))} className="inline-flex items-center gap-1 px-3 py-1 rounded-lg border hover:bg-red-50 disabled:opacity-50"><FiX /> Exclude</button>
+        </div>
+      )}
+      {picking && <ReasonPicker review={review} onPick={r => resolve('exclude', r)} onCancel={() => setPicking(false)} />}
+    </li>
+  )
+}
+
+function IdentifyPanel({ base, detail, canWrite, onImported }: {
+  base: string
+  detail: ReviewDetail
+  canWrite: boolean
+  onImported: (message: string) => Promise<void>
+}) {
+  const [source, setSource] = useState<ReviewSearchSource>('pubmed')
+  const [query, setQuery] = useState(detail.review.question ? '' : detail.review.title)
+  const [limit, setLimit] = useState(100)
+  const [litSources, setLitSources] = useState<LitSource[]>([...LIT_SOURCES])
+  const [busy, setBusy] = useState(false)
+  const [err, setErr] = useState<string | null>(null)
+
+  const run = async (e: FormEvent) => {
+    e.preventDefault()
+    setBusy(true); setErr(null)
+    try {
+      const body = source === 'bibliography' ? { source } : { source, query, limit, litSources: source === 'multisearch' ? litSources : undefined }
+      const data = await readJson(await fetch(`${base}/records`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      }))
+      await onImported(`Added ${data.search.added} record${data.search.added === 1 ? '' : 's'} (${data.search.duplicates} duplicate${data.search.duplicates === 1 ? '' : 's'} removed).`)
+    } catch (e: any) {
+      setErr(e.message || 'Import failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {canWrite && (
+        <form onSubmit={run} className="space-y-2 text-sm">
+          <div className="flex flex-wrap gap-2">
+            <select value={source} onChange={e => { setSource(e.target.value as ReviewSearchSource); setLimit(e.target.value === 'pubmed' ? 100 : 25) }} className="border rounded-lg px-2 py-1.5">
+              {(Object.keys(SEARCH_SOURCE_LABELS) as ReviewSearchSource[]).map(s => <option key={s} value={s}>{SEARCH_SOURCE_LABELS[s]}</option>)}
+            </select>
+            {source !== 'bibliography' && (
+              <>
+                <input value={query} onChange={e => setQuery(e.target.value)} placeholder="Search strategy" className="flex-1 min-w-[12rem] border rounded-lg px-3 py-1.5" />
+                <label className="inline-flex items-center gap-1 text-slate-600">
+                  {source === 'pubmed' ? 'Max records' : 'Max per source'}
+                  <input type="number" min={1} max={source === 'pubmed' ? 200 : 50} value={limit} onChange={e => setLimit(Number(e.target.value))} className="w-20 border rounded-lg px-2 py-1.5" />
+                </label>
+              </>
+            )}
+            <button disabled={busy || (source !== 'bibliography' && !query.trim())} className="inline-flex items-center gap-1 px-3 py-1.5 rounded-lg bg-indigo-600 text-white disabled:opacity-50">
+              <FiSearch /> {busy ? 'Importing…' : 'Import records'}
+            </button>
+          </div>
+          {source === 'multisearch' && (
+            <div className="flex flex-wrap gap-1 text-xs">
+              {LIT_SOURCES.map(s => {
+                const on = litSources.includes(s)
+                return (
+                  <button
+                    type="button"
+                    key={s}
+                    onClick={() => setLitSources(prev => on ? prev.filter(x => x !== s) : [...prev, s])}
+                    className={`px-2 py-1 rounded-full border ${on ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : 'text-slate-500'}`}
+                  >
+                    {LIT_SOURCE_LABELS[s]}
+                  </button>
+                )
+              })}
+            </div>
+          )}
+          <p className="text-xs text-slate-500">
+            Database searches always query the source and count as one literature search. Records already in the review are removed as duplicates.
+          </p>
+          {err && <div className="text-red-600 break-words">{err}</div>}
+        </form>
+      )}
+
+      {detail.searches.length ? (
+        <table className="w-full text-sm">
+          <thead className="text-left text-xs text-slate-500">
+            <tr><th className="py-1 pr-2">Date</th><th className="pr-2">Source</th><th className="pr-2">Query</th><th className="pr-2">Identified</th><th className="pr-2">Duplicates</th><th>Added</th></tr>
+          </thead>
+          <tbody className="divide-y">
+            {detail.searches.map(s => (
+              <tr key={s.id} className="align-top">
+                <td className="py-1.5 pr-2 whitespace-nowrap">{new Date(s.ran_at).toLocaleDateString()}</td>
+                <td className="pr-2">{SEARCH_SOURCE_LABELS[s.source]}</td>
+                <td className="pr-2 break-words">{s.query || '—'}</td>
+                <td className="pr-2 text-xs">{Object.entries(s.identified).map(([db, k]) => `${db} ${k}`).join(', ')}</td>
+                <td className="pr-2">{s.duplicates}</td>
+                <td>{s.added}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <p className="text-sm text-slate-500">No searches yet. Import records from PubMed, the other literature sources or the colab bibliography.</p>
+      )}
+    </div>
+  )
+}
+
+function PrismaPanel({ base, detail, index, canWrite, onSynthesized }: {
+  base: string
+  detail: ReviewDetail
+  index: ReviewIndex
+  canWrite: boolean
+  onSynthesized: () => Promise<void>
+}) {
+  const { review } = detail
+  const counts = useMemo(
+    () => prismaCounts(detail.searches, detail.records, index, review.screeners_required),
+    [detail, index, review.screeners_required]
+  )
+  const svg = useMemo(() => prismaSvg(counts, `${review.title} — PRISMA 2020 flow diagram`), [counts, review.title])
+  const [busy, setBusy] = useState(false)
+  const [err, setErr] = useState<string | null>(null)
+  const unfinished = counts.screeningPending + counts.screeningConflicts + counts.eligibilityPending + counts.eligibilityConflicts
+
+  const download = () => {
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }))
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `${review.title.replace(/[^\w-]+/g, '_').slice(0, 60) || 'review'}-prisma.svg`
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const synthesize = async () => {
+    setBusy(true); setErr(null)
+    try {
+      await readJson(await fetch(`${base}/synthesis`, { method: 'POST' }))
+      await onSynthesized()
+    } catch (e: any) {
+      setErr(e.message || 'Could not write the report')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {unfinished > 0 && (
+        <div className="text-sm text-amber-700 flex items-center gap-2">
+          <FiAlertTriangle className="shrink-0" /> {unfinished} record{unfinished === 1 ? '' : 's'} still awaiting screening or conflict resolution; counts will change.
+        </div>
+      )}
+      <div className="overflow-x-auto border rounded-lg bg-white">
+        <img src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`} alt="PRISMA flow diagram" className="max-w-none" />
+      </div>
+      <button onClick={download} className="inline-flex items-center gap-1 px-3 py-1.5 rounded-lg border text-sm"><FiDownload /> Download SVG</button>
+
+      <div className="border-t pt-4">
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+          <h4 className="font-semibold flex items-center gap-2"><FiFileText className="text-slate-500" /> Structured report</h4>
+          {canWrite && (
+            <button onClick={synthesize} disabled={busy || !counts.included} className="px-3 py-1.5 rounded-lg bg-indigo-600 text-white text-sm disabled:opacity-50" title={counts.included ? 'Counts as one analysis' : 'Include studies at full text first'}>
+              {busy ? 'Writing…' : review.synthesis ? 'Rewrite report' : 'Write report'}
+            </button>
+          )}
+        </div>
+        {err && <div className="text-sm text-red-600 break-words mb-2">{err}</div>}
+        {review.synthesis ? (
+          <>
+            <div className="text-xs text-slate-500 mb-2">Written {review.synthesized_at ? new Date(review.synthesized_at).toLocaleString() : ''} from the {counts.included} included stud{counts.included === 1 ? 'y' : 'ies'} at the time</div>
+            <div className="text-sm text-slate-800 whitespace-pre-wrap break-words">{review.synthesis}</div>
+          </>
+        ) : (
+          <p className="text-sm text-slate-500">Once studies are included at full text, write a structured report (objective, methods, study characteristics, findings, risk of bias, conclusions) from them.</p>
+        )}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Systematic reviews of a colab: protocol and criteria, record identification,
+ * blind independent screening at title/abstract and full text, conflict
+ * resolution, and the PRISMA flow diagram with a structured report.
+ */
+export default function SystematicReviewsSection({ colabId, canWrite, userId, people }: {
+  colabId: string
+  canWrite: boolean
+  userId: string | null
+  /** display names by user id, for votes and resolutions */
+  people: Record<string, string>
+}) {
+  const base = `/api/colabs/${colabId}/reviews`
+  const [reviews, setReviews] = useState<SystematicReview[]>([])
+  const [selected, setSelected] = useState<string | null>(null)
+  const [detail, setDetail] = useState<ReviewDetail | null>(null)
+  const [tab, setTab] = useState<Tab>('screening')
+  const [mode, setMode] = useState<'create' | 'edit' | null>(null)
+  const [showDone, setShowDone] = useState(false)
+  const [limit, setLimit] = useState(PAGE)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const loadReviews = useCallback(async () => {
+    try {
+      const data = await readJson(await fetch(base))
+      const list = (data.reviews || []) as SystematicReview[]
+      setReviews(list)
+      setSelected(prev => prev && list.some(r => r.id === prev) ? prev : list[0]?.id || null)
+    } catch (e: any) {
+      setError(e.message || 'Failed to load reviews')
+    }
+  }, [base])
+
+  const loadDetail = useCallback(async (reviewId: string | null = selected) => {
+    if (!reviewId) { setDetail(null); return }
+    try {
+      setDetail(await readJson(await fetch(`${base}/${reviewId}`)))
+      setError(null)
+    } catch (e: any) {
+      setError(e.message || 'Failed to load the review')
+    }
+  }, [base, selected])
+
+  useEffect(() => { loadReviews() }, [loadReviews])
+  // loadDetail changes with the selected review
+  useEffect(() => { loadDetail(); setLimit(PAGE) }, [loadDetail])
+
+  const index = useMemo(() => indexReview(detail?.votes || [], detail?.decisions || []), [detail])
+
+  const create = async (input: ProtocolInput) => {
+    const data = await readJson(await fetch(base, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    }))
+    setReviews(prev => [...prev, data.review])
+    setSelected(data.review.id)
+    setMode(null)
+    setTab('identify')
+  }
+
+  const update = async (input: ProtocolInput) => {
+    if (!detail) return
+    const data = await readJson(await fetch(`${base}/${detail.review.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    }))
+    setReviews(prev => prev.map(r => r.id === data.review.id ? data.review : r))
+    setMode(null)
+    await loadDetail()
+  }
+
+  const remove = async () => {
+    if (!detail || !confirm(`Delete the review "${detail.review.title}" with all its records and votes?`)) return
+    try {
+      await readJson(await fetch(`${base}/${detail.review.id}`, { method: 'DELETE' }))
+      setSelected(null)
+      await loadReviews()
+    } catch (e: any) {
+      setError(e.message || 'Delete failed')
+    }
+  }
+
+  const act = async (fn: () => Promise<unknown>) => {
+    setError(null); setNotice(null)
+    try { await fn(); await loadDetail() } catch (e: any) { setError(e.message || 'Request failed') }
+  }
+
+  const vote = (recordId: string, stage: ReviewStage, decision: VoteDecision, reason?: string) =>
+    act(async () => readJson(await fetch(`${base}/${selected}/records/${recordId}/vote`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ stage, decision, reason }),
+    })))
+
+  const resolve = (recordId: string, stage: ReviewStage, decision: 'include' | 'exclude', reason?: string) =>
+    act(async () => readJson(await fetch(`${base}/${selected}/records/${recordId}/resolve`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ stage, decision, reason }),
+    })))
+
+  const removeRecord = (record: ReviewRecord) =>
+    confirm(`Remove "${record.title}" from the review?`) &&
+    act(async () => readJson(await fetch(`${base}/${selected}/records/${record.id}`, { method: 'DELETE' })))
+
+  const review = detail?.review
+  const required = review?.screeners_required || 1
+  const queue = (stage: ReviewStage) => (detail?.records || []).filter(r => {
+    const status = stageStatus(index, r.id, stage, required)
+    if (status === null) return false
+    const voted = index.votes(r.id, stage).some(v => v.reviewer_id === userId)
+    return showDone ? true : status === 'pending' && !voted
+  })
+  const conflicts = (detail?.records || []).flatMap(r =>
+    (['screening', 'eligibility'] as const)
+      .filter(stage => stageStatus(index, r.id, stage, required) === 'conflict' || (showDone && index.decision(r.id, stage)?.resolved_by))
+      .map(stage => ({ record: r, stage }))
+  )
+  const todo = {
+    screening: detail ? queue('screening').length : 0,
+    eligibility: detail ? queue('eligibility').length : 0,
+    conflicts: conflicts.length,
+  }
+
+  const tabs: { id: Tab; label: string; count?: number }[] = [
+    { id: 'protocol', label: 'Protocol' },
+    { id: 'identify', label: 'Identification', count: detail?.records.length },
+    { id: 'screening', label: 'Title & abstract', count: showDone ? undefined : todo.screening },
+    { id: 'eligibility', label: 'Full text', count: showDone ? undefined : todo.eligibility },
+    { id: 'conflicts', label: 'Conflicts', count: todo.conflicts },
+    { id: 'prisma', label: 'PRISMA' },
+  ]
+
+  return (
+    <section className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-xl font-semibold">Systematic reviews</h2>
+        <div className="flex items-center gap-2">
+          {reviews.length > 0 && (
+            <select value={selected || ''} onChange={e => { setSelected(e.target.value); setMode(null) }} className="border rounded-lg px-2 py-1.5 text-sm max-w-[16rem]">
+              {reviews.map(r => <option key={r.id} value={r.id}>{r.title}</option>)}
+            </select>
+          )}
+          {canWrite && (
+            <button onClick={() => setMode('create')} className="inline-flex items-center gap-1 px-3 py-1.5 rounded-lg bg-indigo-600 text-white text-sm">
+              <FiPlus /> New review
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && <div className="text-sm text-red-600 break-words">{error}</div>}
+      {notice && <div className="text-sm text-green-700 break-words" role="status">{notice}</div>}
+
+      {mode === 'create' && <ProtocolForm submitLabel="Create review" onSubmit={create} onCancel={() => setMode(null)} />}
+
+      {!reviews.length && mode !== 'create' && (
+        <div className="bg-white border rounded-lg p-6 text-sm text-slate-600 flex items-start gap-3">
+          <FiClipboard className="w-5 h-5 text-slate-400 shrink-0" />
+          <p>
+            Plan a systematic review: record your question and eligibility criteria, import records from PubMed and other databases,
+            screen them independently with your team, resolve disagreements and get a PRISMA flow diagram.
+          </p>
+        </div>
+      )}
+
+      {review && detail && mode !== 'create' && (
+        <div className="bg-white border rounded-lg">
+          <div className="border-b px-2 sm:px-4 overflow-x-auto no-scrollbar">
+            <div className="flex gap-1">
+              {tabs.map(t => (
+                <button
+                  key={t.id}
+                  onClick={() => { setTab(t.id); setLimit(PAGE) }}
+                  className={`px-3 py-2.5 text-sm border-b-2 whitespace-nowrap ${tab === t.id ? 'border-blue-600 text-blue-700' : 'border-transparent text-slate-600 hover:text-slate-900'}`}
+                >
+                  {t.label}
+                  {t.count ? <span className="ml-1.5 text-xs px-1.5 py-0.5 rounded-full bg-slate-100 text-slate-600">{t.count}</span> : null}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="p-4 sm:p-5 space-y-4">
+            {tab === 'protocol' && (
+              mode === 'edit'
+                ? <ProtocolForm initial={review} submitLabel="Save protocol" onSubmit={update} onCancel={() => setMode(null)} />
+                : (
+                  <div className="space-y-3">
+                    <div className="flex flex-wrap items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <h3 className="font-semibold break-words">{review.title}</h3>
+                        {review.question && <p className="text-sm text-slate-700 whitespace-pre-wrap break-words">{review.question}</p>}
+                        <p className="text-xs text-slate-500 mt-1">
+                          Each record is screened independently by {review.screeners_required} member{review.screeners_required === 1 ? '' : 's'}; votes stay hidden, and can be changed, until all of them are in.
+                        </p>
+                      </div>
+                      {canWrite && (
+                        <div className="flex gap-2 shrink-0">
+                          <button onClick={() => setMode('edit')} className="inline-flex items-center gap-1 px-2 py-1 rounded border text-sm"><FiEdit2 /> Edit</button>
+                          <button onClick={remove} className="p-1.5 rounded hover:bg-slate-50 text-red-600" title="Delete review"><FiTrash2 /></button>
+                        </div>
+                      )}
+                    </div>
+                    <Criteria review={review} />
+                  </div>
+                )
+            )}
+
+            {tab === 'identify' && (
+              <>
+                <IdentifyPanel
+                  base={`${base}/${review.id}`}
+                  detail={detail}
+                  canWrite={canWrite}
+                  onImported={async msg => { setNotice(msg); await loadDetail() }}
+                />
+                {detail.records.length > 0 && (
+                  <details className="text-sm">
+                    <summary className="cursor-pointer text-slate-600">All records ({detail.records.length})</summary>
+                    <ul className="divide-y mt-2">
+                      {detail.records.slice(0, limit).map(r => (
+                        <li key={r.id} className="py-2 flex items-start justify-between gap-2">
+                          <div className="min-w-0"><RecordMeta record={r} /></div>
+                          {canWrite && <button onClick={() => removeRecord(r)} className="p-1 text-slate-400 hover:text-red-600 shrink-0" title="Remove from review"><FiTrash2 /></button>}
+                        </li>
+                      ))}
+                    </ul>
+                    {detail.records.length > limit && <button onClick={() => setLimit(l => l + PAGE)} className="mt-2 text-xs text-blue-700">Show more</button>}
+                  </details>
+                )}
+              </>
+            )}
+
+            {(tab === 'screening' || tab === 'eligibility') && (() => {
+              const stage = tab
+              const items = queue(stage)
+              return (
+                <>
+                  <Criteria review={review} />
+                  <div className="flex items-center justify-between gap-2 text-sm">
+                    <span className="text-slate-600">
+                      {showDone
+                        ? `${items.length} record${items.length === 1 ? '' : 's'} at this stage`
+                        : items.length ? `${items.length} record${items.length === 1 ? '' : 's'} waiting for your vote` : 'Nothing left for you to screen at this stage.'}
+                    </span>
+                    <label className="inline-flex items-center gap-1 text-xs text-slate-500">
+                      <input type="checkbox" checked={showDone} onChange={e => setShowDone(e.target.checked)} /> Show all (including voted and settled)
+                    </label>
+                  </div>
+                  {stage === 'eligibility' && <p className="text-xs text-slate-500">Read the full text of each record included at title/abstract. Excluding needs a reason; choose “{NOT_RETRIEVED}” when the report could not be obtained.</p>}
+                  <ul className="divide-y">
+                    {items.slice(0, limit).map(r => (
+                      <ScreeningCard
+                        key={`${stage}:${r.id}`}
+                        review={review}
+                        record={r}
+                        stage={stage}
+                        index={index}
+                        userId={userId}
+                        people={people}
+                        canWrite={canWrite}
+                        onVote={(d, reason) => vote(r.id, stage, d, reason)}
+                      />
+                    ))}
+                  </ul>
+                  {items.length > limit && <button onClick={() => setLimit(l => l + PAGE)} className="text-xs text-blue-700">Show more</button>}
+                </>
+              )
+            })()}
+
+            {tab === 'conflicts' && (
+              <>
+                <div className="flex items-center justify-between gap-2 text-sm">
+                  <span className="text-slate-600">{conflicts.length ? 'Records the screeners disagreed on. Discuss, then record the final decision.' : 'No open conflicts.'}</span>
+                  <label className="inline-flex items-center gap-1 text-xs text-slate-500">
+                    <input type="checkbox" checked={showDone} onChange={e => setShowDone(e.target.checked)} /> Include resolved
+                  </label>
+                </div>
+                <ul className="divide-y">
+                  {conflicts.map(({ record, stage }) => (
+                    <ConflictCard
+                      key={`${stage}:${record.id}`}
+                      review={review}
+                      record={record}
+                      stage={stage}
+                      index={index}
+                      people={people}
+                      canWrite={canWrite}
+                      onResolve={(d, reason) => resolve(record.id, stage, d, reason)}
+                    />
+                  ))}
+                </ul>
+              </>
+            )}
+
+            {tab === 'prisma' && (
+              <PrismaPanel
+                base={`${base}/${review.id}`}
+                detail={detail}
+                index={index}
+                canWrite={canWrite}
+                onSynthesized={async () => { await loadDetail(); await loadReviews() }}
+              />
+            )}
+          </div>
+        </div>
+      )}
+    </section>
+  )
+}
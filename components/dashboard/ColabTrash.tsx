@@ -0,0 +1,113 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { FiRotateCcw, FiTrash2, FiX } from 'react-icons/fi'
+import type { TrashedColab } from '../../app/lib/colab-lifecycle'
+
+async function readJson(res: Response) {
+  const data = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(data?.error || `Request failed (${res.status})`)
+  return data
+}
+
+const daysLeft = (purgeAfter: string) => Math.max(0, Math.ceil((new Date(purgeAfter).getTime() - Date.now()) / 86_400_000))
+
+/** Deleted colabs the caller owns, restorable until they are purged. Hidden when empty. */
+export default function ColabTrash({ refreshKey, onRestored }: {
+  /** bump to reload, e.g. after deleting a colab */
+  refreshKey: number
+  onRestored: (colabId: string) => void
+}) {
+  const [colabs, setColabs] = useState<TrashedColab[]>([])
+  const [confirming, setConfirming] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const reload = useCallback(async () => {
+    try {
+      const data = await readJson(await fetch('/api/colabs/trash'))
+      setColabs(data.colabs || [])
+    } catch (e: any) {
+      setError(e.message)
+    }
+  }, [])
+  useEffect(() => { reload() }, [reload, refreshKey])
+
+  const act = async (id: string, request: () => Promise<Response>, after: () => void) => {
+    setBusyId(id); setError(null)
+    try {
+      await readJson(await request())
+      setColabs(prev => prev.filter(c => c.id !== id))
+      after()
+    } catch (e: any) {
+      setError(e.message)
+    } finally {
+      setBusyId(null); setConfirming(null)
+    }
+  }
+
+  const restore = (id: string) =>
+    act(id, () => fetch(`/api/colabs/${id}/restore`, { method: 'POST' }), () => onRestored(id))
+  const purge = (id: string) =>
+    act(id, () => fetch(`/api/colabs/${id}?permanent=1`, { method: 'DELETE' }), () => {})
+
+  if (!colabs.length && !error) return null
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="p-2 bg-gray-100 rounded-lg">
+          <FiTrash2 className="text-gray-600 w-5 h-5" />
+        </div>
+        <div>
+          <h2 className="text-xl font-bold text-gray-900">Trash</h2>
+          <p className="text-gray-500 text-sm">Deleted colabs can be restored until they are removed for good</p>
+        </div>
+      </div>
+
+      {error && <div className="text-sm text-red-600 mb-3 break-words">{error}</div>}
+
+      <ul className="divide-y">
+        {colabs.map(c => (
+          <li key={c.id} className="py-3 flex items-center gap-3">
+            <div className="min-w-0 flex-1">
+              <div className="font-medium text-gray-900 truncate">{c.name}</div>
+              <div className="text-xs text-gray-500">
+                Deleted {new Date(c.deleted_at).toLocaleDateString()} · removed for good in {daysLeft(c.purge_after)} days
+              </div>
+            </div>
+            <button
+              onClick={() => restore(c.id)}
+              disabled={busyId === c.id}
+              className="inline-flex items-center gap-1 px-3 py-1.5 rounded-lg border text-sm hover:bg-gray-50 disabled:opacity-50"
+            >
+              <FiRotateCcw className="w-4 h-4" /> Restore
+            </button>
+            {confirming === c.id ? (
+              <>
+                <button
+                  onClick={() => purge(c.id)}
+                  disabled={busyId === c.id}
+                  className="px-3 py-1.5 rounded-lg bg-red-600 text-white text-sm disabled:opacity-50"
+                >
+                  Delete forever
+                </button>
+                <button onClick={() => setConfirming(null)} className="p-1.5 text-gray-400 hover:text-gray-700" title="Cancel">
+                  <FiX className="w-4 h-4" />
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={() => setConfirming(c.id)}
+                className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg"
+                title="Delete forever"
+              >
+                <FiTrash2 className="w-4 h-4" />
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
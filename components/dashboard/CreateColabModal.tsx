@@ -109,19 +109,25 @@ export default function CreateColabModal({
               />
             </div>
 
-            {/* README */}
-            <div>
-              <label htmlFor="readme" className="block text-sm font-medium text-gray-700 mb-1">
-                README
-              </label>
-              <textarea
-                id="readme"
-                value={readme}
-                onChange={(e) => setReadme(e.target.value)}
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500 min-h-[120px]"
-                placeholder="Detailed information about your research..."
-              />
-            </div>
+            {/* README — once the colab exists it is edited collaboratively on the colab page */}
+            {isEditing ? (
+              <p className="text-sm text-gray-600">
+                Edit the README from the colab&apos;s Overview, where members can work on it together.
+              </p>
+            ) : (
+              <div>
+                <label htmlFor="readme" className="block text-sm font-medium text-gray-700 mb-1">
+                  README
+                </label>
+                <textarea
+                  id="readme"
+                  value={readme}
+                  onChange={(e) => setReadme(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500 min-h-[120px]"
+                  placeholder="Detailed information about your research..."
+                />
+              </div>
+            )}
 
             {/* Visibility */}
             <div className="rounded-lg border border-gray-200 p-3">
@@ -0,0 +1,102 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import Link from 'next/link'
+import { FiBell } from 'react-icons/fi'
+import type { Notification } from '../../app/lib/notifications'
+
+const POLL_MS = 60_000
+
+const timeAgo = (iso: string) => {
+  const mins = Math.round((Date.now() - new Date(iso).getTime()) / 60000)
+  if (mins < 60) return `${Math.max(mins, 1)}m ago`
+  const hours = Math.round(mins / 60)
+  if (hours < 24) return `${hours}h ago`
+  return new Date(iso).toLocaleDateString()
+}
+
+/** Bell with unread count; opening it marks what's shown as read */
+export default function NotificationBell() {
+  const [items, setItems] = useState<Notification[]>([])
+  const [unread, setUnread] = useState(0)
+  const [open, setOpen] = useState(false)
+  const ref = useRef<HTMLDivElement | null>(null)
+
+  const load = async () => {
+    try {
+      const res = await fetch('/api/notifications')
+      if (!res.ok) return
+      const data = await res.json()
+      setItems(data.notifications || [])
+      setUnread(data.unread || 0)
+    } catch { /* offline; try again next poll */ }
+  }
+
+  useEffect(() => {
+    load()
+    const t = setInterval(load, POLL_MS)
+    return () => clearInterval(t)
+  }, [])
+
+  useEffect(() => {
+    if (!open) return
+    const close = (e: MouseEvent) => { if (!ref.current?.contains(e.target as Node)) setOpen(false) }
+    document.addEventListener('mousedown', close)
+    return () => document.removeEventListener('mousedown', close)
+  }, [open])
+
+  const toggle = async () => {
+    const next = !open
+    setOpen(next)
+    if (next && unread) {
+      setUnread(0)
+      const now = new Date().toISOString()
+      setItems(prev => prev.map(n => n.read_at ? n : { ...n, read_at: now }))
+      await fetch('/api/notifications', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ all: true }),
+      }).catch(() => {})
+    }
+  }
+
+  return (
+    <div ref={ref} className="relative">
+      <button onClick={toggle} className="relative p-2 rounded-lg text-slate-600 hover:bg-slate-100" title="Notifications">
+        <FiBell className="w-5 h-5" />
+        {unread > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-red-600 text-white text-[10px] leading-[1.1rem] text-center">
+            {unread > 9 ? '9+' : unread}
+          </span>
+        )}
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 max-w-[90vw] bg-white border rounded-lg shadow-lg z-50">
+          <div className="px-4 py-2 border-b text-sm font-semibold">Notifications</div>
+          {items.length ? (
+            <ul className="max-h-96 overflow-y-auto divide-y">
+              {items.map(n => {
+                const body = (
+                  <>
+                    <div className={`text-sm ${n.read_at ? 'text-slate-700' : 'font-medium text-slate-900'}`}>{n.title}</div>
+                    {n.body && <div className="text-xs text-slate-500 mt-0.5 line-clamp-2 whitespace-pre-line break-words">{n.body}</div>}
+                    <div className="text-[11px] text-slate-400 mt-1">{timeAgo(n.created_at)}</div>
+                  </>
+                )
+                return (
+                  <li key={n.id}>
+                    {n.link
+                      ? <Link href={n.link} onClick={() => setOpen(false)} className="block px-4 py-3 hover:bg-slate-50">{body}</Link>
+                      : <div className="px-4 py-3">{body}</div>}
+                  </li>
+                )
+              })}
+            </ul>
+          ) : (
+            <div className="px-4 py-6 text-sm text-slate-500 text-center">You're all caught up.</div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
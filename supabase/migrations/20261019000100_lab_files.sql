@@ -0,0 +1,97 @@
+-- Versioned file repository for colabs (see app/lib/files/repository.ts)
+
+create table if not exists public.lab_commits (
+  id uuid primary key default gen_random_uuid(),
+  lab_id uuid not null references public.colabs(id) on delete cascade,
+  user_id uuid not null references auth.users(id),
+  message text not null,
+  previous_commit_id uuid references public.lab_commits(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+create index if not exists lab_commits_lab_created_idx on public.lab_commits (lab_id, created_at desc);
+
+-- History is a single line: each commit (and the root, keyed by the nil uuid)
+-- has at most one child, so concurrent commits on the same HEAD cannot fork
+-- it; the loser gets a unique violation and retries on the new HEAD. Labs
+-- that already forked are relinked in commit order so no commit's files drop
+-- out of the tree.
+with forked as (
+  select lab_id from public.lab_commits
+  group by lab_id, previous_commit_id having count(*) > 1
+),
+ordered as (
+  select id, lag(id) over (partition by lab_id order by created_at, id) as prev
+  from public.lab_commits
+  where lab_id in (select lab_id from forked)
+)
+update public.lab_commits c set previous_commit_id = o.prev
+from ordered o
+where c.id = o.id and c.previous_commit_id is distinct from o.prev;
+
+create unique index if not exists lab_commits_single_child_idx on public.lab_commits
+  (lab_id, coalesce(previous_commit_id, '00000000-0000-0000-0000-000000000000'::uuid));
+
+create table if not exists public.lab_files (
+  id uuid primary key default gen_random_uuid(),
+  lab_id uuid not null references public.colabs(id) on delete cascade,
+  commit_id uuid not null references public.lab_commits(id) on delete cascade,
+  name text not null,
+  path text not null,
+  size bigint not null default 0,
+  type text not null default '',
+  storage_key text not null default '',
+  deleted boolean not null default false,
+  uploaded_by uuid not null references auth.users(id),
+  created_at timestamptz not null default now()
+);
+create index if not exists lab_files_lab_path_idx on public.lab_files (lab_id, path);
+create index if not exists lab_files_commit_idx on public.lab_files (commit_id);
+
+-- readers: members of the colab, or anyone signed in when the colab is public
+create or replace function public.can_read_colab(p_colab_id uuid) returns boolean
+language sql stable security definer set search_path = public as $$
+  select exists (
+    select 1 from colabs c
+    where c.id = p_colab_id
+      and (c.is_public or c.owner_id = auth.uid() or exists (
+        select 1 from colab_members m
+        where m.colab_id = c.id and m.user_id = auth.uid() and m.status = 'accepted'
+      ))
+  )
+$$;
+
+-- writers: owner or accepted non-viewer members
+create or replace function public.can_write_colab(p_colab_id uuid) returns boolean
+language sql stable security definer set search_path = public as $$
+  select exists (
+    select 1 from colabs c
+    where c.id = p_colab_id
+      and (c.owner_id = auth.uid() or exists (
+        select 1 from colab_members m
+        where m.colab_id = c.id and m.user_id = auth.uid()
+          and m.status = 'accepted' and m.role <> 'viewer'
+      ))
+  )
+$$;
+
+alter table public.lab_commits enable row level security;
+alter table public.lab_files enable row level security;
+
+create policy "lab_commits read" on public.lab_commits for select using (public.can_read_colab(lab_id));
+create policy "lab_commits insert" on public.lab_commits for insert
+  with check (public.can_write_colab(lab_id) and user_id = auth.uid());
+-- commits are never deleted by clients; a failed commit is rolled back with the service role
+
+create policy "lab_files read" on public.lab_files for select using (public.can_read_colab(lab_id));
+create policy "lab_files insert" on public.lab_files for insert
+  with check (public.can_write_colab(lab_id) and uploaded_by = auth.uid());
+
+-- blobs live in a private bucket keyed "<colab id>/<sha256>"
+insert into storage.buckets (id, name, public) values ('colab-files', 'colab-files', false)
+  on conflict (id) do nothing;
+
+create policy "colab-files read" on storage.objects for select
+  using (bucket_id = 'colab-files' and public.can_read_colab((storage.foldername(name))[1]::uuid));
+create policy "colab-files write" on storage.objects for insert
+  with check (bucket_id = 'colab-files' and public.can_write_colab((storage.foldername(name))[1]::uuid));
+-- no update policy: a blob's key is its hash, so it is never overwritten
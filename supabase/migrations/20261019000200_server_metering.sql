@@ -0,0 +1,53 @@
+-- Server-side plan enforcement (see app/lib/metering.ts)
+
+create unique index if not exists user_usage_monthly_user_period_key
+  on public.user_usage_monthly (user_id, period);
+
+-- Atomically add p_amount to one usage column, refusing to pass p_limit.
+-- Negative amounts refund (clamped at zero). Returns whether the charge
+-- was applied and the resulting value.
+create or replace function public.consume_usage(
+  p_user_id uuid,
+  p_period text,
+  p_column text,
+  p_amount integer,
+  p_limit integer
+) returns table (ok boolean, used integer)
+language plpgsql security definer set search_path = public as $$
+declare
+  v_used integer;
+begin
+  if p_column not in ('ai_messages_used', 'lit_searches_used', 'analyses_used') then
+    raise exception 'unknown usage column %', p_column;
+  end if;
+
+  insert into user_usage_monthly (user_id, period, ai_messages_used, lit_searches_used, analyses_used)
+  values (p_user_id, p_period, 0, 0, 0)
+  on conflict (user_id, period) do nothing;
+
+  execute format(
+    'update user_usage_monthly set %1$I = greatest(0, %1$I + $1)
+      where user_id = $2 and period = $3 and ($1 <= 0 or %1$I + $1 <= $4)
+      returning %1$I', p_column)
+    into v_used
+    using p_amount, p_user_id, p_period, p_limit;
+
+  if v_used is null then
+    execute format('select %I from user_usage_monthly where user_id = $1 and period = $2', p_column)
+      into v_used using p_user_id, p_period;
+    return query select false, coalesce(v_used, 0);
+  else
+    return query select true, v_used;
+  end if;
+end;
+$$;
+
+revoke all on function public.consume_usage(uuid, text, text, integer, integer) from public, anon, authenticated;
+grant execute on function public.consume_usage(uuid, text, text, integer, integer) to service_role;
+
+-- Browsers may read their own usage but no longer write it.
+alter table public.user_usage_monthly enable row level security;
+drop policy if exists "usage read own" on public.user_usage_monthly;
+create policy "usage read own" on public.user_usage_monthly for select using (user_id = auth.uid());
+revoke insert, update, delete on public.user_usage_monthly from anon, authenticated;
+revoke execute on function public.increment_usage(uuid, text, text, integer) from public, anon, authenticated;
@@ -0,0 +1,58 @@
+-- Billing records written only by the webhook route (see app/lib/billing)
+
+create table if not exists public.billing_subscriptions (
+  id text primary key,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  provider text not null,
+  customer_id text not null,
+  tier text not null check (tier in ('pro', 'team')),
+  quantity integer not null default 1 check (quantity > 0),
+  status text not null,
+  current_period_end timestamptz,
+  cancel_at_period_end boolean not null default false,
+  updated_at timestamptz not null default now()
+);
+create index if not exists billing_subscriptions_user_idx on public.billing_subscriptions (user_id, updated_at desc);
+create index if not exists billing_subscriptions_customer_idx on public.billing_subscriptions (customer_id);
+
+create table if not exists public.billing_invoices (
+  id text primary key,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  provider text not null,
+  subscription_id text references public.billing_subscriptions(id) on delete set null,
+  amount integer not null,
+  currency text not null default 'usd',
+  status text not null check (status in ('paid', 'failed')),
+  description text,
+  hosted_url text,
+  period_start timestamptz,
+  period_end timestamptz,
+  created_at timestamptz not null default now()
+);
+create index if not exists billing_invoices_user_idx on public.billing_invoices (user_id, created_at desc);
+
+-- Processed webhook event ids, so provider retries are applied once
+create table if not exists public.billing_events (
+  id text primary key,
+  provider text not null,
+  type text not null,
+  received_at timestamptz not null default now()
+);
+
+alter table public.billing_subscriptions enable row level security;
+alter table public.billing_invoices enable row level security;
+alter table public.billing_events enable row level security;
+
+drop policy if exists "subscriptions read own" on public.billing_subscriptions;
+create policy "subscriptions read own" on public.billing_subscriptions for select using (user_id = auth.uid());
+drop policy if exists "invoices read own" on public.billing_invoices;
+create policy "invoices read own" on public.billing_invoices for select using (user_id = auth.uid());
+
+revoke insert, update, delete on public.billing_subscriptions, public.billing_invoices from anon, authenticated;
+revoke all on public.billing_events from anon, authenticated;
+
+-- Plans change only through billing webhooks now.
+alter table public.user_plans enable row level security;
+drop policy if exists "plans read own" on public.user_plans;
+create policy "plans read own" on public.user_plans for select using (user_id = auth.uid());
+revoke insert, update, delete on public.user_plans from anon, authenticated;
@@ -0,0 +1,145 @@
+-- Organizations: seats, pooled team quota and per-member caps (see app/lib/orgs.ts)
+
+create table if not exists public.organizations (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (char_length(name) between 1 and 120),
+  owner_id uuid not null references auth.users(id) on delete cascade,
+  tier text not null default 'free' check (tier in ('free', 'team')),
+  seats integer not null default 1 check (seats > 0),
+  created_at timestamptz not null default now()
+);
+
+-- A row per seat: invited by email, becomes active once the invitee accepts
+create table if not exists public.organization_members (
+  id uuid primary key default gen_random_uuid(),
+  org_id uuid not null references public.organizations(id) on delete cascade,
+  user_id uuid references auth.users(id) on delete cascade,
+  -- always lowercased, so invitations match the signed-in email exactly
+  email text not null check (email = lower(email)),
+  role text not null default 'member' check (role in ('admin', 'member')),
+  status text not null default 'invited' check (status in ('invited', 'active')),
+  -- optional monthly caps inside the pool, e.g. {"ai_messages": 500}
+  caps jsonb not null default '{}'::jsonb,
+  invited_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  joined_at timestamptz
+);
+create unique index if not exists organization_members_org_email_key on public.organization_members (org_id, lower(email));
+create unique index if not exists organization_members_org_user_key on public.organization_members (org_id, user_id) where user_id is not null;
+create index if not exists organization_members_user_idx on public.organization_members (user_id) where status = 'active';
+
+alter table public.colabs add column if not exists org_id uuid references public.organizations(id) on delete set null;
+create index if not exists colabs_org_idx on public.colabs (org_id) where org_id is not null;
+
+alter table public.billing_subscriptions add column if not exists org_id uuid references public.organizations(id) on delete set null;
+create index if not exists billing_subscriptions_org_idx on public.billing_subscriptions (org_id) where org_id is not null;
+
+create table if not exists public.org_usage_monthly (
+  org_id uuid not null references public.organizations(id) on delete cascade,
+  period text not null,
+  ai_messages_used integer not null default 0,
+  lit_searches_used integer not null default 0,
+  analyses_used integer not null default 0,
+  primary key (org_id, period)
+);
+
+create table if not exists public.org_member_usage_monthly (
+  org_id uuid not null references public.organizations(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  period text not null,
+  ai_messages_used integer not null default 0,
+  lit_searches_used integer not null default 0,
+  analyses_used integer not null default 0,
+  primary key (org_id, user_id, period)
+);
+
+create or replace function public.is_org_member(p_org_id uuid)
+returns boolean language sql stable security definer set search_path = public as $$
+  select exists (
+    select 1 from organization_members
+    where org_id = p_org_id and user_id = auth.uid() and status = 'active'
+  )
+$$;
+
+create or replace function public.is_org_admin(p_org_id uuid)
+returns boolean language sql stable security definer set search_path = public as $$
+  select exists (
+    select 1 from organization_members
+    where org_id = p_org_id and user_id = auth.uid() and status = 'active' and role = 'admin'
+  )
+$$;
+
+-- Charge the org pool and the member's share in one step. Refuses when
+-- either the pool limit or the member cap (null = uncapped) would be passed;
+-- `reason` says which. Negative amounts refund both, clamped at zero.
+create or replace function public.consume_org_usage(
+  p_org_id uuid,
+  p_user_id uuid,
+  p_period text,
+  p_column text,
+  p_amount integer,
+  p_pool_limit integer,
+  p_member_cap integer
+) returns table (ok boolean, pool_used integer, member_used integer, reason text)
+language plpgsql security definer set search_path = public as $$
+declare
+  v_pool integer;
+  v_member integer;
+begin
+  if p_column not in ('ai_messages_used', 'lit_searches_used', 'analyses_used') then
+    raise exception 'unknown usage column %', p_column;
+  end if;
+
+  insert into org_usage_monthly (org_id, period) values (p_org_id, p_period)
+  on conflict (org_id, period) do nothing;
+  insert into org_member_usage_monthly (org_id, user_id, period) values (p_org_id, p_user_id, p_period)
+  on conflict (org_id, user_id, period) do nothing;
+
+  execute format('select %I from org_usage_monthly where org_id = $1 and period = $2 for update', p_column)
+    into v_pool using p_org_id, p_period;
+  execute format('select %I from org_member_usage_monthly where org_id = $1 and user_id = $2 and period = $3 for update', p_column)
+    into v_member using p_org_id, p_user_id, p_period;
+
+  if p_amount > 0 and v_pool + p_amount > p_pool_limit then
+    return query select false, v_pool, v_member, 'pool'::text;
+    return;
+  end if;
+  if p_amount > 0 and p_member_cap is not null and v_member + p_amount > p_member_cap then
+    return query select false, v_pool, v_member, 'member'::text;
+    return;
+  end if;
+
+  execute format('update org_usage_monthly set %1$I = greatest(0, %1$I + $1) where org_id = $2 and period = $3 returning %1$I', p_column)
+    into v_pool using p_amount, p_org_id, p_period;
+  execute format('update org_member_usage_monthly set %1$I = greatest(0, %1$I + $1) where org_id = $2 and user_id = $3 and period = $4 returning %1$I', p_column)
+    into v_member using p_amount, p_org_id, p_user_id, p_period;
+
+  return query select true, v_pool, v_member, null::text;
+end;
+$$;
+
+revoke all on function public.consume_org_usage(uuid, uuid, text, text, integer, integer, integer) from public, anon, authenticated;
+grant execute on function public.consume_org_usage(uuid, uuid, text, text, integer, integer, integer) to service_role;
+
+-- Clients read; every write goes through /api/orgs with the service role.
+alter table public.organizations enable row level security;
+alter table public.organization_members enable row level security;
+alter table public.org_usage_monthly enable row level security;
+alter table public.org_member_usage_monthly enable row level security;
+
+drop policy if exists "orgs read members" on public.organizations;
+create policy "orgs read members" on public.organizations for select using (public.is_org_member(id));
+
+drop policy if exists "org members read" on public.organization_members;
+create policy "org members read" on public.organization_members for select
+  using (public.is_org_member(org_id) or user_id = auth.uid() or lower(email) = lower(auth.jwt() ->> 'email'));
+
+drop policy if exists "org usage read members" on public.org_usage_monthly;
+create policy "org usage read members" on public.org_usage_monthly for select using (public.is_org_member(org_id));
+
+drop policy if exists "org member usage read" on public.org_member_usage_monthly;
+create policy "org member usage read" on public.org_member_usage_monthly for select
+  using (user_id = auth.uid() or public.is_org_admin(org_id));
+
+revoke insert, update, delete on public.organizations, public.organization_members,
+  public.org_usage_monthly, public.org_member_usage_monthly from anon, authenticated;
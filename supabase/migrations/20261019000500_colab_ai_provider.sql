@@ -0,0 +1,3 @@
+-- Per-colab LLM provider override (see app/lib/llm). Null = LLM_PROVIDER default.
+alter table public.colabs add column if not exists ai_provider text
+  check (ai_provider is null or ai_provider in ('gemini', 'openai', 'mock'));
@@ -0,0 +1,59 @@
+-- Paper citations on research notes plus the per-colab bibliography (see app/lib/citations)
+
+create table if not exists public.colab_references (
+  id uuid primary key default gen_random_uuid(),
+  colab_id uuid not null references public.colabs(id) on delete cascade,
+  kind text not null check (kind in ('pmid', 'doi', 'arxiv')),
+  identifier text not null,
+  title text not null default '',
+  authors text[] not null default '{}',
+  journal text,
+  year int,
+  doi text,
+  url text,
+  abstract text,
+  added_by uuid not null references auth.users(id),
+  created_at timestamptz not null default now(),
+  unique (colab_id, kind, identifier)
+);
+create index if not exists colab_references_colab_idx on public.colab_references (colab_id, created_at desc);
+
+create table if not exists public.note_citations (
+  note_id uuid not null references public.research_notes(id) on delete cascade,
+  reference_id uuid not null references public.colab_references(id) on delete cascade,
+  colab_id uuid not null references public.colabs(id) on delete cascade,
+  created_by uuid not null references auth.users(id),
+  created_at timestamptz not null default now(),
+  primary key (note_id, reference_id)
+);
+create index if not exists note_citations_colab_idx on public.note_citations (colab_id);
+create index if not exists note_citations_reference_idx on public.note_citations (reference_id);
+
+-- citing a note: its author, or anyone who can write to the colab
+create or replace function public.can_cite_note(p_note_id uuid) returns boolean
+language sql stable security definer set search_path = public as $$
+  select exists (
+    select 1 from research_notes n
+    where n.id = p_note_id
+      and (n.user_id = auth.uid() or public.can_write_colab(n.colab_id))
+  )
+$$;
+
+alter table public.colab_references enable row level security;
+alter table public.note_citations enable row level security;
+
+create policy "colab_references read" on public.colab_references for select using (public.can_read_colab(colab_id));
+-- readers may add works because anyone who can post a note on a public colab can cite from it
+create policy "colab_references insert" on public.colab_references for insert
+  with check (public.can_read_colab(colab_id) and added_by = auth.uid());
+create policy "colab_references delete" on public.colab_references for delete using (public.can_write_colab(colab_id));
+
+create policy "note_citations read" on public.note_citations for select using (public.can_read_colab(colab_id));
+create policy "note_citations insert" on public.note_citations for insert
+  with check (
+    created_by = auth.uid()
+    and public.can_cite_note(note_id)
+    and exists (select 1 from research_notes n where n.id = note_id and n.colab_id = note_citations.colab_id)
+    and exists (select 1 from colab_references r where r.id = reference_id and r.colab_id = note_citations.colab_id)
+  );
+create policy "note_citations delete" on public.note_citations for delete using (public.can_cite_note(note_id));
@@ -0,0 +1,70 @@
+-- Saved literature searches with scheduled reruns, plus in-app notifications
+-- (see app/lib/saved-searches.ts and app/lib/notifications.ts)
+
+create table if not exists public.saved_searches (
+  id uuid primary key default gen_random_uuid(),
+  colab_id uuid not null references public.colabs(id) on delete cascade,
+  created_by uuid not null references auth.users(id),
+  name text not null,
+  source text not null check (source in ('multisearch', 'pubmed')),
+  query text not null,
+  schedule text not null default 'weekly' check (schedule in ('off', 'daily', 'weekly')),
+  -- normalized result keys (doi:/arxiv:/pmid:/t:) returned by any earlier run
+  seen_keys text[] not null default '{}',
+  last_run_at timestamptz,
+  next_run_at timestamptz,
+  last_error text,
+  created_at timestamptz not null default now()
+);
+create index if not exists saved_searches_colab_idx on public.saved_searches (colab_id, created_at);
+create index if not exists saved_searches_due_idx on public.saved_searches (next_run_at) where schedule <> 'off';
+
+create table if not exists public.saved_search_runs (
+  id uuid primary key default gen_random_uuid(),
+  search_id uuid not null references public.saved_searches(id) on delete cascade,
+  colab_id uuid not null references public.colabs(id) on delete cascade,
+  trigger text not null check (trigger in ('manual', 'schedule')),
+  -- the first run only records a baseline; later runs list what was not seen before
+  baseline boolean not null default false,
+  result_count int not null default 0,
+  new_hits jsonb not null default '[]',
+  ran_at timestamptz not null default now()
+);
+create index if not exists saved_search_runs_search_idx on public.saved_search_runs (search_id, ran_at desc);
+create index if not exists saved_search_runs_colab_idx on public.saved_search_runs (colab_id, ran_at desc);
+
+create table if not exists public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  colab_id uuid references public.colabs(id) on delete cascade,
+  kind text not null,
+  title text not null,
+  body text not null default '',
+  link text,
+  data jsonb not null default '{}',
+  read_at timestamptz,
+  created_at timestamptz not null default now()
+);
+create index if not exists notifications_user_idx on public.notifications (user_id, created_at desc);
+
+alter table public.saved_searches enable row level security;
+alter table public.saved_search_runs enable row level security;
+alter table public.notifications enable row level security;
+
+create policy "saved_searches read" on public.saved_searches for select using (public.can_read_colab(colab_id));
+create policy "saved_searches insert" on public.saved_searches for insert
+  with check (public.can_write_colab(colab_id) and created_by = auth.uid());
+create policy "saved_searches update" on public.saved_searches for update
+  using (public.can_write_colab(colab_id)) with check (public.can_write_colab(colab_id));
+create policy "saved_searches delete" on public.saved_searches for delete using (public.can_write_colab(colab_id));
+-- members may rename or reschedule; run bookkeeping is written by the server (service role) only
+revoke update on public.saved_searches from anon, authenticated;
+grant update (name, schedule, next_run_at) on public.saved_searches to authenticated;
+
+create policy "saved_search_runs read" on public.saved_search_runs for select using (public.can_read_colab(colab_id));
+
+create policy "notifications read own" on public.notifications for select using (user_id = auth.uid());
+create policy "notifications update own" on public.notifications for update
+  using (user_id = auth.uid()) with check (user_id = auth.uid());
+revoke update on public.notifications from anon, authenticated;
+grant update (read_at) on public.notifications to authenticated;
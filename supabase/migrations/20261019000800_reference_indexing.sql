@@ -0,0 +1,9 @@
+-- MEDLINE indexing on bibliography entries, so works can be filtered and
+-- grouped by MeSH heading (filled in when a PMID is looked up)
+
+alter table public.colab_references
+  add column if not exists mesh_terms text[] not null default '{}',
+  add column if not exists keywords text[] not null default '{}',
+  add column if not exists publication_types text[] not null default '{}';
+
+create index if not exists colab_references_mesh_idx on public.colab_references using gin (mesh_terms);
@@ -0,0 +1,15 @@
+-- Shared response cache for external literature APIs (see app/lib/literature/cache.ts).
+-- Only the server touches it, with the service-role client.
+
+create table if not exists public.lit_cache (
+  key text primary key,            -- provider:sha256(normalized request)
+  provider text not null,
+  value jsonb not null,
+  stored_at timestamptz not null default now(),
+  fresh_until timestamptz not null,
+  stale_until timestamptz not null
+);
+create index if not exists lit_cache_expiry_idx on public.lit_cache (stale_until);
+
+alter table public.lit_cache enable row level security;
+revoke all on public.lit_cache from anon, authenticated;
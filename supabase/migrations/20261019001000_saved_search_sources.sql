@@ -0,0 +1,3 @@
+-- Source toggles for multi-source saved searches (null = every source)
+alter table public.saved_searches
+  add column if not exists lit_sources text[];
@@ -0,0 +1,145 @@
+-- Systematic reviews with PRISMA-style screening (see app/lib/reviews)
+--
+-- A review records its question and eligibility criteria; searches import
+-- records (deduplicated within the review); members vote on each record at
+-- the title/abstract ("screening") and full-text ("eligibility") stages.
+-- Unanimous votes settle a stage; disagreements are conflicts that a member
+-- resolves. Votes are blind: another member's vote is only readable once the
+-- stage has all its votes or is decided, and from then on votes are final.
+
+create table if not exists public.systematic_reviews (
+  id uuid primary key default gen_random_uuid(),
+  colab_id uuid not null references public.colabs(id) on delete cascade,
+  created_by uuid not null references auth.users(id),
+  title text not null,
+  question text not null default '',
+  inclusion_criteria text[] not null default '{}',
+  exclusion_criteria text[] not null default '{}',
+  -- independent votes needed before a record's stage can settle
+  screeners_required int not null default 2 check (screeners_required between 1 and 5),
+  synthesis text,
+  synthesized_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+create index if not exists systematic_reviews_colab_idx on public.systematic_reviews (colab_id, created_at);
+
+-- one row per search or import: the identification box of the flow diagram
+create table if not exists public.review_searches (
+  id uuid primary key default gen_random_uuid(),
+  review_id uuid not null references public.systematic_reviews(id) on delete cascade,
+  colab_id uuid not null references public.colabs(id) on delete cascade,
+  source text not null check (source in ('pubmed', 'multisearch', 'bibliography')),
+  query text not null default '',
+  -- records returned per database, before any deduplication
+  identified jsonb not null default '{}',
+  duplicates int not null default 0,
+  added int not null default 0,
+  run_by uuid not null references auth.users(id),
+  ran_at timestamptz not null default now()
+);
+create index if not exists review_searches_review_idx on public.review_searches (review_id, ran_at);
+
+create table if not exists public.review_records (
+  id uuid primary key default gen_random_uuid(),
+  review_id uuid not null references public.systematic_reviews(id) on delete cascade,
+  colab_id uuid not null references public.colabs(id) on delete cascade,
+  search_id uuid references public.review_searches(id) on delete set null,
+  -- doi:/pmid:/arxiv:/t: keys; a new record matching any of them is a duplicate
+  dedupe_keys text[] not null default '{}',
+  title text not null,
+  authors text[] not null default '{}',
+  journal text,
+  year int,
+  abstract text,
+  doi text,
+  pmid text,
+  url text,
+  source text not null,
+  created_at timestamptz not null default now()
+);
+create index if not exists review_records_review_idx on public.review_records (review_id, created_at);
+create index if not exists review_records_keys_idx on public.review_records using gin (dedupe_keys);
+
+create table if not exists public.review_votes (
+  record_id uuid not null references public.review_records(id) on delete cascade,
+  stage text not null check (stage in ('screening', 'eligibility')),
+  reviewer_id uuid not null references auth.users(id) on delete cascade,
+  review_id uuid not null references public.systematic_reviews(id) on delete cascade,
+  colab_id uuid not null references public.colabs(id) on delete cascade,
+  decision text not null check (decision in ('include', 'exclude', 'maybe')),
+  reason text,
+  updated_at timestamptz not null default now(),
+  primary key (record_id, stage, reviewer_id)
+);
+create index if not exists review_votes_review_idx on public.review_votes (review_id, stage);
+
+-- the settled outcome of a stage: by consensus (resolved_by null) or by a member resolving a conflict
+create table if not exists public.review_decisions (
+  record_id uuid not null references public.review_records(id) on delete cascade,
+  stage text not null check (stage in ('screening', 'eligibility')),
+  review_id uuid not null references public.systematic_reviews(id) on delete cascade,
+  colab_id uuid not null references public.colabs(id) on delete cascade,
+  decision text not null check (decision in ('include', 'exclude')),
+  reason text,
+  resolved_by uuid references auth.users(id),
+  decided_at timestamptz not null default now(),
+  primary key (record_id, stage)
+);
+create index if not exists review_decisions_review_idx on public.review_decisions (review_id, stage);
+
+-- another member's vote becomes readable once the stage has all its votes or
+-- is settled; voting first reveals nothing, so early voters cannot converge
+create or replace function public.review_vote_visible(p_record_id uuid, p_stage text) returns boolean
+language sql stable security definer set search_path = public as $$
+  select exists (select 1 from review_decisions d where d.record_id = p_record_id and d.stage = p_stage)
+    or (select count(*) from review_votes v where v.record_id = p_record_id and v.stage = p_stage)
+      >= (
+        select r.screeners_required from systematic_reviews r
+        join review_records rr on rr.review_id = r.id
+        where rr.id = p_record_id
+      )
+$$;
+
+alter table public.systematic_reviews enable row level security;
+alter table public.review_searches enable row level security;
+alter table public.review_records enable row level security;
+alter table public.review_votes enable row level security;
+alter table public.review_decisions enable row level security;
+
+create policy "systematic_reviews read" on public.systematic_reviews for select using (public.can_read_colab(colab_id));
+create policy "systematic_reviews insert" on public.systematic_reviews for insert
+  with check (public.can_write_colab(colab_id) and created_by = auth.uid());
+create policy "systematic_reviews update" on public.systematic_reviews for update
+  using (public.can_write_colab(colab_id)) with check (public.can_write_colab(colab_id));
+create policy "systematic_reviews delete" on public.systematic_reviews for delete using (public.can_write_colab(colab_id));
+-- members edit the protocol; the synthesis is written by the server (service role)
+revoke update on public.systematic_reviews from anon, authenticated;
+grant update (title, question, inclusion_criteria, exclusion_criteria, screeners_required, updated_at)
+  on public.systematic_reviews to authenticated;
+
+-- searches, records and decisions are written by the server after its access checks
+create policy "review_searches read" on public.review_searches for select using (public.can_read_colab(colab_id));
+create policy "review_records read" on public.review_records for select using (public.can_read_colab(colab_id));
+create policy "review_records delete" on public.review_records for delete using (public.can_write_colab(colab_id));
+create policy "review_decisions read" on public.review_decisions for select using (public.can_read_colab(colab_id));
+
+create policy "review_votes read" on public.review_votes for select
+  using (public.can_read_colab(colab_id) and (reviewer_id = auth.uid() or public.review_vote_visible(record_id, stage)));
+create policy "review_votes insert own" on public.review_votes for insert
+  with check (
+    reviewer_id = auth.uid()
+    and public.can_write_colab(colab_id)
+    and exists (
+      select 1 from review_records r
+      where r.id = record_id and r.review_id = review_votes.review_id and r.colab_id = review_votes.colab_id
+    )
+  );
+-- a vote can change until the votes are revealed, not after
+create policy "review_votes update own" on public.review_votes for update
+  using (reviewer_id = auth.uid() and public.can_write_colab(colab_id) and not public.review_vote_visible(record_id, stage))
+  with check (reviewer_id = auth.uid() and public.can_write_colab(colab_id));
+create policy "review_votes delete own" on public.review_votes for delete
+  using (reviewer_id = auth.uid() and public.can_write_colab(colab_id) and not public.review_vote_visible(record_id, stage));
+revoke update on public.review_votes from anon, authenticated;
+grant update (decision, reason, updated_at) on public.review_votes to authenticated;
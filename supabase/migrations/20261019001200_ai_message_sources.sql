@@ -0,0 +1,4 @@
+-- Papers a grounded copilot answer was given, numbered as it cites them ([n]).
+-- Null for ordinary answers; the client re-derives citation links from it.
+alter table public.ai_messages
+  add column if not exists sources jsonb;
@@ -0,0 +1,78 @@
+-- Per-colab search index over notes, the README, the bibliography and copilot
+-- memories (see app/lib/search). Rows are derived data: the server rebuilds
+-- them from the source tables with the service-role client, so members get no
+-- direct access.
+
+create extension if not exists vector with schema extensions;
+
+create table if not exists public.search_chunks (
+  id uuid primary key default gen_random_uuid(),
+  colab_id uuid not null references public.colabs(id) on delete cascade,
+  kind text not null check (kind in ('note', 'readme', 'reference', 'memory')),
+  source_id text not null,          -- note / reference id, 'readme', or user_id:type for memories
+  chunk int not null,
+  -- memories are private to their user; null = visible to every reader of the colab
+  owner_id uuid references auth.users(id) on delete cascade,
+  title text not null default '',
+  content text not null,
+  content_hash text not null,       -- sha256 of model + title + content; unchanged chunks are not re-embedded
+  model text not null,
+  embedding extensions.vector(768) not null,
+  tsv tsvector generated always as (to_tsvector('english', title || ' ' || content)) stored,
+  indexed_at timestamptz not null default now(),
+  unique (colab_id, kind, source_id, chunk)
+);
+create index if not exists search_chunks_tsv_idx on public.search_chunks using gin (tsv);
+create index if not exists search_chunks_embedding_idx on public.search_chunks
+  using hnsw (embedding extensions.vector_cosine_ops);
+
+alter table public.search_chunks enable row level security;
+revoke all on public.search_chunks from anon, authenticated;
+
+-- Top `p_limit` chunks by vector distance (same model only; skipped when
+-- p_embedding is null) and by full-text rank, each with its 1-based position
+-- in both lists. The caller fuses the two rankings.
+create or replace function public.search_colab_chunks(
+  p_colab_id uuid,
+  p_user_id uuid,
+  p_query text,
+  p_model text,
+  p_embedding extensions.vector(768),
+  p_kinds text[] default null,
+  p_limit int default 30
+) returns table (
+  id uuid, kind text, source_id text, chunk int, title text, content text,
+  similarity float, keyword_rank float, vector_pos int, keyword_pos int
+)
+language sql stable set search_path = public, extensions as $$
+  with visible as (
+    select c.* from search_chunks c
+    where c.colab_id = p_colab_id
+      and (c.owner_id is null or c.owner_id = p_user_id)
+      and (p_kinds is null or c.kind = any(p_kinds))
+  ),
+  vec as (
+    select v.id, 1 - (v.embedding <=> p_embedding) as similarity,
+           row_number() over (order by v.embedding <=> p_embedding)::int as pos
+    from visible v
+    where p_embedding is not null and v.model = p_model
+    order by v.embedding <=> p_embedding
+    limit p_limit
+  ),
+  kw as (
+    select v.id, ts_rank_cd(v.tsv, q) as rank,
+           row_number() over (order by ts_rank_cd(v.tsv, q) desc)::int as pos
+    from visible v, websearch_to_tsquery('english', p_query) q
+    where v.tsv @@ q
+    order by rank desc
+    limit p_limit
+  )
+  select v.id, v.kind, v.source_id, v.chunk, v.title, v.content,
+         vec.similarity, kw.rank, vec.pos, kw.pos
+  from visible v
+  left join vec on vec.id = v.id
+  left join kw on kw.id = v.id
+  where vec.id is not null or kw.id is not null
+$$;
+
+revoke all on function public.search_colab_chunks(uuid, uuid, text, text, extensions.vector, text[], int) from public, anon, authenticated;
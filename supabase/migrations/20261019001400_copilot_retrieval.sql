@@ -0,0 +1,13 @@
+-- Copilot retrieval (see app/lib/search/context.ts): files join the search
+-- index, and each answer records the colab sources it was given.
+
+alter table public.search_chunks drop constraint if exists search_chunks_kind_check;
+alter table public.search_chunks add constraint search_chunks_kind_check
+  check (kind in ('note', 'readme', 'file', 'reference', 'memory'));
+
+-- storage key of the indexed file version; lets a sync skip unchanged files
+alter table public.search_chunks
+  add column if not exists source_version text;
+
+alter table public.ai_messages
+  add column if not exists context jsonb;
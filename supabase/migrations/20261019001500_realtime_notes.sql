@@ -0,0 +1,39 @@
+-- Live peer-review threads (see components/colab/Realtime.tsx): stream
+-- research_notes changes to subscribed clients. Realtime applies the table's
+-- RLS, so members only receive notes of colabs they can read.
+do $$
+begin
+  alter publication supabase_realtime add table public.research_notes;
+exception
+  when duplicate_object then null;  -- already published
+  when undefined_object then null;  -- no realtime publication (plain Postgres); clients fall back to polling
+end $$;
+
+-- The colab:<id> channel (presence and typing) is private: Realtime lets a
+-- client join, listen or send only when these realtime.messages policies
+-- pass, so only people who can read the colab see who has it open.
+
+-- the colab id of a `<prefix>:<uuid>` channel topic, or null for any other topic
+create or replace function public.realtime_topic_colab(p_prefix text) returns uuid
+language plpgsql stable as $$
+declare
+  v_topic text := realtime.topic();
+begin
+  if v_topic is null or left(v_topic, length(p_prefix) + 1) <> p_prefix || ':' then return null; end if;
+  return substr(v_topic, length(p_prefix) + 2)::uuid;
+exception
+  when invalid_text_representation then return null;
+end;
+$$;
+
+do $$
+begin
+  drop policy if exists "colab channel receive" on realtime.messages;
+  create policy "colab channel receive" on realtime.messages for select to authenticated
+    using (extension in ('presence', 'broadcast') and public.can_read_colab(public.realtime_topic_colab('colab')));
+  drop policy if exists "colab channel send" on realtime.messages;
+  create policy "colab channel send" on realtime.messages for insert to authenticated
+    with check (extension = 'presence' and public.can_read_colab(public.realtime_topic_colab('colab')));
+exception
+  when undefined_table or invalid_schema_name then null;  -- no Realtime (plain Postgres)
+end $$;
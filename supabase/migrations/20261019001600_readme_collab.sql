@@ -0,0 +1,55 @@
+-- Collaborative README editing (see app/lib/readme/repository.ts): the shared
+-- Yjs document behind colabs.readme, and named revisions that can be restored.
+
+create table if not exists public.colab_readme_state (
+  colab_id uuid primary key references public.colabs(id) on delete cascade,
+  -- base64 Yjs update holding the whole document; colabs.readme is its text
+  state text not null,
+  updated_by uuid references auth.users(id) on delete set null,
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.readme_revisions (
+  id uuid primary key default gen_random_uuid(),
+  colab_id uuid not null references public.colabs(id) on delete cascade,
+  content text not null,
+  message text not null default '',
+  -- set when the revision records a restore of an older one
+  restored_from uuid references public.readme_revisions(id) on delete set null,
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+create index if not exists readme_revisions_colab_idx on public.readme_revisions (colab_id, created_at desc);
+
+alter table public.colab_readme_state enable row level security;
+alter table public.readme_revisions enable row level security;
+
+-- members read; writes go through /api/colabs/[id]/readme (service role) so merges stay serialized
+create policy "colab_readme_state read" on public.colab_readme_state for select using (public.can_read_colab(colab_id));
+create policy "readme_revisions read" on public.readme_revisions for select using (public.can_read_colab(colab_id));
+
+-- Store a merged document and its text together. Returns the new updated_at,
+-- or null when the state changed since `p_expected` (null = no state yet) so
+-- the caller re-merges and retries.
+create or replace function public.save_readme_state(
+  p_colab_id uuid, p_state text, p_text text, p_user_id uuid, p_expected timestamptz
+) returns timestamptz
+language plpgsql set search_path = public as $$
+declare
+  v_at timestamptz := clock_timestamp();
+begin
+  if p_expected is null then
+    insert into public.colab_readme_state (colab_id, state, updated_by, updated_at)
+    values (p_colab_id, p_state, p_user_id, v_at)
+    on conflict (colab_id) do nothing;
+  else
+    update public.colab_readme_state
+       set state = p_state, updated_by = p_user_id, updated_at = v_at
+     where colab_id = p_colab_id and updated_at = p_expected;
+  end if;
+  if not found then return null; end if;
+  update public.colabs set readme = p_text where id = p_colab_id;
+  return v_at;
+end;
+$$;
+revoke all on function public.save_readme_state(uuid, text, text, uuid, timestamptz) from public, anon, authenticated;
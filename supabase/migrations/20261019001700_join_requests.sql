@@ -0,0 +1,50 @@
+-- Join requests (see app/lib/join-requests.ts): people ask to join a public
+-- colab, owners and moderators approve or decline. A request is a
+-- `colab_members` row with status 'pending'; the decision flips it to
+-- 'accepted' or 'declined'.
+
+alter table public.colabs
+  add column if not exists allow_join_requests boolean not null default true;
+
+alter table public.colab_members
+  add column if not exists request_message text,
+  add column if not exists requested_at timestamptz,
+  add column if not exists decision_message text,
+  add column if not exists decided_by uuid references auth.users(id) on delete set null,
+  add column if not exists decided_at timestamptz;
+
+create index if not exists colab_members_pending_idx on public.colab_members (colab_id, requested_at)
+  where status = 'pending';
+
+-- Clients may not accept themselves into someone else's colab, nor pick
+-- their own role in it (requests and decisions go through
+-- /api/colabs/[id]/join-requests with the service role, where auth.uid() is
+-- null): a row they insert for themselves gets the default 'member' role, and
+-- they cannot change the role of their own row. Owners adding their own
+-- membership row are fine.
+create or replace function public.guard_self_acceptance() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  if auth.uid() is null
+     or new.user_id is distinct from auth.uid()
+     or exists (select 1 from public.colabs c where c.id = new.colab_id and c.owner_id = auth.uid())
+  then
+    return new;
+  end if;
+
+  if new.status = 'accepted' and (tg_op = 'INSERT' or old.status is distinct from 'accepted') then
+    raise exception 'Ask to join this colab; an owner or moderator has to approve the request';
+  end if;
+  if tg_op = 'INSERT' then
+    new.role := 'member';
+  elsif new.role is distinct from old.role then
+    raise exception 'Only someone who manages members can change your role';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists colab_members_guard_self_acceptance on public.colab_members;
+create trigger colab_members_guard_self_acceptance
+  before insert or update on public.colab_members
+  for each row execute function public.guard_self_acceptance();
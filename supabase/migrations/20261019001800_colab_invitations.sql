@@ -0,0 +1,27 @@
+-- Invitations into a colab (see app/lib/invitations.ts). Each row is one
+-- single-use token, either addressed to an email or shared as a link; only
+-- its sha256 is stored. Accepting it creates an accepted `colab_members` row
+-- with the preset role.
+
+create table if not exists public.colab_invitations (
+  id uuid primary key default gen_random_uuid(),
+  colab_id uuid not null references public.colabs(id) on delete cascade,
+  token_hash text not null unique,
+  -- null for link invitations, which anyone holding the link may accept
+  email text,
+  role text not null check (role in ('maintainer', 'contributor', 'viewer')),
+  -- whether the email went out; false when no mail provider is configured
+  emailed boolean not null default false,
+  invited_by uuid references auth.users(id) on delete set null,
+  expires_at timestamptz not null,
+  accepted_by uuid references auth.users(id) on delete set null,
+  accepted_at timestamptz,
+  revoked_by uuid references auth.users(id) on delete set null,
+  revoked_at timestamptz,
+  created_at timestamptz not null default now()
+);
+create index if not exists colab_invitations_colab_idx on public.colab_invitations (colab_id, created_at desc);
+
+alter table public.colab_invitations enable row level security;
+-- token hashes stay server-side; /api/colabs/[id]/invitations lists them for owners and moderators
+revoke all on public.colab_invitations from anon, authenticated;
@@ -0,0 +1,134 @@
+-- Colab permissions (see app/lib/permissions.ts): a member's role grants a
+-- default set of permissions and the owner may override them per role in
+-- `colabs.permission_overrides` ({ "<role>": { "<permission>": bool } }).
+-- `colab_can` is the SQL side of `permissionsFor`; file uploads and notes are
+-- enforced here, the README, members and copilot in the API routes. Deleting
+-- a colab stays with the owner through the existing colabs policies.
+
+alter table public.colabs
+  add column if not exists permission_overrides jsonb not null default '{}'::jsonb;
+
+-- Ownership is colabs.owner_id alone: a member row never says 'owner'. The
+-- creator's own row becomes a maintainer row, and any other row claiming
+-- ownership is cut to a viewer.
+update public.colab_members m
+set role = case when c.owner_id = m.user_id then 'maintainer' else 'viewer' end
+from public.colabs c
+where c.id = m.colab_id and m.role = 'owner';
+
+alter table public.colab_members drop constraint if exists colab_members_role_check;
+alter table public.colab_members add constraint colab_members_role_check
+  check (role in ('maintainer', 'contributor', 'viewer', 'moderator', 'member'));
+
+-- Roles are the owner's to change (the service role, where auth.uid() is
+-- null, acts for whoever the API route authorised).
+create or replace function public.guard_member_role() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  if auth.uid() is not null
+     and new.role is distinct from old.role
+     and not exists (select 1 from public.colabs c where c.id = new.colab_id and c.owner_id = auth.uid())
+  then
+    raise exception 'Only the owner can change member roles';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists colab_members_guard_role on public.colab_members;
+create trigger colab_members_guard_role
+  before update of role on public.colab_members
+  for each row execute function public.guard_member_role();
+
+-- legacy rows say moderator/member; null when not an accepted member
+create or replace function public.colab_role(p_colab_id uuid, p_user_id uuid) returns text
+language sql stable security definer set search_path = public as $$
+  select case
+    when c.owner_id = p_user_id then 'owner'
+    when m.role = 'owner' then null
+    when m.role = 'moderator' then 'maintainer'
+    when m.role = 'member' then 'contributor'
+    else m.role
+  end
+  from colabs c
+  left join colab_members m on m.colab_id = c.id and m.user_id = p_user_id and m.status = 'accepted'
+  where c.id = p_colab_id
+$$;
+
+-- keep in step with DEFAULT_MATRIX
+create or replace function public.colab_default_can(p_role text, p_perm text) returns boolean
+language sql immutable as $$
+  select case p_role
+    when 'owner' then true
+    when 'maintainer' then p_perm in ('readme.edit', 'notes.create', 'notes.moderate', 'members.manage', 'copilot.use', 'files.upload')
+    when 'contributor' then p_perm in ('readme.edit', 'notes.create', 'copilot.use', 'files.upload')
+    else false
+  end
+$$;
+
+create or replace function public.colab_can(p_colab_id uuid, p_perm text) returns boolean
+language plpgsql stable security definer set search_path = public as $$
+declare
+  v_role text := public.colab_role(p_colab_id, auth.uid());
+  v_override jsonb;
+begin
+  if v_role is null then return false; end if;
+  if v_role = 'owner' then return true; end if;
+  if p_perm = 'colab.delete' then return false; end if;
+  if v_role = 'viewer' and p_perm <> 'copilot.use' then return false; end if;
+
+  select c.permission_overrides -> v_role -> p_perm into v_override from colabs c where c.id = p_colab_id;
+  if jsonb_typeof(v_override) = 'boolean' then return v_override::text::boolean; end if;
+  return public.colab_default_can(v_role, p_perm);
+end;
+$$;
+
+-- files: uploading needs files.upload rather than any write access
+drop policy if exists "lab_commits insert" on public.lab_commits;
+create policy "lab_commits insert" on public.lab_commits for insert
+  with check (public.colab_can(lab_id, 'files.upload') and user_id = auth.uid());
+
+drop policy if exists "lab_files insert" on public.lab_files;
+create policy "lab_files insert" on public.lab_files for insert
+  with check (public.colab_can(lab_id, 'files.upload') and uploaded_by = auth.uid());
+
+drop policy if exists "colab-files write" on storage.objects;
+create policy "colab-files write" on storage.objects for insert
+  with check (bucket_id = 'colab-files' and public.colab_can((storage.foldername(name))[1]::uuid, 'files.upload'));
+drop policy if exists "colab-files overwrite" on storage.objects;
+
+-- notes: posting needs notes.create; others' notes are for notes.moderate.
+-- Restrictive policies narrow whatever the table already allows.
+drop policy if exists "research_notes insert permission" on public.research_notes;
+create policy "research_notes insert permission" on public.research_notes as restrictive for insert
+  with check (public.colab_can(colab_id, 'notes.create'));
+
+drop policy if exists "research_notes moderate update" on public.research_notes;
+create policy "research_notes moderate update" on public.research_notes for update
+  using (public.colab_can(colab_id, 'notes.moderate'));
+drop policy if exists "research_notes update permission" on public.research_notes;
+create policy "research_notes update permission" on public.research_notes as restrictive for update
+  using (user_id = auth.uid() or public.colab_can(colab_id, 'notes.moderate'));
+
+drop policy if exists "research_notes moderate delete" on public.research_notes;
+create policy "research_notes moderate delete" on public.research_notes for delete
+  using (public.colab_can(colab_id, 'notes.moderate'));
+drop policy if exists "research_notes delete permission" on public.research_notes;
+create policy "research_notes delete permission" on public.research_notes as restrictive for delete
+  using (user_id = auth.uid() or public.colab_can(colab_id, 'notes.moderate'));
+
+-- overrides change through /api/colabs/[id]/permissions (service role)
+create or replace function public.guard_permission_overrides() returns trigger
+language plpgsql as $$
+begin
+  if auth.uid() is not null and new.permission_overrides is distinct from old.permission_overrides then
+    raise exception 'Change permissions through the colab settings';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists colabs_guard_permission_overrides on public.colabs;
+create trigger colabs_guard_permission_overrides
+  before update on public.colabs
+  for each row execute function public.guard_permission_overrides();
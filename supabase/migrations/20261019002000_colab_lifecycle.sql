@@ -0,0 +1,115 @@
+-- Colab lifecycle (see app/lib/colab-lifecycle.ts): owners can hand a colab
+-- to another member, archive it (read-only for everyone) and delete it into
+-- a 30-day trash. Everything that changes ownership or removes data runs in
+-- the functions below, each one transaction, called with the service role.
+
+alter table public.colabs
+  add column if not exists archived_at timestamptz,
+  add column if not exists archived_by uuid references auth.users(id) on delete set null,
+  add column if not exists deleted_at timestamptz,
+  add column if not exists deleted_by uuid references auth.users(id) on delete set null;
+
+create index if not exists colabs_deleted_idx on public.colabs (deleted_at) where deleted_at is not null;
+
+-- trashed colabs are invisible; archived ones stay readable
+create or replace function public.can_read_colab(p_colab_id uuid) returns boolean
+language sql stable security definer set search_path = public as $$
+  select exists (
+    select 1 from colabs c
+    where c.id = p_colab_id
+      and c.deleted_at is null
+      and (c.is_public or c.owner_id = auth.uid() or exists (
+        select 1 from colab_members m
+        where m.colab_id = c.id and m.user_id = auth.uid() and m.status = 'accepted'
+      ))
+  )
+$$;
+
+create or replace function public.can_write_colab(p_colab_id uuid) returns boolean
+language sql stable security definer set search_path = public as $$
+  select exists (
+    select 1 from colabs c
+    where c.id = p_colab_id
+      and c.archived_at is null
+      and c.deleted_at is null
+      and (c.owner_id = auth.uid() or exists (
+        select 1 from colab_members m
+        where m.colab_id = c.id and m.user_id = auth.uid()
+          and m.status = 'accepted' and m.role <> 'viewer'
+      ))
+  )
+$$;
+
+-- as in 20261019001900_permissions.sql, plus: an archived colab keeps only colab.delete
+create or replace function public.colab_can(p_colab_id uuid, p_perm text) returns boolean
+language plpgsql stable security definer set search_path = public as $$
+declare
+  v_role text := public.colab_role(p_colab_id, auth.uid());
+  v_colab colabs%rowtype;
+  v_override jsonb;
+begin
+  if v_role is null then return false; end if;
+  select * into v_colab from colabs c where c.id = p_colab_id;
+  if v_colab.deleted_at is not null then return false; end if;
+  if v_colab.archived_at is not null and p_perm <> 'colab.delete' then return false; end if;
+  if v_role = 'owner' then return true; end if;
+  if p_perm = 'colab.delete' then return false; end if;
+  if v_role = 'viewer' and p_perm <> 'copilot.use' then return false; end if;
+
+  v_override := v_colab.permission_overrides -> v_role -> p_perm;
+  if jsonb_typeof(v_override) = 'boolean' then return v_override::text::boolean; end if;
+  return public.colab_default_can(v_role, p_perm);
+end;
+$$;
+
+-- Restrictive policies narrow whatever the table already allows: trashed rows
+-- are hidden, archived ones frozen, and deleting goes through purge_colab.
+drop policy if exists "colabs hide trashed" on public.colabs;
+create policy "colabs hide trashed" on public.colabs as restrictive for select
+  using (deleted_at is null);
+drop policy if exists "colabs frozen when archived" on public.colabs;
+create policy "colabs frozen when archived" on public.colabs as restrictive for update
+  using (archived_at is null and deleted_at is null);
+drop policy if exists "colabs delete server only" on public.colabs;
+create policy "colabs delete server only" on public.colabs as restrictive for delete
+  using (false);
+
+-- Hand the colab to an accepted member; the previous owner stays on as
+-- maintainer. Ownership is owner_id alone, so the new owner's member row is
+-- kept as a maintainer row (never 'owner') for whenever they hand it on.
+create or replace function public.transfer_colab_ownership(p_colab_id uuid, p_from uuid, p_to uuid) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  perform 1 from colabs where id = p_colab_id and owner_id = p_from and deleted_at is null for update;
+  if not found then raise exception 'Colab not found or not owned by %', p_from; end if;
+
+  update colab_members set role = 'maintainer'
+    where colab_id = p_colab_id and user_id = p_to and status = 'accepted';
+  if not found then raise exception 'The new owner must be an accepted member'; end if;
+
+  insert into colab_members (colab_id, user_id, role, status)
+    values (p_colab_id, p_from, 'maintainer', 'accepted')
+    on conflict (colab_id, user_id) do update set role = 'maintainer', status = 'accepted';
+
+  update colabs set owner_id = p_to where id = p_colab_id;
+end;
+$$;
+
+-- Remove a colab and everything hanging off it. Tables from these migrations
+-- cascade from colabs; the older ones are cleared explicitly.
+create or replace function public.purge_colab(p_colab_id uuid) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  delete from ai_messages where chat_id in (select id from ai_chats where colab_id = p_colab_id);
+  delete from ai_chats where colab_id = p_colab_id;
+  delete from ai_memories where colab_id = p_colab_id;
+  delete from research_notes where colab_id = p_colab_id;
+  delete from colab_members where colab_id = p_colab_id;
+  delete from colabs where id = p_colab_id;
+end;
+$$;
+
+revoke all on function public.transfer_colab_ownership(uuid, uuid, uuid) from public, anon, authenticated;
+grant execute on function public.transfer_colab_ownership(uuid, uuid, uuid) to service_role;
+revoke all on function public.purge_colab(uuid) from public, anon, authenticated;
+grant execute on function public.purge_colab(uuid) to service_role;
@@ -0,0 +1,101 @@
+-- Stable colab URLs (see app/lib/slugs.ts): slugs are unique, taking a -2,
+-- -3, … suffix on collision, every slug a colab gives up is kept in
+-- colab_slug_history so old /colab/<slug> links redirect, and an owner can
+-- pin a custom slug that renames leave alone.
+
+alter table public.colabs
+  add column if not exists slug_pinned boolean not null default false;
+
+create table if not exists public.colab_slug_history (
+  slug text primary key,
+  colab_id uuid not null references public.colabs(id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists colab_slug_history_colab_idx on public.colab_slug_history (colab_id);
+
+alter table public.colab_slug_history enable row level security;
+
+drop policy if exists "slug history readable with colab" on public.colab_slug_history;
+create policy "slug history readable with colab" on public.colab_slug_history for select
+  using (public.can_read_colab(colab_id));
+-- rows are written by the trigger below only
+
+-- Same rules as slugify() in app/lib/slugs.ts.
+create or replace function public.slugify(p_text text) returns text
+language sql immutable as $$
+  -- trimmed again after the cut, which can end on a dash
+  select coalesce(nullif(trim(both '-' from left(trim(both '-' from regexp_replace(lower(coalesce(p_text, '')), '[^a-z0-9]+', '-', 'g')), 60)), ''), 'colab')
+$$;
+
+-- Existing duplicates (older colabs that took the same name) keep the slug on
+-- the oldest row; the rest get suffixed so the unique index can be built.
+with ranked as (
+  select id, slug, row_number() over (partition by slug order by created_at, id) as n
+  from public.colabs
+)
+update public.colabs c set slug = rtrim(left(r.slug, 51), '-') || '-' || left(r.id::text, 8)
+from ranked r
+where c.id = r.id and r.n > 1;
+
+create unique index if not exists colabs_slug_unique_idx on public.colabs (slug);
+
+-- Normalise and de-duplicate the slug on every write, and remember the one
+-- being replaced. Pinning, and changing a pinned slug, go through the server
+-- (the owner's slug route); clients writing directly can do neither.
+create or replace function public.assign_colab_slug() returns trigger
+language plpgsql security definer set search_path = public as $$
+declare
+  v_base text;
+  v_candidate text;
+  v_n int := 1;
+begin
+  if tg_op = 'INSERT' then
+    if auth.uid() is not null then new.slug_pinned := false; end if;
+  else
+    if auth.uid() is not null then
+      new.slug_pinned := old.slug_pinned;
+      if old.slug_pinned then new.slug := old.slug; end if;
+    end if;
+    if new.slug is not distinct from old.slug then return new; end if;
+  end if;
+
+  v_base := public.slugify(coalesce(nullif(new.slug, ''), new.name));
+  v_candidate := v_base;
+  while exists (select 1 from colabs where slug = v_candidate and id <> new.id)
+     or exists (select 1 from colab_slug_history where slug = v_candidate and colab_id <> new.id) loop
+    v_n := v_n + 1;
+    v_candidate := rtrim(left(v_base, 60 - length(v_n::text) - 1), '-') || '-' || v_n;
+  end loop;
+  new.slug := v_candidate;
+
+  if tg_op = 'UPDATE' and new.slug <> old.slug then
+    insert into colab_slug_history (slug, colab_id) values (old.slug, new.id)
+      on conflict (slug) do update set colab_id = excluded.colab_id, created_at = now();
+    -- taking back one of its own earlier slugs
+    delete from colab_slug_history where slug = new.slug and colab_id = new.id;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists colabs_assign_slug on public.colabs;
+create trigger colabs_assign_slug
+  before insert or update of slug, slug_pinned on public.colabs
+  for each row execute function public.assign_colab_slug();
+
+-- A slug → the colab's current slug, if the caller can read that colab.
+create or replace function public.resolve_colab_slug(p_slug text) returns text
+language sql stable security definer set search_path = public as $$
+  select slug from (
+    select c.slug, 0 as rank from colabs c where c.slug = p_slug and public.can_read_colab(c.id)
+    union all
+    select c.slug, 1 from colab_slug_history h join colabs c on c.id = h.colab_id
+    where h.slug = p_slug and public.can_read_colab(c.id)
+  ) found
+  order by rank
+  limit 1
+$$;
+
+revoke all on function public.resolve_colab_slug(text) from public, anon;
+grant execute on function public.resolve_colab_slug(text) to authenticated, service_role;
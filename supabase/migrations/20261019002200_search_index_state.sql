@@ -0,0 +1,82 @@
+-- When a colab's search index needs a sync (see app/lib/search). Writes to
+-- the indexed tables mark the colab dirty; a search syncs only a dirty index
+-- (or one built with another embedding model), and at most one sync per colab
+-- is started every debounce interval however many searches arrive.
+
+create table if not exists public.search_index_state (
+  colab_id uuid primary key references public.colabs(id) on delete cascade,
+  dirty_at timestamptz not null default now(),
+  -- claim time of the last completed sync; writes after it leave the index dirty
+  synced_at timestamptz,
+  model text,
+  claimed_at timestamptz
+);
+
+alter table public.search_index_state enable row level security;
+revoke all on public.search_index_state from anon, authenticated;
+
+-- tg_argv[0]: the column holding the colab id
+create or replace function public.mark_search_index_dirty() returns trigger
+language plpgsql security definer set search_path = public as $$
+declare
+  v_row jsonb;
+  v_colab uuid;
+begin
+  if tg_op = 'DELETE' then v_row := to_jsonb(old); else v_row := to_jsonb(new); end if;
+  v_colab := (v_row ->> tg_argv[0])::uuid;
+  -- rows cascading from a deleted colab have nothing left to index
+  insert into search_index_state (colab_id, dirty_at)
+    select v_colab, now() where exists (select 1 from colabs where id = v_colab)
+    on conflict (colab_id) do update set dirty_at = excluded.dirty_at;
+  return null;
+end;
+$$;
+
+drop trigger if exists research_notes_search_dirty on public.research_notes;
+create trigger research_notes_search_dirty
+  after insert or update or delete on public.research_notes
+  for each row execute function public.mark_search_index_dirty('colab_id');
+
+drop trigger if exists colab_references_search_dirty on public.colab_references;
+create trigger colab_references_search_dirty
+  after insert or update or delete on public.colab_references
+  for each row execute function public.mark_search_index_dirty('colab_id');
+
+drop trigger if exists ai_memories_search_dirty on public.ai_memories;
+create trigger ai_memories_search_dirty
+  after insert or update or delete on public.ai_memories
+  for each row execute function public.mark_search_index_dirty('colab_id');
+
+-- discarding a commit cascades to its files
+drop trigger if exists lab_files_search_dirty on public.lab_files;
+create trigger lab_files_search_dirty
+  after insert or delete on public.lab_files
+  for each row execute function public.mark_search_index_dirty('lab_id');
+
+drop trigger if exists colabs_search_dirty on public.colabs;
+create trigger colabs_search_dirty
+  after update of name, readme on public.colabs
+  for each row execute function public.mark_search_index_dirty('id');
+
+-- Claim the colab's next sync. `claim` is set when the caller should sync
+-- now (and later record it as synced_at); `pending` says whether the index
+-- is out of date at all, claimed or not.
+create or replace function public.claim_search_index_sync(p_colab_id uuid, p_model text, p_debounce interval)
+returns table (claim timestamptz, pending boolean)
+language plpgsql security definer set search_path = public as $$
+declare
+  v_state search_index_state;
+begin
+  insert into search_index_state (colab_id) values (p_colab_id) on conflict (colab_id) do nothing;
+  select * into v_state from search_index_state where colab_id = p_colab_id for update;
+  pending := v_state.synced_at is null or v_state.dirty_at >= v_state.synced_at or v_state.model is distinct from p_model;
+  if pending and (v_state.claimed_at is null or v_state.claimed_at < now() - p_debounce) then
+    claim := now();
+    update search_index_state set claimed_at = claim where colab_id = p_colab_id;
+  end if;
+  return next;
+end;
+$$;
+
+revoke all on function public.claim_search_index_sync(uuid, text, interval) from public, anon, authenticated;
+grant execute on function public.claim_search_index_sync(uuid, text, interval) to service_role;
@@ -0,0 +1,18 @@
+-- The readme:<id> channel of the collaborative README editor (see
+-- components/colab/ReadmeEditor.tsx) is private. Anyone who can read the
+-- colab may listen; only people with readme.edit may send, which covers Yjs
+-- updates, the state-vector exchange that answers with the whole document,
+-- and their caret in presence. (Lives here rather than next to the README
+-- tables because it needs colab_can.)
+
+do $$
+begin
+  drop policy if exists "readme channel receive" on realtime.messages;
+  create policy "readme channel receive" on realtime.messages for select to authenticated
+    using (extension in ('presence', 'broadcast') and public.can_read_colab(public.realtime_topic_colab('readme')));
+  drop policy if exists "readme channel send" on realtime.messages;
+  create policy "readme channel send" on realtime.messages for insert to authenticated
+    with check (extension in ('presence', 'broadcast') and public.colab_can(public.realtime_topic_colab('readme'), 'readme.edit'));
+exception
+  when undefined_table or invalid_schema_name then null;  -- no Realtime (plain Postgres)
+end $$;